@@ -0,0 +1,276 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import yargs from 'yargs/yargs';
+import { Argv } from 'yargs';
+import { getErrorMessage } from '@enfiy/core';
+import { loadSettings, SettingScope } from '../config/settings.js';
+import { isExtensionCompatible } from '../config/extension.js';
+import {
+  computeExtensionIntegrity,
+  ExtensionScope,
+  findInstalledExtension,
+  installExtension,
+  listInstalledExtensions,
+  uninstallExtension,
+  updateExtension,
+} from '../config/extensionManager.js';
+import { getCliVersion } from '../utils/version.js';
+
+const SETTING_SCOPES: Record<ExtensionScope, SettingScope> = {
+  user: SettingScope.User,
+  workspace: SettingScope.Workspace,
+};
+
+function withScope<T>(argv: Argv<T>, description: string) {
+  return argv.option('scope', {
+    type: 'string',
+    choices: ['user', 'workspace'] as const,
+    description,
+  });
+}
+
+async function listExtensions(workspaceDir: string): Promise<void> {
+  const installed = listInstalledExtensions(workspaceDir);
+  if (installed.length === 0) {
+    console.log('No extensions installed.');
+    return;
+  }
+  const cliVersion = await getCliVersion();
+  const disabled = loadSettings(workspaceDir).merged.disabledExtensions ?? [];
+
+  console.log('Installed extensions:\n');
+  for (const { extension, scope } of installed) {
+    const { config, installMetadata } = extension;
+    const notes: string[] = [scope];
+    if (disabled.includes(config.name)) {
+      notes.push('disabled');
+    }
+    if (!isExtensionCompatible(config, cliVersion)) {
+      notes.push(`requires Enfiy Code ${config.engines?.enfiy}`);
+    }
+    if (
+      installMetadata &&
+      computeExtensionIntegrity(extension.path) !== installMetadata.integrity
+    ) {
+      notes.push('modified since installed');
+    }
+    console.log(`${config.name} ${config.version} (${notes.join(', ')})`);
+    console.log(`  Path: ${extension.path}`);
+    if (installMetadata) {
+      console.log(
+        `  Source: ${installMetadata.source} (${installMetadata.type})`,
+      );
+      if (installMetadata.versionRange) {
+        console.log(`  Version range: ${installMetadata.versionRange}`);
+      }
+      console.log(`  Integrity: ${installMetadata.integrity}`);
+    }
+    const mcpServers = Object.keys(config.mcpServers ?? {});
+    if (mcpServers.length > 0) {
+      console.log(`  MCP servers: ${mcpServers.join(', ')}`);
+    }
+    console.log('');
+  }
+}
+
+function setExtensionDisabled(
+  name: string,
+  workspaceDir: string,
+  disabled: boolean,
+  scope: ExtensionScope | undefined,
+): void {
+  if (!findInstalledExtension(name, workspaceDir)) {
+    throw new Error(`Extension '${name}' is not installed.`);
+  }
+  const settings = loadSettings(workspaceDir);
+  // Enabling without a scope enables it in both, as either disables it.
+  const scopes: ExtensionScope[] = scope
+    ? [scope]
+    : disabled
+      ? ['user']
+      : ['user', 'workspace'];
+  for (const settingScope of scopes.map((s) => SETTING_SCOPES[s])) {
+    const current =
+      settings.forScope(settingScope).settings.disabledExtensions ?? [];
+    const updated = disabled
+      ? [...new Set([...current, name])]
+      : current.filter((disabledName) => disabledName !== name);
+    if (updated.length !== current.length) {
+      settings.setValue(
+        settingScope,
+        'disabledExtensions',
+        updated.length > 0 ? updated : undefined,
+      );
+    }
+  }
+  console.log(
+    `Extension '${name}' ${disabled ? 'disabled' : 'enabled'}. It takes effect the next time Enfiy Code starts.`,
+  );
+}
+
+/**
+ * Runs `enfiy extensions <command>`, with the arguments after `extensions`
+ */
+export async function runExtensionsCommand(args: string[]): Promise<void> {
+  const workspaceDir = process.cwd();
+  const cliVersion = await getCliVersion();
+
+  await yargs(args)
+    .scriptName('enfiy extensions')
+    .usage('$0 <command>')
+    .command(
+      'install <source>',
+      'Install an extension from a local directory, a git URL (with an optional #ref) or a tarball path or URL',
+      (argv) =>
+        withScope(argv, 'Install for the user or the workspace')
+          .positional('source', { type: 'string', demandOption: true })
+          .option('version', {
+            type: 'string',
+            description:
+              'Versions of the extension to accept, now and on update, e.g. "^1.2.0"',
+          })
+          .option('integrity', {
+            type: 'string',
+            description:
+              'Expected sha256 integrity of the extension files, as shown by list',
+          }),
+      async (argv) => {
+        const extension = await installExtension(argv.source, {
+          scope: argv.scope ?? 'user',
+          workspaceDir,
+          cliVersion,
+          versionRange: argv.version,
+          integrity: argv.integrity,
+        });
+        console.log(
+          `Installed extension '${extension.config.name}' ${extension.config.version} to ${extension.path}.`,
+        );
+        console.log(`Integrity: ${extension.installMetadata?.integrity}`);
+      },
+    )
+    .command(
+      'list',
+      'List installed extensions',
+      (argv) => argv,
+      () => listExtensions(workspaceDir),
+    )
+    .command(
+      'update [names..]',
+      'Update extensions from where they were installed from, all of them if no name is given',
+      (argv) =>
+        withScope(argv, 'Only update extensions of the user or the workspace')
+          .positional('names', { type: 'string', array: true })
+          .option('integrity', {
+            type: 'string',
+            description:
+              'Expected sha256 integrity of the updated extension files',
+          }),
+      async (argv) => {
+        const names = argv.names?.length
+          ? argv.names
+          : [
+              ...new Set(
+                listInstalledExtensions(workspaceDir)
+                  .filter(
+                    ({ extension, scope }) =>
+                      extension.installMetadata &&
+                      (!argv.scope || scope === argv.scope),
+                  )
+                  .map(({ extension }) => extension.config.name),
+              ),
+            ];
+        if (names.length === 0) {
+          console.log('No installed extensions to update.');
+          return;
+        }
+        let failed = false;
+        for (const name of names) {
+          try {
+            const result = await updateExtension(name, {
+              scope: argv.scope,
+              workspaceDir,
+              cliVersion,
+              integrity: argv.integrity,
+            });
+            const version = result.extension.config.version;
+            if (!result.updated) {
+              console.log(`Extension '${name}' is up to date.`);
+            } else if (version === result.previousVersion) {
+              console.log(`Reinstalled extension '${name}' ${version}.`);
+            } else {
+              console.log(
+                `Updated extension '${name}' from ${result.previousVersion} to ${version}.`,
+              );
+            }
+          } catch (error) {
+            console.error(getErrorMessage(error));
+            failed = true;
+          }
+        }
+        if (failed) {
+          process.exitCode = 1;
+        }
+      },
+    )
+    .command(
+      'uninstall <name>',
+      'Uninstall an extension',
+      (argv) =>
+        withScope(
+          argv,
+          'Uninstall from the user or the workspace; the workspace is tried first',
+        ).positional('name', { type: 'string', demandOption: true }),
+      (argv) => {
+        const { extension } = uninstallExtension(
+          argv.name,
+          workspaceDir,
+          argv.scope,
+        );
+        console.log(
+          `Uninstalled extension '${argv.name}' from ${extension.path}.`,
+        );
+      },
+    )
+    .command(
+      'enable <name>',
+      'Enable a disabled extension',
+      (argv) =>
+        withScope(
+          argv,
+          'Enable in the user or the workspace settings; both by default',
+        ).positional('name', { type: 'string', demandOption: true }),
+      (argv) =>
+        setExtensionDisabled(argv.name, workspaceDir, false, argv.scope),
+    )
+    .command(
+      'disable <name>',
+      'Disable an extension without uninstalling it',
+      (argv) =>
+        withScope(
+          argv,
+          'Disable in the user or the workspace settings; the user settings by default',
+        ).positional('name', { type: 'string', demandOption: true }),
+      (argv) => setExtensionDisabled(argv.name, workspaceDir, true, argv.scope),
+    )
+    .demandCommand(1, 'Specify a command.')
+    .version(false)
+    .help()
+    .alias('h', 'help')
+    .strict()
+    .fail((message, error, argv) => {
+      if (error) {
+        throw error;
+      }
+      argv.showHelp();
+      console.error(`\n${message}`);
+      process.exitCode = 1;
+    })
+    .parseAsync()
+    .catch((error) => {
+      console.error(getErrorMessage(error));
+      process.exitCode = 1;
+    });
+}
@@ -6,7 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as os from 'os';
-import { loadCliConfig } from './config.js';
+import { loadCliConfig, parseArguments } from './config.js';
 import { Settings } from './settings.js';
 import { Extension } from './extension.js';
 import * as ServerConfig from '@enfiy/core';
@@ -88,6 +88,76 @@ describe('loadCliConfig', () => {
     const config = await loadCliConfig(settings, [], 'test-session');
     expect(config.getShowMemoryUsage()).toBe(true);
   });
+
+  it('should use arguments that were already parsed', async () => {
+    process.argv = ['node', 'script.js', '--show_memory_usage'];
+    const argv = await parseArguments();
+    process.argv = ['node', 'script.js'];
+
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getShowMemoryUsage()).toBe(true);
+  });
+});
+
+describe('loadCliConfig headless flags', () => {
+  const originalArgv = process.argv;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/user/home');
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    vi.restoreAllMocks();
+  });
+
+  it('should take the approval mode and turn limit from flags', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--approval-mode',
+      'autoEdit',
+      '--max-turns',
+      '5',
+    ];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getApprovalMode()).toBe(ServerConfig.ApprovalMode.AUTO_EDIT);
+    expect(config.getMaxTurns()).toBe(5);
+  });
+
+  it('should turn allowed and disallowed tools into permission rules', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--allowed-tools',
+      'read_file,run_shell_command(git log, git status)',
+      'write_file(src/**)',
+      '--disallowed-tools',
+      'web_fetch',
+    ];
+    const settings: Settings = {
+      permissions: { rules: [{ decision: 'ask', tool: 'replace' }] },
+    };
+    const config = await loadCliConfig(settings, [], 'test-session');
+    expect(config.getPermissionPolicy().getRules()).toEqual([
+      { decision: 'deny', tool: 'web_fetch', source: 'cli' },
+      { decision: 'allow', tool: 'read_file', source: 'cli' },
+      {
+        decision: 'allow',
+        tool: 'run_shell_command',
+        command: 'git log, git status',
+        source: 'cli',
+      },
+      {
+        decision: 'allow',
+        tool: 'write_file',
+        path: 'src/**',
+        source: 'cli',
+      },
+      { decision: 'ask', tool: 'replace' },
+    ]);
+  });
 });
 
 describe('loadCliConfig telemetry', () => {
@@ -266,6 +336,7 @@ describe('Hierarchical Memory Loading (config.ts) - Placeholder Suite', () => {
           version: '1.0.0',
         },
         contextFiles: ['/path/to/ext1/GEMINI.md'],
+        path: '/path/to/ext1',
       },
       {
         config: {
@@ -273,6 +344,7 @@ describe('Hierarchical Memory Loading (config.ts) - Placeholder Suite', () => {
           version: '1.0.0',
         },
         contextFiles: [],
+        path: '/path/to/ext2',
       },
       {
         config: {
@@ -283,6 +355,7 @@ describe('Hierarchical Memory Loading (config.ts) - Placeholder Suite', () => {
           '/path/to/ext3/context1.md',
           '/path/to/ext3/context2.md',
         ],
+        path: '/path/to/ext3',
       },
     ];
     await loadCliConfig(settings, extensions, 'session-id');
@@ -342,6 +415,7 @@ describe('mergeMcpServers', () => {
           },
         },
         contextFiles: [],
+        path: '/path/to/ext1',
       },
     ];
     const originalSettings = JSON.parse(JSON.stringify(settings));
@@ -16,8 +16,10 @@ import {
   setEnfiyMdFilename as setServerEnfiyMdFilename,
   getCurrentEnfiyMdFilename,
   ApprovalMode,
+  OutputFormat,
   ENFIY_CONFIG_DIR as ENFIY_DIR,
   DEFAULT_ENFIY_EMBEDDING_MODEL,
+  DEFAULT_OLLAMA_EMBEDDING_MODEL,
   DEFAULT_ENFIY_MODEL,
   DEFAULT_GEMINI_MODEL,
   DEFAULT_OPENAI_MODEL,
@@ -25,6 +27,10 @@ import {
   FileDiscoveryService,
   TelemetryTarget,
   getCompatibleModel,
+  ProviderConfig,
+  ProviderType,
+  PermissionRule,
+  parsePermissionRuleSpec,
 } from '@enfiy/core';
 import { Settings } from './settings.js';
 
@@ -35,6 +41,10 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { loadSandboxConfig } from './sandboxConfig.js';
+import {
+  getMcpOAuthCredentials,
+  storeMcpOAuthCredentials,
+} from '../utils/secureStorage.js';
 
 // Simple console logger for now - replace with actual logger if available
 const logger = {
@@ -46,12 +56,19 @@ const logger = {
   error: (...args: any[]) => console.error('[ERROR]', ...args),
 };
 
-interface CliArgs {
+export interface CliArgs {
   model: string | undefined;
   sandbox: boolean | string | undefined;
   'sandbox-image': string | undefined;
   debug: boolean | undefined;
   prompt: string | undefined;
+  outputFormat: string | undefined;
+  allowedTools: string[] | undefined;
+  disallowedTools: string[] | undefined;
+  maxTurns: number | undefined;
+  approvalMode: string | undefined;
+  resume: string | undefined;
+  continue: boolean | undefined;
   all_files: boolean | undefined;
   show_memory_usage: boolean | undefined;
   auto: boolean | undefined;
@@ -62,10 +79,13 @@ interface CliArgs {
   telemetryLogPrompts: boolean | undefined;
 }
 
-async function parseArguments(): Promise<CliArgs> {
+export async function parseArguments(): Promise<CliArgs> {
   const argv = await yargs(hideBin(process.argv))
     .usage('$0 [options]')
-    .group(['model', 'prompt'], 'Basic Options:')
+    .group(
+      ['model', 'prompt', 'output-format', 'resume', 'continue'],
+      'Basic Options:',
+    )
     .option('model', {
       alias: 'm',
       type: 'string',
@@ -76,6 +96,22 @@ async function parseArguments(): Promise<CliArgs> {
       type: 'string',
       description: 'Initial prompt (appended to stdin input)',
     })
+    .option('output-format', {
+      type: 'string',
+      choices: ['text', 'json', 'stream-json'],
+      description:
+        'Non-interactive output: text, a JSON result or JSON events per line',
+      default: 'text',
+    })
+    .option('resume', {
+      type: 'string',
+      description: 'Continue a saved session by id or tag',
+    })
+    .option('continue', {
+      type: 'boolean',
+      description: 'Continue the most recent session in this project',
+    })
+    .conflicts('resume', 'continue')
     .group(['sandbox', 'sandbox-image'], 'Sandbox Options:')
     .option('sandbox', {
       alias: 's',
@@ -98,7 +134,18 @@ async function parseArguments(): Promise<CliArgs> {
       description: 'Display memory usage in status bar',
       default: false,
     })
-    .group(['all_files', 'checkpointing', 'auto'], 'Workflow Options:')
+    .group(
+      [
+        'all_files',
+        'checkpointing',
+        'auto',
+        'approval-mode',
+        'allowed-tools',
+        'disallowed-tools',
+        'max-turns',
+      ],
+      'Workflow Options:',
+    )
     .option('all_files', {
       alias: 'a',
       type: 'boolean',
@@ -117,6 +164,27 @@ async function parseArguments(): Promise<CliArgs> {
       description: 'Automatically approve all AI actions without confirmation',
       default: false,
     })
+    .option('approval-mode', {
+      type: 'string',
+      choices: Object.values(ApprovalMode),
+      description:
+        'Which tool calls run without confirmation; in non-interactive mode the others are rejected',
+    })
+    .option('allowed-tools', {
+      type: 'array',
+      string: true,
+      description:
+        'Tools allowed without confirmation, e.g. read_file "run_shell_command(git *)"',
+    })
+    .option('disallowed-tools', {
+      type: 'array',
+      string: true,
+      description: 'Tools whose calls are always rejected',
+    })
+    .option('max-turns', {
+      type: 'number',
+      description: 'Stop a non-interactive run after this many model requests',
+    })
     .group(
       [
         'telemetry',
@@ -151,7 +219,24 @@ async function parseArguments(): Promise<CliArgs> {
     .example('$0 -m "gpt-4o"', 'Use specific model')
     .example('$0 -p "Review my code"', 'Start with a prompt')
     .example('$0 --auto', 'Auto-approve all actions')
+    .example(
+      '$0 -p "Fix the tests" --output-format stream-json',
+      'Stream JSON events for scripts and CI',
+    )
+    .example('$0 --continue', 'Continue the last session')
     .epilog('For more information, visit: https://github.com/enfiy/enfiy-code')
+    .check((argv) => {
+      const maxTurns = argv['max-turns'];
+      if (
+        maxTurns !== undefined &&
+        !(Number.isInteger(maxTurns) && maxTurns > 0)
+      ) {
+        throw new Error('--max-turns must be a positive integer');
+      }
+      // Throws on malformed tool rules.
+      getCliPermissionRules(argv as unknown as CliArgs);
+      return true;
+    })
     .strict().argv;
 
   return argv;
@@ -185,6 +270,7 @@ export async function loadCliConfig(
   settings: Settings,
   extensions: Extension[],
   sessionId: string,
+  parsedArgs?: CliArgs,
 ): Promise<Config> {
   loadEnvironment();
 
@@ -198,7 +284,7 @@ export async function loadCliConfig(
     console.error('Could not load API keys from secure storage:', error);
   }
 
-  const argv = await parseArguments();
+  const argv = parsedArgs ?? (await parseArguments());
   const debugMode = argv.debug || false;
 
   // Set the context filename in the server's memoryTool module BEFORE loading memory
@@ -227,13 +313,20 @@ export async function loadCliConfig(
 
   const sandboxConfig = await loadSandboxConfig(settings, argv);
 
+  const model = resolveModelWithSmartFallback(argv.model, settings);
+
   return new Config({
     sessionId,
-    embeddingModel: DEFAULT_ENFIY_EMBEDDING_MODEL,
+    embeddingModel:
+      settings.embeddingModel ??
+      (settings.selectedProvider === ProviderType.OLLAMA
+        ? DEFAULT_OLLAMA_EMBEDDING_MODEL
+        : DEFAULT_ENFIY_EMBEDDING_MODEL),
     sandbox: sandboxConfig,
     targetDir: process.cwd(),
     debugMode,
     question: argv.prompt || '',
+    outputFormat: argv.outputFormat as OutputFormat,
     fullContext: argv.all_files || false,
     coreTools: settings.coreTools || undefined,
     excludeTools: settings.excludeTools || undefined,
@@ -241,12 +334,28 @@ export async function loadCliConfig(
     toolCallCommand: settings.toolCallCommand,
     mcpServerCommand: settings.mcpServerCommand,
     mcpServers,
+    mcpOAuthStorage: {
+      getCredentials: getMcpOAuthCredentials,
+      saveCredentials: storeMcpOAuthCredentials,
+    },
     userMemory: memoryContent,
     enfiyMdFileCount: fileCount,
-    approvalMode: argv.auto ? ApprovalMode.AUTO : ApprovalMode.DEFAULT,
+    approvalMode:
+      (argv.approvalMode as ApprovalMode | undefined) ??
+      (argv.auto ? ApprovalMode.AUTO : ApprovalMode.DEFAULT),
     showMemoryUsage:
       argv.show_memory_usage || settings.showMemoryUsage || false,
     accessibility: settings.accessibility,
+    reasoning: settings.reasoning,
+    usageBudget: settings.usageBudget,
+    permissionRules: [
+      ...getCliPermissionRules(argv),
+      ...(settings.permissions?.rules ?? []),
+    ],
+    maxTurns: argv.maxTurns,
+    resumeSessionId: argv.resume,
+    continueSession: argv.continue,
+    maxConcurrentToolCalls: settings.maxConcurrentToolCalls,
     telemetry: {
       enabled: argv.telemetry ?? settings.telemetry?.enabled,
       target: (argv.telemetryTarget ??
@@ -273,12 +382,62 @@ export async function loadCliConfig(
     cwd: process.cwd(),
     fileDiscoveryService: fileService,
     bugCommand: settings.bugCommand,
-    model: resolveModelWithSmartFallback(argv.model, settings),
+    model,
     extensionContextFilePaths,
     selectedProvider: settings.selectedProvider,
+    providerConfig: getOpenAICompatibleProviderConfig(settings, model),
   });
 }
 
+/**
+ * Turns `--allowed-tools` and `--disallowed-tools` into permission rules.
+ * Each value may hold several comma-separated rules.
+ */
+function getCliPermissionRules(argv: CliArgs): PermissionRule[] {
+  const parse = (specs: string[] | undefined, decision: 'allow' | 'deny') =>
+    (specs ?? [])
+      .flatMap((spec) => spec.split(/,(?![^(]*\))/))
+      .filter((spec) => spec.trim())
+      .map((spec) => ({
+        ...parsePermissionRuleSpec(spec, decision),
+        source: 'cli' as const,
+      }));
+  return [
+    ...parse(argv.disallowedTools, 'deny'),
+    ...parse(argv.allowedTools, 'allow'),
+  ];
+}
+
+/**
+ * Builds the endpoint config for the OpenAI-compatible provider. The
+ * OPENAI_COMPATIBLE_BASE_URL environment variable takes precedence over
+ * settings and is seeded from them so that provider detection and the setup
+ * dialogs see the same endpoint.
+ */
+export function getOpenAICompatibleProviderConfig(
+  settings: Settings,
+  model: string,
+): ProviderConfig | undefined {
+  if (
+    settings.openaiCompatible?.baseUrl &&
+    !process.env.OPENAI_COMPATIBLE_BASE_URL
+  ) {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = settings.openaiCompatible.baseUrl;
+  }
+
+  if (settings.selectedProvider !== ProviderType.OPENAI_COMPATIBLE) {
+    return undefined;
+  }
+
+  return {
+    type: ProviderType.OPENAI_COMPATIBLE,
+    model,
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    headers: settings.openaiCompatible?.headers,
+  };
+}
+
 /**
  * Smart model resolution with fallback strategy
  */
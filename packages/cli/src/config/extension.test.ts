@@ -11,6 +11,8 @@ import * as path from 'path';
 import {
   EXTENSIONS_CONFIG_FILENAME,
   EXTENSIONS_DIRECTORY_NAME,
+  LEGACY_EXTENSIONS_CONFIG_FILENAME,
+  LEGACY_EXTENSIONS_DIRECTORY_NAME,
   loadExtensions,
 } from './extension.js';
 
@@ -41,7 +43,7 @@ describe('loadExtensions', () => {
     fs.rmSync(tempHomeDir, { recursive: true, force: true });
   });
 
-  it('should load context file path when GEMINI.md is present', () => {
+  it('should load context file path when ENFIY.md is present', () => {
     const workspaceExtensionsDir = path.join(
       tempWorkspaceDir,
       EXTENSIONS_DIRECTORY_NAME,
@@ -56,11 +58,70 @@ describe('loadExtensions', () => {
     const ext1 = extensions.find((e) => e.config.name === 'ext1');
     const ext2 = extensions.find((e) => e.config.name === 'ext2');
     expect(ext1?.contextFiles).toEqual([
-      path.join(workspaceExtensionsDir, 'ext1', 'GEMINI.md'),
+      path.join(workspaceExtensionsDir, 'ext1', 'ENFIY.md'),
     ]);
     expect(ext2?.contextFiles).toEqual([]);
   });
 
+  it('should load Gemini CLI extensions with GEMINI.md as context file', () => {
+    const legacyExtensionsDir = path.join(
+      tempHomeDir,
+      LEGACY_EXTENSIONS_DIRECTORY_NAME,
+    );
+    const extDir = path.join(legacyExtensionsDir, 'ext1');
+    fs.mkdirSync(extDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(extDir, LEGACY_EXTENSIONS_CONFIG_FILENAME),
+      JSON.stringify({ name: 'ext1', version: '1.0.0' }),
+    );
+    fs.writeFileSync(path.join(extDir, 'GEMINI.md'), 'context');
+
+    const extensions = loadExtensions(tempWorkspaceDir);
+
+    expect(extensions).toHaveLength(1);
+    expect(extensions[0].path).toBe(extDir);
+    expect(extensions[0].contextFiles).toEqual([
+      path.join(extDir, 'GEMINI.md'),
+    ]);
+  });
+
+  it('should prefer workspace extensions over user extensions of the same name', () => {
+    const workspaceExtensionsDir = path.join(
+      tempWorkspaceDir,
+      EXTENSIONS_DIRECTORY_NAME,
+    );
+    const userExtensionsDir = path.join(tempHomeDir, EXTENSIONS_DIRECTORY_NAME);
+    fs.mkdirSync(workspaceExtensionsDir, { recursive: true });
+    fs.mkdirSync(userExtensionsDir, { recursive: true });
+    createExtension(workspaceExtensionsDir, 'ext1', '2.0.0');
+    createExtension(userExtensionsDir, 'ext1', '1.0.0');
+
+    const extensions = loadExtensions(tempWorkspaceDir);
+
+    expect(extensions).toHaveLength(1);
+    expect(extensions[0].config.version).toBe('2.0.0');
+  });
+
+  it('should skip extensions that require another version of Enfiy Code', () => {
+    const workspaceExtensionsDir = path.join(
+      tempWorkspaceDir,
+      EXTENSIONS_DIRECTORY_NAME,
+    );
+    fs.mkdirSync(workspaceExtensionsDir, { recursive: true });
+    createExtension(workspaceExtensionsDir, 'ext1', '1.0.0');
+    fs.writeFileSync(
+      path.join(workspaceExtensionsDir, 'ext1', EXTENSIONS_CONFIG_FILENAME),
+      JSON.stringify({
+        name: 'ext1',
+        version: '1.0.0',
+        engines: { enfiy: '>=2.0.0' },
+      }),
+    );
+
+    expect(loadExtensions(tempWorkspaceDir, '1.5.0')).toHaveLength(0);
+    expect(loadExtensions(tempWorkspaceDir, '2.1.0')).toHaveLength(1);
+  });
+
   it('should load context file path from the extension config', () => {
     const workspaceExtensionsDir = path.join(
       tempWorkspaceDir,
@@ -100,7 +161,7 @@ function createExtension(
   );
 
   if (addContextFile) {
-    fs.writeFileSync(path.join(extDir, 'GEMINI.md'), 'context');
+    fs.writeFileSync(path.join(extDir, 'ENFIY.md'), 'context');
   }
 
   if (contextFileName) {
@@ -11,13 +11,31 @@ import { MCPServerConfig } from '@enfiy/core';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as semver from 'semver';
 
-export const EXTENSIONS_DIRECTORY_NAME = path.join('.gemini', 'extensions');
-export const EXTENSIONS_CONFIG_FILENAME = 'gemini-extension.json';
+export const EXTENSIONS_DIRECTORY_NAME = path.join('.enfiy', 'extensions');
+export const EXTENSIONS_CONFIG_FILENAME = 'enfiy-extension.json';
+
+/**
+ * Extensions written for Gemini CLI are still loaded from where it keeps
+ * them, with its default context file name.
+ */
+export const LEGACY_EXTENSIONS_DIRECTORY_NAME = path.join(
+  '.gemini',
+  'extensions',
+);
+export const LEGACY_EXTENSIONS_CONFIG_FILENAME = 'gemini-extension.json';
+
+/** Written by `enfiy extensions install` next to the extension config. */
+export const EXTENSION_INSTALL_METADATA_FILENAME = '.enfiy-install.json';
 
 export interface Extension {
   config: ExtensionConfig;
   contextFiles: string[];
+  /** Directory the extension was loaded from */
+  path: string;
+  /** Set for extensions installed with `enfiy extensions install` */
+  installMetadata?: ExtensionInstallMetadata;
 }
 
 export interface ExtensionConfig {
@@ -25,13 +43,37 @@ export interface ExtensionConfig {
   version: string;
   mcpServers?: Record<string, MCPServerConfig>;
   contextFileName?: string | string[];
+  /** Versions of Enfiy Code the extension works with, e.g. { "enfiy": ">=0.2.0" } */
+  engines?: { enfiy?: string };
+}
+
+export interface ExtensionInstallMetadata {
+  /** Local path, git URL or tarball path or URL it was installed from */
+  source: string;
+  type: 'local' | 'git' | 'tarball';
+  /** Versions `enfiy extensions update` may install, e.g. "^1.2.0" */
+  versionRange?: string;
+  /** Hash of the installed files, as a sha256 subresource integrity string */
+  integrity: string;
+  installedAt: string;
 }
 
-export function loadExtensions(workspaceDir: string): Extension[] {
+/**
+ * Loads the extensions of the workspace and of the user, the workspace's
+ * taking precedence over the user's of the same name. Extensions that do not
+ * support `cliVersion` are skipped.
+ */
+export function loadExtensions(
+  workspaceDir: string,
+  cliVersion?: string,
+): Extension[] {
   const allExtensions = [
     ...loadExtensionsFromDir(workspaceDir),
     ...loadExtensionsFromDir(os.homedir()),
-  ];
+  ].filter(
+    (extension) =>
+      !cliVersion || isExtensionCompatible(extension.config, cliVersion),
+  );
 
   const uniqueExtensions: Extension[] = [];
   const seenNames = new Set<string>();
@@ -46,31 +88,56 @@ export function loadExtensions(workspaceDir: string): Extension[] {
   return uniqueExtensions;
 }
 
-function loadExtensionsFromDir(dir: string): Extension[] {
-  const extensionsDir = path.join(dir, EXTENSIONS_DIRECTORY_NAME);
-  if (!fs.existsSync(extensionsDir)) {
-    return [];
+/**
+ * Check whether an extension supports this version of Enfiy Code
+ */
+export function isExtensionCompatible(
+  config: ExtensionConfig,
+  cliVersion: string,
+): boolean {
+  const range = config.engines?.enfiy;
+  if (!range || !semver.valid(cliVersion)) {
+    return true;
   }
+  return semver.satisfies(cliVersion, range, { includePrerelease: true });
+}
 
+export function loadExtensionsFromDir(dir: string): Extension[] {
   const extensions: Extension[] = [];
-  for (const subdir of fs.readdirSync(extensionsDir)) {
-    const extensionDir = path.join(extensionsDir, subdir);
+  for (const directoryName of [
+    EXTENSIONS_DIRECTORY_NAME,
+    LEGACY_EXTENSIONS_DIRECTORY_NAME,
+  ]) {
+    const extensionsDir = path.join(dir, directoryName);
+    if (!fs.existsSync(extensionsDir)) {
+      continue;
+    }
+
+    for (const subdir of fs.readdirSync(extensionsDir)) {
+      const extensionDir = path.join(extensionsDir, subdir);
 
-    const extension = loadExtension(extensionDir);
-    if (extension != null) {
-      extensions.push(extension);
+      const extension = loadExtension(extensionDir);
+      if (extension != null) {
+        extensions.push(extension);
+      }
     }
   }
   return extensions;
 }
 
-function loadExtension(extensionDir: string): Extension | null {
-  if (!fs.statSync(extensionDir).isDirectory()) {
-    // Warning: unexpected file ${extensionDir} in extensions directory.
-    return null;
+/**
+ * Reads the config of the extension in a directory, returning null if it has
+ * none or it is invalid.
+ */
+export function readExtensionConfig(
+  extensionDir: string,
+): { config: ExtensionConfig; legacy: boolean } | null {
+  let configFilePath = path.join(extensionDir, EXTENSIONS_CONFIG_FILENAME);
+  let legacy = false;
+  if (!fs.existsSync(configFilePath)) {
+    configFilePath = path.join(extensionDir, LEGACY_EXTENSIONS_CONFIG_FILENAME);
+    legacy = true;
   }
-
-  const configFilePath = path.join(extensionDir, EXTENSIONS_CONFIG_FILENAME);
   if (!fs.existsSync(configFilePath)) {
     // Warning: extension directory ${extensionDir} does not contain a config file ${configFilePath}.
     return null;
@@ -83,24 +150,59 @@ function loadExtension(extensionDir: string): Extension | null {
       // Invalid extension config in ${configFilePath}: missing name or version.
       return null;
     }
-
-    const contextFiles = getContextFileNames(config)
-      .map((contextFileName) => path.join(extensionDir, contextFileName))
-      .filter((contextFilePath) => fs.existsSync(contextFilePath));
-
-    return {
-      config,
-      contextFiles,
-    };
+    return { config, legacy };
   } catch (_e) {
     // Warning: error parsing extension config in ${configFilePath}: ${_e}
     return null;
   }
 }
 
-function getContextFileNames(config: ExtensionConfig): string[] {
+function loadExtension(extensionDir: string): Extension | null {
+  if (!fs.statSync(extensionDir).isDirectory()) {
+    // Warning: unexpected file ${extensionDir} in extensions directory.
+    return null;
+  }
+
+  const extensionConfig = readExtensionConfig(extensionDir);
+  if (!extensionConfig) {
+    return null;
+  }
+  const { config, legacy } = extensionConfig;
+
+  const contextFiles = getContextFileNames(config, legacy)
+    .map((contextFileName) => path.join(extensionDir, contextFileName))
+    .filter((contextFilePath) => fs.existsSync(contextFilePath));
+
+  return {
+    config,
+    contextFiles,
+    path: extensionDir,
+    installMetadata: readInstallMetadata(extensionDir),
+  };
+}
+
+function readInstallMetadata(
+  extensionDir: string,
+): ExtensionInstallMetadata | undefined {
+  try {
+    return JSON.parse(
+      fs.readFileSync(
+        path.join(extensionDir, EXTENSION_INSTALL_METADATA_FILENAME),
+        'utf-8',
+      ),
+    ) as ExtensionInstallMetadata;
+  } catch {
+    // Not installed with `enfiy extensions install`.
+    return undefined;
+  }
+}
+
+function getContextFileNames(
+  config: ExtensionConfig,
+  legacy: boolean,
+): string[] {
   if (!config.contextFileName) {
-    return ['GEMINI.md'];
+    return [legacy ? 'GEMINI.md' : 'ENFIY.md'];
   } else if (!Array.isArray(config.contextFileName)) {
     return [config.contextFileName];
   }
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import {
+  EXTENSION_INSTALL_METADATA_FILENAME,
+  EXTENSIONS_CONFIG_FILENAME,
+  EXTENSIONS_DIRECTORY_NAME,
+} from './extension.js';
+import {
+  computeExtensionIntegrity,
+  installExtension,
+  listInstalledExtensions,
+  uninstallExtension,
+  updateExtension,
+} from './extensionManager.js';
+
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return {
+    ...os,
+    homedir: vi.fn(),
+  };
+});
+
+describe('extension manager', () => {
+  let tempDir: string;
+  let workspaceDir: string;
+  let homeDir: string;
+  let sourceDir: string;
+  const options = () => ({ workspaceDir, cliVersion: '1.0.0' });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enfiy-cli-test-'));
+    workspaceDir = path.join(tempDir, 'workspace');
+    homeDir = path.join(tempDir, 'home');
+    sourceDir = path.join(tempDir, 'source');
+    fs.mkdirSync(workspaceDir);
+    fs.mkdirSync(homeDir);
+    vi.mocked(os.homedir).mockReturnValue(homeDir);
+    writeExtension(sourceDir, { name: 'ext1', version: '1.0.0' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should install an extension from a directory with its metadata', async () => {
+    const extension = await installExtension(sourceDir, {
+      ...options(),
+      scope: 'user',
+    });
+
+    expect(extension.path).toBe(
+      path.join(homeDir, EXTENSIONS_DIRECTORY_NAME, 'ext1'),
+    );
+    expect(extension.contextFiles).toEqual([
+      path.join(extension.path, 'ENFIY.md'),
+    ]);
+    expect(extension.installMetadata).toMatchObject({
+      source: sourceDir,
+      type: 'local',
+      integrity: computeExtensionIntegrity(sourceDir),
+    });
+    expect(listInstalledExtensions(workspaceDir)).toEqual([
+      { extension, scope: 'user' },
+    ]);
+  });
+
+  it('should install an extension from a tarball', async () => {
+    const tarball = path.join(tempDir, 'ext1.tgz');
+    execFileSync('tar', ['-czf', tarball, '-C', tempDir, 'source']);
+
+    const extension = await installExtension(tarball, {
+      ...options(),
+      scope: 'workspace',
+    });
+
+    expect(extension.path).toBe(
+      path.join(workspaceDir, EXTENSIONS_DIRECTORY_NAME, 'ext1'),
+    );
+    expect(extension.installMetadata?.type).toBe('tarball');
+    expect(extension.installMetadata?.integrity).toBe(
+      computeExtensionIntegrity(sourceDir),
+    );
+  });
+
+  it('should install an extension from a git repository', async () => {
+    const git = (...args: string[]) =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: sourceDir, stdio: 'pipe' },
+      );
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'ext1');
+    const source = `git+file://${sourceDir}`;
+
+    const extension = await installExtension(source, {
+      ...options(),
+      scope: 'user',
+    });
+
+    expect(extension.config.version).toBe('1.0.0');
+    expect(extension.installMetadata).toMatchObject({ source, type: 'git' });
+  });
+
+  it('should refuse git sources that start with an option', async () => {
+    const marker = path.join(tempDir, 'pwned');
+    const source = `git+--upload-pack=touch ${marker}`;
+
+    await expect(
+      installExtension(source, { ...options(), scope: 'user' }),
+    ).rejects.toThrow("the URL and ref cannot start with '-'");
+
+    const extension = await installExtension(sourceDir, {
+      ...options(),
+      scope: 'user',
+    });
+    const metadataPath = path.join(
+      extension.path,
+      EXTENSION_INSTALL_METADATA_FILENAME,
+    );
+    fs.writeFileSync(
+      metadataPath,
+      JSON.stringify({
+        ...JSON.parse(fs.readFileSync(metadataPath, 'utf-8')),
+        source,
+        type: 'git',
+      }),
+    );
+    await expect(updateExtension('ext1', options())).rejects.toThrow(
+      "the URL and ref cannot start with '-'",
+    );
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it('should refuse an extension whose files do not match the integrity', async () => {
+    await expect(
+      installExtension(sourceDir, {
+        ...options(),
+        scope: 'user',
+        integrity: 'sha256-AAAA',
+      }),
+    ).rejects.toThrow('Integrity check failed');
+    expect(listInstalledExtensions(workspaceDir)).toEqual([]);
+  });
+
+  it('should refuse versions outside the version range', async () => {
+    await expect(
+      installExtension(sourceDir, {
+        ...options(),
+        scope: 'user',
+        versionRange: '^2.0.0',
+      }),
+    ).rejects.toThrow('does not satisfy ^2.0.0');
+  });
+
+  it('should refuse extensions that require another version of Enfiy Code', async () => {
+    writeExtension(sourceDir, {
+      name: 'ext1',
+      version: '1.0.0',
+      engines: { enfiy: '>=2.0.0' },
+    });
+
+    await expect(
+      installExtension(sourceDir, { ...options(), scope: 'user' }),
+    ).rejects.toThrow('requires Enfiy Code >=2.0.0, but this is 1.0.0');
+  });
+
+  it('should update an extension within its version range', async () => {
+    await installExtension(sourceDir, {
+      ...options(),
+      scope: 'user',
+      versionRange: '^1.0.0',
+    });
+
+    let result = await updateExtension('ext1', options());
+    expect(result.updated).toBe(false);
+
+    writeExtension(sourceDir, { name: 'ext1', version: '1.1.0' });
+    result = await updateExtension('ext1', options());
+    expect(result.updated).toBe(true);
+    expect(result.previousVersion).toBe('1.0.0');
+    expect(result.extension.config.version).toBe('1.1.0');
+    expect(result.extension.installMetadata?.versionRange).toBe('^1.0.0');
+
+    writeExtension(sourceDir, { name: 'ext1', version: '2.0.0' });
+    await expect(updateExtension('ext1', options())).rejects.toThrow(
+      'does not satisfy ^1.0.0',
+    );
+  });
+
+  it('should uninstall an extension', async () => {
+    const extension = await installExtension(sourceDir, {
+      ...options(),
+      scope: 'user',
+    });
+
+    uninstallExtension('ext1', workspaceDir);
+
+    expect(fs.existsSync(extension.path)).toBe(false);
+    expect(() => uninstallExtension('ext1', workspaceDir)).toThrow(
+      "Extension 'ext1' is not installed.",
+    );
+  });
+});
+
+function writeExtension(dir: string, config: Record<string, unknown>): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, EXTENSIONS_CONFIG_FILENAME),
+    JSON.stringify(config),
+  );
+  fs.writeFileSync(path.join(dir, 'ENFIY.md'), `context ${config.version}`);
+}
@@ -0,0 +1,465 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import * as semver from 'semver';
+import {
+  Extension,
+  ExtensionConfig,
+  ExtensionInstallMetadata,
+  EXTENSION_INSTALL_METADATA_FILENAME,
+  EXTENSIONS_CONFIG_FILENAME,
+  EXTENSIONS_DIRECTORY_NAME,
+  isExtensionCompatible,
+  loadExtensionsFromDir,
+  readExtensionConfig,
+} from './extension.js';
+
+export type ExtensionScope = 'user' | 'workspace';
+
+export interface ExtensionManagerOptions {
+  workspaceDir: string;
+  cliVersion: string;
+}
+
+export interface InstallExtensionOptions extends ExtensionManagerOptions {
+  scope: ExtensionScope;
+  /** Versions of the extension to accept, e.g. "^1.2.0" */
+  versionRange?: string;
+  /** Expected integrity of the extension's files, as printed by `list` */
+  integrity?: string;
+}
+
+export interface UpdateExtensionOptions extends ExtensionManagerOptions {
+  scope?: ExtensionScope;
+  integrity?: string;
+}
+
+export interface UpdateExtensionResult {
+  previousVersion: string;
+  extension: Extension;
+  /** False if the installed files already match the source */
+  updated: boolean;
+}
+
+export interface InstalledExtension {
+  extension: Extension;
+  scope: ExtensionScope;
+}
+
+const EXTENSION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/i;
+
+interface StagedExtension {
+  /** Directory holding the extension config */
+  dir: string;
+  type: ExtensionInstallMetadata['type'];
+  source: string;
+  cleanup: () => void;
+}
+
+function getScopeDir(scope: ExtensionScope, workspaceDir: string): string {
+  return scope === 'user' ? os.homedir() : workspaceDir;
+}
+
+/**
+ * Get the directory extensions of a scope are installed to
+ */
+export function getExtensionsDir(
+  scope: ExtensionScope,
+  workspaceDir: string,
+): string {
+  return path.join(getScopeDir(scope, workspaceDir), EXTENSIONS_DIRECTORY_NAME);
+}
+
+/**
+ * Hashes the files of an extension, by path and content, into a sha256
+ * subresource integrity string. Git metadata and the install metadata are
+ * left out, so the same files hash the same wherever they came from.
+ */
+export function computeExtensionIntegrity(extensionDir: string): string {
+  const hash = crypto.createHash('sha256');
+  const visit = (dir: string, relativeDir: string) => {
+    const entries = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      if (
+        entry.name === '.git' ||
+        relativePath === EXTENSION_INSTALL_METADATA_FILENAME
+      ) {
+        continue;
+      }
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath, relativePath);
+      } else if (entry.isSymbolicLink()) {
+        hash.update(`link\0${relativePath}\0${fs.readlinkSync(entryPath)}\0`);
+      } else if (entry.isFile()) {
+        const content = fs.readFileSync(entryPath);
+        hash.update(`file\0${relativePath}\0${content.length}\0`);
+        hash.update(content);
+      }
+    }
+  };
+  visit(extensionDir, '');
+  return `sha256-${hash.digest('base64')}`;
+}
+
+function getSourceType(source: string): ExtensionInstallMetadata['type'] {
+  if (TARBALL_PATTERN.test(source.split(/[?#]/)[0])) {
+    return 'tarball';
+  }
+  if (
+    /^(git@|git:\/\/|git\+|ssh:\/\/)/.test(source) ||
+    /^https?:\/\/[^#]+\.git(#.*)?$/.test(source)
+  ) {
+    return 'git';
+  }
+  if (/^https?:\/\//.test(source)) {
+    throw new Error(
+      `Cannot install from ${source}: URLs must be git repositories ending in .git, or tarballs ending in .tgz, .tar.gz or .tar.`,
+    );
+  }
+  return 'local';
+}
+
+/**
+ * Tarballs made with `npm pack` and the like put everything in a single
+ * top-level directory.
+ */
+function findExtensionRoot(dir: string): string {
+  if (readExtensionConfig(dir)) {
+    return dir;
+  }
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return path.join(dir, entries[0].name);
+  }
+  return dir;
+}
+
+/**
+ * Fetches an extension from its source into a temporary directory, or
+ * returns the directory itself for local sources.
+ */
+async function stageExtension(source: string): Promise<StagedExtension> {
+  const type = getSourceType(source);
+  if (type === 'local') {
+    const dir = path.resolve(source);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`${source} is not a directory.`);
+    }
+    return { dir, type, source: dir, cleanup: () => {} };
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'enfiy-extension-'));
+  const cleanup = () => fs.rmSync(tempDir, { recursive: true, force: true });
+  try {
+    if (type === 'git') {
+      const [url, ref] = source.replace(/^git\+/, '').split('#');
+      // Sources also come from install metadata on disk, so keep them from
+      // passing options to git.
+      if (url.startsWith('-') || ref?.startsWith('-')) {
+        throw new Error(
+          `Invalid git source ${source}: the URL and ref cannot start with '-'.`,
+        );
+      }
+      const dir = path.join(tempDir, 'source');
+      execFileSync(
+        'git',
+        [
+          'clone',
+          '--depth',
+          '1',
+          ...(ref ? ['--branch', ref] : []),
+          '--',
+          url,
+          dir,
+        ],
+        { stdio: 'pipe' },
+      );
+      return { dir, type, source, cleanup };
+    }
+
+    let archive = source;
+    let stagedSource = path.resolve(source);
+    if (/^https?:\/\//.test(source)) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download ${source}: ${response.status} ${response.statusText}`,
+        );
+      }
+      archive = path.join(tempDir, 'extension.tgz');
+      fs.writeFileSync(archive, Buffer.from(await response.arrayBuffer()));
+      stagedSource = source;
+    }
+    const dir = path.join(tempDir, 'source');
+    fs.mkdirSync(dir);
+    // tar detects the compression itself.
+    execFileSync('tar', ['-xf', archive, '-C', dir], { stdio: 'pipe' });
+    return { dir: findExtensionRoot(dir), type, source: stagedSource, cleanup };
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Checks a staged extension against the constraints it is installed with,
+ * returning its config and integrity.
+ */
+function checkStagedExtension(
+  staged: StagedExtension,
+  options: ExtensionManagerOptions & {
+    versionRange?: string;
+    integrity?: string;
+  },
+): { config: ExtensionConfig; integrity: string } {
+  const extensionConfig = readExtensionConfig(staged.dir);
+  if (!extensionConfig) {
+    throw new Error(
+      `${staged.source} does not contain a valid ${EXTENSIONS_CONFIG_FILENAME} with a name and version.`,
+    );
+  }
+  const { config } = extensionConfig;
+  if (!EXTENSION_NAME_PATTERN.test(config.name)) {
+    throw new Error(
+      `Extension name '${config.name}' may only contain letters, digits, '.', '_' and '-'.`,
+    );
+  }
+  if (
+    options.versionRange &&
+    !semver.satisfies(config.version, options.versionRange)
+  ) {
+    throw new Error(
+      `Extension '${config.name}' is version ${config.version}, which does not satisfy ${options.versionRange}.`,
+    );
+  }
+  if (!isExtensionCompatible(config, options.cliVersion)) {
+    throw new Error(
+      `Extension '${config.name}' ${config.version} requires Enfiy Code ${config.engines?.enfiy}, but this is ${options.cliVersion}.`,
+    );
+  }
+  const integrity = computeExtensionIntegrity(staged.dir);
+  if (options.integrity && options.integrity !== integrity) {
+    throw new Error(
+      `Integrity check failed for ${staged.source}: expected ${options.integrity}, got ${integrity}.`,
+    );
+  }
+  return { config, integrity };
+}
+
+function copyExtension(
+  staged: StagedExtension,
+  targetDir: string,
+  metadata: ExtensionInstallMetadata,
+): void {
+  fs.mkdirSync(path.dirname(targetDir), { recursive: true });
+  fs.cpSync(staged.dir, targetDir, {
+    recursive: true,
+    filter: (source) => path.basename(source) !== '.git',
+  });
+  fs.writeFileSync(
+    path.join(targetDir, EXTENSION_INSTALL_METADATA_FILENAME),
+    JSON.stringify(metadata, null, 2),
+  );
+}
+
+function loadInstalledExtension(
+  scope: ExtensionScope,
+  workspaceDir: string,
+  name: string,
+): Extension {
+  const extension = loadExtensionsFromDir(
+    getScopeDir(scope, workspaceDir),
+  ).find((loaded) => loaded.config.name === name);
+  if (!extension) {
+    throw new Error(`Extension '${name}' could not be loaded.`);
+  }
+  return extension;
+}
+
+/**
+ * List the extensions of both scopes, workspace first
+ */
+export function listInstalledExtensions(
+  workspaceDir: string,
+): InstalledExtension[] {
+  const scopes: ExtensionScope[] = ['workspace', 'user'];
+  return scopes.flatMap((scope) =>
+    loadExtensionsFromDir(getScopeDir(scope, workspaceDir)).map(
+      (extension) => ({ extension, scope }),
+    ),
+  );
+}
+
+/**
+ * Find an extension by name, in the workspace before the user's if no scope
+ * is given
+ */
+export function findInstalledExtension(
+  name: string,
+  workspaceDir: string,
+  scope?: ExtensionScope,
+): InstalledExtension | undefined {
+  return listInstalledExtensions(workspaceDir).find(
+    (installed) =>
+      installed.extension.config.name === name &&
+      (!scope || installed.scope === scope),
+  );
+}
+
+/**
+ * Installs an extension from a local directory, a git repository or a
+ * tarball, after checking its version and integrity.
+ */
+export async function installExtension(
+  source: string,
+  options: InstallExtensionOptions,
+): Promise<Extension> {
+  if (options.versionRange && !semver.validRange(options.versionRange)) {
+    throw new Error(`Invalid version range: ${options.versionRange}`);
+  }
+  const staged = await stageExtension(source);
+  try {
+    const { config, integrity } = checkStagedExtension(staged, options);
+    const targetDir = path.join(
+      getExtensionsDir(options.scope, options.workspaceDir),
+      config.name,
+    );
+    const installed = findInstalledExtension(
+      config.name,
+      options.workspaceDir,
+      options.scope,
+    );
+    if (installed || fs.existsSync(targetDir)) {
+      throw new Error(
+        `Extension '${config.name}' is already installed in ${installed?.extension.path ?? targetDir}. Update or uninstall it instead.`,
+      );
+    }
+    copyExtension(staged, targetDir, {
+      source: staged.source,
+      type: staged.type,
+      versionRange: options.versionRange,
+      integrity,
+      installedAt: new Date().toISOString(),
+    });
+    return loadInstalledExtension(
+      options.scope,
+      options.workspaceDir,
+      config.name,
+    );
+  } finally {
+    staged.cleanup();
+  }
+}
+
+/**
+ * Installs an extension again from where it was installed from, if it
+ * differs from the installed files and still satisfies the version range it
+ * was installed with. Older versions are refused.
+ */
+export async function updateExtension(
+  name: string,
+  options: UpdateExtensionOptions,
+): Promise<UpdateExtensionResult> {
+  const installed = findInstalledExtension(
+    name,
+    options.workspaceDir,
+    options.scope,
+  );
+  if (!installed) {
+    throw new Error(`Extension '${name}' is not installed.`);
+  }
+  const { extension, scope } = installed;
+  const metadata = extension.installMetadata;
+  if (!metadata) {
+    throw new Error(
+      `Extension '${name}' was not installed with 'enfiy extensions install', so there is nothing to update it from.`,
+    );
+  }
+
+  const staged = await stageExtension(metadata.source);
+  try {
+    const { config, integrity } = checkStagedExtension(staged, {
+      ...options,
+      versionRange: metadata.versionRange,
+    });
+    if (config.name !== name) {
+      throw new Error(
+        `${metadata.source} now contains extension '${config.name}' instead of '${name}'.`,
+      );
+    }
+    const previousVersion = extension.config.version;
+    // Files changed since the install are restored too.
+    if (integrity === computeExtensionIntegrity(extension.path)) {
+      return { previousVersion, extension, updated: false };
+    }
+    if (
+      semver.valid(config.version) &&
+      semver.valid(previousVersion) &&
+      semver.lt(config.version, previousVersion)
+    ) {
+      throw new Error(
+        `${metadata.source} has version ${config.version} of '${name}', older than the installed ${previousVersion}.`,
+      );
+    }
+
+    // Copy next to the installed extension first, so a failed copy leaves
+    // it in place.
+    const updateDir = `${extension.path}.update`;
+    fs.rmSync(updateDir, { recursive: true, force: true });
+    copyExtension(staged, updateDir, {
+      ...metadata,
+      integrity,
+      installedAt: new Date().toISOString(),
+    });
+    fs.rmSync(extension.path, { recursive: true, force: true });
+    fs.renameSync(updateDir, extension.path);
+    return {
+      previousVersion,
+      extension: loadInstalledExtension(scope, options.workspaceDir, name),
+      updated: true,
+    };
+  } finally {
+    staged.cleanup();
+  }
+}
+
+/**
+ * Removes an installed extension, from the workspace before the user's if
+ * no scope is given
+ */
+export function uninstallExtension(
+  name: string,
+  workspaceDir: string,
+  scope?: ExtensionScope,
+): InstalledExtension {
+  const installed = findInstalledExtension(name, workspaceDir, scope);
+  if (!installed) {
+    throw new Error(`Extension '${name}' is not installed.`);
+  }
+  const extensionsDir = getExtensionsDir(installed.scope, workspaceDir);
+  if (path.dirname(installed.extension.path) !== extensionsDir) {
+    throw new Error(
+      `Extension '${name}' is a Gemini CLI extension in ${installed.extension.path}; remove it with Gemini CLI instead.`,
+    );
+  }
+  fs.rmSync(installed.extension.path, { recursive: true, force: true });
+  return installed;
+}
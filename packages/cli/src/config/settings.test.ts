@@ -199,6 +199,49 @@ describe.skip('Settings Loading and Merging', () => {
       });
     });
 
+    it('should combine permission rules from both files, tagged with their source', () => {
+      (mockFsExistsSync as Mock).mockReturnValue(true);
+      const userSettingsContent = {
+        permissions: {
+          rules: [{ decision: 'deny', command: 'rm *' }],
+          persistApprovals: true,
+        },
+      };
+      const workspaceSettingsContent = {
+        permissions: { rules: [{ decision: 'allow', tool: 'read_file' }] },
+      };
+
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify(workspaceSettingsContent);
+          return '';
+        },
+      );
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+
+      expect(settings.merged.permissions).toEqual({
+        rules: [
+          { decision: 'allow', tool: 'read_file', source: 'workspace' },
+          { decision: 'deny', command: 'rm *', source: 'user' },
+        ],
+        persistApprovals: true,
+      });
+
+      expect(
+        settings.removePermissionRule(SettingScope.User, {
+          decision: 'deny',
+          command: 'rm *',
+          source: 'user',
+        }),
+      ).toBe(true);
+      expect(settings.user.settings.permissions?.rules).toEqual([]);
+      expect(settings.merged.permissions?.rules).toHaveLength(1);
+    });
+
     it('should handle contextFileName correctly when only in user settings', () => {
       (mockFsExistsSync as Mock).mockImplementation(
         (p: fs.PathLike) => p === USER_SETTINGS_PATH,
@@ -14,12 +14,17 @@ import {
   MCPServerConfig,
   getErrorMessage,
   BugCommandSettings,
+  ReasoningSettings,
   TelemetrySettings,
+  UsageBudgetSettings,
+  PermissionRule,
+  PermissionSettings,
   AuthType,
 } from '@enfiy/core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
 import { DefaultDark } from '../ui/themes/default.js';
+import type { ModelFallbackSettings } from '../services/modelManager.js';
 
 export const SETTINGS_DIRECTORY_NAME = '.enfiy';
 export const USER_SETTINGS_DIR = path.join(homedir(), SETTINGS_DIRECTORY_NAME);
@@ -38,6 +43,13 @@ export interface AccessibilitySettings {
   disableLoadingPhrases?: boolean;
 }
 
+export interface OpenAICompatibleSettings {
+  // Server root or /v1 URL, e.g. http://localhost:8000/v1 for vLLM.
+  baseUrl?: string;
+  // Extra request headers; values support $VAR / ${VAR} interpolation.
+  headers?: Record<string, string>;
+}
+
 export interface Settings {
   theme?: string;
   selectedAuthType?: AuthType;
@@ -53,12 +65,36 @@ export interface Settings {
   showMemoryUsage?: boolean;
   contextFileName?: string | string[];
   accessibility?: AccessibilitySettings;
+  // Reasoning ("thinking") display and per-provider token budgets, e.g.
+  // { "enabled": true, "budgetTokens": { "anthropic": 8192 } }
+  reasoning?: ReasoningSettings;
+  // Models to switch to when a request fails, e.g.
+  // { "chains": { "*": [{ "model": "claude-3-5-haiku-latest",
+  //   "provider": "anthropic", "conditions": ["rate_limit"] }] } }
+  modelFallback?: ModelFallbackSettings;
+  // Monthly spend limits in USD, computed from model registry pricing, e.g.
+  // { "softLimitUsd": 40, "hardLimitUsd": 50, "scope": "all" }
+  usageBudget?: UsageBudgetSettings;
+  // Allow/ask/deny rules for tool calls, e.g. { "rules": [{ "decision":
+  // "allow", "tool": "run_shell_command", "command": "npm test*" }] }.
+  // Workspace and user rules both apply; the most restrictive match wins.
+  permissions?: PermissionSettings;
+  // How many read-only tool calls (read_file, glob, grep, ...) may run at
+  // once; mutating calls always run one at a time per file.
+  maxConcurrentToolCalls?: number;
   telemetry?: TelemetrySettings;
   usageStatisticsEnabled?: boolean;
   preferredEditor?: string;
   bugCommand?: BugCommandSettings;
   checkpointing?: CheckpointingSettings;
   autoConfigureMaxOldSpaceSize?: boolean;
+  openaiCompatible?: OpenAICompatibleSettings;
+  // Extensions not to load, by name. Those disabled in either the user or
+  // the workspace settings are not loaded.
+  disabledExtensions?: string[];
+  // Embedding model, optionally prefixed with its provider, e.g.
+  // "nomic-embed-text", "ollama/bge-m3", "text-embedding-3-small".
+  embeddingModel?: string;
 
   // Git-aware file filtering settings
   fileFiltering?: {
@@ -106,10 +142,37 @@ export class LoadedSettings {
   }
 
   private computeMergedSettings(): Settings {
-    return {
+    const merged: Settings = {
       ...this.user.settings,
       ...this.workspace.settings,
     };
+    const disabledExtensions = [
+      ...(this.user.settings.disabledExtensions ?? []),
+      ...(this.workspace.settings.disabledExtensions ?? []),
+    ];
+    if (disabledExtensions.length > 0) {
+      merged.disabledExtensions = [...new Set(disabledExtensions)];
+    }
+    const user = this.user.settings.permissions;
+    const workspace = this.workspace.settings.permissions;
+    if (user || workspace) {
+      // Rules from both files apply, tagged so they can be revoked from the
+      // file they came from.
+      merged.permissions = {
+        rules: [
+          ...(workspace?.rules ?? []).map((rule) => ({
+            ...rule,
+            source: 'workspace' as const,
+          })),
+          ...(user?.rules ?? []).map((rule) => ({
+            ...rule,
+            source: 'user' as const,
+          })),
+        ],
+        persistApprovals: workspace?.persistApprovals ?? user?.persistApprovals,
+      };
+    }
+    return merged;
   }
 
   forScope(scope: SettingScope): SettingsFile {
@@ -126,13 +189,52 @@ export class LoadedSettings {
   setValue(
     scope: SettingScope,
     key: keyof Settings,
-    value: string | Record<string, MCPServerConfig> | undefined,
+    value:
+      | string
+      | string[]
+      | Record<string, MCPServerConfig>
+      | OpenAICompatibleSettings
+      | ModelFallbackSettings
+      | UsageBudgetSettings
+      | PermissionSettings
+      | undefined,
   ): void {
     const settingsFile = this.forScope(scope);
     settingsFile.settings[key] = value;
     this._merged = this.computeMergedSettings();
     saveSettings(settingsFile);
   }
+
+  addPermissionRule(scope: SettingScope, rule: PermissionRule): void {
+    const permissions = this.forScope(scope).settings.permissions;
+    const { source: _source, ...stored } = rule;
+    this.setValue(scope, 'permissions', {
+      ...permissions,
+      rules: [...(permissions?.rules ?? []), stored],
+    });
+  }
+
+  /**
+   * Removes rules equal to `rule`, ignoring its source. Returns false if the
+   * scope had no such rule.
+   */
+  removePermissionRule(scope: SettingScope, rule: PermissionRule): boolean {
+    const permissions = this.forScope(scope).settings.permissions;
+    const rules = permissions?.rules ?? [];
+    const remaining = rules.filter(
+      (stored) =>
+        stored.decision !== rule.decision ||
+        stored.tool !== rule.tool ||
+        stored.command !== rule.command ||
+        stored.path !== rule.path ||
+        stored.mcpServer !== rule.mcpServer,
+    );
+    if (remaining.length === rules.length) {
+      return false;
+    }
+    this.setValue(scope, 'permissions', { ...permissions, rules: remaining });
+    return true;
+  }
 }
 
 function resolveEnvVarsInString(value: string): string {
@@ -31,6 +31,7 @@ vi.mock('./config/settings.js', async (importOriginal) => {
 });
 
 vi.mock('./config/config.js', () => ({
+  parseArguments: vi.fn().mockResolvedValue({ outputFormat: 'text' }),
   loadCliConfig: vi.fn().mockResolvedValue({
     config: {
       getSandbox: vi.fn(() => false),
@@ -6,9 +6,9 @@
 import React from 'react';
 import { render } from 'ink';
 import { AppWrapper } from './ui/App.js';
-import { loadCliConfig } from './config/config.js';
+import { loadCliConfig, parseArguments } from './config/config.js';
 import { readStdin } from './utils/readStdin.js';
-import { basename } from 'node:path';
+import { basename, join } from 'node:path';
 import v8 from 'node:v8';
 import os from 'node:os';
 import { spawn } from 'node:child_process';
@@ -20,21 +20,19 @@ import {
 } from './config/settings.js';
 import { themeManager } from './ui/themes/theme-manager.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
-import { runNonInteractive } from './nonInteractiveCli.js';
-import { loadExtensions, Extension } from './config/extension.js';
+import {
+  redirectConsoleToStderr,
+  runNonInteractive,
+} from './nonInteractiveCli.js';
+import { loadExtensions } from './config/extension.js';
 import { cleanupCheckpoints } from './utils/cleanup.js';
 import { loadApiKeysIntoEnvironment } from './utils/secureStorage.js';
-import {
-  ApprovalMode,
-  Config,
-  ShellTool,
-  sessionId,
-  logUserPrompt,
-  AuthType,
-} from '@enfiy/core';
+import { SessionRecord, loadSession } from './utils/sessions.js';
+import { Config, sessionId, logUserPrompt, AuthType } from '@enfiy/core';
 import { validateAuthMethod } from './config/auth.js';
 import { setMaxSizedBoxDebugging } from './ui/components/shared/MaxSizedBox.js';
 import { checkForUpdates } from './ui/utils/updateCheck.js';
+import { getCliVersion } from './utils/version.js';
 
 function getNodeMemoryArgs(config: Config): string[] {
   const totalMemoryMB = os.totalmem() / (1024 * 1024);
@@ -107,6 +105,18 @@ export async function main() {
     return;
   }
 
+  if (args.length > 2 && args[2] === 'extensions') {
+    const { runExtensionsCommand } = await import('./commands/extensions.js');
+    await runExtensionsCommand(args.slice(3));
+    return;
+  }
+
+  const argv = await parseArguments();
+  // Startup and provider logs must not mix with JSON output on stdout.
+  if (argv.outputFormat !== 'text') {
+    redirectConsoleToStderr();
+  }
+
   const workspaceRoot = process.cwd();
   const settings = loadSettings(workspaceRoot);
 
@@ -126,8 +136,17 @@ export async function main() {
     process.exit(1);
   }
 
-  const extensions = loadExtensions(workspaceRoot);
-  const config = await loadCliConfig(settings.merged, extensions, sessionId);
+  const disabledExtensions = settings.merged.disabledExtensions ?? [];
+  const extensions = loadExtensions(
+    workspaceRoot,
+    await getCliVersion(),
+  ).filter((extension) => !disabledExtensions.includes(extension.config.name));
+  const config = await loadCliConfig(
+    settings.merged,
+    extensions,
+    sessionId,
+    argv,
+  );
 
   // set default fallback authentication based on provider and model
   if (!settings.merged.selectedAuthType) {
@@ -212,6 +231,23 @@ export async function main() {
       }
     }
   }
+  let resumedSession: SessionRecord | undefined;
+  const resumeSessionId = config.getResumeSessionId();
+  if (resumeSessionId !== undefined || config.getContinueSession()) {
+    resumedSession = await loadSession(
+      join(config.getProjectTempDir(), 'sessions'),
+      resumeSessionId,
+    );
+    if (!resumedSession) {
+      console.error(
+        resumeSessionId
+          ? `No saved session found with tag or id: ${resumeSessionId}`
+          : 'No saved session found for this project.',
+      );
+      process.exit(1);
+    }
+  }
+
   let input = config.getQuestion();
   const startupWarnings = await getStartupWarnings();
 
@@ -247,6 +283,7 @@ export async function main() {
           config={config}
           settings={settings}
           startupWarnings={startupWarnings}
+          resumedSession={resumedSession}
         />
       </React.StrictMode>,
       { exitOnCtrlC: false },
@@ -270,14 +307,14 @@ export async function main() {
   });
 
   // Non-interactive mode handled by runNonInteractive
-  const nonInteractiveConfig = await loadNonInteractiveConfig(
-    config,
-    extensions,
-    settings,
-  );
+  const nonInteractiveConfig = await loadNonInteractiveConfig(config, settings);
+  if (resumedSession) {
+    await nonInteractiveConfig
+      .getEnfiyClient()
+      .setHistory(resumedSession.clientHistory);
+  }
 
-  await runNonInteractive(nonInteractiveConfig, input);
-  process.exit(0);
+  process.exit(await runNonInteractive(nonInteractiveConfig, input));
 }
 
 function setWindowTitle(title: string, settings: LoadedSettings) {
@@ -352,36 +389,14 @@ process.on('unhandledRejection', (reason, _promise) => {
 
 async function loadNonInteractiveConfig(
   config: Config,
-  extensions: Extension[],
   settings: LoadedSettings,
 ) {
-  let finalConfig = config;
-  if (config.getApprovalMode() !== ApprovalMode.AUTO) {
-    // Only exclude shell commands in non-interactive mode
-    // File operations (EditTool, WriteFileTool) should be allowed with confirmation dialogs
-    const existingExcludeTools = settings.merged.excludeTools || [];
-    const interactiveTools = [
-      ShellTool.Name, // Only shell commands are truly dangerous in non-interactive mode
-    ];
-
-    const newExcludeTools = [
-      ...new Set([...existingExcludeTools, ...interactiveTools]),
-    ];
-
-    const nonInteractiveSettings = {
-      ...settings.merged,
-      excludeTools: newExcludeTools,
-    };
-    finalConfig = await loadCliConfig(
-      nonInteractiveSettings,
-      extensions,
-      config.getSessionId(),
-    );
-  }
-
+  // Tool calls that would need confirmation, such as shell commands in the
+  // default approval mode, are rejected by the non-interactive executor
+  // unless allowed with --allowed-tools or --approval-mode.
   return await validateNonInterActiveAuth(
     settings.merged.selectedAuthType,
-    finalConfig,
+    config,
   );
 }
 
@@ -6,7 +6,10 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { runNonInteractive } from './nonInteractiveCli.js';
+import {
+  redirectConsoleToStderr,
+  runNonInteractive,
+} from './nonInteractiveCli.js';
 import { Config, EnfiyClient, ToolRegistry } from '@enfiy/core';
 import { GenerateContentResponse, Part, FunctionCall } from '@google/genai';
 
@@ -52,6 +55,8 @@ describe('runNonInteractive', () => {
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
       getEnfiyClient: vi.fn().mockReturnValue(mockEnfiyClient),
       getContentGeneratorConfig: vi.fn().mockReturnValue({}),
+      getOutputFormat: vi.fn().mockReturnValue('text'),
+      getMaxTurns: vi.fn().mockReturnValue(undefined),
     } as unknown as Config;
 
     mockProcessStdoutWrite = vi.fn().mockImplementation(() => true);
@@ -282,4 +287,172 @@ describe('runNonInteractive', () => {
       'Unfortunately the tool does not exist.',
     );
   });
+  it('should write long replies without truncating them', async () => {
+    const longText = 'x'.repeat(2000) + '\n```ts\ncode\n```';
+    mockChat.sendMessageStream.mockResolvedValue(
+      (async function* () {
+        yield {
+          candidates: [{ content: { parts: [{ text: longText }] } }],
+        } as GenerateContentResponse;
+      })(),
+    );
+
+    expect(await runNonInteractive(mockConfig, 'Long reply')).toBe(0);
+    expect(mockProcessStdoutWrite).toHaveBeenCalledWith(longText);
+  });
+
+  it('should stream events as JSON lines', async () => {
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue('stream-json');
+    const { executeToolCall: mockCoreExecuteToolCall } = await import(
+      '@enfiy/core'
+    );
+    vi.mocked(mockCoreExecuteToolCall).mockResolvedValue({
+      callId: 'fc1',
+      responseParts: [{ text: 'ok' }],
+      resultDisplay: 'Tool success display',
+      error: undefined,
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [
+              {
+                content: {
+                  parts: [{ text: '**Plan** read the file', thought: true }],
+                },
+              },
+            ],
+          } as GenerateContentResponse;
+          yield {
+            functionCalls: [{ id: 'fc1', name: 'testTool', args: { p: 'v' } }],
+            usageMetadata: { promptTokenCount: 10, totalTokenCount: 12 },
+          } as unknown as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [{ content: { parts: [{ text: 'Done' }] } }],
+          } as GenerateContentResponse;
+        })(),
+      );
+
+    await runNonInteractive(mockConfig, 'Use a tool');
+
+    const events = mockProcessStdoutWrite.mock.calls.map((call) =>
+      JSON.parse(call[0] as string),
+    );
+    expect(events.map((event) => event.type)).toEqual([
+      'thought',
+      'usage_metadata',
+      'tool_call_request',
+      'tool_call_response',
+      'content',
+      'result',
+    ]);
+    expect(events[0].value).toEqual({
+      subject: 'Plan',
+      description: 'read the file',
+    });
+    expect(events[2].value).toEqual({
+      callId: 'fc1',
+      name: 'testTool',
+      args: { p: 'v' },
+    });
+    expect(events[5].value).toMatchObject({
+      response: 'Done',
+      turns: 2,
+      toolCalls: 1,
+      usage: { promptTokenCount: 10, totalTokenCount: 12 },
+      exitCode: 0,
+    });
+  });
+
+  it('should keep logs out of the JSON lines on stdout', async () => {
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue('stream-json');
+    const mockStderrWrite = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    mockChat.sendMessageStream.mockResolvedValue(
+      (async function* () {
+        console.log('[OpenAI Provider] Initializing with API key: sk-***');
+        console.info('Sending request');
+        console.debug('Tool call', { name: 'testTool' });
+        yield {
+          candidates: [{ content: { parts: [{ text: 'Hello' }] } }],
+        } as GenerateContentResponse;
+      })(),
+    );
+
+    const restoreConsole = redirectConsoleToStderr();
+    try {
+      await runNonInteractive(mockConfig, 'Hi');
+    } finally {
+      restoreConsole();
+    }
+
+    const lines = mockProcessStdoutWrite.mock.calls
+      .map((call) => call[0] as string)
+      .join('')
+      .split('\n')
+      .filter(Boolean);
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual([
+      'content',
+      'result',
+    ]);
+    expect(mockStderrWrite.mock.calls.map((call) => call[0])).toEqual([
+      '[OpenAI Provider] Initializing with API key: sk-***\n',
+      'Sending request\n',
+      "Tool call { name: 'testTool' }\n",
+    ]);
+  });
+
+  it('should write a JSON result with the error and exit code on failure', async () => {
+    vi.mocked(mockConfig.getOutputFormat).mockReturnValue('json');
+    mockChat.sendMessageStream.mockRejectedValue(
+      Object.assign(new Error('Quota exceeded'), { status: 429 }),
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const exitCode = await runNonInteractive(mockConfig, 'Fail');
+
+    expect(exitCode).toBe(1);
+    expect(mockProcessStdoutWrite).toHaveBeenCalledOnce();
+    const output = JSON.parse(mockProcessStdoutWrite.mock.calls[0][0]);
+    expect(output).toMatchObject({
+      exitCode: 1,
+      events: [
+        {
+          type: 'error',
+          value: { error: { message: 'Quota exceeded', status: 429 } },
+        },
+      ],
+    });
+  });
+  it('should stop with a distinct exit code when the turn limit is reached', async () => {
+    vi.mocked(mockConfig.getMaxTurns).mockReturnValue(1);
+    const { executeToolCall: mockCoreExecuteToolCall } = await import(
+      '@enfiy/core'
+    );
+    mockChat.sendMessageStream.mockResolvedValue(
+      (async function* () {
+        yield {
+          functionCalls: [{ id: 'fc1', name: 'testTool', args: {} }],
+        } as GenerateContentResponse;
+      })(),
+    );
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const exitCode = await runNonInteractive(mockConfig, 'Loop');
+
+    expect(exitCode).toBe(3);
+    expect(mockChat.sendMessageStream).toHaveBeenCalledOnce();
+    expect(mockCoreExecuteToolCall).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Reached the limit of 1 turns before the model finished.',
+    );
+  });
 });
@@ -14,63 +14,157 @@ import {
   ToolRegistry,
   shutdownTelemetry,
   isTelemetrySdkInitialized,
+  EnfiyEventType,
+  EnfiyErrorEventValue,
+  OutputFormat,
+  ThoughtSummary,
+  ToolResultDisplay,
+  getErrorMessage,
 } from '@enfiy/core';
 import {
   Content,
   Part,
   FunctionCall,
   GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
+import { format } from 'util';
 
 import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
 
+/**
+ * Exit codes of non-interactive runs, so that scripts can tell failures
+ * apart.
+ */
+export enum ExitCode {
+  Success = 0,
+  /** The model request failed, e.g. because of an API error. */
+  Error = 1,
+  /** The run stopped after `--max-turns` model requests. */
+  MaxTurnsReached = 3,
+  /** The run was interrupted with Ctrl+C (128 + SIGINT). */
+  Cancelled = 130,
+}
+
+export interface NonInteractiveResult {
+  /** All text the model replied with, across turns. */
+  response: string;
+  /** Number of requests sent to the model. */
+  turns: number;
+  toolCalls: number;
+  failedToolCalls: number;
+  /** Token counts summed over all turns. */
+  usage: {
+    promptTokenCount: number;
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+  };
+  durationMs: number;
+  exitCode: ExitCode;
+}
+
+/**
+ * Events written in the `stream-json` and `json` output formats. Their
+ * types and values follow the events of the interactive stream.
+ */
+export type NonInteractiveEvent =
+  | { type: EnfiyEventType.Content; value: string }
+  | { type: EnfiyEventType.Thought; value: ThoughtSummary }
+  | {
+      type: EnfiyEventType.ToolCallRequest;
+      value: Omit<ToolCallRequestInfo, 'isClientInitiated'>;
+    }
+  | {
+      type: EnfiyEventType.ToolCallResponse;
+      value: {
+        callId: string;
+        name: string;
+        resultDisplay?: ToolResultDisplay;
+        error?: string;
+      };
+    }
+  | {
+      type: EnfiyEventType.UsageMetadata;
+      value: GenerateContentResponseUsageMetadata;
+    }
+  | { type: EnfiyEventType.Error; value: EnfiyErrorEventValue }
+  | { type: 'result'; value: NonInteractiveResult };
+
+function getThought(response: GenerateContentResponse): ThoughtSummary | null {
+  const thoughtPart = response.candidates?.[0]?.content?.parts?.[0];
+  if (!thoughtPart?.thought) {
+    return null;
+  }
+  // Thoughts start with a bold **Subject**, like in the interactive stream.
+  const rawText = thoughtPart.text ?? '';
+  const subject = rawText.match(/\*\*(.*?)\*\*/s)?.[1].trim() ?? '';
+  const description = rawText.replace(/\*\*(.*?)\*\*/s, '').trim();
+  return { subject, description };
+}
+
 function getResponseText(response: GenerateContentResponse): string | null {
-  if (response.candidates && response.candidates.length > 0) {
-    const candidate = response.candidates[0];
-    if (
-      candidate.content &&
-      candidate.content.parts &&
-      candidate.content.parts.length > 0
-    ) {
-      // We are running in headless mode so we don't need to return thoughts to STDOUT.
-      const thoughtPart = candidate.content.parts[0];
-      if (thoughtPart?.thought) {
-        return null;
-      }
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const text = parts
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('');
+  return text || null;
+}
 
-      const fullText = candidate.content.parts
-        .filter((part) => part.text)
-        .map((part) => part.text)
-        .join('');
-
-      // If response contains code blocks, summarize instead of showing full content
-      if (fullText.includes('```') || fullText.length > 500) {
-        // Check if file creation tools are being executed
-        if (response.functionCalls && response.functionCalls.length > 0) {
-          const fileCreationCalls = response.functionCalls.filter(
-            (fc) => fc.name === 'write_file',
+/**
+ * Writes events to stdout in the requested format. Text output only shows
+ * the model's replies and reports errors on stderr.
+ */
+function createEventWriter(format: OutputFormat) {
+  const events: NonInteractiveEvent[] = [];
+  return (event: NonInteractiveEvent) => {
+    switch (format) {
+      case 'stream-json':
+        process.stdout.write(`${JSON.stringify(event)}\n`);
+        return;
+      case 'json':
+        if (event.type === 'result') {
+          process.stdout.write(
+            `${JSON.stringify({ ...event.value, events }, null, 2)}\n`,
           );
-          if (fileCreationCalls.length > 0) {
-            return `Creating ${fileCreationCalls.length} file(s)...`;
-          }
+        } else {
+          events.push(event);
         }
-
-        // For long responses without tool calls, show summary
-        if (fullText.length > 500) {
-          return fullText.substring(0, 200) + '... [response truncated]';
+        return;
+      default:
+        if (event.type === EnfiyEventType.Content) {
+          process.stdout.write(event.value);
+        } else if (event.type === 'result') {
+          process.stdout.write('\n'); // Ensure a final newline
         }
-      }
-
-      return fullText;
     }
-  }
-  return null;
+  };
+}
+
+/**
+ * Sends console.log, info and debug output to stderr, so that stdout only
+ * carries the JSON output formats. Providers and tools log with them while
+ * they are set up and during requests. Returns a function that undoes it.
+ */
+export function redirectConsoleToStderr(): () => void {
+  const { log, info, debug } = console;
+  const writeToStderr = (...args: unknown[]) => {
+    process.stderr.write(`${format(...args)}\n`);
+  };
+  console.log = writeToStderr;
+  console.info = writeToStderr;
+  console.debug = writeToStderr;
+  return () => {
+    console.log = log;
+    console.info = info;
+    console.debug = debug;
+  };
 }
 
 export async function runNonInteractive(
   config: Config,
   input: string,
-): Promise<void> {
+): Promise<ExitCode> {
   // Handle EPIPE errors when the output is piped to a command that closes early.
   process.stdout.on('error', (err: NodeJS.ErrnoException) => {
     if (err.code === 'EPIPE') {
@@ -79,17 +173,36 @@ export async function runNonInteractive(
     }
   });
 
-  const enfiyClient = config.getEnfiyClient();
-  const toolRegistry: ToolRegistry = await config.getToolRegistry();
+  const startTime = Date.now();
+  const writeEvent = createEventWriter(config.getOutputFormat());
+  const result: NonInteractiveResult = {
+    response: '',
+    turns: 0,
+    toolCalls: 0,
+    failedToolCalls: 0,
+    usage: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+    durationMs: 0,
+    exitCode: ExitCode.Success,
+  };
 
-  const chat = await enfiyClient.getChat();
   const abortController = new AbortController();
-  let currentMessages: Content[] = [{ role: 'user', parts: [{ text: input }] }];
+  const onInterrupt = () => abortController.abort();
+  process.once('SIGINT', onInterrupt);
 
   try {
+    const enfiyClient = config.getEnfiyClient();
+    const toolRegistry: ToolRegistry = await config.getToolRegistry();
+
+    const chat = await enfiyClient.getChat();
+    let currentMessages: Content[] = [
+      { role: 'user', parts: [{ text: input }] },
+    ];
+
     while (true) {
       const functionCalls: FunctionCall[] = [];
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
 
+      result.turns++;
       const responseStream = await chat.sendMessageStream({
         message: currentMessages[0]?.parts || [], // Ensure parts are always provided
         config: {
@@ -102,67 +215,114 @@ export async function runNonInteractive(
 
       for await (const resp of responseStream) {
         if (abortController.signal.aborted) {
-          console.error('Operation cancelled.');
-          return;
+          break;
+        }
+        const thought = getThought(resp);
+        if (thought) {
+          writeEvent({ type: EnfiyEventType.Thought, value: thought });
+          continue;
         }
         const textPart = getResponseText(resp);
         if (textPart) {
-          process.stdout.write(textPart);
+          result.response += textPart;
+          writeEvent({ type: EnfiyEventType.Content, value: textPart });
         }
         if (resp.functionCalls) {
           functionCalls.push(...resp.functionCalls);
         }
+        if (resp.usageMetadata) {
+          usageMetadata = resp.usageMetadata;
+        }
       }
 
-      if (functionCalls.length > 0) {
-        const toolResponseParts: Part[] = [];
+      if (usageMetadata) {
+        result.usage.promptTokenCount += usageMetadata.promptTokenCount ?? 0;
+        result.usage.candidatesTokenCount +=
+          usageMetadata.candidatesTokenCount ?? 0;
+        result.usage.totalTokenCount += usageMetadata.totalTokenCount ?? 0;
+        writeEvent({
+          type: EnfiyEventType.UsageMetadata,
+          value: usageMetadata,
+        });
+      }
 
-        for (const fc of functionCalls) {
-          const callId = fc.id ?? `${fc.name}-${Date.now()}`;
-          const requestInfo: ToolCallRequestInfo = {
-            callId,
-            name: fc.name as string,
-            args: (fc.args ?? {}) as Record<string, unknown>,
-            isClientInitiated: false,
-          };
-
-          const toolResponse = await executeToolCall(
-            config,
-            requestInfo,
-            toolRegistry,
-            abortController.signal,
-          );
+      if (abortController.signal.aborted) {
+        console.error('Operation cancelled.');
+        result.exitCode = ExitCode.Cancelled;
+        break;
+      }
 
-          if (toolResponse.error) {
-            const isToolNotFound = toolResponse.error.message.includes(
-              'not found in registry',
-            );
-            console.error(
-              `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
-            );
-            if (!isToolNotFound) {
-              process.exit(1);
-            }
-          }
+      if (functionCalls.length === 0) {
+        break;
+      }
+
+      const maxTurns = config.getMaxTurns();
+      if (maxTurns !== undefined && result.turns >= maxTurns) {
+        // The results of these calls could not be sent back to the model.
+        const message = `Reached the limit of ${maxTurns} turns before the model finished.`;
+        console.error(message);
+        writeEvent({
+          type: EnfiyEventType.Error,
+          value: { error: { message } },
+        });
+        result.exitCode = ExitCode.MaxTurnsReached;
+        break;
+      }
+
+      const toolResponseParts: Part[] = [];
+
+      for (const fc of functionCalls) {
+        const callId = fc.id ?? `${fc.name}-${Date.now()}`;
+        const requestInfo: ToolCallRequestInfo = {
+          callId,
+          name: fc.name as string,
+          args: (fc.args ?? {}) as Record<string, unknown>,
+          isClientInitiated: false,
+        };
+        writeEvent({
+          type: EnfiyEventType.ToolCallRequest,
+          value: { callId, name: requestInfo.name, args: requestInfo.args },
+        });
+
+        const toolResponse = await executeToolCall(
+          config,
+          requestInfo,
+          toolRegistry,
+          abortController.signal,
+        );
+        result.toolCalls++;
 
-          if (toolResponse.responseParts) {
-            const parts = Array.isArray(toolResponse.responseParts)
-              ? toolResponse.responseParts
-              : [toolResponse.responseParts];
-            for (const part of parts) {
-              if (typeof part === 'string') {
-                toolResponseParts.push({ text: part });
-              } else if (part) {
-                toolResponseParts.push(part);
-              }
+        if (toolResponse.error) {
+          // The error is sent back to the model, which can recover from it.
+          result.failedToolCalls++;
+          console.error(
+            `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
+          );
+        }
+        writeEvent({
+          type: EnfiyEventType.ToolCallResponse,
+          value: {
+            callId,
+            name: requestInfo.name,
+            resultDisplay: toolResponse.resultDisplay,
+            error: toolResponse.error?.message,
+          },
+        });
+
+        if (toolResponse.responseParts) {
+          const parts = Array.isArray(toolResponse.responseParts)
+            ? toolResponse.responseParts
+            : [toolResponse.responseParts];
+          for (const part of parts) {
+            if (typeof part === 'string') {
+              toolResponseParts.push({ text: part });
+            } else if (part) {
+              toolResponseParts.push(part);
             }
           }
         }
-        currentMessages = [{ role: 'user', parts: toolResponseParts }];
-      } else {
-        process.stdout.write('\n'); // Ensure a final newline
-        return;
       }
+      currentMessages = [{ role: 'user', parts: toolResponseParts }];
     }
   } catch (error) {
     console.error(
@@ -171,10 +331,28 @@ export async function runNonInteractive(
         config.getContentGeneratorConfig().authType,
       ),
     );
-    process.exit(1);
+    const status =
+      typeof error === 'object' &&
+      error !== null &&
+      'status' in error &&
+      typeof (error as { status: unknown }).status === 'number'
+        ? (error as { status: number }).status
+        : undefined;
+    writeEvent({
+      type: EnfiyEventType.Error,
+      value: { error: { message: getErrorMessage(error), status } },
+    });
+    result.exitCode = abortController.signal.aborted
+      ? ExitCode.Cancelled
+      : ExitCode.Error;
   } finally {
+    process.off('SIGINT', onInterrupt);
     if (isTelemetrySdkInitialized()) {
       await shutdownTelemetry();
     }
   }
+
+  result.durationMs = Date.now() - startTime;
+  writeEvent({ type: 'result', value: result });
+  return result.exitCode;
 }
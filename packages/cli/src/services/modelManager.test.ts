@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Config, logModelSwitch } from '@enfiy/core';
+import {
+  classifyFailure,
+  ModelFallbackSettings,
+  ModelManager,
+} from './modelManager.js';
+import { hasStoredCredentials } from '../utils/secureStorage.js';
+
+vi.mock('@enfiy/core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@enfiy/core')>();
+  return { ...actual, logModelSwitch: vi.fn() };
+});
+
+vi.mock('../utils/secureStorage.js', () => ({
+  hasStoredCredentials: vi.fn(),
+}));
+
+const settings: ModelFallbackSettings = {
+  chains: {
+    'gemini-2.5-pro': [
+      { model: 'gpt-4o', conditions: ['rate_limit'] },
+      { model: 'claude-3-5-sonnet-20241022', provider: 'anthropic' },
+      { model: 'llama3.1:8b', provider: 'ollama', conditions: ['unavailable'] },
+    ],
+    '*': [{ model: 'gemini-2.5-flash', provider: 'gemini' }],
+  },
+};
+
+describe('classifyFailure', () => {
+  it('should map statuses and messages to conditions', () => {
+    expect(classifyFailure({ status: 429, message: 'Slow down' })).toBe(
+      'rate_limit',
+    );
+    expect(classifyFailure(new Error('fetch failed'))).toBe('unavailable');
+    expect(classifyFailure({ status: 503, message: 'Overloaded' })).toBe(
+      'unavailable',
+    );
+    expect(
+      classifyFailure(new Error('400 prompt is too long: 210000 tokens')),
+    ).toBe('context_overflow');
+    expect(classifyFailure(new Error('You exceeded your current quota'))).toBe(
+      'usage_limit',
+    );
+    expect(classifyFailure(new Error('Invalid tool schema'))).toBe('error');
+  });
+});
+
+describe('ModelManager fallback chains', () => {
+  let client: {
+    getHistory: ReturnType<typeof vi.fn>;
+    setHistory: ReturnType<typeof vi.fn>;
+  };
+  let config: Config;
+
+  beforeEach(() => {
+    vi.mocked(hasStoredCredentials).mockReset();
+    vi.mocked(logModelSwitch).mockReset();
+    client = {
+      getHistory: vi.fn().mockResolvedValue([{ role: 'user', parts: [] }]),
+      setHistory: vi.fn(),
+    };
+    config = {
+      getModel: vi.fn().mockReturnValue('gemini-2.5-pro'),
+      getSelectedProvider: vi.fn().mockReturnValue('gemini'),
+      getEnfiyClient: vi.fn().mockReturnValue(client),
+      setModel: vi.fn(),
+      setSelectedProvider: vi.fn(),
+      refreshAuth: vi.fn().mockResolvedValue(undefined),
+    } as unknown as Config;
+  });
+
+  it('should pick the first entry matching the condition and credentials', async () => {
+    vi.mocked(hasStoredCredentials).mockImplementation(
+      (provider) => provider === 'anthropic',
+    );
+    const manager = new ModelManager(config, settings);
+
+    // gpt-4o accepts rate limits but OpenAI has no stored key.
+    await expect(
+      manager.resolveFallback('gemini-2.5-pro', { status: 429 }),
+    ).resolves.toEqual({
+      fromModel: 'gemini-2.5-pro',
+      toModel: 'claude-3-5-sonnet-20241022',
+      provider: 'anthropic',
+      condition: 'rate_limit',
+    });
+  });
+
+  it('should use the wildcard chain and respect the enabled flag', async () => {
+    vi.mocked(hasStoredCredentials).mockReturnValue(true);
+
+    const fallback = await new ModelManager(config, settings).resolveFallback(
+      'mistral-large-latest',
+      new Error('boom'),
+    );
+    expect(fallback?.toModel).toBe('gemini-2.5-flash');
+
+    await expect(
+      new ModelManager(config, {
+        ...settings,
+        enabled: false,
+      }).resolveFallback('gemini-2.5-pro', { status: 429 }),
+    ).resolves.toBeNull();
+    await expect(
+      new ModelManager(config).resolveFallback('gemini-2.5-pro', {
+        status: 429,
+      }),
+    ).resolves.toBeNull();
+  });
+
+  it('should switch provider, keep the history and record the switch', async () => {
+    vi.mocked(hasStoredCredentials).mockReturnValue(false);
+    const manager = new ModelManager(config, settings);
+
+    const fallback = await manager.handleModelError(
+      'gemini-2.5-pro',
+      new Error('connect ECONNREFUSED'),
+    );
+
+    // Only the keyless Ollama entry accepts "unavailable" without a key.
+    expect(fallback?.toModel).toBe('llama3.1:8b');
+    expect(config.setModel).toHaveBeenCalledWith('llama3.1:8b');
+    expect(config.setSelectedProvider).toHaveBeenCalledWith('ollama');
+    expect(config.refreshAuth).toHaveBeenCalled();
+    expect(client.setHistory).toHaveBeenCalledWith([
+      { role: 'user', parts: [] },
+    ]);
+    expect(logModelSwitch).toHaveBeenCalledWith(
+      config,
+      expect.objectContaining({
+        from_model: 'gemini-2.5-pro',
+        to_model: 'llama3.1:8b',
+        condition: 'unavailable',
+      }),
+    );
+
+    // The cooldown stops a second switch away from the same model.
+    await expect(
+      manager.handleModelError('gemini-2.5-pro', new Error('fetch failed')),
+    ).resolves.toBeNull();
+  });
+});
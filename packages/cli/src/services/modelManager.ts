@@ -7,13 +7,31 @@
  * Based on original work by Google LLC (2025)
  * Modified and extended by Hayate Esaki (2025)
  */
-import { Config, ProviderType } from '@enfiy/core';
+import {
+  AuthType,
+  Config,
+  getErrorMessage,
+  getProviderFromModel,
+  logModelSwitch,
+  ModelSwitchEvent,
+  ProviderType,
+} from '@enfiy/core';
 import { hasStoredCredentials } from '../utils/secureStorage.js';
 
+/**
+ * Spend against the monthly budget, plus the model's own totals for the
+ * month, both taken from the usage ledger.
+ */
 export interface ModelUsage {
+  /** Spend in USD this month within the budget's scope. */
   used: number;
+  /** Monthly hard budget in USD, or 0 when none is configured. */
   limit: number;
   resetTime?: Date;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
 }
 
 export interface ModelInfo {
@@ -27,38 +45,154 @@ export interface ModelInfo {
   displayName?: string;
 }
 
+export type FallbackCondition =
+  | 'rate_limit'
+  | 'error'
+  | 'unavailable'
+  | 'usage_limit'
+  | 'context_overflow';
+
+export const FALLBACK_CONDITIONS: FallbackCondition[] = [
+  'rate_limit',
+  'error',
+  'unavailable',
+  'usage_limit',
+  'context_overflow',
+];
+
+export interface FallbackChainEntry {
+  model: string;
+  // Inferred from the model name when omitted.
+  provider?: string;
+  // Failures that may switch to this model. Defaults to all conditions.
+  conditions?: FallbackCondition[];
+}
+
+/**
+ * The `modelFallback` setting. Chains are keyed by the model that fails, by
+ * its provider type, or by `*` for any model, and are tried in order.
+ */
+export interface ModelFallbackSettings {
+  enabled?: boolean;
+  chains?: Record<string, FallbackChainEntry[]>;
+}
+
 export interface ModelFallbackConfig {
   primary: string;
   fallbacks: Array<{
     model: string;
-    condition: 'rate_limit' | 'error' | 'unavailable' | 'usage_limit';
+    provider: string;
+    conditions: FallbackCondition[];
     priority: number;
+    configured: boolean;
   }>;
 }
 
+export interface ModelSwitch {
+  fromModel: string;
+  toModel: string;
+  provider: string;
+  condition: FallbackCondition;
+}
+
+// Providers that run locally and need no stored API key.
+const KEYLESS_PROVIDERS: string[] = [
+  ProviderType.OLLAMA,
+  ProviderType.OPENAI_COMPATIBLE,
+];
+
+/**
+ * Classifies a failed request into the condition that selects fallbacks.
+ */
+export function classifyFailure(error: unknown): FallbackCondition {
+  const status =
+    typeof error === 'object' && error !== null && 'status' in error
+      ? Number((error as { status: unknown }).status)
+      : undefined;
+  const message = getErrorMessage(error).toLowerCase();
+
+  if (
+    status === 413 ||
+    /context (length|window)|maximum context|prompt is too long|too many tokens|input token count|exceeds the (model's )?(context|token limit)/.test(
+      message,
+    )
+  ) {
+    return 'context_overflow';
+  }
+  if (
+    status === 402 ||
+    /quota|insufficient[_ ]?(funds|credits|balance)|billing|usage limit|credit balance/.test(
+      message,
+    )
+  ) {
+    return 'usage_limit';
+  }
+  if (
+    status === 429 ||
+    /rate[_ ]?limit|too many requests|\b429\b/.test(message)
+  ) {
+    return 'rate_limit';
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    /econnrefused|enotfound|etimedout|fetch failed|overloaded|service unavailable|\b50[0-4]\b/.test(
+      message,
+    )
+  ) {
+    return 'unavailable';
+  }
+  return 'error';
+}
+
 export class ModelManager {
   private config: Config;
-  private modelUsageCache = new Map<string, ModelUsage>();
-  private fallbackConfig: ModelFallbackConfig | null = null;
+  private fallbackSettings: ModelFallbackSettings;
   private lastSwitchTime = new Map<string, number>();
+  private lastFailureTime = new Map<string, number>();
   private readonly SWITCH_COOLDOWN = 30000; // 30 seconds
 
-  constructor(config: Config) {
+  constructor(config: Config, fallbackSettings: ModelFallbackSettings = {}) {
     this.config = config;
-    this.loadFallbackConfig();
+    this.fallbackSettings = fallbackSettings;
   }
 
-  private loadFallbackConfig(): void {
-    // Default fallback configuration
-    this.fallbackConfig = {
-      primary: this.config.getModel(),
-      fallbacks: [
-        { model: 'gemini-1.5-flash', condition: 'rate_limit', priority: 1 },
-        { model: 'claude-3-haiku', condition: 'rate_limit', priority: 2 },
-        { model: 'gpt-3.5-turbo', condition: 'rate_limit', priority: 3 },
-        { model: 'ollama:llama3.1', condition: 'unavailable', priority: 4 },
-      ],
-    };
+  isAutoSwitchEnabled(): boolean {
+    return this.fallbackSettings.enabled !== false;
+  }
+
+  /**
+   * Returns the declared chain for a model: its own chain, else the chain of
+   * its provider type, else the `*` chain.
+   */
+  private getFallbackChain(modelName: string): FallbackChainEntry[] {
+    const chains = this.fallbackSettings.chains ?? {};
+    return (
+      chains[modelName] ??
+      chains[this.getProviderForModel(modelName)] ??
+      chains['*'] ??
+      []
+    );
+  }
+
+  private getProviderForModel(modelName: string, provider?: string): string {
+    if (provider) {
+      return provider;
+    }
+    if (modelName === this.config.getModel()) {
+      return (
+        this.config.getSelectedProvider() ?? getProviderFromModel(modelName)
+      );
+    }
+    return getProviderFromModel(modelName);
+  }
+
+  /**
+   * Cloud providers are only eligible once their API key has been stored.
+   */
+  private isProviderConfigured(provider: string): boolean {
+    return (
+      KEYLESS_PROVIDERS.includes(provider) || hasStoredCredentials(provider)
+    );
   }
 
   /**
@@ -71,6 +205,7 @@ export class ModelManager {
     anthropic: boolean;
     ollama: boolean;
     openrouter: boolean;
+    openaiCompatible: boolean;
   }> {
     // Force strict authentication check - only show providers with actual credentials
     const authStatus = {
@@ -80,6 +215,8 @@ export class ModelManager {
       anthropic: hasStoredCredentials(ProviderType.ANTHROPIC),
       ollama: await this.checkOllamaAvailability(),
       openrouter: hasStoredCredentials(ProviderType.OPENROUTER),
+      // Only probe a server the user has configured
+      openaiCompatible: !!process.env.OPENAI_COMPATIBLE_BASE_URL,
     };
 
     return authStatus;
@@ -100,6 +237,30 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Get the models served by the configured OpenAI-compatible server
+   */
+  private async getOpenAICompatibleModels(): Promise<ModelInfo[]> {
+    try {
+      const { checkOpenAICompatibleServer } = await import(
+        '../utils/openaiCompatibleSetup.js'
+      );
+      const status = await checkOpenAICompatibleServer();
+      return status.models.map((modelName) => ({
+        name: modelName,
+        description: `Served by ${status.baseUrl}`,
+        provider: ProviderType.OPENAI_COMPATIBLE,
+        capabilities: ['code'],
+        costTier: 'free' as const,
+        contextLength: 32768,
+        isAvailable: true,
+        displayName: modelName,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Get available OpenRouter models dynamically
    */
@@ -515,6 +676,12 @@ export class ModelManager {
       availableModels.push(...ollamaModels);
     }
 
+    if (authStatus.openaiCompatible) {
+      // Get models from the OpenAI-compatible server's /v1/models
+      const compatibleModels = await this.getOpenAICompatibleModels();
+      availableModels.push(...compatibleModels);
+    }
+
     if (authStatus.openrouter) {
       // Get models from OpenRouter dynamically
       const openrouterModels = await this.getOpenRouterModels();
@@ -525,27 +692,47 @@ export class ModelManager {
   }
 
   async getModelUsage(modelName: string): Promise<ModelUsage> {
-    // Check cache first
-    if (this.modelUsageCache.has(modelName)) {
-      return this.modelUsageCache.get(modelName)!;
-    }
+    const ledger = this.config.getUsageLedgerService();
+    const budget = this.config.getUsageBudget();
+    const now = new Date();
+    const [status, totals] = await Promise.all([
+      ledger.checkBudget(budget, now),
+      ledger.getMonthlyTotals({ now }),
+    ]);
 
-    // Mock implementation - in real scenario, this would query API providers
     const usage: ModelUsage = {
-      used: Math.floor(Math.random() * 1000),
-      limit: 1000,
-      resetTime: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
+      used: status.spentUsd,
+      limit: budget.hardLimitUsd ?? 0,
+      resetTime: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
     };
-
-    this.modelUsageCache.set(modelName, usage);
+    // Ledger keys are `provider:model`; the same model may have been used
+    // through several providers.
+    for (const [key, modelTotals] of Object.entries(totals)) {
+      if (key.slice(key.indexOf(':') + 1) === modelName) {
+        usage.requests += modelTotals.requests;
+        usage.inputTokens += modelTotals.inputTokens;
+        usage.outputTokens +=
+          modelTotals.outputTokens + modelTotals.thoughtsTokens;
+        usage.costUsd += modelTotals.costUsd;
+      }
+    }
     return usage;
   }
 
-  async shouldSwitchModel(
+  /**
+   * Picks the first entry of the failing model's chain that accepts the
+   * failure condition, belongs to a configured provider and has not failed
+   * itself within the cooldown.
+   */
+  async resolveFallback(
     modelName: string,
     error?: unknown,
-  ): Promise<string | null> {
-    if (!this.fallbackConfig) return null;
+  ): Promise<ModelSwitch | null> {
+    if (!this.isAutoSwitchEnabled()) return null;
 
     const lastSwitch = this.lastSwitchTime.get(modelName) || 0;
     const now = Date.now();
@@ -555,55 +742,52 @@ export class ModelManager {
       return null;
     }
 
-    // Check usage limits
-    const usage = await this.getModelUsage(modelName);
-    const usagePercent = usage.limit > 0 ? (usage.used / usage.limit) * 100 : 0;
-
-    // Determine switch condition
-    let condition:
-      | 'rate_limit'
-      | 'error'
-      | 'unavailable'
-      | 'usage_limit'
-      | null = null;
-
+    let condition: FallbackCondition | null = null;
     if (error) {
-      const errorObj = error as { status?: number; message?: string }; // Type assertion for error object
-      if (errorObj.status === 429 || errorObj.message?.includes('rate limit')) {
-        condition = 'rate_limit';
-      } else if (errorObj.status && errorObj.status >= 500) {
-        condition = 'unavailable';
-      } else {
-        condition = 'error';
+      condition = classifyFailure(error);
+      this.lastFailureTime.set(modelName, now);
+    } else {
+      const usage = await this.getModelUsage(modelName);
+      const usagePercent =
+        usage.limit > 0 ? (usage.used / usage.limit) * 100 : 0;
+      if (usagePercent >= 95) {
+        condition = 'usage_limit';
       }
-    } else if (usagePercent >= 95) {
-      condition = 'usage_limit';
     }
 
     if (!condition) return null;
 
-    // Find best fallback model
-    const fallbacks = this.fallbackConfig.fallbacks
-      .filter((f) => f.condition === condition)
-      .sort((a, b) => a.priority - b.priority);
-
-    for (const fallback of fallbacks) {
-      const fallbackUsage = await this.getModelUsage(fallback.model);
-      const fallbackPercent =
-        fallbackUsage.limit > 0
-          ? (fallbackUsage.used / fallbackUsage.limit) * 100
-          : 0;
-
-      // Check if fallback model is available and not at limit
-      if (fallbackPercent < 90) {
-        this.lastSwitchTime.set(modelName, now);
-        return fallback.model;
+    for (const entry of this.getFallbackChain(modelName)) {
+      const conditions = entry.conditions ?? FALLBACK_CONDITIONS;
+      const provider = this.getProviderForModel(entry.model, entry.provider);
+      const lastFailure = this.lastFailureTime.get(entry.model) || 0;
+      if (
+        entry.model === modelName ||
+        !conditions.includes(condition) ||
+        !this.isProviderConfigured(provider) ||
+        now - lastFailure < this.SWITCH_COOLDOWN
+      ) {
+        continue;
       }
+      return {
+        fromModel: modelName,
+        toModel: entry.model,
+        provider,
+        condition,
+      };
     }
 
     return null;
   }
 
+  async shouldSwitchModel(
+    modelName: string,
+    error?: unknown,
+  ): Promise<string | null> {
+    const fallback = await this.resolveFallback(modelName, error);
+    return fallback?.toModel ?? null;
+  }
+
   async switchToModel(modelName: string): Promise<boolean> {
     try {
       const client = this.config.getEnfiyClient();
@@ -620,9 +804,6 @@ export class ModelManager {
       // Switch model
       this.config.setModel(modelName);
 
-      // Clear usage cache for the new model
-      this.modelUsageCache.delete(modelName);
-
       return true;
     } catch (error) {
       console.error('Failed to switch model:', error);
@@ -630,53 +811,75 @@ export class ModelManager {
     }
   }
 
-  setFallbackOrder(
-    primary: string,
-    fallbacks: Array<{ model: string; condition: string; priority: number }>,
-  ): void {
-    this.fallbackConfig = {
-      primary,
-      fallbacks: fallbacks.map((f) => ({
-        ...f,
-        condition: f.condition as
-          | 'rate_limit'
-          | 'error'
-          | 'unavailable'
-          | 'usage_limit',
-      })),
-    };
+  /**
+   * Switches to a fallback model, possibly of another provider. The content
+   * generator is rebuilt for the new provider and the conversation carried
+   * over, so the failed request can simply be sent again.
+   */
+  async switchToFallback(fallback: ModelSwitch): Promise<boolean> {
+    try {
+      const client = this.config.getEnfiyClient();
+      if (!client) return false;
+
+      const history = await client.getHistory();
+      this.config.setModel(fallback.toModel);
+      this.config.setSelectedProvider(fallback.provider);
+      await this.config.refreshAuth(AuthType.API_KEY);
+      await this.config.getEnfiyClient().setHistory(history);
+
+      this.lastSwitchTime.set(fallback.fromModel, Date.now());
+      return true;
+    } catch (error) {
+      console.error('Failed to switch model:', error);
+      return false;
+    }
   }
 
-  getFallbackOrder(): ModelFallbackConfig | null {
-    return this.fallbackConfig;
+  getFallbackOrder(
+    modelName: string = this.config.getModel(),
+  ): ModelFallbackConfig | null {
+    const chain = this.getFallbackChain(modelName);
+    if (chain.length === 0) {
+      return null;
+    }
+    return {
+      primary: modelName,
+      fallbacks: chain.map((entry, index) => {
+        const provider = this.getProviderForModel(entry.model, entry.provider);
+        return {
+          model: entry.model,
+          provider,
+          conditions: entry.conditions ?? FALLBACK_CONDITIONS,
+          priority: index + 1,
+          configured: this.isProviderConfigured(provider),
+        };
+      }),
+    };
   }
 
+  /**
+   * Resolves and applies a fallback for a failed request, recording the
+   * switch in telemetry. Returns the switch, or null if none was made.
+   */
   async handleModelError(
     modelName: string,
     error: unknown,
-  ): Promise<string | null> {
-    const fallbackModel = await this.shouldSwitchModel(modelName, error);
-
-    if (fallbackModel) {
-      const switched = await this.switchToModel(fallbackModel);
-      if (switched) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        console.log(
-          `Auto-switched from ${modelName} to ${fallbackModel} due to: ${errorMessage}`,
-        );
-        return fallbackModel;
-      }
+  ): Promise<ModelSwitch | null> {
+    const fallback = await this.resolveFallback(modelName, error);
+    if (!fallback || !(await this.switchToFallback(fallback))) {
+      return null;
     }
 
-    return null;
-  }
-
-  clearUsageCache(): void {
-    this.modelUsageCache.clear();
-  }
-
-  getModelStats(): { [modelName: string]: ModelUsage } {
-    return Object.fromEntries(this.modelUsageCache.entries());
+    logModelSwitch(
+      this.config,
+      new ModelSwitchEvent(
+        fallback.fromModel,
+        fallback.toModel,
+        fallback.condition,
+        fallback.provider,
+        getErrorMessage(error),
+      ),
+    );
+    return fallback;
   }
 }
@@ -7,7 +7,12 @@
  * Based on original work by Google LLC (2025)
  * Modified and extended by Hayate Esaki (2025)
  */
-import { ProviderFactory, ProviderType, ProviderConfig } from '@enfiy/core';
+import {
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  ProviderFactory,
+  ProviderType,
+  ProviderConfig,
+} from '@enfiy/core';
 
 export interface ProviderSetupResult {
   config: ProviderConfig;
@@ -65,6 +70,17 @@ export class ProviderSetupService {
           temperature: 0.7,
           maxTokens: 4096,
         };
+      case ProviderType.OPENAI_COMPATIBLE:
+        return {
+          type: ProviderType.OPENAI_COMPATIBLE,
+          baseUrl:
+            process.env.OPENAI_COMPATIBLE_BASE_URL ||
+            DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+          // Served model names are only known after /v1/models discovery
+          model: '',
+          temperature: 0.7,
+          maxTokens: 4096,
+        };
       case ProviderType.GEMINI:
         return {
           type: ProviderType.GEMINI,
@@ -169,6 +185,12 @@ export class ProviderSetupService {
           description: 'Local AI models - Private, fast, works offline',
           icon: '',
         };
+      case ProviderType.OPENAI_COMPATIBLE:
+        return {
+          name: 'OpenAI-Compatible',
+          description: 'Local AI server - vLLM, TGI, LM Studio, llama.cpp',
+          icon: '',
+        };
       case ProviderType.GEMINI:
         return {
           name: 'Google Gemini',
@@ -41,7 +41,10 @@ import { AuthInProgress } from './components/AuthInProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { Colors } from './colors.js';
 import { Help } from './components/Help.js';
-import { loadHierarchicalEnfiyMemory } from '../config/config.js';
+import {
+  loadHierarchicalEnfiyMemory,
+  getOpenAICompatibleProviderConfig,
+} from '../config/config.js';
 import { LoadedSettings, SettingScope } from '../config/settings.js';
 import { Tips } from './components/Tips.js';
 import { useConsolePatcher } from './components/ConsolePatcher.js';
@@ -49,6 +52,7 @@ import { DetailedMessagesDisplay } from './components/DetailedMessagesDisplay.js
 import { HistoryItemDisplay } from './components/HistoryItemDisplay.js';
 import { ContextSummaryDisplay } from './components/ContextSummaryDisplay.js';
 import { useHistory } from './hooks/useHistoryManager.js';
+import { useSessionPersistence } from './hooks/useSessionPersistence.js';
 import process from 'node:process';
 import {
   getErrorMessage,
@@ -76,6 +80,12 @@ import { checkForUpdates } from './utils/updateCheck.js';
 import { OverflowProvider } from './contexts/OverflowContext.js';
 import { ShowMoreLines } from './components/ShowMoreLines.js';
 import { PrivacyNotice } from './privacy/PrivacyNotice.js';
+import { SessionPickerDialog } from './components/SessionPickerDialog.js';
+import {
+  SessionRecord,
+  SessionSummary,
+  loadSession,
+} from '../utils/sessions.js';
 import {
   ProviderSelectionDialog,
   ProviderSetupDialog,
@@ -102,6 +112,8 @@ interface AppProps {
   config: Config;
   settings: LoadedSettings;
   startupWarnings?: string[];
+  /** Session to continue, from `--resume` or `--continue`. */
+  resumedSession?: SessionRecord;
 }
 
 export const AppWrapper = (props: AppProps) => (
@@ -110,7 +122,12 @@ export const AppWrapper = (props: AppProps) => (
   </SessionStatsProvider>
 );
 
-const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
+const App = ({
+  config,
+  settings,
+  startupWarnings = [],
+  resumedSession,
+}: AppProps) => {
   useBracketedPaste();
   const [updateMessage, setUpdateMessage] = useState<string | null>(null);
   const { stdout } = useStdout();
@@ -126,6 +143,12 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     clearConsoleMessages: clearConsoleMessagesState,
   } = useConsoleMessages();
   const { stats: sessionStats } = useSessionStats();
+  const sessionPersistence = useSessionPersistence(
+    config,
+    history,
+    loadHistory,
+    resumedSession,
+  );
   const [staticNeedsRefresh, setStaticNeedsRefresh] = useState(false);
   const [staticKey, setStaticKey] = useState(0);
   const refreshStatic = useCallback(() => {
@@ -187,6 +210,9 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
   const [isFirstRun, setIsFirstRun] = useState<boolean>(true);
   const [preselectedProvider, setPreselectedProvider] =
     useState<ProviderType | null>(null);
+  const [sessionPickerSessions, setSessionPickerSessions] = useState<
+    SessionSummary[] | null
+  >(null);
 
   const openPrivacyNotice = useCallback(() => {
     setShowPrivacyNotice(true);
@@ -213,12 +239,32 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
 
       // Update the model in config and current state
       config.setModel(compatibleModel);
+      config.setSelectedProvider(provider);
       setCurrentModel(compatibleModel);
 
       // Save to settings for persistence across sessions
       settings.setValue(SettingScope.User, 'selectedProvider', provider);
       settings.setValue(SettingScope.User, 'selectedModel', compatibleModel);
 
+      if (provider === ProviderType.OPENAI_COMPATIBLE) {
+        // Model names say nothing about the endpoint, so rebuild the content
+        // generator with the configured server.
+        try {
+          config.setProviderConfig(
+            getOpenAICompatibleProviderConfig(settings.merged, compatibleModel),
+          );
+          await config.refreshAuth(AuthType.API_KEY);
+        } catch (error) {
+          addItem(
+            {
+              type: MessageType.ERROR,
+              text: `Failed to connect to OpenAI-compatible server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+            Date.now(),
+          );
+        }
+      }
+
       addItem(
         {
           type: MessageType.INFO,
@@ -309,6 +355,7 @@ Feel free to ask me anything or type /help for available commands.`,
 
         // Use the provided provider, or automatically detect if not provided
         const selectedProvider = provider || getProviderFromModel(modelName);
+        config.setSelectedProvider(selectedProvider ?? undefined);
         settings.setValue(
           SettingScope.User,
           'selectedProvider',
@@ -546,6 +593,43 @@ Feel free to ask me anything or type /help for available commands.`,
           }
         }
 
+        if (providerConfig.type === ProviderType.OPENAI_COMPATIBLE) {
+          // The dialog already verified the server; persist the endpoint and
+          // route requests through it right away.
+          const openaiCompatible = {
+            ...settings.user.settings.openaiCompatible,
+            baseUrl: providerConfig.baseUrl,
+          };
+          settings.setValue(
+            SettingScope.User,
+            'openaiCompatible',
+            openaiCompatible,
+          );
+          if (providerConfig.baseUrl) {
+            process.env.OPENAI_COMPATIBLE_BASE_URL = providerConfig.baseUrl;
+          }
+
+          try {
+            config.setSelectedProvider(providerConfig.type);
+            config.setProviderConfig(
+              getOpenAICompatibleProviderConfig(
+                settings.merged,
+                providerConfig.model || '',
+              ),
+            );
+            await config.refreshAuth(AuthType.API_KEY);
+          } catch (error) {
+            addItem(
+              {
+                type: MessageType.ERROR,
+                text: `Failed to connect to ${providerConfig.baseUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              },
+              Date.now(),
+            );
+            return;
+          }
+        }
+
         // Additional verification for Ollama
         if (providerConfig.type === ProviderType.OLLAMA) {
           try {
@@ -696,7 +780,7 @@ Feel free to ask me anything or type /help for available commands.`,
         hasApiKey = hasStoredCredentials(settings.merged.selectedProvider);
 
         // For local providers, API key is not required
-        const localProviders = ['ollama'];
+        const localProviders = ['ollama', 'openai-compatible'];
         if (
           localProviders.includes(
             settings.merged.selectedProvider.toLowerCase(),
@@ -980,6 +1064,19 @@ You can switch authentication methods by typing /auth`,
     config.setFlashFallbackHandler(flashFallbackHandler);
   }, [config, addItem]);
 
+  // Save "always allow" approvals to workspace settings when enabled
+  useEffect(
+    () =>
+      config.getPermissionPolicy().onRuleAdded((rule) => {
+        if (!settings.merged.permissions?.persistApprovals) {
+          return;
+        }
+        settings.addPermissionRule(SettingScope.Workspace, rule);
+        rule.source = 'workspace';
+      }),
+    [config, settings],
+  );
+
   const {
     handleSlashCommand,
     slashCommands,
@@ -1004,9 +1101,41 @@ You can switch authentication methods by typing /auth`,
     openPrivacyNotice,
     openProviderSelection,
     openModelSelection,
+    sessionPersistence,
+    setSessionPickerSessions,
   );
   const pendingHistoryItems = [...pendingSlashCommandHistoryItems];
 
+  const handleSessionSelect = useCallback(
+    async (sessionId: string) => {
+      setSessionPickerSessions(null);
+      const record = await loadSession(
+        sessionPersistence.sessionDir,
+        sessionId,
+      );
+      if (!record) {
+        addItem(
+          { type: MessageType.ERROR, text: `Session not found: ${sessionId}` },
+          Date.now(),
+        );
+        return;
+      }
+      try {
+        await sessionPersistence.resume(record);
+      } catch (error) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Failed to restore the conversation: ${getErrorMessage(error)}`,
+          },
+          Date.now(),
+        );
+      }
+      refreshStatic();
+    },
+    [sessionPersistence, addItem, refreshStatic],
+  );
+
   const { rows: terminalHeight, columns: terminalWidth } = useTerminalSize();
   const isInitialMount = useRef(true);
   const { stdin, setRawMode } = useStdin();
@@ -1141,6 +1270,7 @@ You can switch authentication methods by typing /auth`,
     onAuthError,
     performMemoryRefresh,
     currentModel,
+    settings.merged.modelFallback,
   );
   pendingHistoryItems.push(...pendingEnfiyHistoryItems);
   const { elapsedTime, currentLoadingPhrase } =
@@ -1453,6 +1583,12 @@ You can switch authentication methods by typing /auth`,
               forceAuthSelection={!isManagingProvider}
               inputWidth={inputWidth}
             />
+          ) : sessionPickerSessions ? (
+            <SessionPickerDialog
+              sessions={sessionPickerSessions}
+              onSelect={handleSessionSelect}
+              onCancel={() => setSessionPickerSessions(null)}
+            />
           ) : showProviderSetup && setupProvider ? (
             <ProviderSetupDialog
               provider={setupProvider}
@@ -78,7 +78,7 @@ export const Footer: React.FC<FooterProps> = ({
     }
 
     // Local models (non-Ollama) are always available
-    if (isLocalModel(modelName)) {
+    if (isLocalModel(modelName, selectedProvider)) {
       return true;
     }
 
@@ -95,12 +95,12 @@ export const Footer: React.FC<FooterProps> = ({
     const provider = getProviderFromModel(modelName, selectedProvider);
     if (!provider) return '';
 
+    // Check for local providers - an API key is optional for these
+    if (isLocalModel(modelName, selectedProvider)) return ' (Local)';
+
     const apiKey = getApiKey(provider);
     if (!apiKey) return ' (No API Key)';
 
-    // Check for local providers
-    if (isLocalModel(modelName)) return ' (Local)';
-
     // Check for subscription authentication (Claude Pro/Max)
     if (apiKey.includes('CLAUDE_PRO_OAUTH')) return ' (Pro OAuth)';
     if (apiKey.includes('CLAUDE_MAX_OAUTH')) return ' (Max OAuth)';
@@ -134,7 +134,7 @@ export const Footer: React.FC<FooterProps> = ({
         model,
         selectedProvider,
       );
-      const isLocal = isLocalModel(model);
+      const isLocal = isLocalModel(model, selectedProvider);
       const category = isLocal ? 'Local' : 'Cloud';
       const displayName = providerName ? `${providerName} ` : '';
 
@@ -237,7 +237,7 @@ export const Footer: React.FC<FooterProps> = ({
                   );
                   const apiKey = provider ? getApiKey(provider) : null;
 
-                  if (isLocalModel(model)) {
+                  if (isLocalModel(model, selectedProvider)) {
                     return (
                       <Text color="green">
                         Connection: Local AI{' '}
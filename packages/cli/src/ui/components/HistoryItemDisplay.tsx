@@ -14,6 +14,7 @@ import { ErrorMessage } from './messages/ErrorMessage.js';
 import { ToolGroupMessage } from './messages/ToolGroupMessage.js';
 import { EnfiyMessageContent } from './messages/EnfiyMessageContent.js';
 import { CompressionMessage } from './messages/CompressionMessage.js';
+import { DiffPreviewMessage } from './messages/DiffPreviewMessage.js';
 import { Box } from 'ink';
 import { AboutBox } from './AboutBox.js';
 import { StatsDisplay } from './StatsDisplay.js';
@@ -94,5 +95,13 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
     {item.type === 'compression' && (
       <CompressionMessage compression={item.compression} />
     )}
+    {item.type === 'diff_preview' && (
+      <DiffPreviewMessage
+        title={item.title}
+        diffs={item.diffs}
+        availableTerminalHeight={availableTerminalHeight}
+        terminalWidth={terminalWidth}
+      />
+    )}
   </Box>
 );
@@ -62,6 +62,8 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
         return 'OpenRouter';
       case ProviderType.OLLAMA:
         return 'Ollama';
+      case ProviderType.OPENAI_COMPATIBLE:
+        return 'OpenAI-Compatible';
       default:
         return String(provider);
     }
@@ -55,7 +55,10 @@ export const ProviderSelectionDialog: React.FC<
   >(() => {
     // If we have a preselected provider, determine its category
     if (preselectedProvider) {
-      const localProviders = [ProviderType.OLLAMA];
+      const localProviders = [
+        ProviderType.OLLAMA,
+        ProviderType.OPENAI_COMPATIBLE,
+      ];
       return localProviders.includes(preselectedProvider) ? 'local' : 'cloud';
     }
     return null;
@@ -103,7 +106,14 @@ export const ProviderSelectionDialog: React.FC<
           return true; // Needs setup - connection failed
         }
       }
-      // No other local providers currently supported
+      if (provider === ProviderType.OPENAI_COMPATIBLE) {
+        // Needs setup unless the configured server is up and serving models
+        const { checkOpenAICompatibleServer } = await import(
+          '../../utils/openaiCompatibleSetup.js'
+        );
+        const status = await checkOpenAICompatibleServer();
+        return status.models.length === 0;
+      }
       // Other local providers need actual availability check
       return true; // Default to needs setup for unimplemented local providers
     } else {
@@ -120,7 +130,7 @@ export const ProviderSelectionDialog: React.FC<
         id: 'local' as const,
         name: t('localAI'),
         description: t('localAIDescription'),
-        providers: [ProviderType.OLLAMA],
+        providers: [ProviderType.OLLAMA, ProviderType.OPENAI_COMPATIBLE],
       },
       {
         id: 'cloud' as const,
@@ -170,6 +180,12 @@ export const ProviderSelectionDialog: React.FC<
             } catch {
               configs[provider] = false;
             }
+          } else if (provider === ProviderType.OPENAI_COMPATIBLE) {
+            const { checkOpenAICompatibleServer } = await import(
+              '../../utils/openaiCompatibleSetup.js'
+            );
+            const status = await checkOpenAICompatibleServer();
+            configs[provider] = status.isRunning;
           } else {
             // Other local providers default to not configured until implemented
             configs[provider] = false;
@@ -193,6 +209,8 @@ export const ProviderSelectionDialog: React.FC<
     switch (provider) {
       case ProviderType.OLLAMA:
         return 'Ollama';
+      case ProviderType.OPENAI_COMPATIBLE:
+        return 'OpenAI-Compatible';
       case ProviderType.OPENAI:
         return 'OpenAI';
       case ProviderType.GEMINI:
@@ -229,6 +247,8 @@ export const ProviderSelectionDialog: React.FC<
       // Local providers
       case ProviderType.OLLAMA:
         return 'Popular local AI runtime - Easy setup, excellent models';
+      case ProviderType.OPENAI_COMPATIBLE:
+        return 'vLLM, TGI, LM Studio, llama.cpp or any /v1 endpoint';
 
       // Cloud providers
       case ProviderType.OPENAI:
@@ -281,6 +301,28 @@ export const ProviderSelectionDialog: React.FC<
             console.debug('Could not check Ollama models:', error);
             setAvailableModels([]);
           }
+        } else if (selectedProvider === ProviderType.OPENAI_COMPATIBLE) {
+          // Models are whatever the server reports via /v1/models
+          try {
+            const { checkOpenAICompatibleServer } = await import(
+              '../../utils/openaiCompatibleSetup.js'
+            );
+            const status = await checkOpenAICompatibleServer();
+            setAvailableModels(
+              status.models.map((modelId) => ({
+                id: modelId,
+                name: modelId,
+                provider: ProviderType.OPENAI_COMPATIBLE,
+                category: 'local' as const,
+                description: `Served by ${status.baseUrl}`,
+                contextLength: 32768,
+                capabilities: ['chat', 'code'],
+              })),
+            );
+          } catch (error) {
+            console.debug('Could not list OpenAI-compatible models:', error);
+            setAvailableModels([]);
+          }
         } else {
           // For other providers, use the registry
           const models =
@@ -363,7 +405,7 @@ export const ProviderSelectionDialog: React.FC<
           return;
         }
 
-        // For local providers (now only Ollama), check if setup is needed
+        // For local providers, check if setup is needed
         setIsCheckingProvider(true);
         checkProviderNeedsSetup(selected, selectedCategory === 'local')
           .then((needsSetup) => {
@@ -39,7 +39,7 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
             type: p.type,
             name: p.name,
             available: p.available,
-            isLocal: p.type === ProviderType.OLLAMA,
+            isLocal: ProviderFactory.getLocalProviderTypes().includes(p.type),
           }),
         );
 
@@ -156,6 +156,19 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
           temperature: 0.7,
         };
       }
+      case ProviderType.OPENAI_COMPATIBLE: {
+        // Default to the first model the server reports
+        const { checkOpenAICompatibleServer } = await import(
+          '../../utils/openaiCompatibleSetup.js'
+        );
+        const status = await checkOpenAICompatibleServer();
+        return {
+          type: ProviderType.OPENAI_COMPATIBLE,
+          baseUrl: status.baseUrl,
+          model: status.models[0] ?? '',
+          temperature: 0.7,
+        };
+      }
       case ProviderType.GEMINI:
         return {
           type: ProviderType.GEMINI,
@@ -9,6 +9,11 @@ import { Box, Text, useInput } from 'ink';
 import { Colors } from '../colors.js';
 import { ProviderType } from '@enfiy/core';
 import { t } from '../utils/i18n.js';
+import {
+  checkOpenAICompatibleServer,
+  getOpenAICompatibleBaseUrl,
+  OPENAI_COMPATIBLE_SERVER_EXAMPLES,
+} from '../../utils/openaiCompatibleSetup.js';
 
 export interface ProviderSetupDialogProps {
   provider: ProviderType;
@@ -22,6 +27,7 @@ interface LocalProviderConfig {
   type: ProviderType;
   apiKey?: string;
   endpoint?: string;
+  baseUrl?: string;
   model?: string;
   authMethod?: 'api-key' | 'subscription' | 'local';
 }
@@ -32,6 +38,7 @@ type SetupStep =
   | 'subscription'
   | 'local-install'
   | 'local-install-guide'
+  | 'endpoint'
   | 'model';
 
 export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
@@ -51,12 +58,18 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
   const [highlightedIndex, setHighlightedIndex] = useState(0);
   const [ollamaModel, setOllamaModel] = useState<string>('');
   const [ollamaModels, setOllamaModels] = useState<string[]>([]);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [compatibleModels, setCompatibleModels] = useState<string[]>([]);
+  const [endpointError, setEndpointError] = useState<string | null>(null);
+  const [isCheckingEndpoint, setIsCheckingEndpoint] = useState(false);
 
   const getDefaultModel = useCallback(
     (provider: ProviderType): string => {
       switch (provider) {
         case ProviderType.OLLAMA:
           return ollamaModel || ''; // Use detected model or empty
+        case ProviderType.OPENAI_COMPATIBLE:
+          return compatibleModels[highlightedIndex] || '';
         case ProviderType.OPENAI:
           return 'gpt-4o-mini';
         case ProviderType.MISTRAL:
@@ -67,10 +80,13 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
           return 'default';
       }
     },
-    [ollamaModel],
+    [ollamaModel, compatibleModels, highlightedIndex],
   );
 
-  const isLocalProvider = [ProviderType.OLLAMA].includes(provider);
+  const isLocalProvider = [
+    ProviderType.OLLAMA,
+    ProviderType.OPENAI_COMPATIBLE,
+  ].includes(provider);
   const isCloudProvider = [
     ProviderType.OPENAI,
     ProviderType.GEMINI,
@@ -132,10 +148,37 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
     }
   }, []);
 
+  const checkCompatibleServer = useCallback(async (url: string) => {
+    setIsCheckingEndpoint(true);
+    setEndpointError(null);
+    try {
+      const status = await checkOpenAICompatibleServer(url);
+      if (!status.isRunning) {
+        setEndpointError(`Could not reach ${url}/models`);
+      } else if (status.models.length === 0) {
+        setEndpointError(`${url} is running but serves no models`);
+      } else {
+        setBaseUrl(url);
+        setCompatibleModels(status.models);
+        setStep('model');
+      }
+    } catch (error) {
+      setEndpointError(
+        error instanceof Error ? error.message : 'Connection failed',
+      );
+    } finally {
+      setIsCheckingEndpoint(false);
+    }
+  }, []);
+
   // Check if local provider is installed
   useEffect(() => {
     if (isLocalProvider && provider === ProviderType.OLLAMA) {
       checkOllamaInstallation();
+    } else if (provider === ProviderType.OPENAI_COMPATIBLE) {
+      // Start from the configured endpoint so Enter re-checks it
+      setCurrentInput(getOpenAICompatibleBaseUrl());
+      setStep('endpoint');
     } else if (isCloudProvider) {
       // For cloud providers, always start with method selection
       setStep('method');
@@ -162,6 +205,11 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
           setHighlightedIndex((prev) => Math.max(0, prev - 1));
         } else if (step === 'local-install-guide') {
           setHighlightedIndex((prev) => Math.max(0, prev - 1));
+        } else if (
+          step === 'model' &&
+          provider === ProviderType.OPENAI_COMPATIBLE
+        ) {
+          setHighlightedIndex((prev) => Math.max(0, prev - 1));
         }
         return;
       }
@@ -173,6 +221,13 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
           setHighlightedIndex((prev) => Math.min(2, prev + 1)); // 3 options now
         } else if (step === 'local-install-guide') {
           setHighlightedIndex((prev) => Math.min(1, prev + 1)); // 2 options
+        } else if (
+          step === 'model' &&
+          provider === ProviderType.OPENAI_COMPATIBLE
+        ) {
+          setHighlightedIndex((prev) =>
+            Math.min(compatibleModels.length - 1, prev + 1),
+          );
         }
         return;
       }
@@ -194,6 +249,10 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
         } else if (step === 'method' && isLocalProvider) {
           setAuthMethod('local');
           checkOllamaInstallation();
+        } else if (step === 'endpoint') {
+          if (currentInput.trim() && !isCheckingEndpoint) {
+            checkCompatibleServer(currentInput.trim());
+          }
         } else if (step === 'api-key' && currentInput.trim()) {
           setApiKey(currentInput.trim());
           setStep('model');
@@ -224,6 +283,16 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
             return;
           }
 
+          if (provider === ProviderType.OPENAI_COMPATIBLE) {
+            onComplete({
+              type: provider,
+              baseUrl,
+              authMethod: 'local',
+              model: getDefaultModel(provider),
+            });
+            return;
+          }
+
           onComplete({
             type: provider,
             apiKey: authMethod === 'api-key' ? apiKey : undefined,
@@ -234,8 +303,8 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
         return;
       }
 
-      // Handle text input for API key
-      if (step === 'api-key') {
+      // Handle text input for API key and endpoint URL
+      if (step === 'api-key' || step === 'endpoint') {
         if (key.backspace || key.delete) {
           setCurrentInput((prev) => prev.slice(0, -1));
         } else if (input && !key.ctrl && !key.alt) {
@@ -257,6 +326,10 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
       checkOllamaInstallation,
       isCloudProvider,
       getDefaultModel,
+      baseUrl,
+      compatibleModels,
+      isCheckingEndpoint,
+      checkCompatibleServer,
     ],
   );
 
@@ -274,6 +347,19 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
             'Run AI models locally on your computer - completely private and free',
           installTime: '~5 minutes',
         };
+      case ProviderType.OPENAI_COMPATIBLE:
+        return {
+          name: 'OpenAI-Compatible Server',
+          description:
+            'Self-hosted vLLM, TGI, LM Studio or llama.cpp server speaking the OpenAI API',
+          features: [
+            'Any model your server hosts',
+            'Runs on your own hardware',
+            'Native tool calling when enabled on the server',
+          ],
+          benefits: 'Use a GPU server or desktop app you already run',
+          installTime: '~1 minute',
+        };
       case ProviderType.OPENAI:
         return {
           name: 'OpenAI',
@@ -445,6 +531,50 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
         </Box>
       )}
 
+      {step === 'endpoint' && (
+        <Box flexDirection="column">
+          <Box marginBottom={1}>
+            <Text color={Colors.Foreground}>Enter the server base URL:</Text>
+          </Box>
+
+          <Box paddingLeft={1} marginBottom={1}>
+            <Text color={Colors.AccentBlue}>URL: {currentInput}</Text>
+          </Box>
+
+          {isCheckingEndpoint && (
+            <Box marginBottom={1}>
+              <Text color={Colors.AccentYellow}>Checking server...</Text>
+            </Box>
+          )}
+
+          {endpointError && !isCheckingEndpoint && (
+            <Box marginBottom={1}>
+              <Text color={Colors.AccentRed}>{endpointError}</Text>
+            </Box>
+          )}
+
+          <Box paddingLeft={1} flexDirection="column" marginBottom={1}>
+            {OPENAI_COMPATIBLE_SERVER_EXAMPLES.map((example) => (
+              <Text key={example.name} color={Colors.Gray}>
+                - {example.name}: {example.baseUrl}
+              </Text>
+            ))}
+          </Box>
+
+          <Box marginBottom={1}>
+            <Text color={Colors.Gray} dimColor>
+              Set OPENAI_COMPATIBLE_API_KEY if your server requires a key
+            </Text>
+          </Box>
+
+          <Box>
+            <Text color={Colors.Gray} dimColor>
+              Type the URL and press Enter to check | Esc to cancel
+            </Text>
+          </Box>
+        </Box>
+      )}
+
       {step === 'local-install' && (
         <Box flexDirection="column">
           <Box marginBottom={1}>
@@ -643,6 +773,27 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                 </Text>
               </Box>
 
+              {provider === ProviderType.OPENAI_COMPATIBLE && (
+                <Box flexDirection="column" marginBottom={1}>
+                  <Text color={Colors.Gray}>Models served by {baseUrl}:</Text>
+                  {compatibleModels.map((model, index) => (
+                    <Box key={model} paddingLeft={1}>
+                      <Text
+                        color={
+                          highlightedIndex === index
+                            ? Colors.AccentBlue
+                            : Colors.Foreground
+                        }
+                        bold={highlightedIndex === index}
+                      >
+                        {highlightedIndex === index ? '> ' : '  '}
+                        {model}
+                      </Text>
+                    </Box>
+                  ))}
+                </Box>
+              )}
+
               <Box marginBottom={1}>
                 <Text color={Colors.Foreground}>
                   {provider === ProviderType.OLLAMA &&
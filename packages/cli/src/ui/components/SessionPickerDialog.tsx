@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { Colors } from '../colors.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { SessionSummary } from '../../utils/sessions.js';
+
+// Older sessions can still be resumed by id with /chat resume <id>.
+const MAX_SESSIONS_SHOWN = 20;
+
+export interface SessionPickerDialogProps {
+  /** Saved sessions, most recent first. */
+  sessions: SessionSummary[];
+  onSelect: (sessionId: string) => void;
+  onCancel: () => void;
+}
+
+function describeSession(session: SessionSummary): string {
+  const name = session.tag ?? session.id.slice(0, 8);
+  const prompt = session.firstPrompt?.replace(/\s+/g, ' ') ?? '(no prompts)';
+  return `${name}  ${session.lastUpdated.toLocaleString()}  ${session.messageCount} messages  ${prompt}`;
+}
+
+export function SessionPickerDialog({
+  sessions,
+  onSelect,
+  onCancel,
+}: SessionPickerDialogProps): React.JSX.Element {
+  useInput((_, key) => {
+    if (key.escape) {
+      onCancel();
+    }
+  });
+
+  const items = sessions.slice(0, MAX_SESSIONS_SHOWN).map((session) => ({
+    label: describeSession(session),
+    value: session.id,
+  }));
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={Colors.BorderGray}
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Text bold>Resume a session</Text>
+      <Box marginTop={1} flexDirection="column">
+        <RadioButtonSelect items={items} onSelect={onSelect} isFocused />
+      </Box>
+      <Box marginTop={1}>
+        <Text color={Colors.Gray} wrap="truncate">
+          (Use Enter to resume, Esc to cancel)
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { FileDiff } from '@enfiy/core';
+import { DiffRenderer } from './DiffRenderer.js';
+import { Colors } from '../../colors.js';
+
+export interface DiffPreviewMessageProps {
+  title: string;
+  diffs: FileDiff[];
+  availableTerminalHeight?: number;
+  terminalWidth: number;
+}
+
+/*
+ * Shows what a command such as /restore would change, one diff per file.
+ */
+export const DiffPreviewMessage: React.FC<DiffPreviewMessageProps> = ({
+  title,
+  diffs,
+  availableTerminalHeight,
+  terminalWidth,
+}) => (
+  <Box flexDirection="column" marginBottom={1}>
+    <Text bold color={Colors.AccentBlue}>
+      {title}
+    </Text>
+    {diffs.length === 0 ? (
+      <Text color={Colors.Gray}>No file changes.</Text>
+    ) : (
+      diffs.map((diff) => (
+        <Box key={diff.fileName} flexDirection="column" marginTop={1}>
+          <Text color={Colors.AccentCyan}>{diff.fileName}</Text>
+          <DiffRenderer
+            diffContent={diff.fileDiff}
+            filename={diff.fileName}
+            availableTerminalHeight={availableTerminalHeight}
+            terminalWidth={terminalWidth}
+          />
+        </Box>
+      ))
+    )}
+  </Box>
+);
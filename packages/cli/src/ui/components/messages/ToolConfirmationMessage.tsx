@@ -23,6 +23,7 @@ import {
   RadioButtonSelect,
   RadioSelectItem,
 } from '../shared/RadioButtonSelect.js';
+import { summarizeShellConfirmation } from '../../utils/shellConfirmation.js';
 
 export interface ToolConfirmationMessageProps {
   confirmationDetails: ToolCallConfirmationDetails;
@@ -135,6 +136,8 @@ export const ToolConfirmationMessage: React.FC<
     const executionProps =
       confirmationDetails as ToolExecuteConfirmationDetails;
 
+    const summary = summarizeShellConfirmation(executionProps);
+
     question = `Shell Command Execution Request`;
     options.push(
       {
@@ -142,7 +145,7 @@ export const ToolConfirmationMessage: React.FC<
         value: ToolConfirmationOutcome.ProceedOnce,
       },
       {
-        label: `Yes, allow always "${executionProps.rootCommand} ..."`,
+        label: summary.allowAlwaysLabel,
         value: ToolConfirmationOutcome.ProceedAlways,
       },
       { label: 'No (esc)', value: ToolConfirmationOutcome.Cancel },
@@ -153,9 +156,6 @@ export const ToolConfirmationMessage: React.FC<
       bodyContentHeight -= 2; // Account for padding;
     }
 
-    const commandParts = executionProps.command.split(' ');
-    const mainCommand = commandParts[0];
-    const args = commandParts.slice(1).join(' ');
     const workingDir = process.cwd();
 
     bodyContent = (
@@ -174,28 +174,52 @@ export const ToolConfirmationMessage: React.FC<
         <Box flexDirection="column" marginBottom={1}>
           <Box>
             <Text color={Colors.Gray}>Command: </Text>
-            <Text color={Colors.AccentCyan} bold>
-              {mainCommand}
-            </Text>
-            {args && <Text color={Colors.AccentBlue}> {args}</Text>}
+            <Text color={Colors.AccentCyan}>{executionProps.command}</Text>
           </Box>
           <Box>
             <Text color={Colors.Gray}>Working Directory: </Text>
             <Text color={Colors.AccentGreen}>{workingDir}</Text>
           </Box>
           <Box>
-            <Text color={Colors.Gray}>Root Command: </Text>
+            <Text color={Colors.Gray}>Executables: </Text>
             <Text color={Colors.AccentPurple}>
-              {executionProps.rootCommand}
+              {executionProps.rootCommands.join(', ')}
             </Text>
           </Box>
         </Box>
 
+        {summary.steps.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text color={Colors.Gray}>Runs:</Text>
+            {summary.steps.map((step, index) => (
+              <Box key={index} marginLeft={1}>
+                <Text color={Colors.AccentBlue}>{step.label}</Text>
+                {step.substitution && (
+                  <Text color={Colors.Gray}> (substitution)</Text>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {summary.writes && (
+          <Box marginBottom={1}>
+            <Text color={Colors.AccentYellow}>{summary.writes}</Text>
+          </Box>
+        )}
+
         <Box>
-          <Text color={Colors.Gray}>
-            This command will be executed in your system shell with the above
-            parameters.
-          </Text>
+          {summary.parsed ? (
+            <Text color={Colors.Gray}>
+              This command will be executed in your system shell with the above
+              parameters.
+            </Text>
+          ) : (
+            <Text color={Colors.AccentRed}>
+              This command could not be fully parsed. Review it carefully before
+              running it.
+            </Text>
+          )}
         </Box>
       </Box>
     );
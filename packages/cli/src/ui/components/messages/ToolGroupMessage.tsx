@@ -9,7 +9,7 @@
  */
 
 import React, { useMemo } from 'react';
-import { Box } from 'ink';
+import { Box, Text } from 'ink';
 import { IndividualToolCallDisplay, ToolCallStatus } from '../../types.js';
 import { ToolMessage } from './ToolMessage.js';
 import { ToolConfirmationMessage } from './ToolConfirmationMessage.js';
@@ -38,7 +38,21 @@ export const ToolGroupMessage: React.FC<ToolGroupMessageProps> = ({
   );
   const borderColor = hasPending ? Colors.AccentYellow : Colors.BorderGray;
 
-  const staticHeight = /* border */ 2 + /* marginBottom */ 1;
+  // Read-only calls run side by side; the rest wait for a free slot or for
+  // conflicting calls to finish.
+  const executingCount = toolCalls.filter(
+    (tc) => tc.status === ToolCallStatus.Executing,
+  ).length;
+  const queuedCount = executingCount
+    ? toolCalls.filter((tc) => tc.status === ToolCallStatus.Pending).length
+    : 0;
+  const concurrencyLimit = config?.getMaxConcurrentToolCalls();
+  const showConcurrency = executingCount > 1 || queuedCount > 0;
+
+  const staticHeight =
+    /* border */ 2 +
+    /* marginBottom */ 1 +
+    /* concurrency */ (showConcurrency ? 1 : 0);
   // This is a bit of a magic number, but it accounts for the border and
   // marginLeft.
   const innerWidth = terminalWidth - 4;
@@ -122,6 +136,15 @@ export const ToolGroupMessage: React.FC<ToolGroupMessageProps> = ({
           </Box>
         );
       })}
+      {showConcurrency && (
+        <Box marginLeft={1}>
+          <Text color={Colors.Gray}>
+            Running {executingCount} in parallel
+            {concurrencyLimit ? ` (limit ${concurrencyLimit})` : ''}
+            {queuedCount > 0 ? `, ${queuedCount} queued` : ''}
+          </Text>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -46,6 +46,8 @@ interface SessionStatsContextValue {
   addUsage: (
     metadata: GenerateContentResponseUsageMetadata & { apiTimeMs?: number },
   ) => void;
+  /** Replaces the cumulative stats, e.g. when a saved session is resumed. */
+  restoreStats: (cumulative: CumulativeStats) => void;
 }
 
 // --- Context Definition ---
@@ -179,13 +181,21 @@ export const SessionStatsProvider: React.FC<{ children: React.ReactNode }> = ({
     }));
   }, []);
 
+  const restoreStats = useCallback((cumulative: CumulativeStats) => {
+    setStats((prevState) => ({
+      ...prevState,
+      cumulative: { ...cumulative },
+    }));
+  }, []);
+
   const value = useMemo(
     () => ({
       stats,
       startNewTurn,
       addUsage: aggregateTokens,
+      restoreStats,
     }),
-    [stats, startNewTurn, aggregateTokens],
+    [stats, startNewTurn, aggregateTokens, restoreStats],
   );
 
   return (
@@ -7,7 +7,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
 import type { Mocked } from 'vitest';
 import { handleAtCommand } from './atCommandProcessor.js';
-import { Config, FileDiscoveryService } from '@enfiy/core';
+import {
+  Config,
+  FileDiscoveryService,
+  findMCPResource,
+  readMCPResource,
+} from '@enfiy/core';
 import { ToolCallStatus } from '../types.js';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
 import * as fsPromises from 'fs/promises';
@@ -57,6 +62,8 @@ vi.mock('@enfiy/core', async () => {
   return {
     ...actual,
     FileDiscoveryService: vi.fn(),
+    findMCPResource: vi.fn(),
+    readMCPResource: vi.fn(),
   };
 });
 
@@ -721,6 +728,53 @@ describe('handleAtCommand', () => {
     });
   });
 
+  it('should attach MCP resources referenced as @server:resource', async () => {
+    const query = 'Summarize @docs:readme';
+    const resource = {
+      serverName: 'docs',
+      uri: 'docs://readme',
+      name: 'readme',
+    };
+    vi.mocked(findMCPResource).mockImplementation((reference) =>
+      reference === 'docs:readme' ? resource : undefined,
+    );
+    vi.mocked(readMCPResource).mockResolvedValue([
+      { uri: 'docs://readme', text: '# Readme' },
+    ]);
+
+    const result = await handleAtCommand({
+      query,
+      config: mockConfig,
+      addItem: mockAddItem,
+      onDebugMessage: mockOnDebugMessage,
+      messageId: 400,
+      signal: abortController.signal,
+    });
+
+    expect(readMCPResource).toHaveBeenCalledWith(resource);
+    expect(mockReadManyFilesExecute).not.toHaveBeenCalled();
+    expect(mockAddItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'tool_group',
+        tools: [
+          expect.objectContaining({
+            name: 'Read Resource (docs MCP Server)',
+            status: ToolCallStatus.Success,
+          }),
+        ],
+      }),
+      400,
+    );
+    expect(result.processedQuery).toEqual([
+      { text: query },
+      { text: '\n--- Content from referenced MCP resources ---' },
+      { text: '\nContent from @docs:readme:\n' },
+      { text: '# Readme' },
+      { text: '\n--- End of content ---' },
+    ]);
+    expect(result.shouldProceed).toBe(true);
+  });
+
   describe('when recursive file search is disabled', () => {
     beforeEach(() => {
       vi.mocked(mockConfig.getEnableRecursiveFileSearch).mockReturnValue(false);
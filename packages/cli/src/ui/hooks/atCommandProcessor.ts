@@ -9,8 +9,11 @@ import * as path from 'path';
 import { PartListUnion, PartUnion } from '@google/genai';
 import {
   Config,
+  DiscoveredMCPResource,
+  findMCPResource,
   getErrorMessage,
   isNodeError,
+  readMCPResource,
   unescapePath,
 } from '@enfiy/core';
 import {
@@ -105,6 +108,61 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
   );
 }
 
+/**
+ * Reads the MCP resources referenced with '@<server>:<resource>'. Returns the
+ * parts to add to the query, or null if a resource could not be read, along
+ * with a tool call display for each resource.
+ */
+async function readMCPResources(
+  resources: Array<{ reference: string; resource: DiscoveredMCPResource }>,
+  userMessageTimestamp: number,
+): Promise<{
+  parts: PartUnion[] | null;
+  displays: IndividualToolCallDisplay[];
+}> {
+  const parts: PartUnion[] = [
+    { text: '\n--- Content from referenced MCP resources ---' },
+  ];
+  const displays: IndividualToolCallDisplay[] = [];
+  let failed = false;
+  for (const [index, { reference, resource }] of resources.entries()) {
+    const display: IndividualToolCallDisplay = {
+      callId: `client-read-resource-${userMessageTimestamp}-${index}`,
+      name: `Read Resource (${resource.serverName} MCP Server)`,
+      description: resource.uri,
+      status: ToolCallStatus.Success,
+      resultDisplay: `Successfully read: ${resource.name}`,
+      confirmationDetails: undefined,
+    };
+    try {
+      const contents = await readMCPResource(resource);
+      parts.push({ text: `\nContent from @${reference}:\n` });
+      for (const content of contents) {
+        if ('text' in content && typeof content.text === 'string') {
+          parts.push({ text: content.text });
+        } else if ('blob' in content && typeof content.blob === 'string') {
+          parts.push({
+            inlineData: {
+              mimeType:
+                content.mimeType ??
+                resource.mimeType ??
+                'application/octet-stream',
+              data: content.blob,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      failed = true;
+      display.status = ToolCallStatus.Error;
+      display.resultDisplay = `Error reading ${resource.name}: ${getErrorMessage(error)}`;
+    }
+    displays.push(display);
+  }
+  parts.push({ text: '\n--- End of content ---' });
+  return { parts: failed ? null : parts, displays };
+}
+
 /**
  * Processes user input potentially containing one or more '@<path>' commands.
  * If found, it attempts to read the specified files/directories using the
@@ -139,6 +197,10 @@ export async function handleAtCommand({
   const respectGitIgnore = config.getFileFilteringRespectGitIgnore();
 
   const pathSpecsToRead: string[] = [];
+  const resourcesToRead: Array<{
+    reference: string;
+    resource: DiscoveredMCPResource;
+  }> = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
   const ignoredPaths: string[] = [];
@@ -181,6 +243,16 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resource = findMCPResource(pathName);
+    if (resource) {
+      onDebugMessage(
+        `Path ${pathName} resolved to MCP resource: ${resource.uri}`,
+      );
+      resourcesToRead.push({ reference: pathName, resource });
+      atPathToResolvedSpecMap.set(originalAtPath, pathName);
+      continue;
+    }
+
     // Check if path should be ignored by git
     if (fileDiscovery.shouldGitIgnoreFile(pathName)) {
       const reason = respectGitIgnore
@@ -329,7 +401,7 @@ export async function handleAtCommand({
   }
 
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
-  if (pathSpecsToRead.length === 0) {
+  if (pathSpecsToRead.length === 0 && resourcesToRead.length === 0) {
     onDebugMessage('No valid file paths found in @ commands to read.');
     if (initialQueryText === '@' && query.trim() === '@') {
       // If the only thing was a lone @, pass original query (which might have spaces)
@@ -347,6 +419,32 @@ export async function handleAtCommand({
 
   const processedQueryParts: PartUnion[] = [{ text: initialQueryText }];
 
+  let resourceDisplays: IndividualToolCallDisplay[] = [];
+  if (resourcesToRead.length > 0) {
+    const { parts, displays } = await readMCPResources(
+      resourcesToRead,
+      userMessageTimestamp,
+    );
+    resourceDisplays = displays;
+    if (!parts || pathSpecsToRead.length === 0) {
+      // Nothing else to read, so report the resources on their own.
+      addItem(
+        { type: 'tool_group', tools: resourceDisplays } as Omit<
+          HistoryItem,
+          'id'
+        >,
+        userMessageTimestamp,
+      );
+      return parts
+        ? {
+            processedQuery: [...processedQueryParts, ...parts],
+            shouldProceed: true,
+          }
+        : { processedQuery: null, shouldProceed: false };
+    }
+    processedQueryParts.push(...parts);
+  }
+
   const toolArgs = {
     paths: pathSpecsToRead,
     respectGitIgnore, // Use configuration setting
@@ -397,10 +495,10 @@ export async function handleAtCommand({
     }
 
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [...resourceDisplays, toolCallDisplay],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: processedQueryParts, shouldProceed: true };
@@ -414,10 +512,10 @@ export async function handleAtCommand({
       confirmationDetails: undefined,
     };
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [...resourceDisplays, toolCallDisplay],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: null, shouldProceed: false };
@@ -91,6 +91,12 @@ describe('useSlashCommandProcessor', () => {
   let mockAddItem: ReturnType<typeof vi.fn>;
   let mockClearItems: ReturnType<typeof vi.fn>;
   let mockLoadHistory: ReturnType<typeof vi.fn>;
+  const mockSessionPersistence = {
+    sessionDir: '/test/dir/sessions',
+    getSessionId: vi.fn(() => 'test-session-id'),
+    save: vi.fn(),
+    resume: vi.fn(),
+  };
   let mockRefreshStatic: ReturnType<typeof vi.fn>;
   let mockSetShowHelp: ReturnType<typeof vi.fn>;
   let mockOnDebugMessage: ReturnType<typeof vi.fn>;
@@ -180,6 +186,8 @@ describe('useSlashCommandProcessor', () => {
         vi.fn(),
         vi.fn(),
         vi.fn(),
+        mockSessionPersistence,
+        vi.fn(),
       ),
     );
   };
@@ -384,6 +392,8 @@ describe('useSlashCommandProcessor', () => {
           vi.fn(),
           vi.fn(),
           vi.fn(),
+          mockSessionPersistence,
+          vi.fn(),
         ),
       );
 
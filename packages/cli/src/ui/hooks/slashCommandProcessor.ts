@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { type PartListUnion } from '@google/genai';
 import open from 'open';
 import process from 'node:process';
@@ -12,14 +12,33 @@ import { promisify } from 'node:util';
 import { exec } from 'node:child_process';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { useStateAndRef } from './useStateAndRef.js';
+import { UseSessionPersistenceReturn } from './useSessionPersistence.js';
 import {
   Config,
   GitService,
   Logger,
   MCPDiscoveryState,
   MCPServerStatus,
+  addMCPFeaturesChangeListener,
+  authenticateMCPServer,
+  completeMCPPromptArgument,
+  disableMCPServer,
+  enableMCPServer,
+  getAllMCPPrompts,
   getMCPDiscoveryState,
+  getMCPPrompt,
+  getMCPServerLogs,
+  getMCPServerPrompts,
+  getMCPServerResources,
   getMCPServerStatus,
+  isMCPServerDisabled,
+  reconnectMCPServer,
+  removeMCPFeaturesChangeListener,
+  getErrorMessage,
+  formatUsd,
+  UsageBudgetSettings,
+  describePermissionRule,
+  DiscoveredMCPPrompt,
 } from '@enfiy/core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -31,12 +50,49 @@ import {
 import { promises as fs } from 'fs';
 import path from 'path';
 import { createShowMemoryAction } from './useShowMemoryCommand.js';
+import { createIndexAction } from './useIndexCommand.js';
 import { GIT_COMMIT_INFO } from '../../generated/git-commit.js';
-import { formatDuration, formatMemoryUsage } from '../utils/formatters.js';
+import {
+  formatDuration,
+  formatMemoryUsage,
+  formatTokenCount,
+} from '../utils/formatters.js';
 import { getCliVersion } from '../../utils/version.js';
-import { LoadedSettings } from '../../config/settings.js';
+import { LoadedSettings, SettingScope } from '../../config/settings.js';
 import { ModelManager } from '../../services/modelManager.js';
 import { debugLogger } from '../../utils/debugLogger.js';
+import {
+  CheckpointEntry,
+  getCheckpointChangedFiles,
+  listCheckpoints,
+  readCheckpoint,
+} from '../../utils/checkpoints.js';
+import {
+  BranchState,
+  describeBranch,
+  forkBranch,
+  formatBranchTree,
+  getPrompts,
+  switchBranch,
+} from '../../utils/branches.js';
+import {
+  SessionSummary,
+  isValidSessionTag,
+  listSessions,
+  loadSession,
+} from '../../utils/sessions.js';
+import {
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  formatTranscript,
+  isTranscriptFormat,
+} from '../../utils/export.js';
+import {
+  completeMcpPromptArguments,
+  formatMcpPromptUsage,
+  getMcpPromptCommandNames,
+  parseMcpPromptArguments,
+} from '../utils/mcpPrompts.js';
 
 const execAsync = promisify(exec);
 
@@ -45,6 +101,8 @@ export interface SlashCommandActionReturn {
   toolName?: string;
   toolArgs?: Record<string, unknown>;
   message?: string; // For simple messages or errors
+  /** A prompt to send to the model, e.g. from an MCP prompt template. */
+  submitPrompt?: string;
 }
 
 export interface SlashCommand {
@@ -55,7 +113,8 @@ export interface SlashCommand {
     name: string;
     description: string;
   }>;
-  completion?: () => Promise<string[]>;
+  /** Receives the text typed after the command name. */
+  completion?: (partialArgs: string) => Promise<string[]>;
   action: (
     mainCommand: string,
     subCommand?: string,
@@ -72,7 +131,7 @@ export interface SlashCommand {
 export const useSlashCommandProcessor = (
   config: Config | null,
   settings: LoadedSettings,
-  _history: HistoryItem[],
+  history: HistoryItem[],
   addItem: UseHistoryManagerReturn['addItem'],
   clearItems: UseHistoryManagerReturn['clearItems'],
   loadHistory: UseHistoryManagerReturn['loadHistory'],
@@ -89,8 +148,17 @@ export const useSlashCommandProcessor = (
   openPrivacyNotice: () => void,
   openProviderSelection: () => void,
   openModelSelection: () => void,
+  sessionPersistence: UseSessionPersistenceReturn,
+  openSessionPicker: (sessions: SessionSummary[]) => void,
 ) => {
   const session = useSessionStats();
+  const [mcpPrompts, setMcpPrompts] = useState(getAllMCPPrompts);
+  useEffect(() => {
+    // Prompts are discovered after startup and can change while running.
+    const listener = () => setMcpPrompts(getAllMCPPrompts());
+    addMCPFeaturesChangeListener(listener);
+    return () => removeMCPFeaturesChangeListener(listener);
+  }, []);
   const gitService = useMemo(() => {
     if (!config?.getProjectRoot()) {
       return;
@@ -137,6 +205,12 @@ export const useSlashCommandProcessor = (
           type: 'compression',
           compression: message.compression,
         };
+      } else if (message.type === MessageType.DIFF_PREVIEW) {
+        historyItemContent = {
+          type: 'diff_preview',
+          title: message.title,
+          diffs: message.diffs,
+        };
       } else {
         historyItemContent = {
           type: message.type as
@@ -203,7 +277,18 @@ export const useSlashCommandProcessor = (
     }
   }, [config]);
 
+  const loadBranchState = useCallback(
+    async (state: BranchState) => {
+      loadHistory(state.history);
+      await config?.getEnfiyClient().setHistory(state.clientHistory);
+      refreshStatic();
+    },
+    [config, loadHistory, refreshStatic],
+  );
+
   const slashCommands: SlashCommand[] = useMemo(() => {
+    // Filled in below, once the names of the built-in commands are known.
+    const mcpPromptCommandNames = new Map<DiscoveredMCPPrompt, string>();
     const commands: SlashCommand[] = [
       {
         name: 'help',
@@ -339,8 +424,172 @@ export const useSlashCommandProcessor = (
       },
       {
         name: 'mcp',
-        description: 'list configured MCP servers and tools',
+        description:
+          'list configured MCP servers, tools, resources and prompts, or manage one. Usage: /mcp [desc|nodesc|schema|auth|restart|disable|enable|logs <server>]',
+        completion: async () => {
+          const servers = Object.entries(config?.getMcpServers() || {});
+          return [
+            'desc',
+            'nodesc',
+            'schema',
+            ...servers
+              .filter(([, server]) => server.httpUrl || server.url)
+              .map(([serverName]) => `auth ${serverName}`),
+            ...['restart', 'disable', 'enable', 'logs'].flatMap((subCommand) =>
+              servers.map(([serverName]) => `${subCommand} ${serverName}`),
+            ),
+          ];
+        },
         action: async (_mainCommand, _subCommand, _args) => {
+          const showError = (content: string) =>
+            addMessage({
+              type: MessageType.ERROR,
+              content,
+              timestamp: new Date(),
+            });
+
+          if (_subCommand === 'auth') {
+            const serverName = _args?.trim() ?? '';
+            const serverConfig = config?.getMcpServers()?.[serverName];
+            const serverUrl = serverConfig?.httpUrl ?? serverConfig?.url;
+            const oauthStorage = config?.getMcpOAuthStorage();
+            if (!serverName) {
+              showError('Usage: /mcp auth <server>');
+              return;
+            }
+            if (!serverConfig) {
+              showError(`MCP server '${serverName}' is not configured.`);
+              return;
+            }
+            if (!serverUrl) {
+              showError(
+                `MCP server '${serverName}' is not an HTTP server; only servers with httpUrl or url can be signed in to.`,
+              );
+              return;
+            }
+            if (!config || !oauthStorage) {
+              showError('Could not retrieve the OAuth token storage.');
+              return;
+            }
+
+            try {
+              await authenticateMCPServer(
+                serverName,
+                serverUrl,
+                serverConfig.oauth,
+                oauthStorage,
+                async (authorizationUrl) => {
+                  addMessage({
+                    type: MessageType.INFO,
+                    content: `Sign in to MCP server '${serverName}' in your browser. If it does not open, visit:\n${authorizationUrl.href}`,
+                    timestamp: new Date(),
+                  });
+                  if (
+                    !process.env.SANDBOX ||
+                    process.env.SANDBOX === 'sandbox-exec'
+                  ) {
+                    await open(authorizationUrl.href);
+                  }
+                },
+              );
+              if (!isMCPServerDisabled(serverName)) {
+                const toolRegistry = await config.getToolRegistry();
+                await reconnectMCPServer(serverName, toolRegistry, config);
+              }
+            } catch (error) {
+              showError(
+                `Failed to sign in to MCP server '${serverName}': ${getErrorMessage(error)}`,
+              );
+              return;
+            }
+
+            const toolCount = (await config.getToolRegistry()).getToolsByServer(
+              serverName,
+            ).length;
+            const status = getMCPServerStatus(serverName);
+            addMessage({
+              type: MessageType.INFO,
+              content:
+                status === MCPServerStatus.CONNECTED
+                  ? `Signed in to MCP server '${serverName}' (${toolCount} tools).`
+                  : status === MCPServerStatus.DISABLED
+                    ? `Signed in to MCP server '${serverName}'. It is disabled; run /mcp enable ${serverName} to connect to it.`
+                    : `Signed in to MCP server '${serverName}', but could not connect to it.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+
+          if (
+            _subCommand === 'restart' ||
+            _subCommand === 'disable' ||
+            _subCommand === 'enable' ||
+            _subCommand === 'logs'
+          ) {
+            const serverName = _args?.trim() ?? '';
+            if (!serverName) {
+              showError(`Usage: /mcp ${_subCommand} <server>`);
+              return;
+            }
+            if (!config || !config.getMcpServers()?.[serverName]) {
+              showError(`MCP server '${serverName}' is not configured.`);
+              return;
+            }
+
+            if (_subCommand === 'logs') {
+              const logs = getMCPServerLogs(serverName);
+              addMessage({
+                type: MessageType.INFO,
+                content:
+                  logs.length > 0
+                    ? `Logs of MCP server '${serverName}':\n${logs.join('\n')}`
+                    : `No logs from MCP server '${serverName}' yet.`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+
+            try {
+              const toolRegistry = await config.getToolRegistry();
+              if (_subCommand === 'disable') {
+                await disableMCPServer(serverName, toolRegistry, config);
+              } else if (_subCommand === 'enable') {
+                await enableMCPServer(serverName, toolRegistry, config);
+              } else {
+                await reconnectMCPServer(serverName, toolRegistry, config);
+              }
+            } catch (error) {
+              showError(
+                `Failed to ${_subCommand} MCP server '${serverName}': ${getErrorMessage(error)}`,
+              );
+              return;
+            }
+
+            if (_subCommand === 'disable') {
+              addMessage({
+                type: MessageType.INFO,
+                content: `Disabled MCP server '${serverName}' for this session.`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            const toolCount = (await config.getToolRegistry()).getToolsByServer(
+              serverName,
+            ).length;
+            if (getMCPServerStatus(serverName) === MCPServerStatus.CONNECTED) {
+              addMessage({
+                type: MessageType.INFO,
+                content: `Connected to MCP server '${serverName}' (${toolCount} tools).`,
+                timestamp: new Date(),
+              });
+            } else {
+              showError(
+                `Could not connect to MCP server '${serverName}'. Run /mcp logs ${serverName} for details.`,
+              );
+            }
+            return;
+          }
+
           // Check if the _subCommand includes a specific flag to control description visibility
           let useShowDescriptions = showToolDescriptions;
           if (_subCommand === 'desc' || _subCommand === 'descriptions') {
@@ -428,6 +677,10 @@ export const useSlashCommandProcessor = (
                 statusIndicator = '○';
                 statusText = 'Starting... (first startup may take longer)';
                 break;
+              case MCPServerStatus.DISABLED:
+                statusIndicator = '○';
+                statusText = 'Disabled';
+                break;
               case MCPServerStatus.DISCONNECTED:
               default:
                 statusIndicator = '●';
@@ -446,7 +699,7 @@ export const useSlashCommandProcessor = (
               message += ` (${serverTools.length} tools)`;
             } else if (status === MCPServerStatus.CONNECTING) {
               message += ` (tools will appear when ready)`;
-            } else {
+            } else if (status !== MCPServerStatus.DISABLED) {
               message += ` (${serverTools.length} tools cached)`;
             }
 
@@ -523,6 +776,30 @@ export const useSlashCommandProcessor = (
             } else {
               message += '  No tools available\n';
             }
+
+            const serverResources = getMCPServerResources(serverName);
+            if (serverResources.length > 0) {
+              message += `  Resources (attach with @${serverName}:<name>):\n`;
+              for (const resource of serverResources) {
+                message += `  - \u001b[36m${resource.name}\u001b[0m (${resource.uri})\n`;
+                if (useShowDescriptions && resource.description) {
+                  message += `      \u001b[32m${resource.description.trim()}\u001b[0m\n`;
+                }
+              }
+            }
+
+            const serverPrompts = getMCPServerPrompts(serverName);
+            if (serverPrompts.length > 0) {
+              message += '  Prompts:\n';
+              for (const prompt of serverPrompts) {
+                const commandName =
+                  mcpPromptCommandNames.get(prompt) ?? prompt.name;
+                message += `  - \u001b[36m${formatMcpPromptUsage(commandName, prompt)}\u001b[0m\n`;
+                if (useShowDescriptions && prompt.description) {
+                  message += `      \u001b[32m${prompt.description.trim()}\u001b[0m\n`;
+                }
+              }
+            }
             message += '\n';
           }
 
@@ -642,6 +919,110 @@ export const useSlashCommandProcessor = (
           });
         },
       },
+      {
+        name: 'index',
+        description:
+          'manage the semantic code index. Usage: /index [status|build|refresh|clear]',
+        subCommands: [
+          { name: 'status', description: 'show index size and freshness' },
+          { name: 'build', description: 'rebuild the index from scratch' },
+          {
+            name: 'refresh',
+            description: 're-embed files changed since the last update',
+          },
+          { name: 'clear', description: 'delete the index' },
+        ],
+        action: (_mainCommand, subCommand, _args) =>
+          createIndexAction(config, addMessage)(subCommand),
+      },
+      {
+        name: 'permissions',
+        description:
+          'list and revoke tool permission rules. Usage: /permissions [list|revoke <number>]',
+        subCommands: [
+          { name: 'list', description: 'show rules from settings and session' },
+          { name: 'revoke', description: 'remove a rule by its number' },
+        ],
+        action: (_mainCommand, subCommand, args) => {
+          if (!config) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: 'Configuration not available',
+              timestamp: new Date(),
+            });
+            return;
+          }
+
+          const policy = config.getPermissionPolicy();
+          const rules = policy.getRules();
+          switch (subCommand) {
+            case 'list':
+            case undefined: {
+              if (rules.length === 0) {
+                addMessage({
+                  type: MessageType.INFO,
+                  content:
+                    'No permission rules. Add rules under "permissions.rules" in settings.json, or choose "always allow" when approving a tool call.',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              let message =
+                'Permission Rules (most restrictive match wins):\n\n';
+              rules.forEach((rule, index) => {
+                const color =
+                  rule.decision === 'deny'
+                    ? '\u001b[31m'
+                    : rule.decision === 'ask'
+                      ? '\u001b[33m'
+                      : '\u001b[32m';
+                message += `${index + 1}. ${color}${describePermissionRule(rule)}\u001b[0m (${rule.source ?? 'session'})\n`;
+              });
+              message += `\nApprovals are ${settings.merged.permissions?.persistApprovals ? 'saved to workspace settings' : 'kept for this session only ("permissions.persistApprovals" saves them)'}.`;
+              message += '\nUse /permissions revoke <number> to remove a rule.';
+              addMessage({
+                type: MessageType.INFO,
+                content: message,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'revoke': {
+              const rule = rules[Number(args?.trim()) - 1];
+              if (!rule) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Usage: /permissions revoke <number>, where number is between 1 and ${rules.length}. See /permissions list.`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              policy.removeRule(rule);
+              if (rule.source === 'user' || rule.source === 'workspace') {
+                settings.removePermissionRule(
+                  rule.source === 'user'
+                    ? SettingScope.User
+                    : SettingScope.Workspace,
+                  rule,
+                );
+              }
+              addMessage({
+                type: MessageType.INFO,
+                content: `Revoked: ${describePermissionRule(rule)} (${rule.source ?? 'session'})`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            default:
+              addMessage({
+                type: MessageType.ERROR,
+                content: `Unknown /permissions command: ${subCommand}. Available: list, revoke`,
+                timestamp: new Date(),
+              });
+              return;
+          }
+        },
+      },
       {
         name: 'corgi',
         description: 'Toggle corgi mode',
@@ -767,12 +1148,22 @@ export const useSlashCommandProcessor = (
           }
           switch (subCommand) {
             case 'save': {
+              if (tag && !isValidSessionTag(tag)) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Invalid tag: ${tag}. Use letters, digits, '.', '_' and '-'.`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
               const history = chat.getHistory();
               if (history.length > 0) {
-                await logger.saveCheckpoint(chat?.getHistory() || [], tag);
+                const id = await sessionPersistence.save(tag || undefined);
                 addMessage({
                   type: MessageType.INFO,
-                  content: `Conversation checkpoint saved${tag ? ' with tag: ' + tag : ''}.`,
+                  content: tag
+                    ? `Conversation saved with tag: ${tag}.`
+                    : `Conversation saved as session ${id}.`,
                   timestamp: new Date(),
                 });
               } else {
@@ -787,11 +1178,49 @@ export const useSlashCommandProcessor = (
             case 'resume':
             case 'restore':
             case 'load': {
+              if (!tag) {
+                const sessions = (
+                  await listSessions(sessionPersistence.sessionDir)
+                ).filter(
+                  (session) => session.id !== sessionPersistence.getSessionId(),
+                );
+                if (sessions.length === 0) {
+                  addMessage({
+                    type: MessageType.INFO,
+                    content: 'No saved sessions found.',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                openSessionPicker(sessions);
+                return;
+              }
+
+              const record = await loadSession(
+                sessionPersistence.sessionDir,
+                tag,
+              );
+              if (record) {
+                try {
+                  await sessionPersistence.resume(record);
+                } catch (error) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: `Failed to restore the conversation: ${getErrorMessage(error)}`,
+                    timestamp: new Date(),
+                  });
+                }
+                refreshStatic();
+                return;
+              }
+
+              // Checkpoints saved before sessions were introduced only hold
+              // the conversation, so only its text can be shown.
               const conversation = await logger.loadCheckpoint(tag);
               if (conversation.length === 0) {
                 addMessage({
                   type: MessageType.INFO,
-                  content: `No saved checkpoint found${tag ? ' with tag: ' + tag : ''}.`,
+                  content: `No saved session found with tag or id: ${tag}.`,
                   timestamp: new Date(),
                 });
                 return;
@@ -818,7 +1247,6 @@ export const useSlashCommandProcessor = (
                     .map((m) => m.text)
                     .join('') || '';
                 if (!text) {
-                  // Parsing Part[] back to various non-text output not yet implemented.
                   continue;
                 }
                 if (i === 1 && text.match(/context for our chat/)) {
@@ -839,15 +1267,42 @@ export const useSlashCommandProcessor = (
               refreshStatic();
               return;
             }
-            case 'list':
+            case 'list': {
+              const sessions = await listSessions(
+                sessionPersistence.sessionDir,
+              );
+              const legacyTags = await savedChatTags();
+              if (sessions.length === 0 && legacyTags.length === 0) {
+                addMessage({
+                  type: MessageType.INFO,
+                  content: 'No saved sessions found.',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const lines = sessions.map((session) => {
+                const name = session.tag ?? session.id;
+                const current =
+                  session.id === sessionPersistence.getSessionId()
+                    ? ' (current)'
+                    : '';
+                const prompt = session.firstPrompt
+                  ? ` - ${session.firstPrompt.replace(/\s+/g, ' ').slice(0, 60)}`
+                  : '';
+                return `  ${name}${current}: ${session.lastUpdated.toLocaleString()}, ${session.model}${prompt}`;
+              });
+              if (legacyTags.length > 0) {
+                lines.push(
+                  `  Older checkpoints (text only): ${legacyTags.join(', ')}`,
+                );
+              }
               addMessage({
                 type: MessageType.INFO,
-                content:
-                  'list of saved conversations: ' +
-                  (await savedChatTags()).join(', '),
+                content: `Saved sessions (most recent first):\n${lines.join('\n')}\n\nUse /chat resume <tag|id> to continue one.`,
                 timestamp: new Date(),
               });
               return;
+            }
             default:
               addMessage({
                 type: MessageType.ERROR,
@@ -857,8 +1312,185 @@ export const useSlashCommandProcessor = (
               return;
           }
         },
-        completion: async () =>
-          (await savedChatTags()).map((tag) => 'resume ' + tag),
+        completion: async () => [
+          ...(await listSessions(sessionPersistence.sessionDir)).map(
+            (session) => 'resume ' + (session.tag ?? session.id),
+          ),
+          ...(await savedChatTags()).map((tag) => 'resume ' + tag),
+        ],
+      },
+      {
+        name: 'fork',
+        description:
+          'Rewind to before a prompt in a new branch, keeping the current one. Usage: /fork <number> [name]',
+        action: async (_mainCommand, subCommand, args) => {
+          const prompts = getPrompts(history);
+          if (!subCommand) {
+            if (prompts.length === 0) {
+              addMessage({
+                type: MessageType.INFO,
+                content: 'There are no prompts to fork from yet.',
+                timestamp: new Date(),
+              });
+              return;
+            }
+            const lines = prompts.map((prompt, index) => {
+              const text = prompt.text.replace(/\s+/g, ' ');
+              return `${index + 1}. ${text.length > 70 ? text.slice(0, 67) + '...' : text}`;
+            });
+            addMessage({
+              type: MessageType.INFO,
+              content: `Prompts of this branch:\n\n${lines.join('\n')}\n\nUse /fork <number> [name] to try a different prompt in its place.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const promptNumber = Number(subCommand);
+          if (!Number.isInteger(promptNumber) || promptNumber < 1) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: 'Usage: /fork <number> [name]',
+              timestamp: new Date(),
+            });
+            return;
+          }
+          try {
+            const { tree, branch, state } = forkBranch(
+              sessionPersistence.getBranchTree(),
+              {
+                history,
+                clientHistory:
+                  (await config?.getEnfiyClient().getHistory()) ?? [],
+              },
+              promptNumber,
+              args?.trim() || undefined,
+            );
+            sessionPersistence.setBranchTree(tree);
+            await loadBranchState(state);
+            addMessage({
+              type: MessageType.INFO,
+              content: `Started branch ${describeBranch(branch)} before prompt ${promptNumber}; enter a new prompt to continue from here. Return to the previous branch with /branch ${branch.parentId}. Files are left as they are; use /undo or /restore to revert changes made since then.`,
+              timestamp: new Date(),
+            });
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: getErrorMessage(error),
+              timestamp: new Date(),
+            });
+          }
+        },
+      },
+      {
+        name: 'branch',
+        description:
+          'Switch to another branch of the conversation. Usage: /branch <number|name>',
+        action: async (_mainCommand, subCommand) => {
+          const currentTree = sessionPersistence.getBranchTree();
+          if (!subCommand) {
+            const active = currentTree.branches.find(
+              (branch) => branch.id === currentTree.activeBranchId,
+            );
+            addMessage({
+              type: MessageType.INFO,
+              content: `On branch ${active ? describeBranch(active) : currentTree.activeBranchId}. Use /branch <number|name> to switch and /branches to list them.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          try {
+            const { tree, branch, state } = switchBranch(
+              currentTree,
+              {
+                history,
+                clientHistory:
+                  (await config?.getEnfiyClient().getHistory()) ?? [],
+              },
+              subCommand,
+            );
+            sessionPersistence.setBranchTree(tree);
+            await loadBranchState(state);
+            addMessage({
+              type: MessageType.INFO,
+              content: `Switched to branch ${describeBranch(branch)}.`,
+              timestamp: new Date(),
+            });
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: getErrorMessage(error),
+              timestamp: new Date(),
+            });
+          }
+        },
+      },
+      {
+        name: 'branches',
+        description: 'List the branches of the conversation',
+        action: async (_mainCommand, _subCommand, _args) => {
+          addMessage({
+            type: MessageType.INFO,
+            content: `Branches (* is the current one):\n\n${formatBranchTree(sessionPersistence.getBranchTree())}\n\nUse /branch <number|name> to switch and /fork <number> to start a new branch.`,
+            timestamp: new Date(),
+          });
+        },
+      },
+      {
+        name: 'export',
+        description:
+          'Export the conversation. Usage: /export [md|html|json] [path] [--redact]',
+        action: async (_mainCommand, subCommand, args) => {
+          const words = [subCommand, ...(args ?? '').split(/\s+/)].filter(
+            (word): word is string => !!word,
+          );
+          const redact = words.includes('--redact');
+          const rest = words.filter((word) => word !== '--redact');
+          let format: TranscriptFormat | undefined;
+          if (rest.length > 0 && isTranscriptFormat(rest[0])) {
+            format = rest.shift() as TranscriptFormat;
+          }
+          let filePath = rest.join(' ');
+          if (!format) {
+            const extension = path.extname(filePath).slice(1);
+            format = isTranscriptFormat(extension) ? extension : 'md';
+          }
+          if (getPrompts(history).length === 0) {
+            addMessage({
+              type: MessageType.INFO,
+              content: 'No conversation found to export.',
+              timestamp: new Date(),
+            });
+            return;
+          }
+          if (!filePath) {
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+            filePath = `enfiy-session-${timestamp}.${format}`;
+          }
+          filePath = path.resolve(config?.getTargetDir() ?? '', filePath);
+
+          try {
+            const transcript = formatTranscript(
+              format,
+              history,
+              session.stats.cumulative,
+              { model: config?.getModel(), redact },
+            );
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, transcript, 'utf-8');
+            addMessage({
+              type: MessageType.INFO,
+              content: `Conversation exported to ${filePath}${redact ? ' with API keys redacted' : ''}.`,
+              timestamp: new Date(),
+            });
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Failed to export the conversation: ${getErrorMessage(error)}`,
+              timestamp: new Date(),
+            });
+          }
+        },
+        completion: async () => [...TRANSCRIPT_FORMATS],
       },
       {
         name: 'quit',
@@ -965,7 +1597,7 @@ export const useSlashCommandProcessor = (
       {
         name: 'usage',
         description:
-          'manage model usage limits and settings. Usage: /usage [list|switch|status|order|auto]',
+          'show model usage, spend and budgets. Usage: /usage [list|switch|status|order|auto|report|budget]',
         action: async (_mainCommand, subCommand, args) => {
           if (!config) {
             addMessage({
@@ -976,7 +1608,10 @@ export const useSlashCommandProcessor = (
             return;
           }
 
-          const modelManager = new ModelManager(config);
+          const modelManager = new ModelManager(
+            config,
+            settings.merged.modelFallback,
+          );
           const currentModel = config.getModel() || 'Unknown';
 
           switch (subCommand) {
@@ -993,10 +1628,6 @@ export const useSlashCommandProcessor = (
                   : model.isAvailable
                     ? '[AVAILABLE]'
                     : '[UNAVAILABLE]';
-                const usagePercent =
-                  usage.limit > 0
-                    ? Math.round((usage.used / usage.limit) * 100)
-                    : 0;
 
                 message += `${statusIcon} \u001b[1m${model.name}\u001b[0m`;
                 if (isActive) message += ' (current)';
@@ -1005,18 +1636,22 @@ export const useSlashCommandProcessor = (
 
                 message += `    \u001b[32m${model.description}\u001b[0m\n`;
                 message += `    Provider: \u001b[36m${model.provider}\u001b[0m | Cost: \u001b[33m${model.costTier}\u001b[0m\n`;
+                message += `    This month: ${usage.requests} requests, ${formatUsd(usage.costUsd)}\n\n`;
+              }
 
-                if (usage.limit > 0) {
-                  message += `    Usage: ${usage.used}/${usage.limit} (${usagePercent}%)`;
-                  if (usagePercent >= 90) {
-                    message += ' \u001b[31m[WARNING] Nearly exhausted\u001b[0m';
-                  } else if (usagePercent >= 70) {
-                    message += ' \u001b[33m[WARNING] High usage\u001b[0m';
-                  }
-                } else {
-                  message += '    Usage: Unlimited';
+              const listBudget = await modelManager.getModelUsage(currentModel);
+              if (listBudget.limit > 0) {
+                const budgetPercent = Math.round(
+                  (listBudget.used / listBudget.limit) * 100,
+                );
+                message += `Budget: ${formatUsd(listBudget.used)}/${formatUsd(listBudget.limit)} (${budgetPercent}%)`;
+                if (budgetPercent >= 90) {
+                  message += ' \u001b[31m[WARNING] Nearly exhausted\u001b[0m';
+                } else if (budgetPercent >= 70) {
+                  message += ' \u001b[33m[WARNING] High usage\u001b[0m';
                 }
-                message += '\n\n';
+              } else {
+                message += 'Budget: Unlimited';
               }
 
               addMessage({
@@ -1064,9 +1699,10 @@ export const useSlashCommandProcessor = (
                   : 0;
 
               let statusMessage = `Current Model: \u001b[1m${currentModel}\u001b[0m\n\n`;
+              statusMessage += `This month: ${usage.requests} requests, ${formatTokenCount(usage.inputTokens)} in / ${formatTokenCount(usage.outputTokens)} out, ${formatUsd(usage.costUsd)}\n`;
 
               if (usage.limit > 0) {
-                statusMessage += `Usage: ${usage.used}/${usage.limit} requests (${usagePercent}%)\n`;
+                statusMessage += `Budget: ${formatUsd(usage.used)}/${formatUsd(usage.limit)} (${usagePercent}%)\n`;
 
                 if (usage.resetTime) {
                   statusMessage += `Reset time: ${usage.resetTime.toLocaleString()}\n`;
@@ -1083,7 +1719,7 @@ export const useSlashCommandProcessor = (
                     '\u001b[32m[OK] Usage within normal limits\u001b[0m\n';
                 }
               } else {
-                statusMessage += 'Usage: Unlimited\n';
+                statusMessage += 'Budget: Unlimited\n';
               }
 
               // Show fallback suggestion if needed
@@ -1102,11 +1738,12 @@ export const useSlashCommandProcessor = (
             }
 
             case 'order': {
-              const fallbackConfig = modelManager.getFallbackOrder();
+              const fallbackConfig =
+                modelManager.getFallbackOrder(currentModel);
               if (!fallbackConfig) {
                 addMessage({
                   type: MessageType.INFO,
-                  content: 'No fallback order configured',
+                  content: `No fallback chain configured for ${currentModel}. Add one under "modelFallback.chains" in settings.json.`,
                   timestamp: new Date(),
                 });
                 return;
@@ -1115,15 +1752,16 @@ export const useSlashCommandProcessor = (
               let orderMessage = 'Model Fallback Order:\n\n';
               orderMessage += `Primary: \u001b[1m${fallbackConfig.primary}\u001b[0m\n\n`;
 
-              if (fallbackConfig.fallbacks.length > 0) {
-                orderMessage += 'Fallbacks:\n';
-                fallbackConfig.fallbacks
-                  .sort((a, b) => a.priority - b.priority)
-                  .forEach((fallback, index) => {
-                    orderMessage += `${index + 1}. \u001b[36m${fallback.model}\u001b[0m`;
-                    orderMessage += ` (${fallback.condition})\n`;
-                  });
-              }
+              orderMessage += 'Fallbacks:\n';
+              fallbackConfig.fallbacks.forEach((fallback) => {
+                orderMessage += `${fallback.priority}. \u001b[36m${fallback.model}\u001b[0m (${fallback.provider})`;
+                orderMessage += ` on ${fallback.conditions.join(', ')}`;
+                if (!fallback.configured) {
+                  orderMessage +=
+                    ' \u001b[33m[SKIPPED] provider not configured\u001b[0m';
+                }
+                orderMessage += '\n';
+              });
 
               orderMessage +=
                 '\nUse: /usage switch <model_name> to change primary model';
@@ -1138,31 +1776,140 @@ export const useSlashCommandProcessor = (
 
             case 'auto': {
               const autoArgs = args?.trim();
-              if (autoArgs === 'on' || autoArgs === 'enable') {
-                // Enable auto-switching (this would be saved to settings)
-                addMessage({
-                  type: MessageType.INFO,
-                  content:
-                    '[ENABLED] Automatic model switching enabled. Models will switch automatically on errors or limits.',
-                  timestamp: new Date(),
+              const enable = autoArgs === 'on' || autoArgs === 'enable';
+              if (enable || autoArgs === 'off' || autoArgs === 'disable') {
+                settings.setValue(SettingScope.Workspace, 'modelFallback', {
+                  ...settings.workspace.settings.modelFallback,
+                  enabled: enable,
                 });
-              } else if (autoArgs === 'off' || autoArgs === 'disable') {
                 addMessage({
                   type: MessageType.INFO,
-                  content: '[DISABLED] Automatic model switching disabled.',
+                  content: enable
+                    ? '[ENABLED] Automatic model switching enabled for this workspace. Failed requests will move along the configured fallback chain.'
+                    : '[DISABLED] Automatic model switching disabled for this workspace.',
                   timestamp: new Date(),
                 });
               } else {
                 addMessage({
                   type: MessageType.INFO,
-                  content:
-                    'Automatic Model Switching Status:\n\n[ENABLED] Enabled\n\nFallback triggers:\n- Rate limits (429 errors)\n- Server errors (5xx)\n- Usage limit reached (>95%)\n\nUse: /usage auto [on|off] to toggle',
+                  content: `Automatic Model Switching Status:\n\n${modelManager.isAutoSwitchEnabled() ? '[ENABLED] Enabled' : '[DISABLED] Disabled'}\n\nFallback conditions:\n- rate_limit: 429 / rate limit errors\n- usage_limit: quota or billing limits\n- unavailable: server errors (5xx) or unreachable provider\n- context_overflow: request exceeds the context window\n- error: any other error\n\nUse: /usage order to see the chain, /usage auto [on|off] to toggle`,
                   timestamp: new Date(),
                 });
               }
               return;
             }
 
+            case 'report': {
+              const reportArgs = (args ?? '').split(/\s+/).filter(Boolean);
+              const period = reportArgs.includes('weekly') ? 'weekly' : 'daily';
+              const projectOnly = reportArgs.includes('--project');
+              const periods = await config
+                .getUsageLedgerService()
+                .getReport(period, period === 'daily' ? 7 : 4, {
+                  projectOnly,
+                });
+
+              let reportMessage = `Usage Report (${period === 'daily' ? 'last 7 days' : 'last 4 weeks'}, ${projectOnly ? 'this project' : 'all projects'}):\n`;
+              let totalCost = 0;
+              let totalRequests = 0;
+              for (const usagePeriod of periods) {
+                const label =
+                  period === 'daily'
+                    ? usagePeriod.start
+                    : `${usagePeriod.start} to ${usagePeriod.end}`;
+                const { total } = usagePeriod;
+                totalCost += total.costUsd;
+                totalRequests += total.requests;
+                reportMessage += `\n\u001b[1m${label}\u001b[0m  ${total.requests} requests, ${formatTokenCount(total.inputTokens)} in / ${formatTokenCount(total.outputTokens + total.thoughtsTokens)} out, \u001b[33m${formatUsd(total.costUsd)}\u001b[0m\n`;
+                const models = Object.entries(usagePeriod.models).sort(
+                  ([, a], [, b]) => b.costUsd - a.costUsd,
+                );
+                for (const [model, totals] of models) {
+                  reportMessage += `    \u001b[36m${model}\u001b[0m: ${totals.requests} requests, ${formatTokenCount(totals.inputTokens)} in / ${formatTokenCount(totals.outputTokens + totals.thoughtsTokens)} out, ${formatUsd(totals.costUsd)}\n`;
+                }
+              }
+              reportMessage += `\nTotal: ${totalRequests} requests, ${formatUsd(totalCost)}`;
+
+              const budgetStatus = await config
+                .getUsageLedgerService()
+                .checkBudget(config.getUsageBudget());
+              if (budgetStatus.hardLimitUsd !== undefined) {
+                reportMessage += `\nBudget for ${budgetStatus.month}: ${formatUsd(budgetStatus.spentUsd)}/${formatUsd(budgetStatus.hardLimitUsd)}`;
+              }
+              reportMessage +=
+                '\n\nCosts are estimated from model registry pricing; unpriced and local models count as free.';
+
+              addMessage({
+                type: MessageType.INFO,
+                content: reportMessage,
+                timestamp: new Date(),
+              });
+              return;
+            }
+
+            case 'budget': {
+              const [limitName, amount] = (args ?? '')
+                .split(/\s+/)
+                .filter(Boolean);
+              if (limitName) {
+                const value = Number(amount);
+                if (
+                  limitName !== 'off' &&
+                  (!['soft', 'hard'].includes(limitName) ||
+                    !Number.isFinite(value) ||
+                    value < 0)
+                ) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: 'Usage: /usage budget [soft <usd>|hard <usd>|off]',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                const budget: UsageBudgetSettings =
+                  limitName === 'off'
+                    ? {}
+                    : {
+                        ...settings.user.settings.usageBudget,
+                        [limitName === 'soft'
+                          ? 'softLimitUsd'
+                          : 'hardLimitUsd']: value,
+                      };
+                // Budgets cover the team's total spend, so they live in
+                // user settings rather than one workspace.
+                settings.setValue(SettingScope.User, 'usageBudget', budget);
+                config.setUsageBudget(settings.merged.usageBudget ?? {});
+              }
+
+              const budget = config.getUsageBudget();
+              const status = await config
+                .getUsageLedgerService()
+                .checkBudget(budget);
+              let budgetMessage = `Usage Budget (${budget.scope === 'project' ? 'this project' : 'all projects'}):\n\n`;
+              budgetMessage += `Soft limit: ${budget.softLimitUsd !== undefined ? formatUsd(budget.softLimitUsd) : 'none'}\n`;
+              budgetMessage += `Hard limit: ${budget.hardLimitUsd !== undefined ? formatUsd(budget.hardLimitUsd) : 'none'}\n`;
+              if (
+                budget.softLimitUsd !== undefined ||
+                budget.hardLimitUsd !== undefined
+              ) {
+                budgetMessage += `Spent in ${status.month}: ${formatUsd(status.spentUsd)}`;
+              }
+              if (status.state === 'hard') {
+                budgetMessage +=
+                  ' \u001b[31m[BLOCKED] Requests to paid models are refused\u001b[0m';
+              } else if (status.state === 'soft') {
+                budgetMessage +=
+                  ' \u001b[33m[WARNING] Past the soft limit\u001b[0m';
+              }
+
+              addMessage({
+                type: MessageType.INFO,
+                content: budgetMessage,
+                timestamp: new Date(),
+              });
+              return;
+            }
+
             case undefined: {
               // Show current model and quick status
               const quickUsage = await modelManager.getModelUsage(currentModel);
@@ -1173,19 +1920,20 @@ export const useSlashCommandProcessor = (
 
               let quickMessage = `Current Model: \u001b[1m${currentModel}\u001b[0m\n`;
 
+              quickMessage += `This month: ${quickUsage.requests} requests, ${formatUsd(quickUsage.costUsd)}\n`;
               if (quickUsage.limit > 0) {
-                quickMessage += `Usage: ${quickUsage.used}/${quickUsage.limit} (${quickPercent}%)`;
+                quickMessage += `Budget: ${formatUsd(quickUsage.used)}/${formatUsd(quickUsage.limit)} (${quickPercent}%)`;
                 if (quickPercent >= 90) {
                   quickMessage += ' \u001b[31m[WARNING]\u001b[0m';
                 } else if (quickPercent >= 70) {
                   quickMessage += ' \u001b[33m[WARNING]\u001b[0m';
                 }
               } else {
-                quickMessage += 'Usage: Unlimited';
+                quickMessage += 'Budget: Unlimited';
               }
 
               quickMessage +=
-                '\n\nCommands: list, switch <name>, status, order, auto [on|off]';
+                '\n\nCommands: list, switch <name>, status, order, auto [on|off], report [daily|weekly] [--project], budget [soft|hard <usd>|off]';
 
               addMessage({
                 type: MessageType.INFO,
@@ -1198,7 +1946,7 @@ export const useSlashCommandProcessor = (
             default:
               addMessage({
                 type: MessageType.ERROR,
-                content: `Unknown /usage command: ${subCommand}. Available: list, switch, status, order, auto`,
+                content: `Unknown /usage command: ${subCommand}. Available: list, switch, status, order, auto, report, budget`,
                 timestamp: new Date(),
               });
               return;
@@ -1931,11 +2679,102 @@ export const useSlashCommandProcessor = (
       },
     ];
 
+    const stepEditHistory = async (
+      direction: 'undo' | 'redo',
+      subCommand?: string,
+    ) => {
+      const editHistory = config?.getEditHistoryService();
+      if (!editHistory) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `/${direction} needs checkpointing, which records the file changes made by tools. Enable it with --checkpointing or the checkpointing.enabled setting.`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+      const mode = subCommand ?? 'check';
+      if (mode !== 'check' && mode !== 'merge' && mode !== 'force') {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Usage: /${direction} [merge|force]`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+      try {
+        const result =
+          direction === 'undo'
+            ? await editHistory.undo(mode)
+            : await editHistory.redo(mode);
+        if (!result) {
+          addMessage({
+            type: MessageType.INFO,
+            content: `Nothing to ${direction}.`,
+            timestamp: new Date(),
+          });
+          return;
+        }
+        const { entry, modifiedFiles, conflictedFiles } = result;
+        if (!result.applied) {
+          addMessage({
+            type: MessageType.ERROR,
+            content:
+              `Changed by hand since ${entry.toolName} ran: ${modifiedFiles.join(', ')}\n` +
+              `Use /${direction} merge to keep your changes with a 3-way merge, or /${direction} force to overwrite them.`,
+            timestamp: new Date(),
+          });
+          return;
+        }
+        const lines = [
+          `${direction === 'undo' ? 'Undid' : 'Redid'} ${entry.toolName}: ${entry.description}`,
+          `Files: ${entry.files.map((file) => file.path).join(', ')}`,
+        ];
+        if (conflictedFiles.length > 0) {
+          lines.push(
+            `Merge conflicts to resolve in: ${conflictedFiles.join(', ')}`,
+          );
+        }
+        addMessage({
+          type:
+            conflictedFiles.length > 0 ? MessageType.ERROR : MessageType.INFO,
+          content: lines.join('\n'),
+          timestamp: new Date(),
+        });
+      } catch (error) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Could not ${direction} the change: ${getErrorMessage(error)}`,
+          timestamp: new Date(),
+        });
+      }
+    };
+
+    commands.push(
+      {
+        name: 'undo',
+        description:
+          'undo the last file change made by a tool. Usage: /undo [merge|force]',
+        completion: async () => ['merge', 'force'],
+        action: async (_mainCommand, subCommand) => {
+          await stepEditHistory('undo', subCommand);
+        },
+      },
+      {
+        name: 'redo',
+        description:
+          'redo the last undone file change. Usage: /redo [merge|force]',
+        completion: async () => ['merge', 'force'],
+        action: async (_mainCommand, subCommand) => {
+          await stepEditHistory('redo', subCommand);
+        },
+      },
+    );
+
     if (config?.getCheckpointingEnabled()) {
       commands.push({
         name: 'restore',
         description:
-          'restore a tool call. This will reset the conversation and file history to the state it was in when the tool call was suggested',
+          'list checkpoints, preview or restore one. Usage: /restore [<number|name> [all|conversation|files <paths...>]]',
         completion: async () => {
           const checkpointDir = config?.getProjectTempDir()
             ? path.join(config.getProjectTempDir(), 'checkpoints')
@@ -1943,16 +2782,11 @@ export const useSlashCommandProcessor = (
           if (!checkpointDir) {
             return [];
           }
-          try {
-            const files = await fs.readdir(checkpointDir);
-            return files
-              .filter((file) => file.endsWith('.json'))
-              .map((file) => file.replace('.json', ''));
-          } catch (_err) {
-            return [];
-          }
+          return (await listCheckpoints(checkpointDir)).map(
+            (entry) => entry.name,
+          );
         },
-        action: async (_mainCommand, subCommand, _args) => {
+        action: async (_mainCommand, subCommand, args) => {
           const checkpointDir = config?.getProjectTempDir()
             ? path.join(config.getProjectTempDir(), 'checkpoints')
             : undefined;
@@ -1966,14 +2800,17 @@ export const useSlashCommandProcessor = (
             return;
           }
 
+          const describeCheckpoint = (entry: CheckpointEntry) =>
+            [
+              `${entry.timestamp.toLocaleString()}  ${entry.data.toolCall.name}`,
+              ...getCheckpointChangedFiles(entry, config.getProjectRoot()),
+            ].join(' ');
+
           try {
-            // Ensure the directory exists before trying to read it.
-            await fs.mkdir(checkpointDir, { recursive: true });
-            const files = await fs.readdir(checkpointDir);
-            const jsonFiles = files.filter((file) => file.endsWith('.json'));
+            const entries = await listCheckpoints(checkpointDir);
 
             if (!subCommand) {
-              if (jsonFiles.length === 0) {
+              if (entries.length === 0) {
                 addMessage({
                   type: MessageType.INFO,
                   content: 'No restorable tool calls found.',
@@ -1981,76 +2818,198 @@ export const useSlashCommandProcessor = (
                 });
                 return;
               }
-              const truncatedFiles = jsonFiles.map((file) => {
-                const components = file.split('.');
-                if (components.length <= 1) {
-                  return file;
+              const lines: string[] = [];
+              for (const [index, entry] of entries.entries()) {
+                const changedFiles = getCheckpointChangedFiles(
+                  entry,
+                  config.getProjectRoot(),
+                );
+                lines.push(
+                  `${index + 1}. ${entry.timestamp.toLocaleString()}  ${entry.data.toolCall.name}`,
+                );
+                if (changedFiles.length > 0) {
+                  lines.push(`   changes: ${changedFiles.join(', ')}`);
                 }
-                components.pop();
-                return components.join('.');
-              });
-              const fileList = truncatedFiles.join('\n');
+                lines.push(`   id: ${entry.name}`);
+              }
               addMessage({
                 type: MessageType.INFO,
-                content: `Available tool calls to restore:\n\n${fileList}`,
+                content: `Checkpoints (oldest first):\n\n${lines.join('\n')}\n\nUse /restore <number> to preview the changes a restore would make.`,
                 timestamp: new Date(),
               });
               return;
             }
 
-            const selectedFile = subCommand.endsWith('.json')
-              ? subCommand
-              : `${subCommand}.json`;
+            const entry = /^\d+$/.test(subCommand)
+              ? entries[Number(subCommand) - 1]
+              : await readCheckpoint(checkpointDir, subCommand);
 
-            if (!jsonFiles.includes(selectedFile)) {
+            if (!entry) {
               addMessage({
                 type: MessageType.ERROR,
-                content: `File not found: ${selectedFile}`,
+                content: `Checkpoint not found: ${subCommand}`,
                 timestamp: new Date(),
               });
               return;
             }
 
-            const filePath = path.join(checkpointDir, selectedFile);
-            const data = await fs.readFile(filePath, 'utf-8');
-            const toolCallData = JSON.parse(data);
-
-            if (toolCallData.history) {
-              loadHistory(toolCallData.history);
-            }
+            const [mode, ...files] = (args ?? '').split(/\s+/).filter(Boolean);
+            const { data } = entry;
 
-            if (toolCallData.clientHistory) {
-              await config
-                ?.getEnfiyClient()
-                ?.setHistory(toolCallData.clientHistory);
-            }
-
-            if (toolCallData.commitHash) {
-              await gitService?.restoreProjectFromSnapshot(
-                toolCallData.commitHash,
-              );
+            if (!mode) {
+              if (data.commitHash && gitService) {
+                addMessage({
+                  type: MessageType.DIFF_PREVIEW,
+                  title: `Restoring ${describeCheckpoint(entry)} would change:`,
+                  diffs: await gitService.getSnapshotDiffs(data.commitHash),
+                  timestamp: new Date(),
+                });
+              }
               addMessage({
                 type: MessageType.INFO,
-                content: `Restored project to the state before the tool call.`,
+                content: [
+                  `/restore ${subCommand} all - restore files and conversation, then retry the tool call`,
+                  `/restore ${subCommand} files <paths...> - restore only the given files`,
+                  `/restore ${subCommand} conversation - restore only the conversation`,
+                ].join('\n'),
                 timestamp: new Date(),
               });
+              return;
             }
 
-            return {
-              shouldScheduleTool: true,
-              toolName: toolCallData.toolCall.name,
-              toolArgs: toolCallData.toolCall.args,
+            const restoreConversation = async () => {
+              if (data.history) {
+                loadHistory(data.history);
+              }
+              if (data.clientHistory) {
+                await config?.getEnfiyClient()?.setHistory(data.clientHistory);
+              }
             };
+
+            switch (mode) {
+              case 'all':
+                await restoreConversation();
+                if (data.commitHash) {
+                  await gitService?.restoreProjectFromSnapshot(data.commitHash);
+                  addMessage({
+                    type: MessageType.INFO,
+                    content: `Restored project to the state before the tool call.`,
+                    timestamp: new Date(),
+                  });
+                }
+                return {
+                  shouldScheduleTool: true,
+                  toolName: data.toolCall.name,
+                  toolArgs: data.toolCall.args,
+                };
+              case 'conversation':
+                await restoreConversation();
+                addMessage({
+                  type: MessageType.INFO,
+                  content: 'Restored the conversation to before the tool call.',
+                  timestamp: new Date(),
+                });
+                return;
+              case 'files':
+                if (files.length === 0) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: `Usage: /restore ${subCommand} files <paths...>`,
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                if (!data.commitHash || !gitService) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: 'This checkpoint has no file snapshot.',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                await gitService.restoreFilesFromSnapshot(
+                  data.commitHash,
+                  files,
+                );
+                addMessage({
+                  type: MessageType.INFO,
+                  content: `Restored ${files.join(', ')} to the state before the tool call.`,
+                  timestamp: new Date(),
+                });
+                return;
+              default:
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Unknown restore mode: ${mode}. Use all, conversation or files.`,
+                  timestamp: new Date(),
+                });
+                return;
+            }
           } catch (_error) {
             addMessage({
               type: MessageType.ERROR,
-              content: `Could not read restorable tool calls. This is the error: ${_error}`,
+              content: `Could not restore the checkpoint. This is the error: ${_error}`,
               timestamp: new Date(),
             });
           }
         },
       });
     }
+
+    const promptCommandNames = getMcpPromptCommandNames(
+      mcpPrompts,
+      new Set(
+        commands.flatMap((command) =>
+          command.altName ? [command.name, command.altName] : [command.name],
+        ),
+      ),
+    );
+    mcpPrompts.forEach((prompt, index) => {
+      const commandName = promptCommandNames[index];
+      mcpPromptCommandNames.set(prompt, commandName);
+      commands.push({
+        name: commandName,
+        description: `${prompt.description || prompt.name} (${prompt.serverName} MCP prompt)`,
+        completion: (partialArgs) =>
+          completeMcpPromptArguments(prompt, partialArgs, (argument, value) =>
+            completeMCPPromptArgument(prompt, argument, value).catch(() => []),
+          ),
+        action: async (_mainCommand, subCommand, args) => {
+          let promptArgs: Record<string, string>;
+          try {
+            promptArgs = parseMcpPromptArguments(
+              prompt,
+              [subCommand, args].filter(Boolean).join(' '),
+            );
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `${getErrorMessage(error)}\nUsage: ${formatMcpPromptUsage(commandName, prompt)}`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          try {
+            const text = await getMCPPrompt(prompt, promptArgs);
+            if (!text) {
+              addMessage({
+                type: MessageType.ERROR,
+                content: `MCP prompt ${prompt.name} returned no text.`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            return { submitPrompt: text };
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Failed to get MCP prompt ${prompt.name}: ${getErrorMessage(error)}`,
+              timestamp: new Date(),
+            });
+          }
+        },
+      });
+    });
     return commands.sort((a, b) => a.name.localeCompare(b.name));
   }, [
     onDebugMessage,
@@ -2079,6 +3038,11 @@ export const useSlashCommandProcessor = (
     openPrivacyNotice,
     openProviderSelection,
     openModelSelection,
+    sessionPersistence,
+    openSessionPicker,
+    history,
+    loadBranchState,
+    mcpPrompts,
   ]);
 
   const handleSlashCommand = useCallback(
@@ -2124,7 +3088,8 @@ export const useSlashCommandProcessor = (
           const actionResult = await cmd.action(mainCommand, subCommand, args);
           if (
             typeof actionResult === 'object' &&
-            actionResult?.shouldScheduleTool
+            (actionResult?.shouldScheduleTool ||
+              actionResult?.submitPrompt !== undefined)
           ) {
             return actionResult; // Return the object for useGeminiStream
           }
@@ -35,6 +35,8 @@ import {
   HistoryItem,
   HistoryItemWithoutId,
   HistoryItemToolGroup,
+  HistoryItemThought,
+  HistoryItemUser,
   MessageType,
   ToolCallStatus,
 } from '../types.js';
@@ -56,6 +58,8 @@ import {
   TrackedCancelledToolCall,
 } from './useReactToolScheduler.js';
 import { useSessionStats } from '../contexts/SessionContext.js';
+import { useModelAutoSwitching } from './useModelAutoSwitching.js';
+import { ModelFallbackSettings } from '../../services/modelManager.js';
 
 export function mergePartListUnions(list: PartListUnion[]): PartListUnion {
   const resultParts: PartListUnion = [];
@@ -96,10 +100,12 @@ export const useEnfiyStream = (
   onAuthError: () => void,
   performMemoryRefresh: () => Promise<void>,
   currentModel: string,
+  modelFallback?: ModelFallbackSettings,
 ) => {
   const [initError, setInitError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const turnCancelledRef = useRef(false);
+  const lastStreamErrorRef = useRef<unknown>(null);
   const [isResponding, setIsResponding] = useState<boolean>(false);
   const [thought, setThought] = useState<ThoughtSummary | null>(null);
   const [pendingHistoryItemRef, setPendingHistoryItem] =
@@ -107,6 +113,11 @@ export const useEnfiyStream = (
   const processedMemoryToolsRef = useRef<Set<string>>(new Set());
   const logger = useLogger();
   const { startNewTurn, addUsage } = useSessionStats();
+  const { handleModelError, checkUsageBudget } = useModelAutoSwitching({
+    config,
+    addItem,
+    fallbackSettings: modelFallback,
+  });
   const gitService = useMemo(() => {
     if (!config.getProjectRoot()) {
       return;
@@ -203,6 +214,31 @@ export const useEnfiyStream = (
     }
   });
 
+  /**
+   * Adds a prompt to the history along with the length of the conversation
+   * before it, so that /fork can rewind to it.
+   */
+  const addPromptItem = useCallback(
+    (itemData: Omit<HistoryItem, 'id'>, baseTimestamp: number) => {
+      if (itemData.type !== 'user') {
+        return addItem(itemData, baseTimestamp);
+      }
+      let conversationLength: number | undefined;
+      try {
+        conversationLength = enfiyClient.getChat().getHistory().length;
+      } catch {
+        // The chat is not initialized yet.
+      }
+      const promptItem: HistoryItemUser = {
+        type: 'user',
+        text: itemData.text ?? '',
+        conversationLength,
+      };
+      return addItem(promptItem, baseTimestamp);
+    },
+    [addItem, enfiyClient],
+  );
+
   const prepareQueryForEnfiy = useCallback(
     async (
       query: PartListUnion,
@@ -251,6 +287,15 @@ export const useEnfiyStream = (
             scheduleToolCalls([toolCallRequest], abortSignal);
           }
           return { queryToSend: null, shouldProceed: false }; // Handled by scheduling the tool
+        } else if (
+          typeof slashCommandResult === 'object' &&
+          slashCommandResult.submitPrompt !== undefined
+        ) {
+          // Slash command expands to a prompt for the model (e.g., MCP prompts)
+          return {
+            queryToSend: slashCommandResult.submitPrompt,
+            shouldProceed: true,
+          };
         }
 
         if (shellModeActive && handleShellCommand(trimmedQuery, abortSignal)) {
@@ -262,7 +307,7 @@ export const useEnfiyStream = (
           const atCommandResult = await handleAtCommand({
             query: trimmedQuery,
             config,
-            addItem,
+            addItem: addPromptItem,
             onDebugMessage,
             messageId: userMessageTimestamp,
             signal: abortSignal,
@@ -273,7 +318,7 @@ export const useEnfiyStream = (
           localQueryToSendToEnfiy = atCommandResult.processedQuery;
         } else {
           // Normal query for Enfiy
-          addItem(
+          addPromptItem(
             { type: MessageType.USER, text: trimmedQuery },
             userMessageTimestamp,
           );
@@ -294,7 +339,7 @@ export const useEnfiyStream = (
     },
     [
       config,
-      addItem,
+      addPromptItem,
       onDebugMessage,
       handleShellCommand,
       handleSlashCommand,
@@ -447,13 +492,26 @@ export const useEnfiyStream = (
       signal: AbortSignal,
     ): Promise<StreamProcessingStatus> => {
       let enfiyMessageBuffer = '';
+      let failed = false;
       const toolCallRequests: ToolCallRequestInfo[] = [];
+      // Thoughts are only shown while streaming; they are kept in the
+      // history, ahead of the response, so that /export can include them.
+      let thoughts: ThoughtSummary[] = [];
+      const flushThoughts = () => {
+        if (thoughts.length > 0) {
+          const thoughtItem: HistoryItemThought = { type: 'thought', thoughts };
+          addItem(thoughtItem, userMessageTimestamp);
+          thoughts = [];
+        }
+      };
       for await (const event of stream) {
         switch (event.type) {
           case ServerEnfiyEventType.Thought:
             setThought(event.value);
+            thoughts.push(event.value);
             break;
           case ServerEnfiyEventType.Content:
+            flushThoughts();
             enfiyMessageBuffer = handleContentEvent(
               event.value,
               enfiyMessageBuffer,
@@ -468,6 +526,8 @@ export const useEnfiyStream = (
             break;
           case ServerEnfiyEventType.Error:
             handleErrorEvent(event.value, userMessageTimestamp);
+            lastStreamErrorRef.current = event.value.error;
+            failed = true;
             break;
           case ServerEnfiyEventType.ChatCompressed:
             handleChatCompressionEvent(event.value);
@@ -486,12 +546,16 @@ export const useEnfiyStream = (
           }
         }
       }
+      flushThoughts();
       if (toolCallRequests.length > 0) {
         scheduleToolCalls(toolCallRequests, signal);
       }
-      return StreamProcessingStatus.Completed;
+      return failed
+        ? StreamProcessingStatus.Error
+        : StreamProcessingStatus.Completed;
     },
     [
+      addItem,
       handleContentEvent,
       handleUserCancelledEvent,
       handleErrorEvent,
@@ -545,16 +609,26 @@ export const useEnfiyStream = (
             );
           }
 
-          const stream = enfiyClient.sendMessageStream(
-            queryToSend,
-            abortSignal,
-          );
-
-          const processingStatus = await processEnfiyStreamEvents(
-            stream,
-            userMessageTimestamp,
-            abortSignal,
-          );
+          let client = enfiyClient;
+          let processingStatus: StreamProcessingStatus;
+          // After switching along the configured fallback chain the failed
+          // request is sent again; the chat history still ends before it.
+          for (;;) {
+            const stream = client.sendMessageStream(queryToSend, abortSignal);
+            processingStatus = await processEnfiyStreamEvents(
+              stream,
+              userMessageTimestamp,
+              abortSignal,
+            );
+            if (
+              processingStatus !== StreamProcessingStatus.Error ||
+              abortSignal.aborted ||
+              !(await handleModelError(lastStreamErrorRef.current))
+            ) {
+              break;
+            }
+            client = config.getEnfiyClient();
+          }
 
           if (processingStatus === StreamProcessingStatus.UserCancelled) {
             return;
@@ -564,6 +638,7 @@ export const useEnfiyStream = (
             addItem(pendingHistoryItemRef.current, userMessageTimestamp);
             setPendingHistoryItem(null);
           }
+          void checkUsageBudget();
         } catch (error: unknown) {
           if (error instanceof UnauthorizedError) {
             onAuthError();
@@ -627,6 +702,8 @@ export const useEnfiyStream = (
       startNewTurn,
       onAuthError,
       config,
+      handleModelError,
+      checkUsageBudget,
     ],
   );
 
@@ -809,10 +886,8 @@ export const useEnfiyStream = (
               continue;
             }
 
-            const timestamp = new Date()
-              .toISOString()
-              .replace(/:/g, '-')
-              .replace(/\./g, '_');
+            const createdAt = new Date().toISOString();
+            const timestamp = createdAt.replace(/:/g, '-').replace(/\./g, '_');
             const toolName = toolCall.request.name;
             const fileName = path.basename(filePath);
             const toolCallWithSnapshotFileName = `${timestamp}-${fileName}-${toolName}.json`;
@@ -834,6 +909,10 @@ export const useEnfiyStream = (
                   },
                   commitHash,
                   filePath,
+                  changedFiles: [
+                    path.relative(config.getProjectRoot(), filePath),
+                  ],
+                  timestamp: createdAt,
                 },
                 null,
                 2,
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Config } from '@enfiy/core';
+import { createIndexAction } from './useIndexCommand.js';
+import { MessageType } from '../types.js';
+
+function configWithIndex(index: Record<string, unknown>): Config {
+  return {
+    getEmbeddingModel: () => 'nomic-embed-text',
+    getSemanticIndexService: () => index,
+  } as unknown as Config;
+}
+
+describe('createIndexAction', () => {
+  it('should refresh the semantic index and report the result', async () => {
+    const index = {
+      update: vi.fn().mockResolvedValue({
+        indexedFiles: 12,
+        updatedFiles: 3,
+        removedFiles: 1,
+        totalChunks: 40,
+        durationMs: 2500,
+      }),
+    };
+    const addMessage = vi.fn();
+
+    await createIndexAction(configWithIndex(index), addMessage)('refresh');
+
+    expect(index.update).toHaveBeenCalledWith({ force: false });
+    expect(addMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: MessageType.INFO,
+        content:
+          'Semantic index updated in 2.5s: 12 files, 40 chunks (3 embedded, 1 removed).',
+      }),
+    );
+  });
+
+  it('should rebuild the index from scratch', async () => {
+    const index = {
+      update: vi.fn().mockResolvedValue({
+        indexedFiles: 2,
+        updatedFiles: 2,
+        removedFiles: 0,
+        totalChunks: 5,
+        durationMs: 100,
+      }),
+    };
+    const addMessage = vi.fn();
+
+    await createIndexAction(configWithIndex(index), addMessage)('build');
+
+    expect(index.update).toHaveBeenCalledWith({ force: true });
+    expect(addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: 'Building semantic index with nomic-embed-text...',
+      }),
+    );
+  });
+
+  it('should suggest building when no index exists', async () => {
+    const addMessage = vi.fn();
+
+    await createIndexAction(
+      configWithIndex({
+        getStatus: vi.fn().mockResolvedValue({ exists: false }),
+      }),
+      addMessage,
+    )(undefined);
+
+    expect(addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.INFO,
+        content: expect.stringContaining('Run /index build'),
+      }),
+    );
+  });
+
+  it('should report errors from the index', async () => {
+    const addMessage = vi.fn();
+
+    await createIndexAction(
+      configWithIndex({
+        clear: vi.fn().mockRejectedValue(new Error('EACCES')),
+      }),
+      addMessage,
+    )('clear');
+
+    expect(addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.ERROR,
+        content: 'Semantic index error: EACCES',
+      }),
+    );
+  });
+
+  it('should reject unknown subcommands', async () => {
+    const addMessage = vi.fn();
+
+    await createIndexAction(configWithIndex({}), addMessage)('rebuild');
+
+    expect(addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.ERROR,
+        content:
+          'Unknown /index command: rebuild. Available: status, build, refresh, clear',
+      }),
+    );
+  });
+});
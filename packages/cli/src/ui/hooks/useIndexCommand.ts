@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Message, MessageType } from '../types.js';
+import { Config, getErrorMessage } from '@enfiy/core';
+
+export function createIndexAction(
+  config: Config | null,
+  addMessage: (message: Message) => void,
+) {
+  return async (subCommand?: string) => {
+    if (!config) {
+      addMessage({
+        type: MessageType.ERROR,
+        content: 'Configuration not available',
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    const index = config.getSemanticIndexService();
+    try {
+      switch (subCommand) {
+        case 'build':
+        case 'refresh': {
+          addMessage({
+            type: MessageType.INFO,
+            content:
+              subCommand === 'build'
+                ? `Building semantic index with ${config.getEmbeddingModel()}...`
+                : 'Refreshing semantic index...',
+            timestamp: new Date(),
+          });
+          const result = await index.update({
+            force: subCommand === 'build',
+          });
+          addMessage({
+            type: MessageType.INFO,
+            content: `Semantic index updated in ${(result.durationMs / 1000).toFixed(1)}s: ${result.indexedFiles} files, ${result.totalChunks} chunks (${result.updatedFiles} embedded, ${result.removedFiles} removed).`,
+            timestamp: new Date(),
+          });
+          return;
+        }
+        case 'clear':
+          await index.clear();
+          addMessage({
+            type: MessageType.INFO,
+            content: 'Semantic index deleted.',
+            timestamp: new Date(),
+          });
+          return;
+        case 'status':
+        case undefined: {
+          const status = await index.getStatus();
+          addMessage({
+            type: MessageType.INFO,
+            content: status.exists
+              ? `Semantic index: ${status.files} files, ${status.chunks} chunks\nEmbedding model: ${status.embeddingModel}\nLast updated: ${status.updatedAt}\nLocation: ${status.indexPath}`
+              : `No semantic index for this project yet (embedding model: ${config.getEmbeddingModel()}). Run /index build to create it.`,
+            timestamp: new Date(),
+          });
+          return;
+        }
+        default:
+          addMessage({
+            type: MessageType.ERROR,
+            content: `Unknown /index command: ${subCommand}. Available: status, build, refresh, clear`,
+            timestamp: new Date(),
+          });
+          return;
+      }
+    } catch (error) {
+      addMessage({
+        type: MessageType.ERROR,
+        content: `Semantic index error: ${getErrorMessage(error)}`,
+        timestamp: new Date(),
+      });
+    }
+  };
+}
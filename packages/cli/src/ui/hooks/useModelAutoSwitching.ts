@@ -7,40 +7,39 @@
  * Based on original work by Google LLC (2025)
  * Modified and extended by Hayate Esaki (2025)
  */
-import { useCallback, useRef } from 'react';
-import { Config } from '@enfiy/core';
-import { ModelManager } from '../../services/modelManager.js';
+import { useCallback, useMemo, useRef } from 'react';
+import { Config, formatUsd } from '@enfiy/core';
+import {
+  FallbackCondition,
+  ModelFallbackSettings,
+  ModelManager,
+} from '../../services/modelManager.js';
 import { MessageType } from '../types.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
 
 interface UseModelAutoSwitchingProps {
   config: Config | null;
-  addMessage: (message: {
-    type: MessageType;
-    content: string;
-    timestamp: Date;
-  }) => void;
-  isEnabled?: boolean;
+  addItem: UseHistoryManagerReturn['addItem'];
+  fallbackSettings?: ModelFallbackSettings;
 }
 
 export function useModelAutoSwitching({
   config,
-  addMessage,
-  isEnabled = true,
+  addItem,
+  fallbackSettings,
 }: UseModelAutoSwitchingProps) {
-  const modelManagerRef = useRef<ModelManager | null>(null);
   const switchingInProgress = useRef<Set<string>>(new Set());
+  const isEnabled = fallbackSettings?.enabled !== false;
 
-  // Get or create ModelManager instance
-  const getModelManager = useCallback(() => {
-    if (!config) return null;
-
-    if (!modelManagerRef.current) {
-      modelManagerRef.current = new ModelManager(config);
-    }
-    return modelManagerRef.current;
-  }, [config]);
+  // The ModelManager keeps the cooldown state, so it is only rebuilt when the
+  // settings change.
+  const modelManager = useMemo(
+    () => (config ? new ModelManager(config, fallbackSettings) : null),
+    [config, fallbackSettings],
+  );
+  const getModelManager = useCallback(() => modelManager, [modelManager]);
 
-  // Handle model errors and attempt auto-switching
+  // Handle model errors and switch along the declared fallback chain
   const handleModelError = useCallback(
     async (error: unknown, currentModel?: string): Promise<string | null> => {
       if (!isEnabled || !config) return null;
@@ -58,35 +57,19 @@ export function useModelAutoSwitching({
       try {
         switchingInProgress.current.add(modelName);
 
-        // Check if we should switch models based on the error
-        const fallbackModel = await modelManager.shouldSwitchModel(
-          modelName,
-          error,
-        );
-
-        if (fallbackModel) {
-          // Attempt to switch to the fallback model
-          const switched = await modelManager.switchToModel(fallbackModel);
-
-          if (switched) {
-            // Notify user of the automatic switch
-            addMessage({
-              type: MessageType.INFO,
-              content: `Auto-switched from ${modelName} to ${fallbackModel}\nReason: ${getErrorReason(error)}`,
-              timestamp: new Date(),
-            });
-
-            return fallbackModel;
-          } else {
-            addMessage({
-              type: MessageType.ERROR,
-              content: `Failed to auto-switch to ${fallbackModel}. Please check model availability.`,
-              timestamp: new Date(),
-            });
-          }
+        const fallback = await modelManager.handleModelError(modelName, error);
+        if (!fallback) {
+          return null;
         }
 
-        return null;
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: `Switched from ${fallback.fromModel} to ${fallback.toModel} (${fallback.provider}) after ${describeCondition(fallback.condition)}. Retrying.`,
+          },
+          Date.now(),
+        );
+        return fallback.toModel;
       } catch (switchError) {
         console.error('Error during auto-switching:', switchError);
         return null;
@@ -94,50 +77,46 @@ export function useModelAutoSwitching({
         switchingInProgress.current.delete(modelName);
       }
     },
-    [isEnabled, config, getModelManager, addMessage],
+    [isEnabled, config, getModelManager, addItem],
   );
 
-  // Monitor model usage and suggest switches
-  const checkModelUsage = useCallback(
-    async (modelName?: string): Promise<void> => {
-      if (!isEnabled || !config) return;
-
-      const modelManager = getModelManager();
-      if (!modelManager) return;
-
-      const currentModel = modelName || config.getModel();
+  // Warn once per month and state when spend passes the budget limits.
+  // Requests over the hard limit are refused by the content generator.
+  const budgetWarningRef = useRef<string | null>(null);
+  const checkUsageBudget = useCallback(async (): Promise<void> => {
+    if (!config) return;
 
-      try {
-        const usage = await modelManager.getModelUsage(currentModel);
-        const usagePercent =
-          usage.limit > 0 ? (usage.used / usage.limit) * 100 : 0;
-
-        // Warn when approaching limits
-        if (usagePercent >= 85 && usagePercent < 95) {
-          const fallbackModel =
-            await modelManager.shouldSwitchModel(currentModel);
-          if (fallbackModel) {
-            addMessage({
-              type: MessageType.INFO,
-              content: `Model ${currentModel} usage at ${Math.round(usagePercent)}%. Consider switching to ${fallbackModel} with /model switch ${fallbackModel}`,
-              timestamp: new Date(),
-            });
-          }
-        }
+    try {
+      const budget = config.getUsageBudget();
+      if (
+        budget.softLimitUsd === undefined &&
+        budget.hardLimitUsd === undefined
+      ) {
+        return;
+      }
 
-        // Auto-switch when very close to limit
-        if (usagePercent >= 95) {
-          await handleModelError(
-            { message: 'Usage limit approaching' },
-            currentModel,
-          );
-        }
-      } catch (error) {
-        console.error('Error checking model usage:', error);
+      const status = await config.getUsageLedgerService().checkBudget(budget);
+      const warningKey = `${status.month}:${status.state}`;
+      if (status.state === 'ok' || budgetWarningRef.current === warningKey) {
+        return;
       }
-    },
-    [isEnabled, config, getModelManager, addMessage, handleModelError],
-  );
+      budgetWarningRef.current = warningKey;
+
+      const spent = `${formatUsd(status.spentUsd)} spent in ${status.month}`;
+      addItem(
+        {
+          type: MessageType.INFO,
+          text:
+            status.state === 'hard'
+              ? `[BUDGET] ${spent} reached the ${formatUsd(status.hardLimitUsd ?? 0)} hard limit. Requests to paid models are blocked until next month; local models still work. See /usage report.`
+              : `[BUDGET] ${spent}, past the ${formatUsd(status.softLimitUsd ?? 0)} soft limit.${status.hardLimitUsd !== undefined ? ` Paid models are blocked at ${formatUsd(status.hardLimitUsd)}.` : ''} See /usage report.`,
+        },
+        Date.now(),
+      );
+    } catch (error) {
+      console.error('Error checking usage budget:', error);
+    }
+  }, [config, addItem]);
 
   // Get model status and suggestions
   const getModelStatus = useCallback(
@@ -170,82 +149,25 @@ export function useModelAutoSwitching({
     [config, getModelManager, isEnabled],
   );
 
-  // Clear model usage cache
-  const clearUsageCache = useCallback(() => {
-    const modelManager = getModelManager();
-    if (modelManager) {
-      modelManager.clearUsageCache();
-    }
-  }, [getModelManager]);
-
   return {
     handleModelError,
-    checkModelUsage,
+    checkUsageBudget,
     getModelStatus,
-    clearUsageCache,
     isAutoSwitchingEnabled: isEnabled,
   };
 }
 
-// Helper function to extract human-readable error reasons
-function getErrorReason(error: unknown): string {
-  const errorObj = error as { status?: number; message?: string }; // Type assertion for error object
-
-  if (errorObj?.status !== undefined && errorObj.status === 429) {
-    return 'Rate limit exceeded';
-  }
-
-  if (errorObj?.status !== undefined && errorObj.status >= 500) {
-    return 'Server error';
-  }
-
-  if (errorObj?.message?.includes('rate limit')) {
-    return 'Rate limit exceeded';
+function describeCondition(condition: FallbackCondition): string {
+  switch (condition) {
+    case 'rate_limit':
+      return 'a rate limit';
+    case 'usage_limit':
+      return 'reaching a usage limit';
+    case 'unavailable':
+      return 'the model became unavailable';
+    case 'context_overflow':
+      return 'exceeding the context window';
+    default:
+      return 'an error';
   }
-
-  if (errorObj?.message?.includes('quota')) {
-    return 'Quota exceeded';
-  }
-
-  if (errorObj?.message?.includes('limit')) {
-    return 'Usage limit reached';
-  }
-
-  return errorObj?.message || 'Model error';
-}
-
-// Example of how to integrate this hook into a component
-/*
-import { useModelAutoSwitching } from './useModelAutoSwitching';
-
-function MyComponent({ config, addMessage }) {
-  const { handleModelError, checkModelUsage, getModelStatus } = useModelAutoSwitching({
-    config,
-    addMessage,
-    isEnabled: true,
-  });
-
-  // Example usage:
-  async function makeApiCall() {
-    try {
-      // ... make API call with current model
-    } catch (error) {
-      const newModel = await handleModelError(error);
-      if (newModel) {
-        // Retry with new model
-      }
-    }
-  }
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      checkModelUsage();
-    }, 60000); // Check every minute
-    return () => clearInterval(interval);
-  }, [checkModelUsage]);
-
-  return (
-    // ... component JSX
-  );
 }
-*/
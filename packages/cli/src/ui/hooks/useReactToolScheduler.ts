@@ -245,6 +245,7 @@ export function mapToDisplay(
         name: displayName,
         description,
         renderOutputAsMarkdown,
+        outcome: trackedCall.outcome,
       };
 
       switch (trackedCall.status) {
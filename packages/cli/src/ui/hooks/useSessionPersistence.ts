@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import * as path from 'path';
+import { Content } from '@google/genai';
+import { Config } from '@enfiy/core';
+import { HistoryItem } from '../types.js';
+import { useSessionStats } from '../contexts/SessionContext.js';
+import { SessionRecord, saveSession } from '../../utils/sessions.js';
+import { BranchTree, createBranchTree } from '../../utils/branches.js';
+
+export interface UseSessionPersistenceReturn {
+  /** Directory the sessions of this project are saved in. */
+  sessionDir: string;
+  /** Id the current session is saved under. */
+  getSessionId: () => string;
+  /**
+   * Saves the current session, or a copy of it under `tag`. Returns the id
+   * it was saved under.
+   */
+  save: (tag?: string) => Promise<string>;
+  /**
+   * Replaces the current history, conversation and stats with a saved
+   * session. Auto-saved sessions are continued under their own id; tagged
+   * ones are copied into the current session.
+   */
+  resume: (record: SessionRecord) => Promise<void>;
+  /** Branches of the session, saved along with it. */
+  getBranchTree: () => BranchTree;
+  setBranchTree: (tree: BranchTree) => void;
+}
+
+/**
+ * Saves the session whenever the history changes, so that it can be
+ * continued with `--resume`, `--continue` or `/chat resume`.
+ */
+export function useSessionPersistence(
+  config: Config,
+  history: HistoryItem[],
+  loadHistory: (newHistory: HistoryItem[]) => void,
+  resumedSession?: SessionRecord,
+): UseSessionPersistenceReturn {
+  const { stats, restoreStats } = useSessionStats();
+  const sessionDir = path.join(config.getProjectTempDir(), 'sessions');
+  const sessionIdRef = useRef(config.getSessionId());
+  const startTimeRef = useRef(new Date());
+  const branchTreeRef = useRef(createBranchTree());
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const statsRef = useRef(stats.cumulative);
+  statsRef.current = stats.cumulative;
+  // Writes are chained so that an older save never overwrites a newer one.
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const save = useCallback(
+    async (tag?: string) => {
+      const id = tag ?? sessionIdRef.current;
+      let clientHistory: Content[] = [];
+      try {
+        clientHistory = await config.getEnfiyClient().getHistory();
+      } catch {
+        // No provider is configured yet, so there is no conversation.
+      }
+      const record: SessionRecord = {
+        id,
+        tag,
+        startTime: startTimeRef.current.toISOString(),
+        lastUpdated: new Date().toISOString(),
+        model: config.getModel(),
+        provider: config.getSelectedProvider(),
+        history: historyRef.current,
+        clientHistory,
+        stats: statsRef.current,
+        branches: branchTreeRef.current,
+      };
+      const write = writeQueueRef.current.then(() =>
+        saveSession(sessionDir, record),
+      );
+      writeQueueRef.current = write.catch(() => {});
+      await write;
+      return id;
+    },
+    [config, sessionDir],
+  );
+
+  const resume = useCallback(
+    async (record: SessionRecord) => {
+      loadHistory(record.history);
+      restoreStats(record.stats);
+      branchTreeRef.current = record.branches ?? createBranchTree();
+      if (!record.tag) {
+        sessionIdRef.current = record.id;
+        startTimeRef.current = new Date(record.startTime);
+      }
+      await config.getEnfiyClient().setHistory(record.clientHistory);
+    },
+    [config, loadHistory, restoreStats],
+  );
+
+  const resumedRef = useRef(false);
+  useEffect(() => {
+    if (!resumedSession || resumedRef.current) {
+      return;
+    }
+    resumedRef.current = true;
+    resume(resumedSession).catch((error) => {
+      console.error(
+        'Failed to restore the conversation of the session:',
+        error,
+      );
+    });
+  }, [resumedSession, resume]);
+
+  useEffect(() => {
+    if (history.length === 0) {
+      return;
+    }
+    save().catch((error) => {
+      console.debug('Failed to save the session:', error);
+    });
+  }, [history, save]);
+
+  return useMemo(
+    () => ({
+      sessionDir,
+      getSessionId: () => sessionIdRef.current,
+      save,
+      resume,
+      getBranchTree: () => branchTreeRef.current,
+      setBranchTree: (tree: BranchTree) => {
+        branchTreeRef.current = tree;
+      },
+    }),
+    [sessionDir, save, resume],
+  );
+}
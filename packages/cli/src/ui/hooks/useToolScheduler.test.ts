@@ -24,6 +24,7 @@ import {
   ToolCall, // Import from core
   Status as ToolCallStatusType,
   ApprovalMode, // Import from core
+  PermissionPolicy,
 } from '@enfiy/core';
 import {
   HistoryItemWithoutId,
@@ -51,6 +52,9 @@ const mockConfig = {
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
   getSessionId: vi.fn(() => 'test-session-id'),
+  getPermissionPolicy: () => new PermissionPolicy([], '/project'),
+  getMaxConcurrentToolCalls: () => 4,
+  getEditHistoryService: () => undefined,
 };
 
 const mockTool: Tool = {
@@ -59,11 +63,13 @@ const mockTool: Tool = {
   description: 'A mock tool for testing',
   isOutputMarkdown: false,
   canUpdateOutput: false,
+  isReadOnly: false,
   schema: {},
   validateToolParams: vi.fn(),
   execute: vi.fn(),
   shouldConfirmExecute: vi.fn(),
   getDescription: vi.fn((args) => `Description for ${JSON.stringify(args)}`),
+  getModifiedPaths: vi.fn(() => []),
 };
 
 const mockToolWithLiveOutput: Tool = {
@@ -819,11 +825,13 @@ describe('mapToDisplay', () => {
     description: 'Test Description',
     isOutputMarkdown: false,
     canUpdateOutput: false,
+    isReadOnly: false,
     schema: {},
     validateToolParams: vi.fn(),
     execute: vi.fn(),
     shouldConfirmExecute: vi.fn(),
     getDescription: vi.fn((args) => `Desc: ${JSON.stringify(args)}`),
+    getModifiedPaths: vi.fn(() => []),
   };
 
   const baseResponse: ToolCallResponseInfo = {
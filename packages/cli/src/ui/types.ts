@@ -7,7 +7,13 @@
  * Based on original work by Google LLC (2025)
  * Modified and extended by Hayate Esaki (2025)
  */
-import { ToolCallConfirmationDetails, ToolResultDisplay } from '@enfiy/core';
+import {
+  FileDiff,
+  ThoughtSummary,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolResultDisplay,
+} from '@enfiy/core';
 import { CumulativeStats } from './contexts/SessionContext.js';
 
 // Only defining the state enum needed by the UI
@@ -51,6 +57,8 @@ export interface IndividualToolCallDisplay {
   status: ToolCallStatus;
   confirmationDetails: ToolCallConfirmationDetails | undefined;
   renderOutputAsMarkdown?: boolean;
+  /** How the user answered the confirmation, if one was needed. */
+  outcome?: ToolConfirmationOutcome;
 }
 
 export interface CompressionProps {
@@ -66,6 +74,8 @@ export interface HistoryItemBase {
 export type HistoryItemUser = HistoryItemBase & {
   type: 'user';
   text: string;
+  /** Length of the model conversation before this prompt, for /fork. */
+  conversationLength?: number;
 };
 
 export type HistoryItemEnfiy = HistoryItemBase & {
@@ -80,6 +90,11 @@ export type HistoryItemEnfiyContent = HistoryItemBase & {
   model?: string;
 };
 
+export type HistoryItemThought = HistoryItemBase & {
+  type: 'thought';
+  thoughts: ThoughtSummary[];
+};
+
 export type HistoryItemInfo = HistoryItemBase & {
   type: 'info';
   text: string;
@@ -128,6 +143,12 @@ export type HistoryItemCompression = HistoryItemBase & {
   compression: CompressionProps;
 };
 
+export type HistoryItemDiffPreview = HistoryItemBase & {
+  type: 'diff_preview';
+  title: string;
+  diffs: FileDiff[];
+};
+
 // Using Omit<HistoryItem, 'id'> seems to have some issues with typescript's
 // type inference e.g. historyItem.type === 'tool_group' isn't auto-inferring that
 // 'tools' in historyItem.
@@ -137,13 +158,15 @@ export type HistoryItemWithoutId =
   | HistoryItemUserShell
   | HistoryItemEnfiy
   | HistoryItemEnfiyContent
+  | HistoryItemThought
   | HistoryItemInfo
   | HistoryItemError
   | HistoryItemAbout
   | HistoryItemToolGroup
   | HistoryItemStats
   | HistoryItemQuit
-  | HistoryItemCompression;
+  | HistoryItemCompression
+  | HistoryItemDiffPreview;
 
 export type HistoryItem = HistoryItemWithoutId & { id: number };
 
@@ -157,6 +180,7 @@ export enum MessageType {
   QUIT = 'quit',
   ENFIY = 'enfiy',
   COMPRESSION = 'compression',
+  DIFF_PREVIEW = 'diff_preview',
 }
 
 // Simplified message structure for internal feedback
@@ -196,6 +220,12 @@ export type Message =
       type: MessageType.COMPRESSION;
       compression: CompressionProps;
       timestamp: Date;
+    }
+  | {
+      type: MessageType.DIFF_PREVIEW;
+      title: string;
+      diffs: FileDiff[];
+      timestamp: Date;
     };
 
 export interface ConsoleMessageItem {
@@ -5,7 +5,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatDuration, formatMemoryUsage } from './formatters.js';
+import {
+  formatDuration,
+  formatMemoryUsage,
+  formatTokenCount,
+} from './formatters.js';
 
 describe('formatters', () => {
   describe('formatMemoryUsage', () => {
@@ -22,6 +26,14 @@ describe('formatters', () => {
     });
   });
 
+  describe('formatTokenCount', () => {
+    it('should format token counts with k and M suffixes', () => {
+      expect(formatTokenCount(950)).toBe('950');
+      expect(formatTokenCount(12345)).toBe('12.3k');
+      expect(formatTokenCount(1254000)).toBe('1.25M');
+    });
+  });
+
   describe('formatDuration', () => {
     it('should format milliseconds less than a second', () => {
       expect(formatDuration(500)).toBe('500ms');
@@ -18,6 +18,19 @@ export const formatMemoryUsage = (bytes: number): string => {
   return `${gb.toFixed(2)} GB`;
 };
 
+/**
+ * Formats a token count compactly, e.g. "950", "12.3k" or "1.25M".
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) {
+    return `${tokens}`;
+  }
+  if (tokens < 1_000_000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
+
 /**
  * Formats a duration in milliseconds into a concise, human-readable string (e.g., "1h 5s").
  * It omits any time units that are zero.
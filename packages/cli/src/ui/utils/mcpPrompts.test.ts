@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DiscoveredMCPPrompt } from '@enfiy/core';
+import {
+  completeMcpPromptArguments,
+  formatMcpPromptUsage,
+  getMcpPromptCommandNames,
+  parseMcpPromptArguments,
+} from './mcpPrompts.js';
+
+const reviewPrompt: DiscoveredMCPPrompt = {
+  serverName: 'github',
+  name: 'review',
+  description: 'Review a pull request',
+  arguments: [
+    { name: 'pr', required: true },
+    { name: 'focus', description: 'What to look at' },
+  ],
+};
+
+describe('mcpPrompts', () => {
+  it('should name prompts after their server only when needed', () => {
+    const prompts: DiscoveredMCPPrompt[] = [
+      reviewPrompt,
+      { ...reviewPrompt, serverName: 'gitlab' },
+      { ...reviewPrompt, name: 'help' },
+      { ...reviewPrompt, name: 'summarize issue' },
+    ];
+
+    expect(getMcpPromptCommandNames(prompts, new Set(['help']))).toEqual([
+      'github:review',
+      'gitlab:review',
+      'github:help',
+      'summarize-issue',
+    ]);
+    expect(formatMcpPromptUsage('review', reviewPrompt)).toBe(
+      '/review <pr> [focus]',
+    );
+  });
+
+  it('should parse named, positional and quoted arguments', () => {
+    expect(parseMcpPromptArguments(reviewPrompt, '42')).toEqual({ pr: '42' });
+    expect(
+      parseMcpPromptArguments(reviewPrompt, 'focus="error handling" pr=42'),
+    ).toEqual({ pr: '42', focus: 'error handling' });
+    expect(
+      parseMcpPromptArguments(reviewPrompt, '42 the $HOME handling'),
+    ).toEqual({ pr: '42', focus: 'the $HOME handling' });
+  });
+
+  it('should report missing required arguments', () => {
+    expect(() => parseMcpPromptArguments(reviewPrompt, 'focus=tests')).toThrow(
+      'Missing required argument: pr',
+    );
+    expect(() =>
+      parseMcpPromptArguments({ ...reviewPrompt, arguments: [] }, 'extra'),
+    ).toThrow('does not take any arguments');
+  });
+
+  it('should complete argument names and values', async () => {
+    const completeValue = vi.fn(async (_name: string, value: string) =>
+      ['41', '42 draft'].filter((candidate) => candidate.startsWith(value)),
+    );
+
+    expect(
+      await completeMcpPromptArguments(reviewPrompt, '', completeValue),
+    ).toEqual(['pr=', 'focus=']);
+    expect(
+      await completeMcpPromptArguments(reviewPrompt, 'pr=42 f', completeValue),
+    ).toEqual(['pr=42 focus=']);
+    expect(
+      await completeMcpPromptArguments(reviewPrompt, 'pr=4', completeValue),
+    ).toEqual(['pr=41', 'pr="42 draft"']);
+    expect(completeValue).toHaveBeenCalledWith('pr', '4');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { parse } from 'shell-quote';
+import { DiscoveredMCPPrompt } from '@enfiy/core';
+
+/**
+ * Names of the slash commands for MCP prompts, in the same order. A prompt
+ * is named after the server as well (`server:prompt`) if its name is taken
+ * by a built-in command or by a prompt of another server.
+ */
+export function getMcpPromptCommandNames(
+  prompts: DiscoveredMCPPrompt[],
+  reservedNames: Set<string>,
+): string[] {
+  const names = prompts.map((prompt) => prompt.name.replace(/\s+/g, '-'));
+  return names.map((name, index) =>
+    reservedNames.has(name) || names.indexOf(name) !== names.lastIndexOf(name)
+      ? `${prompts[index].serverName}:${name}`
+      : name,
+  );
+}
+
+export function formatMcpPromptUsage(
+  commandName: string,
+  prompt: DiscoveredMCPPrompt,
+): string {
+  return [
+    `/${commandName}`,
+    ...prompt.arguments.map((argument) =>
+      argument.required ? `<${argument.name}>` : `[${argument.name}]`,
+    ),
+  ].join(' ');
+}
+
+function splitWords(text: string): string[] {
+  // Keep $VARIABLES as they are instead of expanding them.
+  return parse(text, (name) => `$${name}`).map((entry) => {
+    if (typeof entry === 'string') {
+      return entry;
+    }
+    if ('comment' in entry) {
+      // An unquoted # is not a comment here.
+      return `#${entry.comment}`;
+    }
+    return 'pattern' in entry ? entry.pattern : entry.op;
+  });
+}
+
+/**
+ * Parses the arguments of an MCP prompt command. Arguments are given as
+ * `name=value`, or in the order the prompt declares them; values with
+ * spaces can be quoted. Throws if a required argument is missing.
+ */
+export function parseMcpPromptArguments(
+  prompt: DiscoveredMCPPrompt,
+  text: string,
+): Record<string, string> {
+  const names = prompt.arguments.map((argument) => argument.name);
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const word of splitWords(text)) {
+    const separatorIndex = word.indexOf('=');
+    const name = word.slice(0, separatorIndex);
+    if (separatorIndex > 0 && names.includes(name)) {
+      values[name] = word.slice(separatorIndex + 1);
+    } else {
+      positional.push(word);
+    }
+  }
+  for (const name of names.filter((name) => !(name in values))) {
+    if (positional.length === 0) {
+      break;
+    }
+    values[name] = positional.shift()!;
+  }
+  if (positional.length > 0) {
+    // More words than arguments; the last argument takes the rest.
+    const last = names[names.length - 1];
+    if (last === undefined) {
+      throw new Error(`${prompt.name} does not take any arguments.`);
+    }
+    values[last] = [values[last], ...positional].join(' ');
+  }
+  const missing = prompt.arguments.filter(
+    (argument) => argument.required && !(argument.name in values),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required argument${missing.length > 1 ? 's' : ''}: ${missing.map((argument) => argument.name).join(', ')}`,
+    );
+  }
+  return values;
+}
+
+function quoteValue(value: string): string {
+  return /[\s"'\\$]/.test(value)
+    ? `"${value.replace(/(["\\$])/g, '\\$1')}"`
+    : value;
+}
+
+/**
+ * Completes the arguments of an MCP prompt command. Suggests the names of
+ * the arguments not given yet, and values for `name=` from `completeValue`.
+ * Each suggestion is the whole argument text.
+ */
+export async function completeMcpPromptArguments(
+  prompt: DiscoveredMCPPrompt,
+  text: string,
+  completeValue: (argumentName: string, value: string) => Promise<string[]>,
+): Promise<string[]> {
+  const current = text.match(/\S*$/)![0];
+  const before = text.slice(0, text.length - current.length);
+  const separatorIndex = current.indexOf('=');
+  if (separatorIndex > 0) {
+    const name = current.slice(0, separatorIndex);
+    if (!prompt.arguments.some((argument) => argument.name === name)) {
+      return [];
+    }
+    const values = await completeValue(name, current.slice(separatorIndex + 1));
+    return values.map((value) => `${before}${name}=${quoteValue(value)}`);
+  }
+  const given = splitWords(before)
+    .filter((word) => word.includes('='))
+    .map((word) => word.slice(0, word.indexOf('=')));
+  return prompt.arguments
+    .filter(
+      (argument) =>
+        !given.includes(argument.name) && argument.name.startsWith(current),
+    )
+    .map((argument) => `${before}${argument.name}=`);
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  analyzeShellCommand,
+  ToolExecuteConfirmationDetails,
+} from '@enfiy/core';
+import { summarizeShellConfirmation } from './shellConfirmation.js';
+
+function confirmationFor(command: string): ToolExecuteConfirmationDetails {
+  const breakdown = analyzeShellCommand(command);
+  return {
+    type: 'exec',
+    title: 'Confirm Shell Command',
+    command,
+    rootCommand: breakdown.roots.join(', '),
+    rootCommands: breakdown.roots,
+    breakdown,
+    onConfirm: vi.fn(),
+  };
+}
+
+describe('summarizeShellConfirmation', () => {
+  it('should list every command of a chain and the files it writes', () => {
+    expect(
+      summarizeShellConfirmation(
+        confirmationFor('npm test && git add . > out.txt'),
+      ),
+    ).toEqual({
+      steps: [
+        { label: '1. npm test', substitution: false },
+        { label: '2. git add . > out.txt', substitution: false },
+      ],
+      writes: 'Writes to: out.txt',
+      allowAlwaysLabel: 'Yes, allow always "npm ...", "git ..."',
+      parsed: true,
+    });
+  });
+
+  it('should mark commands run in substitutions', () => {
+    const { steps } = summarizeShellConfirmation(
+      confirmationFor('echo $(whoami)'),
+    );
+
+    expect(steps).toEqual([
+      { label: '1. whoami', substitution: true },
+      { label: '2. echo $(whoami)', substitution: false },
+    ]);
+  });
+
+  it('should not list the steps of a single command', () => {
+    expect(summarizeShellConfirmation(confirmationFor('ls -la'))).toMatchObject(
+      { steps: [], writes: undefined, parsed: true },
+    );
+  });
+
+  it('should report commands that could not be parsed', () => {
+    const { breakdown: _breakdown, ...details } = confirmationFor('ls');
+
+    expect(summarizeShellConfirmation(details)).toMatchObject({
+      steps: [],
+      allowAlwaysLabel: 'Yes, allow always "ls ..."',
+      parsed: false,
+    });
+  });
+});
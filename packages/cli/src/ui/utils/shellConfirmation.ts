@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ToolExecuteConfirmationDetails } from '@enfiy/core';
+
+export interface ShellCommandStep {
+  /** Numbered command text, e.g. "2. git add ." */
+  label: string;
+  /** Runs inside a command or process substitution. */
+  substitution: boolean;
+}
+
+export interface ShellConfirmationSummary {
+  /** Every program of a command chain; empty for a single command. */
+  steps: ShellCommandStep[];
+  /** Describes the files the command writes through redirections, if any. */
+  writes?: string;
+  /** Label of the option that allows the command's executables from now on. */
+  allowAlwaysLabel: string;
+  /** False if the command could not be parsed. */
+  parsed: boolean;
+}
+
+/**
+ * Summarizes what a shell command will run and write, for the user to
+ * review before approving it.
+ */
+export function summarizeShellConfirmation(
+  details: ToolExecuteConfirmationDetails,
+): ShellConfirmationSummary {
+  const { breakdown, rootCommands } = details;
+  return {
+    steps:
+      breakdown && breakdown.commands.length > 1
+        ? breakdown.commands.map((part, index) => ({
+            label: `${index + 1}. ${part.text}`,
+            substitution: part.substitution,
+          }))
+        : [],
+    writes:
+      breakdown && breakdown.writes.length > 0
+        ? `Writes to: ${breakdown.writes.join(', ')}`
+        : undefined,
+    allowAlwaysLabel: `Yes, allow always ${rootCommands
+      .map((root) => `"${root} ..."`)
+      .join(', ')}`,
+    parsed: breakdown !== undefined,
+  };
+}
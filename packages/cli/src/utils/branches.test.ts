@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Content } from '@google/genai';
+import {
+  BranchState,
+  createBranchTree,
+  forkBranch,
+  formatBranchTree,
+  getPrompts,
+  switchBranch,
+} from './branches.js';
+import { HistoryItem } from '../ui/types.js';
+
+const text = (role: string, value: string): Content => ({
+  role,
+  parts: [{ text: value }],
+});
+
+// Two prompts; the conversation starts with the environment context.
+const mainState: BranchState = {
+  history: [
+    { id: 1, type: 'user', text: 'Add a test', conversationLength: 2 },
+    { id: 2, type: 'enfiy', text: 'Added.' },
+    { id: 3, type: 'user', text: '/stats' },
+    { id: 4, type: 'user', text: 'Now refactor', conversationLength: 4 },
+    { id: 5, type: 'enfiy', text: 'Refactored.' },
+  ],
+  clientHistory: [
+    text('user', 'context'),
+    text('model', 'Got it.'),
+    text('user', 'Add a test'),
+    text('model', 'Added.'),
+    text('user', 'Now refactor'),
+    text('model', 'Refactored.'),
+  ],
+};
+
+describe('branches', () => {
+  it('should leave out slash commands from the prompts', () => {
+    expect(getPrompts(mainState.history).map((item) => item.text)).toEqual([
+      'Add a test',
+      'Now refactor',
+    ]);
+  });
+
+  it('should fork before a prompt and keep the original branch', () => {
+    const { tree, branch, state } = forkBranch(
+      createBranchTree(),
+      mainState,
+      2,
+      'retry',
+    );
+
+    expect(branch).toMatchObject({ id: 2, parentId: 1, forkedAtPrompt: 2 });
+    expect(state.history.map((item) => item.id)).toEqual([1, 2, 3]);
+    expect(state.clientHistory).toEqual(mainState.clientHistory.slice(0, 4));
+    expect(tree.activeBranchId).toBe(2);
+    expect(tree.branches[0]).toMatchObject(mainState);
+
+    const switched = switchBranch(tree, state, 'main');
+    expect(switched.state).toEqual(mainState);
+    expect(switched.tree.branches[0].history).toEqual([]);
+    expect(switched.tree.branches[1].history).toEqual(state.history);
+  });
+
+  it('should refuse to fork from prompts it cannot rewind to', () => {
+    const tree = createBranchTree();
+    const compressed: HistoryItem[] = [
+      ...mainState.history,
+      {
+        id: 6,
+        type: 'compression',
+        compression: {
+          isPending: false,
+          originalTokenCount: 100,
+          newTokenCount: 10,
+        },
+      },
+    ];
+
+    expect(() => forkBranch(tree, mainState, 3)).toThrow(
+      'There is no prompt 3',
+    );
+    expect(() =>
+      forkBranch(tree, { ...mainState, history: compressed }, 1),
+    ).toThrow('compressed');
+    expect(() =>
+      forkBranch(
+        tree,
+        { ...mainState, history: [{ id: 1, type: 'user', text: 'old' }] },
+        1,
+      ),
+    ).toThrow('without its conversation');
+    expect(() => forkBranch(tree, mainState, 1, 'main')).toThrow(
+      'already exists',
+    );
+  });
+
+  it('should show branches as a tree with the active one marked', () => {
+    let { tree, state } = forkBranch(createBranchTree(), mainState, 2);
+    ({ tree } = forkBranch(tree, state, 1, 'other'));
+
+    expect(formatBranchTree(tree)).toBe(
+      [
+        '  #1 main',
+        '    #2 (from prompt 2)',
+        '*     #3 other (from prompt 1)',
+      ].join('\n'),
+    );
+  });
+});
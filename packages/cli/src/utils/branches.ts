@@ -0,0 +1,215 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { Content } from '@google/genai';
+import { HistoryItem, HistoryItemUser } from '../ui/types.js';
+import { isSlashCommand } from '../ui/utils/commandUtils.js';
+
+/**
+ * The history and model conversation of a branch.
+ */
+export interface BranchState {
+  history: HistoryItem[];
+  clientHistory: Content[];
+}
+
+export interface ConversationBranch extends BranchState {
+  /** Sequential number, starting with 1 for the original conversation. */
+  id: number;
+  name?: string;
+  /** Branch this one was forked from. */
+  parentId?: number;
+  /** Prompt of the parent branch this one replaced, starting with 1. */
+  forkedAtPrompt?: number;
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+/**
+ * The branches of a session. The state of the active branch is the live
+ * session, so it is not stored here.
+ */
+export interface BranchTree {
+  activeBranchId: number;
+  branches: ConversationBranch[];
+}
+
+export function createBranchTree(): BranchTree {
+  return {
+    activeBranchId: 1,
+    branches: [
+      {
+        id: 1,
+        name: 'main',
+        createdAt: new Date().toISOString(),
+        history: [],
+        clientHistory: [],
+      },
+    ],
+  };
+}
+
+/**
+ * Returns the prompts sent to the model, leaving out slash commands.
+ */
+export function getPrompts(
+  history: HistoryItem[],
+): Array<HistoryItemUser & { id: number }> {
+  return history.filter(
+    (item): item is HistoryItemUser & { id: number } =>
+      item.type === 'user' && !isSlashCommand(item.text),
+  );
+}
+
+export function describeBranch(branch: ConversationBranch): string {
+  return branch.name ? `#${branch.id} ${branch.name}` : `#${branch.id}`;
+}
+
+function findBranch(
+  tree: BranchTree,
+  idOrName: string,
+): ConversationBranch | undefined {
+  const id = Number(idOrName.replace(/^#/, ''));
+  return tree.branches.find(
+    (branch) => branch.id === id || branch.name === idOrName,
+  );
+}
+
+/** Stores the live state in the active branch and clears the target's. */
+function activate(
+  tree: BranchTree,
+  current: BranchState,
+  target: ConversationBranch,
+): BranchTree {
+  return {
+    activeBranchId: target.id,
+    branches: tree.branches.map((branch) => {
+      if (branch.id === target.id) {
+        return { ...branch, history: [], clientHistory: [] };
+      }
+      if (branch.id === tree.activeBranchId) {
+        return { ...branch, ...current };
+      }
+      return branch;
+    }),
+  };
+}
+
+/**
+ * Starts a new branch that replaces prompt `promptNumber` (starting with 1)
+ * of the active branch, keeping the active branch as it is. Returns the
+ * new tree and the state to continue from, which ends just before the
+ * prompt. Throws if the prompt cannot be forked from.
+ */
+export function forkBranch(
+  tree: BranchTree,
+  current: BranchState,
+  promptNumber: number,
+  name?: string,
+): { tree: BranchTree; branch: ConversationBranch; state: BranchState } {
+  if (name && /^#?\d+$/.test(name)) {
+    throw new Error('Branch names cannot be numbers.');
+  }
+  if (name && findBranch(tree, name)) {
+    throw new Error(`A branch named ${name} already exists.`);
+  }
+  const prompts = getPrompts(current.history);
+  const prompt = prompts[promptNumber - 1];
+  if (!prompt) {
+    throw new Error(
+      `There is no prompt ${promptNumber}; this branch has ${prompts.length}.`,
+    );
+  }
+  if (prompt.conversationLength === undefined) {
+    throw new Error(
+      `Prompt ${promptNumber} was recorded without its conversation, so it cannot be forked from.`,
+    );
+  }
+  const promptIndex = current.history.indexOf(prompt);
+  const history = current.history.slice(0, promptIndex);
+  if (
+    current.history
+      .slice(promptIndex)
+      .some((item) => item.type === 'compression')
+  ) {
+    throw new Error(
+      `The conversation was compressed after prompt ${promptNumber}, so it cannot be forked from.`,
+    );
+  }
+
+  const branch: ConversationBranch = {
+    id: Math.max(...tree.branches.map((b) => b.id)) + 1,
+    name,
+    parentId: tree.activeBranchId,
+    forkedAtPrompt: promptNumber,
+    createdAt: new Date().toISOString(),
+    history: [],
+    clientHistory: [],
+  };
+  return {
+    tree: activate(
+      { ...tree, branches: [...tree.branches, branch] },
+      current,
+      branch,
+    ),
+    branch,
+    state: {
+      history,
+      clientHistory: current.clientHistory.slice(0, prompt.conversationLength),
+    },
+  };
+}
+
+/**
+ * Makes the branch with the given number or name active. Returns the new
+ * tree and the state of the branch, or throws if there is no such branch.
+ */
+export function switchBranch(
+  tree: BranchTree,
+  current: BranchState,
+  idOrName: string,
+): { tree: BranchTree; branch: ConversationBranch; state: BranchState } {
+  const branch = findBranch(tree, idOrName);
+  if (!branch) {
+    throw new Error(`No branch found: ${idOrName}`);
+  }
+  if (branch.id === tree.activeBranchId) {
+    throw new Error(`Already on branch ${describeBranch(branch)}.`);
+  }
+  return {
+    tree: activate(tree, current, branch),
+    branch,
+    state: { history: branch.history, clientHistory: branch.clientHistory },
+  };
+}
+
+/**
+ * Formats the branches as an indented tree, marking the active one.
+ */
+export function formatBranchTree(tree: BranchTree): string {
+  const lines: string[] = [];
+  const addBranch = (branch: ConversationBranch, depth: number) => {
+    const marker = branch.id === tree.activeBranchId ? '* ' : '  ';
+    const origin =
+      branch.forkedAtPrompt !== undefined
+        ? ` (from prompt ${branch.forkedAtPrompt})`
+        : '';
+    lines.push(
+      `${marker}${'  '.repeat(depth)}${describeBranch(branch)}${origin}`,
+    );
+    for (const child of tree.branches.filter((b) => b.parentId === branch.id)) {
+      addBranch(child, depth + 1);
+    }
+  };
+  for (const root of tree.branches.filter((b) => b.parentId === undefined)) {
+    addBranch(root, 0);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getCheckpointChangedFiles,
+  listCheckpoints,
+  readCheckpoint,
+} from './checkpoints.js';
+
+describe('checkpoints', () => {
+  let checkpointDir: string;
+
+  const writeCheckpoint = (name: string, data: object) =>
+    fs.writeFile(
+      path.join(checkpointDir, `${name}.json`),
+      JSON.stringify(data),
+    );
+
+  beforeEach(async () => {
+    checkpointDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(checkpointDir, { recursive: true, force: true });
+  });
+
+  it('should list checkpoints oldest first', async () => {
+    await writeCheckpoint('2025-03-01T10-00-00_000Z-b.ts-replace', {
+      toolCall: { name: 'replace', args: {} },
+    });
+    await writeCheckpoint('newest', {
+      toolCall: { name: 'write_file', args: {} },
+      timestamp: '2025-03-02T00:00:00.000Z',
+    });
+    await writeCheckpoint('2025-02-01T10-00-00_500Z-a.ts-write_file', {
+      toolCall: { name: 'write_file', args: {} },
+    });
+    await fs.writeFile(path.join(checkpointDir, 'broken.json'), '{');
+    await fs.writeFile(path.join(checkpointDir, 'notes.txt'), '');
+
+    const entries = await listCheckpoints(checkpointDir);
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      '2025-02-01T10-00-00_500Z-a.ts-write_file',
+      '2025-03-01T10-00-00_000Z-b.ts-replace',
+      'newest',
+    ]);
+    expect(entries[0].timestamp.toISOString()).toBe('2025-02-01T10:00:00.500Z');
+  });
+
+  it('should return nothing for a missing directory or checkpoint', async () => {
+    expect(await listCheckpoints(path.join(checkpointDir, 'missing'))).toEqual(
+      [],
+    );
+    expect(await readCheckpoint(checkpointDir, 'missing')).toBeUndefined();
+  });
+
+  it('should read a checkpoint with or without its extension', async () => {
+    await writeCheckpoint('cp', {
+      toolCall: { name: 'replace', args: { file_path: 'a.ts' } },
+      commitHash: 'abc',
+    });
+
+    const entry = await readCheckpoint(checkpointDir, 'cp.json');
+
+    expect(entry?.name).toBe('cp');
+    expect(entry?.data.commitHash).toBe('abc');
+  });
+
+  it('should list the files the tool call of a checkpoint changes', async () => {
+    const projectRoot = path.join(checkpointDir, 'project');
+    await writeCheckpoint('recorded', {
+      toolCall: { name: 'replace', args: {} },
+      filePath: path.join(projectRoot, 'src', 'a.ts'),
+      changedFiles: ['src/a.ts'],
+    });
+    await writeCheckpoint('older', {
+      toolCall: { name: 'write_file', args: {} },
+      filePath: path.join(projectRoot, 'b.ts'),
+    });
+    await writeCheckpoint('without-file', {
+      toolCall: { name: 'write_file', args: {} },
+    });
+
+    const changedFiles = async (name: string) =>
+      getCheckpointChangedFiles(
+        (await readCheckpoint(checkpointDir, name))!,
+        projectRoot,
+      );
+
+    expect(await changedFiles('recorded')).toEqual(['src/a.ts']);
+    expect(await changedFiles('older')).toEqual(['b.ts']);
+    expect(await changedFiles('without-file')).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import { Content } from '@google/genai';
+import { HistoryItem } from '../ui/types.js';
+
+/**
+ * Contents of a checkpoint file, written before an edit tool call is run.
+ */
+export interface CheckpointData {
+  history?: HistoryItem[];
+  clientHistory?: Content[];
+  toolCall: {
+    name: string;
+    args: Record<string, unknown>;
+  };
+  /** Shadow repository commit holding the files before the tool call. */
+  commitHash?: string;
+  filePath?: string;
+  /** Files the tool call changes, relative to the project root. */
+  changedFiles?: string[];
+  /** ISO timestamp of when the checkpoint was taken. */
+  timestamp?: string;
+}
+
+export interface CheckpointEntry {
+  /** File name without the `.json` extension. */
+  name: string;
+  timestamp: Date;
+  data: CheckpointData;
+}
+
+// Checkpoint files are named `2025-01-31T12-00-00_000Z-file.ts-tool.json`.
+const FILE_NAME_TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})_(\d{3})Z/;
+
+function getTimestampFromName(name: string): Date | undefined {
+  const match = FILE_NAME_TIMESTAMP.exec(name);
+  if (!match) {
+    return undefined;
+  }
+  const [, date, hours, minutes, seconds, millis] = match;
+  return new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+}
+
+/**
+ * Reads a checkpoint by name, with or without the `.json` extension.
+ * Returns undefined if there is no such checkpoint.
+ */
+export async function readCheckpoint(
+  checkpointDir: string,
+  name: string,
+): Promise<CheckpointEntry | undefined> {
+  const baseName = name.replace(/\.json$/, '');
+  const filePath = join(checkpointDir, `${baseName}.json`);
+  let content: string;
+  let modified: Date;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+    modified = (await fs.stat(filePath)).mtime;
+  } catch {
+    return undefined;
+  }
+  const data = JSON.parse(content) as CheckpointData;
+  const fromData = data.timestamp ? new Date(data.timestamp) : undefined;
+  return {
+    name: baseName,
+    timestamp:
+      fromData && !isNaN(fromData.getTime())
+        ? fromData
+        : (getTimestampFromName(baseName) ?? modified),
+    data,
+  };
+}
+
+/**
+ * Lists the checkpoints in the directory, oldest first. Files that cannot
+ * be parsed are skipped.
+ */
+export async function listCheckpoints(
+  checkpointDir: string,
+): Promise<CheckpointEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(checkpointDir);
+  } catch {
+    return [];
+  }
+  const entries: CheckpointEntry[] = [];
+  for (const file of files.filter((file) => file.endsWith('.json'))) {
+    try {
+      const entry = await readCheckpoint(checkpointDir, file);
+      if (entry) {
+        entries.push(entry);
+      }
+    } catch {
+      // Ignore checkpoints that are not valid JSON.
+    }
+  }
+  return entries.sort(
+    (a, b) =>
+      a.timestamp.getTime() - b.timestamp.getTime() ||
+      a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Returns the files the tool call of a checkpoint changes, relative to the
+ * project root. Older checkpoints only record the file the tool was given.
+ */
+export function getCheckpointChangedFiles(
+  entry: CheckpointEntry,
+  projectRoot: string,
+): string[] {
+  const { changedFiles, filePath } = entry.data;
+  return changedFiles ?? (filePath ? [relative(projectRoot, filePath)] : []);
+}
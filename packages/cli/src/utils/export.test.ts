@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ToolConfirmationOutcome } from '@enfiy/core';
+import { formatTranscript, isTranscriptFormat } from './export.js';
+import { HistoryItem, ToolCallStatus } from '../ui/types.js';
+import { CumulativeStats } from '../ui/contexts/SessionContext.js';
+
+const API_KEY = 'sk-ant-REDACTED';
+
+const history: HistoryItem[] = [
+  { id: 1, type: 'user', text: `Use <b>${API_KEY}</b> for the tests` },
+  {
+    id: 2,
+    type: 'thought',
+    thoughts: [{ subject: 'Planning', description: 'Find the config first' }],
+  },
+  { id: 3, type: 'enfiy', text: 'Updating ', model: 'claude-sonnet-4' },
+  { id: 4, type: 'enfiy_content', text: 'the config.' },
+  {
+    id: 5,
+    type: 'tool_group',
+    tools: [
+      {
+        callId: 'call-1',
+        name: 'Edit',
+        description: 'config.ts',
+        status: ToolCallStatus.Success,
+        resultDisplay: {
+          fileName: 'config.ts',
+          fileDiff: '--- a/config.ts\n+++ b/config.ts\n-old\n+new\n',
+        },
+        confirmationDetails: undefined,
+        outcome: ToolConfirmationOutcome.ProceedOnce,
+      },
+      {
+        callId: 'call-2',
+        name: 'Shell',
+        description: 'rm -rf dist',
+        status: ToolCallStatus.Canceled,
+        resultDisplay: undefined,
+        confirmationDetails: undefined,
+        outcome: ToolConfirmationOutcome.Cancel,
+      },
+    ],
+  },
+];
+
+const stats: CumulativeStats = {
+  turnCount: 1,
+  promptTokenCount: 100,
+  candidatesTokenCount: 20,
+  totalTokenCount: 130,
+  cachedContentTokenCount: 0,
+  toolUsePromptTokenCount: 0,
+  thoughtsTokenCount: 10,
+  apiTimeMs: 1500,
+};
+
+const options = {
+  model: 'claude-sonnet-4',
+  exportedAt: new Date('2025-03-01T10:00:00.000Z'),
+};
+
+describe('formatTranscript', () => {
+  it('should write tool calls, diffs, thoughts and usage as Markdown', () => {
+    const transcript = formatTranscript('md', history, stats, options);
+
+    expect(transcript).toContain('- Model: claude-sonnet-4');
+    expect(transcript).toContain('> _Thinking:_ Planning: Find the config');
+    expect(transcript).toContain('## claude-sonnet-4\n\nUpdating the config.');
+    expect(transcript).toContain(
+      '**Edit** config.ts (Success, allowed once)\n\nconfig.ts\n\n```diff\n--- a/config.ts\n+++ b/config.ts\n-old\n+new\n```',
+    );
+    expect(transcript).toContain('**Shell** rm -rf dist (Canceled, declined)');
+    expect(transcript).toContain('| Total Tokens | 130 |');
+    expect(transcript).toContain('| API Time | 1.5s |');
+  });
+
+  it('should escape the conversation in HTML', () => {
+    const transcript = formatTranscript('html', history, stats, options);
+
+    expect(transcript).toMatch(/^<!DOCTYPE html>/);
+    expect(transcript).toContain('Use &lt;b&gt;');
+    expect(transcript).not.toContain('<b>');
+    expect(transcript).toContain('<span class="added">+new</span>');
+  });
+
+  it('should keep the history items as they are in JSON', () => {
+    const transcript = JSON.parse(
+      formatTranscript('json', history, stats, options),
+    );
+
+    expect(transcript).toEqual({
+      exportedAt: '2025-03-01T10:00:00.000Z',
+      model: 'claude-sonnet-4',
+      stats,
+      history,
+    });
+  });
+
+  it('should redact API keys only when asked to', () => {
+    expect(formatTranscript('md', history, stats, options)).toContain(API_KEY);
+
+    for (const format of ['md', 'html', 'json'] as const) {
+      const transcript = formatTranscript(format, history, stats, {
+        ...options,
+        redact: true,
+      });
+      expect(transcript).not.toContain(API_KEY);
+      expect(transcript).toContain('[REDACTED]');
+    }
+  });
+
+  it('should redact keys at the start of a line or after an underscore', () => {
+    const keys: HistoryItem[] = [
+      {
+        id: 1,
+        type: 'user',
+        text: `Keys:\n${API_KEY}\n\tAIzaSyA1234567890abcdefghijklmnop`,
+      },
+      { id: 2, type: 'info', text: `OPENAI_KEY_${API_KEY}` },
+    ];
+
+    for (const format of ['md', 'html', 'json'] as const) {
+      const transcript = formatTranscript(format, keys, stats, {
+        ...options,
+        redact: true,
+      });
+      expect(transcript).not.toContain(API_KEY.slice(3));
+      expect(transcript).not.toContain('AIzaSyA1234567890');
+    }
+    const { history: redacted } = JSON.parse(
+      formatTranscript('json', keys, stats, { ...options, redact: true }),
+    );
+    expect(redacted[0].text).toBe('Keys:\n[REDACTED]\n\t[REDACTED]');
+    expect(redacted[1].text).toBe('OPENAI_KEY_[REDACTED]');
+  });
+
+  it('should recognize the supported formats', () => {
+    expect(isTranscriptFormat('html')).toBe(true);
+    expect(isTranscriptFormat('pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import {
+  ToolConfirmationOutcome,
+  ToolResultDisplay,
+  ThoughtSummary,
+} from '@enfiy/core';
+import { HistoryItem, IndividualToolCallDisplay } from '../ui/types.js';
+import { CumulativeStats } from '../ui/contexts/SessionContext.js';
+import { formatDuration } from '../ui/utils/formatters.js';
+import { redactApiKeys } from './secureStorage.js';
+
+export const TRANSCRIPT_FORMATS = ['md', 'html', 'json'] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+  return (TRANSCRIPT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface TranscriptOptions {
+  model?: string;
+  /** Defaults to now. */
+  exportedAt?: Date;
+  /** Replace anything that looks like an API key with a placeholder. */
+  redact?: boolean;
+}
+
+const OUTCOME_LABELS: Record<ToolConfirmationOutcome, string> = {
+  [ToolConfirmationOutcome.ProceedOnce]: 'allowed once',
+  [ToolConfirmationOutcome.ProceedAlways]: 'always allowed',
+  [ToolConfirmationOutcome.ProceedAlwaysServer]: 'always allowed for server',
+  [ToolConfirmationOutcome.ProceedAlwaysTool]: 'always allowed for tool',
+  [ToolConfirmationOutcome.ModifyWithEditor]: 'modified in editor',
+  [ToolConfirmationOutcome.Cancel]: 'declined',
+};
+
+function describeToolStatus(tool: IndividualToolCallDisplay): string {
+  return tool.outcome
+    ? `${tool.status}, ${OUTCOME_LABELS[tool.outcome]}`
+    : tool.status;
+}
+
+function describeThought(thought: ThoughtSummary): string {
+  return [thought.subject, thought.description].filter(Boolean).join(': ');
+}
+
+function getUsageRows(stats: CumulativeStats): Array<[string, string]> {
+  return [
+    ['Turns', `${stats.turnCount}`],
+    ['Input Tokens', `${stats.promptTokenCount}`],
+    ['Output Tokens', `${stats.candidatesTokenCount}`],
+    ['Tool Use Tokens', `${stats.toolUsePromptTokenCount}`],
+    ['Thoughts Tokens', `${stats.thoughtsTokenCount}`],
+    ['Cached Tokens', `${stats.cachedContentTokenCount}`],
+    ['Total Tokens', `${stats.totalTokenCount}`],
+    ['API Time', formatDuration(stats.apiTimeMs)],
+  ];
+}
+
+/**
+ * Long responses are split into an `enfiy` item followed by `enfiy_content`
+ * items while streaming; joins them back together.
+ */
+function mergeResponses(history: HistoryItem[]): HistoryItem[] {
+  const merged: HistoryItem[] = [];
+  for (const item of history) {
+    const previous = merged[merged.length - 1];
+    if (item.type === 'enfiy_content' && previous?.type === 'enfiy') {
+      merged[merged.length - 1] = {
+        ...previous,
+        text: previous.text + item.text,
+      };
+    } else if (item.type === 'enfiy_content') {
+      merged.push({ ...item, type: 'enfiy' });
+    } else {
+      merged.push(item);
+    }
+  }
+  return merged;
+}
+
+/** A code fence longer than any run of backticks in `text`. */
+function fence(text: string, language = ''): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+function toolResultToMarkdown(result: ToolResultDisplay): string {
+  return typeof result === 'string'
+    ? fence(result)
+    : `${result.fileName}\n\n${fence(result.fileDiff, 'diff')}`;
+}
+
+function itemToMarkdown(item: HistoryItem): string | undefined {
+  switch (item.type) {
+    case 'user':
+      return `## User\n\n${item.text}`;
+    case 'user_shell':
+      return `## Shell\n\n${fence(item.text, 'sh')}`;
+    case 'enfiy':
+    case 'enfiy_content':
+      return `## ${item.model ?? 'Enfiy'}\n\n${item.text}`;
+    case 'thought':
+      return item.thoughts
+        .map((thought) => `> _Thinking:_ ${describeThought(thought)}`)
+        .join('\n>\n');
+    case 'info':
+      return `> ${item.text.split('\n').join('\n> ')}`;
+    case 'error':
+      return `> **Error:** ${item.text.split('\n').join('\n> ')}`;
+    case 'tool_group':
+      return item.tools
+        .map((tool) => {
+          const heading = `**${tool.name}** ${tool.description} (${describeToolStatus(tool)})`;
+          return tool.resultDisplay
+            ? `${heading}\n\n${toolResultToMarkdown(tool.resultDisplay)}`
+            : heading;
+        })
+        .join('\n\n');
+    case 'diff_preview':
+      return [
+        `**${item.title}**`,
+        ...item.diffs.map((diff) => toolResultToMarkdown(diff)),
+      ].join('\n\n');
+    case 'compression':
+      return `_Conversation compressed from ${item.compression.originalTokenCount ?? 'unknown'} to ${item.compression.newTokenCount ?? 'unknown'} tokens._`;
+    case 'stats':
+      return getUsageRows(item.stats)
+        .map(([label, value]) => `- ${label}: ${value}`)
+        .join('\n');
+    case 'about':
+    case 'quit':
+      return undefined;
+    default: {
+      const unreachable: never = item;
+      return unreachable;
+    }
+  }
+}
+
+function toMarkdown(
+  history: HistoryItem[],
+  stats: CumulativeStats,
+  options: TranscriptOptions,
+): string {
+  const sections = [
+    '# Enfiy Code session',
+    [
+      `- Exported: ${(options.exportedAt ?? new Date()).toISOString()}`,
+      ...(options.model ? [`- Model: ${options.model}`] : []),
+    ].join('\n'),
+    ...mergeResponses(history)
+      .map(itemToMarkdown)
+      .filter((section): section is string => section !== undefined),
+    [
+      '## Usage',
+      '',
+      '| | |',
+      '| --- | --- |',
+      ...getUsageRows(stats).map(([label, value]) => `| ${label} | ${value} |`),
+    ].join('\n'),
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function diffToHtml(diff: string): string {
+  const lines = diff.split('\n').map((line) => {
+    const escaped = escapeHtml(line);
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      return `<span class="added">${escaped}</span>`;
+    }
+    if (line.startsWith('-') && !line.startsWith('---')) {
+      return `<span class="removed">${escaped}</span>`;
+    }
+    return escaped;
+  });
+  return `<pre class="diff">${lines.join('\n')}</pre>`;
+}
+
+function toolResultToHtml(result: ToolResultDisplay): string {
+  return typeof result === 'string'
+    ? `<pre>${escapeHtml(result)}</pre>`
+    : `<p>${escapeHtml(result.fileName)}</p>${diffToHtml(result.fileDiff)}`;
+}
+
+function itemToHtml(item: HistoryItem): string | undefined {
+  switch (item.type) {
+    case 'user':
+      return `<section class="user"><h2>User</h2><pre>${escapeHtml(item.text)}</pre></section>`;
+    case 'user_shell':
+      return `<section class="user"><h2>Shell</h2><pre>${escapeHtml(item.text)}</pre></section>`;
+    case 'enfiy':
+    case 'enfiy_content':
+      return `<section class="model"><h2>${escapeHtml(item.model ?? 'Enfiy')}</h2><pre>${escapeHtml(item.text)}</pre></section>`;
+    case 'thought':
+      return `<section class="thought">${item.thoughts
+        .map(
+          (thought) =>
+            `<p>Thinking: ${escapeHtml(describeThought(thought))}</p>`,
+        )
+        .join('')}</section>`;
+    case 'info':
+      return `<section class="info"><pre>${escapeHtml(item.text)}</pre></section>`;
+    case 'error':
+      return `<section class="error"><pre>${escapeHtml(item.text)}</pre></section>`;
+    case 'tool_group':
+      return `<section class="tools">${item.tools
+        .map(
+          (tool) =>
+            `<div class="tool"><p><strong>${escapeHtml(tool.name)}</strong> ${escapeHtml(tool.description)} (${escapeHtml(describeToolStatus(tool))})</p>${tool.resultDisplay ? toolResultToHtml(tool.resultDisplay) : ''}</div>`,
+        )
+        .join('')}</section>`;
+    case 'diff_preview':
+      return `<section class="tools"><p><strong>${escapeHtml(item.title)}</strong></p>${item.diffs
+        .map((diff) => toolResultToHtml(diff))
+        .join('')}</section>`;
+    case 'compression':
+      return `<section class="info"><p>Conversation compressed from ${item.compression.originalTokenCount ?? 'unknown'} to ${item.compression.newTokenCount ?? 'unknown'} tokens.</p></section>`;
+    case 'stats':
+      return `<section class="info">${usageToHtml(item.stats)}</section>`;
+    case 'about':
+    case 'quit':
+      return undefined;
+    default: {
+      const unreachable: never = item;
+      return unreachable;
+    }
+  }
+}
+
+function usageToHtml(stats: CumulativeStats): string {
+  return `<table>${getUsageRows(stats)
+    .map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`)
+    .join('')}</table>`;
+}
+
+const HTML_STYLE = `body { font-family: sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+pre { white-space: pre-wrap; word-break: break-word; }
+section { border-left: 4px solid #ccc; margin: 1rem 0; padding: 0 1rem; }
+section.user { border-color: #3b82f6; }
+section.model { border-color: #22c55e; }
+section.thought { border-color: #a855f7; color: #555; font-style: italic; }
+section.error { border-color: #ef4444; }
+pre.diff, section.tools pre { background: #f5f5f5; padding: 0.5rem; }
+.added { color: #15803d; }
+.removed { color: #b91c1c; }
+th { text-align: left; padding-right: 1rem; }`;
+
+function toHtml(
+  history: HistoryItem[],
+  stats: CumulativeStats,
+  options: TranscriptOptions,
+): string {
+  const details = [
+    `Exported: ${(options.exportedAt ?? new Date()).toISOString()}`,
+    ...(options.model ? [`Model: ${escapeHtml(options.model)}`] : []),
+  ];
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>Enfiy Code session</title>',
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    '<h1>Enfiy Code session</h1>',
+    `<p>${details.join('<br>')}</p>`,
+    ...mergeResponses(history)
+      .map(itemToHtml)
+      .filter((section): section is string => section !== undefined),
+    `<h2>Usage</h2>${usageToHtml(stats)}`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serializes a conversation as a Markdown, HTML or JSON transcript. The JSON
+ * transcript keeps the history items as they are, so that it can be
+ * processed further.
+ */
+export function formatTranscript(
+  format: TranscriptFormat,
+  history: HistoryItem[],
+  stats: CumulativeStats,
+  options: TranscriptOptions = {},
+): string {
+  let transcript: string;
+  switch (format) {
+    case 'md':
+      transcript = toMarkdown(history, stats, options);
+      break;
+    case 'html':
+      transcript = toHtml(history, stats, options);
+      break;
+    case 'json':
+      // Escapes such as \n would hide keys at the start of a line from the
+      // patterns, so the strings are redacted before they are serialized.
+      return `${JSON.stringify(
+        {
+          exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+          model: options.model,
+          stats,
+          history,
+        },
+        (_key, value) =>
+          options.redact && typeof value === 'string'
+            ? redactApiKeys(value)
+            : value,
+        2,
+      )}\n`;
+    default: {
+      const unreachable: never = format;
+      return unreachable;
+    }
+  }
+  // HTML escaping leaves the characters of keys alone, so Markdown and HTML
+  // can be redacted as a whole.
+  return options.redact ? redactApiKeys(transcript) : transcript;
+}
@@ -32,6 +32,12 @@ function getProviderTypeFromString(
       return ProviderType.ANTHROPIC;
     case 'ollama':
       return ProviderType.OLLAMA;
+    case 'openai-compatible':
+    case 'vllm':
+    case 'tgi':
+    case 'lmstudio':
+    case 'llamacpp':
+      return ProviderType.OPENAI_COMPATIBLE;
     default:
       return null;
   }
@@ -144,11 +150,17 @@ export function getProviderFromModel(
 /**
  * Check if a model is a local model that doesn't require API keys
  */
-export function isLocalModel(modelName: string): boolean {
+export function isLocalModel(
+  modelName: string,
+  providerContext?: string,
+): boolean {
   if (!modelName) return false;
 
-  const provider = getProviderFromModel(modelName);
-  return provider === ProviderType.OLLAMA;
+  const provider = getProviderFromModel(modelName, providerContext);
+  return (
+    provider === ProviderType.OLLAMA ||
+    provider === ProviderType.OPENAI_COMPATIBLE
+  );
 }
 
 /**
@@ -178,6 +190,8 @@ export function getProviderDisplayName(provider: ProviderType): string {
       return 'OpenRouter';
     case ProviderType.OLLAMA:
       return 'Ollama';
+    case ProviderType.OPENAI_COMPATIBLE:
+      return 'OpenAI-Compatible';
     default: {
       // This should never happen if all enum cases are handled
       const _exhaustiveCheck: never = provider;
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import {
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  OpenAICompatibleProvider,
+  ProviderType,
+} from '@enfiy/core';
+
+export interface OpenAICompatibleServerStatus {
+  baseUrl: string;
+  isRunning: boolean;
+  models: string[];
+}
+
+/**
+ * Common local endpoints, shown as hints in the setup dialog.
+ */
+export const OPENAI_COMPATIBLE_SERVER_EXAMPLES = [
+  { name: 'vLLM', baseUrl: 'http://localhost:8000/v1' },
+  { name: 'Text Generation Inference', baseUrl: 'http://localhost:8080/v1' },
+  { name: 'LM Studio', baseUrl: 'http://localhost:1234/v1' },
+  { name: 'llama.cpp server', baseUrl: 'http://localhost:8080/v1' },
+];
+
+/**
+ * Returns the configured endpoint. The CLI config seeds
+ * OPENAI_COMPATIBLE_BASE_URL from settings at startup.
+ */
+export function getOpenAICompatibleBaseUrl(): string {
+  return (
+    process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+  );
+}
+
+/**
+ * Checks whether an OpenAI-compatible server is reachable and lists the
+ * models it serves via /v1/models.
+ */
+export async function checkOpenAICompatibleServer(
+  baseUrl: string = getOpenAICompatibleBaseUrl(),
+): Promise<OpenAICompatibleServerStatus> {
+  const provider = new OpenAICompatibleProvider();
+  await provider.initialize({
+    type: ProviderType.OPENAI_COMPATIBLE,
+    model: '',
+    baseUrl,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+  });
+
+  const isRunning = await provider.isAvailable();
+  const models = isRunning ? await provider.listModels() : [];
+
+  return { baseUrl, isRunning, models };
+}
@@ -12,6 +12,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as crypto from 'node:crypto';
+import { MCPOAuthCredentials } from '@enfiy/core';
 
 const ENFIY_CONFIG_DIR = path.join(os.homedir(), '.enfiy');
 const SECURE_CONFIG_FILE = path.join(ENFIY_CONFIG_DIR, 'secure.json');
@@ -33,6 +34,10 @@ interface SecureConfig {
       encrypted: boolean;
     };
   };
+  // OAuth credentials of MCP servers, by server name, always encrypted
+  mcpOAuth?: {
+    [serverName: string]: string;
+  };
   version: string;
 }
 
@@ -354,6 +359,42 @@ export function getConfiguredProviders(): string[] {
   return Object.keys(config.providers);
 }
 
+/**
+ * Retrieve the OAuth credentials of an MCP server
+ */
+export function getMcpOAuthCredentials(
+  serverName: string,
+): MCPOAuthCredentials | undefined {
+  const encryptedData = loadSecureConfig().mcpOAuth?.[serverName];
+  if (!encryptedData) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(decrypt(JSON.parse(encryptedData)));
+  } catch (error) {
+    console.warn(
+      `Warning: Could not decrypt OAuth credentials for MCP server ${serverName}:`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Store the OAuth credentials of an MCP server securely
+ */
+export function storeMcpOAuthCredentials(
+  serverName: string,
+  credentials: MCPOAuthCredentials,
+): void {
+  const config = loadSecureConfig();
+  config.mcpOAuth = {
+    ...config.mcpOAuth,
+    [serverName]: JSON.stringify(encrypt(JSON.stringify(credentials))),
+  };
+  saveSecureConfig(config);
+}
+
 /**
  * Load API keys from secure storage into environment variables
  */
@@ -396,6 +437,9 @@ function getEnvVarForProvider(provider: string): string | undefined {
     // OpenRouter
     openrouter: 'OPENROUTER_API_KEY',
     OPENROUTER: 'OPENROUTER_API_KEY',
+
+    // Self-hosted OpenAI-compatible servers (optional key)
+    'openai-compatible': 'OPENAI_COMPATIBLE_API_KEY',
   };
 
   return envVarMap[provider] || envVarMap[provider.toLowerCase()];
@@ -444,7 +488,7 @@ export function validateApiKey(provider: string, apiKey: string): boolean {
   }
 
   // For local providers like Ollama, no API key required
-  const localProviders = ['ollama', 'vllm'];
+  const localProviders = ['ollama', 'vllm', 'openai-compatible'];
   if (localProviders.includes(provider.toLowerCase())) {
     return true; // No API key validation needed for local providers
   }
@@ -456,3 +500,25 @@ export function validateApiKey(provider: string, apiKey: string): boolean {
     /^[A-Za-z0-9_-]+$/.test(apiKey)
   );
 }
+
+/**
+ * Patterns for API keys that appear inside other text, based on the ones
+ * used by validateApiKey. The Mistral format (any 32+ alphanumerics) is left
+ * out, as it would also match commit hashes and similar identifiers.
+ */
+const EMBEDDED_API_KEY_PATTERNS = [
+  // Anthropic and OpenRouter keys also start with sk-. Unlike \b, the
+  // lookbehind also matches keys that follow an underscore.
+  /(?<![A-Za-z0-9])sk-[A-Za-z0-9\-_]{20,}/g,
+  /(?<![A-Za-z0-9])AIza[A-Za-z0-9\-_]{20,}/g,
+];
+
+/**
+ * Replace anything that looks like an API key with a placeholder
+ */
+export function redactApiKeys(text: string): string {
+  return EMBEDDED_API_KEY_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, '[REDACTED]'),
+    text,
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SessionRecord,
+  isValidSessionTag,
+  listSessions,
+  loadSession,
+  saveSession,
+} from './sessions.js';
+import { ToolCallStatus } from '../ui/types.js';
+
+describe('sessions', () => {
+  let sessionDir: string;
+
+  const createRecord = (
+    id: string,
+    lastUpdated: string,
+    overrides: Partial<SessionRecord> = {},
+  ): SessionRecord => ({
+    id,
+    startTime: '2025-03-01T00:00:00.000Z',
+    lastUpdated,
+    model: 'gemini-2.5-pro',
+    provider: 'gemini',
+    history: [
+      { id: 1, type: 'user', text: 'Fix the build' },
+      {
+        id: 2,
+        type: 'tool_group',
+        tools: [
+          {
+            callId: 'call-1',
+            name: 'Edit',
+            description: 'src/index.ts',
+            status: ToolCallStatus.Success,
+            resultDisplay: {
+              fileDiff: '--- a\n+++ b\n',
+              fileName: 'index.ts',
+            },
+            confirmationDetails: undefined,
+          },
+        ],
+      },
+      { id: 3, type: 'enfiy', text: 'Done.' },
+    ],
+    clientHistory: [{ role: 'user', parts: [{ text: 'Fix the build' }] }],
+    stats: {
+      turnCount: 1,
+      promptTokenCount: 10,
+      candidatesTokenCount: 5,
+      totalTokenCount: 15,
+      cachedContentTokenCount: 0,
+      toolUsePromptTokenCount: 0,
+      thoughtsTokenCount: 0,
+      apiTimeMs: 100,
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    sessionDir = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-')),
+      'sessions',
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(sessionDir), { recursive: true, force: true });
+  });
+
+  it('should save and load a session with its tool calls', async () => {
+    const record = createRecord('abc-123', '2025-03-01T10:00:00.000Z');
+    await saveSession(sessionDir, record);
+
+    expect(await loadSession(sessionDir, 'abc-123')).toEqual(record);
+  });
+
+  it('should list sessions most recent first', async () => {
+    await saveSession(
+      sessionDir,
+      createRecord('older', '2025-03-01T10:00:00.000Z'),
+    );
+    await saveSession(
+      sessionDir,
+      createRecord('newer', '2025-03-02T10:00:00.000Z', { tag: 'newer' }),
+    );
+    await fs.writeFile(path.join(sessionDir, 'broken.json'), '{');
+
+    const sessions = await listSessions(sessionDir);
+
+    expect(sessions.map((session) => session.id)).toEqual(['newer', 'older']);
+    expect(sessions[0]).toMatchObject({
+      tag: 'newer',
+      firstPrompt: 'Fix the build',
+      messageCount: 2,
+    });
+  });
+
+  it('should find sessions by unique id prefix or the latest one', async () => {
+    await saveSession(
+      sessionDir,
+      createRecord('abc-1', '2025-03-01T10:00:00.000Z'),
+    );
+    await saveSession(
+      sessionDir,
+      createRecord('abc-2', '2025-03-02T10:00:00.000Z'),
+    );
+    await saveSession(
+      sessionDir,
+      createRecord('def-1', '2025-03-03T10:00:00.000Z'),
+    );
+
+    expect((await loadSession(sessionDir, 'abc-2'))?.id).toBe('abc-2');
+    expect((await loadSession(sessionDir, 'def'))?.id).toBe('def-1');
+    expect(await loadSession(sessionDir, 'abc')).toBeUndefined();
+    expect((await loadSession(sessionDir))?.id).toBe('def-1');
+  });
+
+  it('should return nothing for a missing directory', async () => {
+    expect(await listSessions(sessionDir)).toEqual([]);
+    expect(await loadSession(sessionDir)).toBeUndefined();
+  });
+
+  it('should only accept tags that are safe file names', () => {
+    expect(isValidSessionTag('before-refactor_2.1')).toBe(true);
+    expect(isValidSessionTag('../escape')).toBe(false);
+    expect(isValidSessionTag('with space')).toBe(false);
+  });
+});
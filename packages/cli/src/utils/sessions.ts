@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Content } from '@google/genai';
+import { HistoryItem } from '../ui/types.js';
+import { CumulativeStats } from '../ui/contexts/SessionContext.js';
+import { BranchTree } from './branches.js';
+
+/**
+ * Everything needed to continue a session: what was shown, what the model
+ * saw and what it cost so far.
+ */
+export interface SessionRecord {
+  id: string;
+  /** Set for conversations saved with `/chat save <tag>`. */
+  tag?: string;
+  /** ISO timestamps. */
+  startTime: string;
+  lastUpdated: string;
+  model: string;
+  provider?: string;
+  history: HistoryItem[];
+  clientHistory: Content[];
+  stats: CumulativeStats;
+  /** Branches created with /fork; `history` is the active one. */
+  branches?: BranchTree;
+}
+
+export interface SessionSummary {
+  id: string;
+  tag?: string;
+  lastUpdated: Date;
+  model: string;
+  provider?: string;
+  /** The first prompt of the session, if any. */
+  firstPrompt?: string;
+  messageCount: number;
+}
+
+const VALID_TAG = /^[\w.-]+$/;
+
+export function isValidSessionTag(tag: string): boolean {
+  return VALID_TAG.test(tag);
+}
+
+export async function saveSession(
+  sessionDir: string,
+  record: SessionRecord,
+): Promise<void> {
+  await fs.mkdir(sessionDir, { recursive: true });
+  await fs.writeFile(
+    join(sessionDir, `${record.id}.json`),
+    JSON.stringify(record),
+    'utf-8',
+  );
+}
+
+async function readSessionFile(
+  sessionDir: string,
+  file: string,
+): Promise<SessionRecord | undefined> {
+  try {
+    const record = JSON.parse(
+      await fs.readFile(join(sessionDir, file), 'utf-8'),
+    ) as SessionRecord;
+    return typeof record.id === 'string' && Array.isArray(record.history)
+      ? record
+      : undefined;
+  } catch {
+    // Missing or not valid JSON.
+    return undefined;
+  }
+}
+
+/**
+ * Lists the saved sessions, most recently updated first. Files that cannot
+ * be parsed are skipped.
+ */
+export async function listSessions(
+  sessionDir: string,
+): Promise<SessionSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(sessionDir);
+  } catch {
+    return [];
+  }
+  const summaries: SessionSummary[] = [];
+  for (const file of files.filter((file) => file.endsWith('.json'))) {
+    const record = await readSessionFile(sessionDir, file);
+    if (!record) {
+      continue;
+    }
+    summaries.push({
+      id: record.id,
+      tag: record.tag,
+      lastUpdated: new Date(record.lastUpdated),
+      model: record.model,
+      provider: record.provider,
+      firstPrompt: record.history.find((item) => item.type === 'user')?.text,
+      messageCount: record.history.filter(
+        (item) => item.type === 'user' || item.type === 'enfiy',
+      ).length,
+    });
+  }
+  return summaries.sort(
+    (a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime(),
+  );
+}
+
+/**
+ * Loads a session by tag, id or unique id prefix, or the most recently
+ * updated one if no identifier is given. Returns undefined if there is no
+ * match.
+ */
+export async function loadSession(
+  sessionDir: string,
+  identifier?: string,
+): Promise<SessionRecord | undefined> {
+  const sessions = await listSessions(sessionDir);
+  let match: SessionSummary | undefined;
+  if (!identifier) {
+    match = sessions[0];
+  } else {
+    match = sessions.find(
+      (session) => session.id === identifier || session.tag === identifier,
+    );
+    if (!match) {
+      const byPrefix = sessions.filter((session) =>
+        session.id.startsWith(identifier),
+      );
+      match = byPrefix.length === 1 ? byPrefix[0] : undefined;
+    }
+  }
+  return match ? readSessionFile(sessionDir, `${match.id}.json`) : undefined;
+}
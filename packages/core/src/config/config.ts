@@ -31,7 +31,13 @@ import { ENFIY_CONFIG_DIR as ENFIY_DIR } from '../tools/memoryTool.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { ProviderConfig } from '../providers/types.js';
 import { GitService } from '../services/gitService.js';
-import { getProjectTempDir } from '../utils/paths.js';
+import { SemanticIndexService } from '../services/semanticIndexService.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
+import { UsageLedgerService } from '../services/usageLedgerService.js';
+import { MCPOAuthTokenStorage } from '../tools/mcp-oauth-provider.js';
+import { EditHistoryService } from '../services/editHistoryService.js';
+import { PermissionPolicy, PermissionRule } from '../core/permissionPolicy.js';
+import { getProjectTempDir, getUsageLedgerDir } from '../utils/paths.js';
 import {
   initializeTelemetry,
   DEFAULT_TELEMETRY_TARGET,
@@ -45,6 +51,14 @@ import {
 } from './models.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
 
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+/**
+ * Format of non-interactive output: plain text, one JSON document at the
+ * end, or one JSON event per line as they happen.
+ */
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
 export enum ApprovalMode {
   DEFAULT = 'default',
   AUTO_EDIT = 'autoEdit',
@@ -55,6 +69,22 @@ export interface AccessibilitySettings {
   disableLoadingPhrases?: boolean;
 }
 
+export interface ReasoningSettings {
+  /** Request reasoning and show it as thoughts. Defaults to true. */
+  enabled?: boolean;
+  /** Reasoning token budget per provider type, e.g. `{ anthropic: 8192 }`. */
+  budgetTokens?: Record<string, number>;
+}
+
+export interface UsageBudgetSettings {
+  /** Monthly spend in USD after which a warning is shown. */
+  softLimitUsd?: number;
+  /** Monthly spend in USD after which requests to paid models are refused. */
+  hardLimitUsd?: number;
+  /** Whether limits apply to spend across all projects or this one only. */
+  scope?: 'all' | 'project';
+}
+
 export interface BugCommandSettings {
   urlTemplate: string;
 }
@@ -79,6 +109,10 @@ export class MCPServerConfig {
     readonly httpUrl?: string,
     // For websocket transport
     readonly tcp?: string,
+    // For sse, streamable http and websocket transports
+    readonly headers?: Record<string, string>,
+    // For sse and streamable http transports
+    readonly oauth?: MCPOAuthConfig,
     // Common
     readonly timeout?: number,
     readonly trust?: boolean,
@@ -87,6 +121,16 @@ export class MCPServerConfig {
   ) {}
 }
 
+/**
+ * OAuth client settings for an MCP server. Without a client ID, the client
+ * registers itself with the authorization server.
+ */
+export interface MCPOAuthConfig {
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+}
+
 export interface SandboxConfig {
   command: 'docker' | 'podman' | 'sandbox-exec';
   image: string;
@@ -104,6 +148,10 @@ export interface ConfigParameters {
   targetDir: string;
   debugMode: boolean;
   question?: string;
+  outputFormat?: OutputFormat;
+  maxTurns?: number;
+  resumeSessionId?: string;
+  continueSession?: boolean;
   fullContext?: boolean;
   coreTools?: string[];
   excludeTools?: string[];
@@ -111,12 +159,17 @@ export interface ConfigParameters {
   toolCallCommand?: string;
   mcpServerCommand?: string;
   mcpServers?: Record<string, MCPServerConfig>;
+  mcpOAuthStorage?: MCPOAuthTokenStorage;
   userMemory?: string;
   enfiyMdFileCount?: number;
   approvalMode?: ApprovalMode;
   showMemoryUsage?: boolean;
   contextFileName?: string | string[];
   accessibility?: AccessibilitySettings;
+  reasoning?: ReasoningSettings;
+  usageBudget?: UsageBudgetSettings;
+  permissionRules?: PermissionRule[];
+  maxConcurrentToolCalls?: number;
   telemetry?: TelemetrySettings;
   usageStatisticsEnabled?: boolean;
   fileFiltering?: {
@@ -143,6 +196,10 @@ export class Config {
   private readonly targetDir: string;
   private readonly debugMode: boolean;
   private readonly question: string | undefined;
+  private readonly outputFormat: OutputFormat;
+  private readonly maxTurns: number | undefined;
+  private readonly resumeSessionId: string | undefined;
+  private readonly continueSession: boolean;
   private readonly fullContext: boolean;
   private readonly coreTools: string[] | undefined;
   private readonly excludeTools: string[] | undefined;
@@ -150,11 +207,18 @@ export class Config {
   private readonly toolCallCommand: string | undefined;
   private readonly mcpServerCommand: string | undefined;
   private readonly mcpServers: Record<string, MCPServerConfig> | undefined;
+  private readonly mcpOAuthStorage: MCPOAuthTokenStorage | undefined;
   private userMemory: string;
   private enfiyMdFileCount: number;
   private approvalMode: ApprovalMode;
   private readonly showMemoryUsage: boolean;
   private readonly accessibility: AccessibilitySettings;
+  private readonly reasoning: ReasoningSettings;
+  private usageBudget: UsageBudgetSettings;
+  private usageLedgerService: UsageLedgerService | undefined = undefined;
+  private readonly permissionRules: PermissionRule[];
+  private permissionPolicy: PermissionPolicy | undefined = undefined;
+  private readonly maxConcurrentToolCalls: number;
   private readonly telemetrySettings: TelemetrySettings;
   private readonly usageStatisticsEnabled: boolean;
   private enfiyClient!: EnfiyClient;
@@ -164,6 +228,8 @@ export class Config {
   };
   private fileDiscoveryService: FileDiscoveryService | null = null;
   private gitService: GitService | undefined = undefined;
+  private editHistoryService: EditHistoryService | undefined = undefined;
+  private semanticIndexService: SemanticIndexService | undefined = undefined;
   private readonly checkpointing: boolean;
   private readonly proxy: string | undefined;
   private readonly cwd: string;
@@ -171,7 +237,8 @@ export class Config {
   private model: string;
   private readonly extensionContextFilePaths: string[];
   private modelSwitchedDuringSession: boolean = false;
-  private readonly selectedProvider: string | undefined;
+  private selectedProvider: string | undefined;
+  private providerConfig: ProviderConfig | undefined;
   flashFallbackHandler?: FlashFallbackHandler;
 
   constructor(params: ConfigParameters) {
@@ -182,6 +249,10 @@ export class Config {
     this.targetDir = path.resolve(params.targetDir);
     this.debugMode = params.debugMode;
     this.question = params.question;
+    this.outputFormat = params.outputFormat ?? 'text';
+    this.maxTurns = params.maxTurns;
+    this.resumeSessionId = params.resumeSessionId;
+    this.continueSession = params.continueSession ?? false;
     this.fullContext = params.fullContext ?? false;
     this.coreTools = params.coreTools;
     this.excludeTools = params.excludeTools;
@@ -189,11 +260,19 @@ export class Config {
     this.toolCallCommand = params.toolCallCommand;
     this.mcpServerCommand = params.mcpServerCommand;
     this.mcpServers = params.mcpServers;
+    this.mcpOAuthStorage = params.mcpOAuthStorage;
     this.userMemory = params.userMemory ?? '';
     this.enfiyMdFileCount = params.enfiyMdFileCount ?? 0;
     this.approvalMode = params.approvalMode ?? ApprovalMode.DEFAULT;
     this.showMemoryUsage = params.showMemoryUsage ?? false;
     this.accessibility = params.accessibility ?? {};
+    this.reasoning = params.reasoning ?? {};
+    this.usageBudget = params.usageBudget ?? {};
+    this.permissionRules = params.permissionRules ?? [];
+    this.maxConcurrentToolCalls = Math.max(
+      1,
+      params.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+    );
     this.telemetrySettings = {
       enabled: params.telemetry?.enabled ?? false,
       target: params.telemetry?.target ?? DEFAULT_TELEMETRY_TARGET,
@@ -215,6 +294,7 @@ export class Config {
     this.model = params.model;
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.selectedProvider = params.selectedProvider;
+    this.providerConfig = params.providerConfig;
 
     if (params.contextFileName) {
       setEnfiyMdFilename(params.contextFileName);
@@ -324,6 +404,28 @@ export class Config {
     return this.question;
   }
 
+  getOutputFormat(): OutputFormat {
+    return this.outputFormat;
+  }
+
+  /**
+   * Maximum number of model requests in a non-interactive run, or undefined
+   * for no limit.
+   */
+  getMaxTurns(): number | undefined {
+    return this.maxTurns;
+  }
+
+  /** Id or tag of the saved session to continue, from `--resume`. */
+  getResumeSessionId(): string | undefined {
+    return this.resumeSessionId;
+  }
+
+  /** Whether to continue the most recent session, from `--continue`. */
+  getContinueSession(): boolean {
+    return this.continueSession;
+  }
+
   getFullContext(): boolean {
     return this.fullContext;
   }
@@ -352,6 +454,10 @@ export class Config {
     return this.mcpServers;
   }
 
+  getMcpOAuthStorage(): MCPOAuthTokenStorage | undefined {
+    return this.mcpOAuthStorage;
+  }
+
   getUserMemory(): string {
     return this.userMemory;
   }
@@ -384,6 +490,26 @@ export class Config {
     return this.accessibility;
   }
 
+  getReasoningSettings(): ReasoningSettings {
+    return this.reasoning;
+  }
+
+  getUsageBudget(): UsageBudgetSettings {
+    return this.usageBudget;
+  }
+
+  setUsageBudget(budget: UsageBudgetSettings): void {
+    this.usageBudget = budget;
+  }
+
+  /**
+   * How many tool calls of a batch may execute at the same time. Only
+   * read-only calls actually overlap; mutating calls are serialized.
+   */
+  getMaxConcurrentToolCalls(): number {
+    return this.maxConcurrentToolCalls;
+  }
+
   getTelemetryEnabled(): boolean {
     return this.telemetrySettings.enabled ?? false;
   }
@@ -471,9 +597,76 @@ export class Config {
     return this.gitService;
   }
 
+  /**
+   * Returns the undo/redo history of file changes, which lives in the
+   * checkpointing shadow repository and is only available with
+   * checkpointing enabled.
+   */
+  getEditHistoryService(): EditHistoryService | undefined {
+    if (!this.checkpointing) {
+      return undefined;
+    }
+    if (!this.editHistoryService) {
+      this.editHistoryService = new EditHistoryService(
+        () => this.getGitService(),
+        this.targetDir,
+      );
+    }
+    return this.editHistoryService;
+  }
+
+  getSemanticIndexService(): SemanticIndexService {
+    if (!this.semanticIndexService) {
+      this.semanticIndexService = new SemanticIndexService({
+        rootDir: this.targetDir,
+        indexDir: this.getProjectTempDir(),
+        fileService: this.getFileService(),
+        embeddingModel: this.embeddingModel,
+        embed: (texts) => this.getEnfiyClient().generateEmbedding(texts),
+        respectGitIgnore: this.getFileFilteringRespectGitIgnore(),
+      });
+    }
+    return this.semanticIndexService;
+  }
+
+  getUsageLedgerService(): UsageLedgerService {
+    if (!this.usageLedgerService) {
+      this.usageLedgerService = new UsageLedgerService({
+        ledgerDir: getUsageLedgerDir(),
+        projectRoot: this.getProjectRoot(),
+      });
+    }
+    return this.usageLedgerService;
+  }
+
+  getPermissionPolicy(): PermissionPolicy {
+    if (!this.permissionPolicy) {
+      this.permissionPolicy = new PermissionPolicy(
+        this.permissionRules,
+        this.targetDir,
+      );
+    }
+    return this.permissionPolicy;
+  }
+
   getSelectedProvider(): string | undefined {
     return this.selectedProvider;
   }
+
+  setSelectedProvider(provider: string | undefined): void {
+    this.selectedProvider = provider;
+    if (this.contentGeneratorConfig) {
+      this.contentGeneratorConfig.selectedProvider = provider;
+    }
+  }
+
+  getProviderConfig(): ProviderConfig | undefined {
+    return this.providerConfig;
+  }
+
+  setProviderConfig(providerConfig: ProviderConfig | undefined): void {
+    this.providerConfig = providerConfig;
+  }
 }
 
 export function createToolRegistry(config: Config): Promise<ToolRegistry> {
@@ -513,6 +706,7 @@ export function createToolRegistry(config: Config): Promise<ToolRegistry> {
   registerCoreTool(ShellTool, config);
   registerCoreTool(MemoryTool);
   registerCoreTool(WebSearchTool, config);
+  registerCoreTool(SemanticSearchTool, config);
   return (async () => {
     await registry.discoverTools();
     return registry;
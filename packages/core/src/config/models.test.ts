@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseEmbeddingModel } from './models.js';
+
+describe('parseEmbeddingModel', () => {
+  it('should honor an explicit provider prefix', () => {
+    expect(parseEmbeddingModel('ollama/bge-m3')).toEqual({
+      provider: 'ollama',
+      model: 'bge-m3',
+    });
+    expect(parseEmbeddingModel('openai-compatible/e5-large')).toEqual({
+      provider: 'openai-compatible',
+      model: 'e5-large',
+    });
+  });
+
+  it('should infer the provider from the model name', () => {
+    expect(parseEmbeddingModel('gemini-embedding-001').provider).toBe('gemini');
+    expect(parseEmbeddingModel('text-embedding-3-small').provider).toBe(
+      'openai',
+    );
+    expect(parseEmbeddingModel('mistral-embed').provider).toBe('mistral');
+  });
+
+  it('should treat unknown names as local Ollama models', () => {
+    expect(parseEmbeddingModel('nomic-embed-text')).toEqual({
+      provider: 'ollama',
+      model: 'nomic-embed-text',
+    });
+    // A slash that is not a known provider is part of the Ollama model name.
+    expect(parseEmbeddingModel('jina/jina-embeddings-v2')).toEqual({
+      provider: 'ollama',
+      model: 'jina/jina-embeddings-v2',
+    });
+  });
+});
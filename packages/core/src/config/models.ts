@@ -15,6 +15,7 @@ export const DEFAULT_LOCAL_PROVIDER = 'ollama';
 export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
 export const DEFAULT_GEMINI_FLASH_MODEL = 'gemini-2.5-flash';
 export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+export const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
 
 export const DEFAULT_OPENAI_MODEL = 'gpt-4o'; // Using GPT-4o instead of deprecated GPT-4
 export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
@@ -113,6 +114,12 @@ export function isModelProviderCompatible(
   model: string,
   provider: string,
 ): boolean {
+  // OpenAI-compatible servers (vLLM, TGI, LM Studio, ...) serve arbitrary
+  // model names, so any model is valid for them.
+  if (provider.toLowerCase() === 'openai-compatible') {
+    return true;
+  }
+
   const expectedProvider = getProviderFromModel(model);
   return expectedProvider === provider.toLowerCase();
 }
@@ -124,3 +131,47 @@ export function getCompatibleModel(model: string, provider: string): string {
   }
   return getDefaultModelForProvider(provider);
 }
+
+const EMBEDDING_PROVIDERS = [
+  'gemini',
+  'openai',
+  'mistral',
+  'ollama',
+  'openai-compatible',
+];
+
+// Split an embedding model setting into provider and model name. The provider
+// can be given explicitly (e.g. `ollama/bge-m3`, `openai-compatible/e5`);
+// otherwise it is inferred from the model name, defaulting to Ollama so that
+// unknown names stay local.
+export function parseEmbeddingModel(embeddingModel: string): {
+  provider: string;
+  model: string;
+} {
+  const separatorIndex = embeddingModel.indexOf('/');
+  if (separatorIndex > 0) {
+    const provider = embeddingModel.slice(0, separatorIndex).toLowerCase();
+    if (EMBEDDING_PROVIDERS.includes(provider)) {
+      return { provider, model: embeddingModel.slice(separatorIndex + 1) };
+    }
+  }
+
+  const modelLower = embeddingModel.toLowerCase().replace(/^models\//, '');
+  if (
+    modelLower.startsWith('gemini-') ||
+    modelLower.startsWith('embedding-00') ||
+    modelLower === 'text-embedding-004'
+  ) {
+    return { provider: 'gemini', model: embeddingModel };
+  }
+  if (
+    modelLower.startsWith('text-embedding-') ||
+    modelLower.startsWith('text-search-')
+  ) {
+    return { provider: 'openai', model: embeddingModel };
+  }
+  if (modelLower.endsWith('-embed') && /mistral|codestral/.test(modelLower)) {
+    return { provider: 'mistral', model: embeddingModel };
+  }
+  return { provider: 'ollama', model: embeddingModel };
+}
@@ -130,6 +130,7 @@ describe('Gemini Client (client.ts)', () => {
         getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
         getFileService: vi.fn().mockReturnValue(fileService),
         getSelectedProvider: vi.fn().mockReturnValue('gemini'),
+        getReasoningSettings: vi.fn().mockReturnValue({}),
       };
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       return mock as any;
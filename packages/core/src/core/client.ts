@@ -16,6 +16,7 @@ import {
   Content,
   Tool,
   GenerateContentResponse,
+  ThinkingConfig,
 } from '@google/genai';
 import { getFolderStructure } from '../utils/getFolderStructure.js';
 import {
@@ -38,9 +39,18 @@ import {
   ContentGeneratorConfig,
   createContentGenerator,
 } from './contentGenerator.js';
-import { MultiProviderClient } from './multiProviderClient.js';
+import { UsageTrackingContentGenerator } from './usageTrackingContentGenerator.js';
+import {
+  MultiProviderClient,
+  MultiProviderContentGeneratorWrapper,
+} from './multiProviderClient.js';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
-import { DEFAULT_ENFIY_FLASH_MODEL } from '../config/models.js';
+import { getActiveProviderType } from '../utils/mediaSupport.js';
+import { ProviderType } from '../providers/types.js';
+import {
+  DEFAULT_ENFIY_FLASH_MODEL,
+  parseEmbeddingModel,
+} from '../config/models.js';
 
 /**
  * Ensures model name is in the correct format for Gemini API calls
@@ -82,9 +92,32 @@ function isThinkingSupported(model: string) {
   return false;
 }
 
+/**
+ * Builds the `thinkingConfig` for new chats. Providers other than Gemini read
+ * it to decide whether to request reasoning and stream it as thought parts.
+ */
+function getThinkingConfig(config: Config): ThinkingConfig | undefined {
+  const providerType = getActiveProviderType(config);
+  const { enabled, budgetTokens } = config.getReasoningSettings();
+  const includeThoughts = enabled !== false;
+  const thinkingBudget = providerType
+    ? budgetTokens?.[providerType]
+    : undefined;
+
+  const isGemini = !providerType || providerType === ProviderType.GEMINI;
+  if (isGemini && !isThinkingSupported(config.getModel())) {
+    return undefined;
+  }
+  return {
+    includeThoughts,
+    ...(thinkingBudget !== undefined ? { thinkingBudget } : {}),
+  };
+}
+
 export class EnfiyClient {
   private chat?: EnfiyChat;
   private contentGenerator?: ContentGenerator;
+  private embeddingGenerator?: ContentGenerator;
   private multiProviderClient: MultiProviderClient;
   // Model is obtained dynamically from config.getModel() when needed
   private embeddingModel: string;
@@ -109,8 +142,9 @@ export class EnfiyClient {
   async initialize(contentGeneratorConfig: ContentGeneratorConfig) {
     try {
       // Initialize the content generator which will handle provider selection
-      this.contentGenerator = await createContentGenerator(
-        contentGeneratorConfig,
+      this.contentGenerator = new UsageTrackingContentGenerator(
+        await createContentGenerator(contentGeneratorConfig),
+        this.config,
       );
       this.chat = await this.startChat();
     } catch (error) {
@@ -135,6 +169,27 @@ export class EnfiyClient {
     return this.contentGenerator;
   }
 
+  /**
+   * Gemini embedding models go through the chat content generator; Ollama,
+   * OpenAI and Mistral embedding models are served by the multi-provider
+   * wrapper regardless of which provider handles chat.
+   */
+  private getEmbeddingGenerator(): ContentGenerator {
+    if (parseEmbeddingModel(this.embeddingModel).provider === 'gemini') {
+      return this.getContentGenerator();
+    }
+    if (!this.embeddingGenerator) {
+      const contentGeneratorConfig = this.config.getContentGeneratorConfig();
+      this.embeddingGenerator = new MultiProviderContentGeneratorWrapper({
+        model: this.config.getModel(),
+        selectedProvider: contentGeneratorConfig?.selectedProvider,
+        baseUrl: contentGeneratorConfig?.baseUrl,
+        headers: contentGeneratorConfig?.headers,
+      });
+    }
+    return this.embeddingGenerator;
+  }
+
   async addHistory(content: Content) {
     this.getChat().addHistory(content);
   }
@@ -156,6 +211,20 @@ export class EnfiyClient {
     this.getChat().setHistory(history);
   }
 
+  /**
+   * Declares the tools currently in the registry to the model, for example
+   * after tools were discovered from an MCP server.
+   */
+  async setTools(): Promise<void> {
+    if (!this.chat) {
+      // The chat declares the tools when it starts.
+      return;
+    }
+    const toolRegistry = await this.config.getToolRegistry();
+    const toolDeclarations = toolRegistry.getFunctionDeclarations();
+    this.getChat().setTools([{ functionDeclarations: toolDeclarations }]);
+  }
+
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
     await this.chat;
@@ -245,14 +314,11 @@ export class EnfiyClient {
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
-      const generateContentConfigWithThinking = isThinkingSupported(
-        this.config.getModel(),
-      )
+      const thinkingConfig = getThinkingConfig(this.config);
+      const generateContentConfigWithThinking = thinkingConfig
         ? {
             ...this.generateContentConfig,
-            thinkingConfig: {
-              includeThoughts: true,
-            },
+            thinkingConfig,
           }
         : this.generateContentConfig;
       return new EnfiyChat(
@@ -465,7 +531,7 @@ export class EnfiyClient {
     };
 
     const embedContentResponse =
-      await this.getContentGenerator().embedContent(embedModelParams);
+      await this.getEmbeddingGenerator().embedContent(embedModelParams);
     if (
       !embedContentResponse.embeddings ||
       embedContentResponse.embeddings.length === 0
@@ -13,9 +13,13 @@ vi.mock('@google/genai');
 describe('contentGenerator', () => {
   it('should create a GoogleGenAI content generator', async () => {
     const mockGenerator = {
-      models: {},
+      models: { generateContent: vi.fn() },
     } as unknown;
-    vi.mocked(GoogleGenAI).mockImplementation(() => mockGenerator as never);
+    vi.mocked(GoogleGenAI).mockImplementation(
+      class {
+        models = (mockGenerator as GoogleGenAI).models;
+      } as never,
+    );
     const generator = await createContentGenerator({
       model: 'test-model',
       apiKey: 'test-api-key',
@@ -30,6 +34,10 @@ describe('contentGenerator', () => {
         },
       },
     });
-    expect(generator).toBe((mockGenerator as GoogleGenAI).models);
+    const request = { model: 'test-model', contents: 'hi' };
+    await generator.generateContent(request);
+    expect(
+      (mockGenerator as GoogleGenAI).models.generateContent,
+    ).toHaveBeenCalledWith(request);
   });
 });
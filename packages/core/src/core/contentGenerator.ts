@@ -15,9 +15,12 @@ import {
   EmbedContentResponse,
   EmbedContentParameters,
   GoogleGenAI,
+  Models,
 } from '@google/genai';
 import { DEFAULT_ENFIY_MODEL } from '../config/models.js';
 import { getEffectiveModel } from './modelCheck.js';
+import { ProviderConfig } from '../providers/types.js';
+import { withoutAnthropicThinking } from '../providers/reasoning.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -48,6 +51,8 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType | undefined;
   selectedProvider?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
 };
 
 export async function createContentGeneratorConfig(
@@ -56,6 +61,7 @@ export async function createContentGeneratorConfig(
   config?: {
     getModel?: () => string;
     getSelectedProvider?: () => string | undefined;
+    getProviderConfig?: () => ProviderConfig | undefined;
   },
 ): Promise<ContentGeneratorConfig> {
   const geminiApiKey = process.env.GEMINI_API_KEY;
@@ -99,8 +105,13 @@ export async function createContentGeneratorConfig(
   }
 
   if (authType === AuthType.API_KEY) {
-    // Determine which API key to use based on the model
-    const providerType = getProviderTypeFromModel(effectiveModel);
+    // Determine which API key to use based on the model. Models served by an
+    // OpenAI-compatible server have arbitrary names, so the selected provider
+    // is the only reliable signal for those.
+    const providerType =
+      contentGeneratorConfig.selectedProvider === 'openai-compatible'
+        ? 'openai-compatible'
+        : getProviderTypeFromModel(effectiveModel);
 
     switch (providerType) {
       case 'gemini':
@@ -119,6 +130,16 @@ export async function createContentGeneratorConfig(
       case 'openrouter':
         contentGeneratorConfig.apiKey = process.env.OPENROUTER_API_KEY;
         break;
+      case 'openai-compatible': {
+        // The API key is optional; most local servers run without one.
+        const providerConfig = config?.getProviderConfig?.();
+        contentGeneratorConfig.apiKey =
+          providerConfig?.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY;
+        contentGeneratorConfig.baseUrl =
+          providerConfig?.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+        contentGeneratorConfig.headers = providerConfig?.headers;
+        break;
+      }
       // Local providers - no API key needed
       case 'ollama':
         // Local providers don't need API keys
@@ -178,7 +199,7 @@ export async function createContentGenerator(
       httpOptions,
     });
 
-    return googleGenAI.models;
+    return new GeminiContentGenerator(googleGenAI.models);
   }
 
   throw new Error(
@@ -186,6 +207,43 @@ export async function createContentGenerator(
   );
 }
 
+/**
+ * Sends requests to the Gemini API. History recorded with another provider
+ * can carry that provider's data in thought signatures, which are dropped.
+ */
+class GeminiContentGenerator implements ContentGenerator {
+  constructor(private readonly models: Models) {}
+
+  generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    return this.models.generateContent({
+      ...request,
+      contents: withoutAnthropicThinking(request.contents),
+    });
+  }
+
+  generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.models.generateContentStream({
+      ...request,
+      contents: withoutAnthropicThinking(request.contents),
+    });
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.models.countTokens({
+      ...request,
+      contents: withoutAnthropicThinking(request.contents),
+    });
+  }
+
+  embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    return this.models.embedContent(request);
+  }
+}
+
 /**
  * Determine provider type from model name
  */
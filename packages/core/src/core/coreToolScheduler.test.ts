@@ -20,6 +20,9 @@ import {
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
 import { convertToFunctionResponse } from './coreToolScheduler.js';
+import { PermissionPolicy, PermissionRule } from './permissionPolicy.js';
+import { ShellTool } from '../tools/shell.js';
+import { EditHistoryService } from '../services/editHistoryService.js';
 
 class MockTool extends BaseTool<Record<string, unknown>, ToolResult> {
   shouldConfirm = false;
@@ -39,6 +42,7 @@ class MockTool extends BaseTool<Record<string, unknown>, ToolResult> {
         title: 'Confirm Mock Tool',
         command: 'do_thing',
         rootCommand: 'do_thing',
+        rootCommands: ['do_thing'],
         onConfirm: async () => {},
       };
     }
@@ -79,6 +83,7 @@ describe('CoreToolScheduler', () => {
       getSessionId: () => 'test-session-id',
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
+      getPermissionPolicy: () => new PermissionPolicy([], '/project'),
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -122,6 +127,339 @@ describe('CoreToolScheduler', () => {
   });
 });
 
+describe('CoreToolScheduler permission policy', () => {
+  function createScheduler(
+    mockTool: BaseTool<any, ToolResult>,
+    rules: PermissionRule[],
+  ) {
+    const policy = new PermissionPolicy(rules, '/project');
+    const toolRegistry = { getTool: () => mockTool };
+    const onAllToolCallsComplete = vi.fn();
+    const onToolCallsUpdate = vi.fn();
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getPermissionPolicy: () => policy,
+      getMaxConcurrentToolCalls: () => 4,
+      getEditHistoryService: () => undefined,
+    } as unknown as Config;
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      onToolCallsUpdate,
+      getPreferredEditor: () => 'vscode',
+    });
+    return { scheduler, policy, onAllToolCallsComplete, onToolCallsUpdate };
+  }
+
+  const request = {
+    callId: '1',
+    name: 'mockTool',
+    args: {},
+    isClientInitiated: false,
+  };
+
+  it('should refuse calls matching a deny rule without asking', async () => {
+    const mockTool = new MockTool();
+    mockTool.shouldConfirm = true;
+    const { scheduler, onAllToolCallsComplete } = createScheduler(mockTool, [
+      { decision: 'deny', tool: 'mock*' },
+    ]);
+
+    await scheduler.schedule([request], new AbortController().signal);
+
+    const completedCalls = onAllToolCallsComplete.mock.calls[0][0] as any[];
+    expect(completedCalls[0].status).toBe('error');
+    expect(completedCalls[0].response.error.message).toContain(
+      'denied by permission rule',
+    );
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+  });
+
+  it('should run calls matching an allow rule without confirmation', async () => {
+    const mockTool = new MockTool();
+    mockTool.shouldConfirm = true;
+    const { scheduler, onAllToolCallsComplete } = createScheduler(mockTool, [
+      { decision: 'allow', tool: 'mockTool' },
+    ]);
+
+    await scheduler.schedule([request], new AbortController().signal);
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+
+    expect(mockTool.executeFn).toHaveBeenCalled();
+  });
+
+  it('should ask for tools covered by an ask rule and record always-allow choices', async () => {
+    const mockTool = new MockTool();
+    const { scheduler, policy, onToolCallsUpdate } = createScheduler(mockTool, [
+      { decision: 'ask', tool: 'mockTool' },
+    ]);
+    const signal = new AbortController().signal;
+
+    await scheduler.schedule([request], signal);
+
+    const waitingCall = onToolCallsUpdate.mock.calls
+      .map((call) => call[0][0])
+      .find((call) => call.status === 'awaiting_approval');
+    expect(waitingCall.confirmationDetails.type).toBe('info');
+
+    await waitingCall.confirmationDetails.onConfirm(
+      ToolConfirmationOutcome.ProceedAlways,
+    );
+    expect(policy.getRules()).toContainEqual({
+      decision: 'allow',
+      tool: 'mockTool',
+      source: 'session',
+    });
+  });
+
+  it('should ask again once an always-allow approval is revoked', async () => {
+    const shellTool = new ShellTool({
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+    vi.spyOn(shellTool, 'execute').mockResolvedValue({
+      llmContent: 'hi',
+      returnDisplay: 'hi',
+    });
+    const { scheduler, policy, onAllToolCallsComplete, onToolCallsUpdate } =
+      createScheduler(shellTool, []);
+    const signal = new AbortController().signal;
+    const run = async (callId: string) => {
+      onAllToolCallsComplete.mockClear();
+      await scheduler.schedule(
+        [
+          {
+            callId,
+            name: ShellTool.Name,
+            args: { command: 'echo hi' },
+            isClientInitiated: false,
+          },
+        ],
+        signal,
+      );
+      return onToolCallsUpdate.mock.calls
+        .flatMap((call) => call[0])
+        .find(
+          (call) =>
+            call.request.callId === callId &&
+            call.status === 'awaiting_approval',
+        );
+    };
+
+    const firstCall = await run('1');
+    await firstCall.confirmationDetails.onConfirm(
+      ToolConfirmationOutcome.ProceedAlways,
+    );
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+    const [rule] = policy.getRules();
+    expect(rule).toEqual({
+      decision: 'allow',
+      tool: ShellTool.Name,
+      command: 'echo *',
+      source: 'session',
+    });
+
+    expect(await run('2')).toBeUndefined();
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+
+    // What /permissions revoke does.
+    policy.removeRule(rule);
+    expect(await run('3')).toBeDefined();
+    expect(shellTool.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ask for allowed commands that write files', async () => {
+    const shellTool = new ShellTool({
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+    const { scheduler, onToolCallsUpdate } = createScheduler(shellTool, [
+      { decision: 'allow', tool: ShellTool.Name, command: 'echo *' },
+    ]);
+
+    await scheduler.schedule(
+      [
+        {
+          callId: '1',
+          name: ShellTool.Name,
+          args: { command: 'echo x > ~/.bashrc' },
+          isClientInitiated: false,
+        },
+      ],
+      new AbortController().signal,
+    );
+
+    const call = onToolCallsUpdate.mock.lastCall?.[0][0];
+    expect(call.status).toBe('awaiting_approval');
+    expect(call.confirmationDetails.rootCommand).toBe('echo');
+  });
+});
+
+describe('CoreToolScheduler concurrency', () => {
+  class TrackingTool extends BaseTool<Record<string, unknown>, ToolResult> {
+    static running = 0;
+    static maxRunning = 0;
+    static order: string[] = [];
+
+    constructor(
+      name: string,
+      readonly isReadOnly: boolean,
+    ) {
+      super(name, name, 'A tracking tool', {});
+    }
+
+    getModifiedPaths(params: Record<string, unknown>): string[] {
+      return params.file_path ? [params.file_path as string] : [];
+    }
+
+    async execute(params: Record<string, unknown>): Promise<ToolResult> {
+      TrackingTool.running++;
+      TrackingTool.maxRunning = Math.max(
+        TrackingTool.maxRunning,
+        TrackingTool.running,
+      );
+      TrackingTool.order.push(`start ${params.id}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      TrackingTool.order.push(`end ${params.id}`);
+      TrackingTool.running--;
+      return { llmContent: 'done', returnDisplay: 'done' };
+    }
+  }
+
+  async function runBatch(
+    tools: Record<string, TrackingTool>,
+    calls: Array<{ name: string; args: Record<string, unknown> }>,
+    limit: number,
+    editHistory?: EditHistoryService,
+  ) {
+    TrackingTool.running = 0;
+    TrackingTool.maxRunning = 0;
+    TrackingTool.order = [];
+    const onAllToolCallsComplete = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: {
+        getSessionId: () => 'test-session-id',
+        getUsageStatisticsEnabled: () => true,
+        getDebugMode: () => false,
+        getPermissionPolicy: () => new PermissionPolicy([], '/project'),
+        getMaxConcurrentToolCalls: () => limit,
+        getEditHistoryService: () => editHistory,
+      } as unknown as Config,
+      toolRegistry: Promise.resolve({
+        getTool: (name: string) => tools[name],
+      } as any),
+      onAllToolCallsComplete,
+      getPreferredEditor: () => 'vscode',
+    });
+
+    await scheduler.schedule(
+      calls.map((call, index) => ({
+        callId: String(index),
+        name: call.name,
+        args: { id: index, ...call.args },
+        isClientInitiated: false,
+      })),
+      new AbortController().signal,
+    );
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+    const completed = onAllToolCallsComplete.mock.calls[0][0] as ToolCall[];
+    expect(completed.map((call) => call.status)).toEqual(
+      calls.map(() => 'success'),
+    );
+  }
+
+  it('should run read-only calls concurrently up to the limit', async () => {
+    const read = new TrackingTool('read_file', true);
+
+    await runBatch(
+      { read_file: read },
+      Array.from({ length: 5 }, () => ({ name: 'read_file', args: {} })),
+      3,
+    );
+
+    expect(TrackingTool.maxRunning).toBe(3);
+  });
+
+  it('should serialize mutating calls on the same path', async () => {
+    const tools = {
+      write_file: new TrackingTool('write_file', false),
+      read_file: new TrackingTool('read_file', true),
+    };
+
+    await runBatch(
+      tools,
+      [
+        { name: 'write_file', args: { file_path: '/project/a.ts' } },
+        { name: 'write_file', args: { file_path: '/project/b.ts' } },
+        { name: 'write_file', args: { file_path: '/project/a.ts' } },
+        { name: 'read_file', args: {} },
+      ],
+      4,
+    );
+
+    expect(TrackingTool.order.slice(0, 3)).toEqual([
+      'start 0',
+      'start 1',
+      'start 3',
+    ]);
+    expect(TrackingTool.order.indexOf('start 2')).toBeGreaterThan(
+      TrackingTool.order.indexOf('end 0'),
+    );
+  });
+
+  it('should run mutating calls with unknown paths on their own', async () => {
+    const tools = {
+      run_shell_command: new TrackingTool('run_shell_command', false),
+      read_file: new TrackingTool('read_file', true),
+    };
+
+    await runBatch(
+      tools,
+      [
+        { name: 'read_file', args: {} },
+        { name: 'run_shell_command', args: {} },
+        { name: 'read_file', args: {} },
+      ],
+      4,
+    );
+
+    expect(TrackingTool.maxRunning).toBe(1);
+  });
+
+  it('should record the edits of mutating calls around their execution', async () => {
+    const end = vi.fn(async () => {
+      TrackingTool.order.push('recorded');
+    });
+    const beginEdit = vi.fn(async () => ({ end }));
+    const tools = {
+      write_file: new TrackingTool('write_file', false),
+      read_file: new TrackingTool('read_file', true),
+    };
+
+    await runBatch(
+      tools,
+      [
+        { name: 'read_file', args: {} },
+        { name: 'write_file', args: { file_path: '/project/a.ts' } },
+      ],
+      4,
+      { beginEdit } as unknown as EditHistoryService,
+    );
+
+    expect(beginEdit).toHaveBeenCalledOnce();
+    expect(beginEdit).toHaveBeenCalledWith(
+      '1',
+      'write_file',
+      expect.any(String),
+      ['/project/a.ts'],
+    );
+    expect(TrackingTool.order.indexOf('recorded')).toBe(
+      TrackingTool.order.indexOf('end 1') + 1,
+    );
+  });
+});
+
 describe('convertToFunctionResponse', () => {
   const toolName = 'testTool';
   const callId = 'call1';
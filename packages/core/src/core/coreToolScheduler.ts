@@ -22,6 +22,7 @@ import {
   logToolCall,
   ToolCallEvent,
 } from '../index.js';
+import * as path from 'path';
 import { Part, PartListUnion } from '@google/genai';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
 import {
@@ -29,6 +30,7 @@ import {
   ModifyContext,
   modifyWithEditor,
 } from '../tools/modifiable-tool.js';
+import { describePermissionRule } from './permissionPolicy.js';
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -215,6 +217,50 @@ const createErrorResponse = (
   resultDisplay: error.message,
 });
 
+/**
+ * Confirmation for tools that would not ask on their own but are covered by
+ * an `ask` rule.
+ */
+function createAskConfirmation(
+  tool: Tool,
+  args: Record<string, unknown>,
+): ToolCallConfirmationDetails {
+  return {
+    type: 'info',
+    title: `Confirm ${tool.displayName}`,
+    prompt: tool.getDescription(args),
+    onConfirm: async () => {},
+  };
+}
+
+/**
+ * Whether two calls of a batch must not run at the same time. Read-only
+ * calls never conflict with each other; mutating calls conflict when they
+ * modify the same path, or always when their paths are unknown.
+ */
+function callsConflict(
+  a: ScheduledToolCall | ExecutingToolCall,
+  b: ScheduledToolCall | ExecutingToolCall,
+): boolean {
+  if (a.tool.isReadOnly && b.tool.isReadOnly) {
+    return false;
+  }
+  const aPaths = a.tool.isReadOnly ? undefined : getModifiedPaths(a);
+  const bPaths = b.tool.isReadOnly ? undefined : getModifiedPaths(b);
+  if (aPaths?.length === 0 || bPaths?.length === 0) {
+    return true;
+  }
+  return !!aPaths && !!bPaths && aPaths.some((p) => bPaths.includes(p));
+}
+
+function getModifiedPaths(
+  call: ScheduledToolCall | ExecutingToolCall,
+): string[] {
+  return call.tool
+    .getModifiedPaths(call.request.args)
+    .map((modifiedPath) => path.resolve(modifiedPath));
+}
+
 interface CoreToolSchedulerOptions {
   toolRegistry: Promise<ToolRegistry>;
   outputUpdateHandler?: OutputUpdateHandler;
@@ -459,13 +505,33 @@ export class CoreToolScheduler {
 
       const { request: reqInfo, tool: toolInstance } = toolCall;
       try {
-        if (this.approvalMode === ApprovalMode.AUTO) {
+        // Policy rules take precedence over the approval mode and over the
+        // tool's own judgement.
+        const verdict = this.config
+          .getPermissionPolicy()
+          .evaluate(toolInstance, reqInfo.args);
+        if (verdict?.decision === 'deny') {
+          this.setStatusInternal(
+            reqInfo.callId,
+            'error',
+            createErrorResponse(
+              reqInfo,
+              new Error(
+                `Tool call denied by permission rule: ${describePermissionRule(verdict.rule)}`,
+              ),
+            ),
+          );
+        } else if (
+          verdict?.decision === 'allow' ||
+          (!verdict && this.approvalMode === ApprovalMode.AUTO)
+        ) {
           this.setStatusInternal(reqInfo.callId, 'scheduled');
         } else {
-          const confirmationDetails = await toolInstance.shouldConfirmExecute(
-            reqInfo.args,
-            signal,
-          );
+          const confirmationDetails =
+            (await toolInstance.shouldConfirmExecute(reqInfo.args, signal)) ||
+            (verdict?.decision === 'ask'
+              ? createAskConfirmation(toolInstance, reqInfo.args)
+              : false);
 
           if (confirmationDetails) {
             const originalOnConfirm = confirmationDetails.onConfirm;
@@ -515,6 +581,7 @@ export class CoreToolScheduler {
 
     if (toolCall && toolCall.status === 'awaiting_approval') {
       await originalOnConfirm(outcome);
+      this.recordApproval(toolCall, outcome);
     }
 
     this.toolCalls = this.toolCalls.map((call) => {
@@ -566,23 +633,83 @@ export class CoreToolScheduler {
     this.attemptExecutionOfScheduledCalls(signal);
   }
 
+  /**
+   * Turns an "always allow" choice into session rules of the permission
+   * policy, which may persist it to settings.
+   */
+  private recordApproval(
+    toolCall: WaitingToolCall,
+    outcome: ToolConfirmationOutcome,
+  ): void {
+    if (
+      outcome !== ToolConfirmationOutcome.ProceedAlways &&
+      outcome !== ToolConfirmationOutcome.ProceedAlwaysTool &&
+      outcome !== ToolConfirmationOutcome.ProceedAlwaysServer
+    ) {
+      return;
+    }
+    const policy = this.config.getPermissionPolicy();
+    const rules = policy.createApprovalRules(
+      toolCall.tool,
+      toolCall.request.args,
+      outcome === ToolConfirmationOutcome.ProceedAlwaysServer
+        ? 'server'
+        : 'tool',
+    );
+    for (const rule of rules) {
+      policy.addRule({ ...rule, source: 'session' });
+    }
+  }
+
   private attemptExecutionOfScheduledCalls(signal: AbortSignal): void {
     const allCallsFinalOrScheduled = this.toolCalls.every(
       (call) =>
         call.status === 'scheduled' ||
+        call.status === 'executing' ||
         call.status === 'cancelled' ||
         call.status === 'success' ||
         call.status === 'error',
     );
 
     if (allCallsFinalOrScheduled) {
-      const callsToExecute = this.toolCalls.filter(
-        (call) => call.status === 'scheduled',
-      );
+      if (signal.aborted) {
+        for (const call of this.toolCalls) {
+          if (call.status === 'scheduled') {
+            this.setStatusInternal(
+              call.request.callId,
+              'cancelled',
+              'User cancelled tool execution.',
+            );
+          }
+        }
+        return;
+      }
 
-      callsToExecute.forEach((toolCall) => {
-        if (toolCall.status !== 'scheduled') return;
+      const limit = this.config.getMaxConcurrentToolCalls();
+      let running = this.toolCalls.filter(
+        (call) => call.status === 'executing',
+      ).length;
+
+      // Calls start in order, up to the concurrency limit, unless they
+      // conflict with an earlier call that is still queued or running.
+      const callsToExecute: ScheduledToolCall[] = [];
+      this.toolCalls.forEach((call, index) => {
+        if (call.status !== 'scheduled' || running >= limit) return;
+        const blocked = this.toolCalls
+          .slice(0, index)
+          .some(
+            (earlier) =>
+              (earlier.status === 'scheduled' ||
+                earlier.status === 'executing') &&
+              callsConflict(earlier, call),
+          );
+        if (!blocked) {
+          callsToExecute.push(call);
+          running++;
+        }
+      });
 
+      callsToExecute.forEach((toolCall) => {
         const scheduledCall = toolCall as ScheduledToolCall;
         const { callId, name: toolName } = scheduledCall.request;
         this.setStatusInternal(callId, 'executing');
@@ -602,8 +729,7 @@ export class CoreToolScheduler {
               }
             : undefined;
 
-        scheduledCall.tool
-          .execute(scheduledCall.request.args, signal, liveOutputCallback)
+        this.executeRecordingEdits(scheduledCall, signal, liveOutputCallback)
           .then((toolResult: ToolResult) => {
             if (signal.aborted) {
               this.setStatusInternal(
@@ -639,11 +765,50 @@ export class CoreToolScheduler {
                   : new Error(String(executionError)),
               ),
             );
+          })
+          .finally(() => {
+            // A slot is free; start the next queued calls.
+            if (this.toolCalls.some((call) => call.status === 'scheduled')) {
+              this.attemptExecutionOfScheduledCalls(signal);
+            }
           });
       });
     }
   }
 
+  /**
+   * Runs a tool, recording the files it changes in the edit history so they
+   * can be undone. Failing to record never stops the tool from running.
+   */
+  private async executeRecordingEdits(
+    call: ScheduledToolCall,
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<ToolResult> {
+    const { tool, request } = call;
+    const editHistory = tool.isReadOnly
+      ? undefined
+      : this.config.getEditHistoryService();
+    const pendingEdit = await editHistory
+      ?.beginEdit(
+        request.callId,
+        tool.displayName,
+        tool.getDescription(request.args),
+        tool.getModifiedPaths(request.args),
+      )
+      .catch((error) => {
+        console.warn(`Could not record edits of ${tool.name}:`, error);
+        return undefined;
+      });
+    try {
+      return await tool.execute(request.args, signal, updateOutput);
+    } finally {
+      await pendingEdit?.end().catch((error) => {
+        console.warn(`Could not record edits of ${tool.name}:`, error);
+      });
+    }
+  }
+
   private checkAndNotifyCompletion(): void {
     const allCallsAreTerminal = this.toolCalls.every(
       (call) =>
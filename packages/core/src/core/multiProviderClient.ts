@@ -26,6 +26,8 @@ import {
   ContentGeneratorConfig,
   AuthType,
 } from './contentGenerator.js';
+import { countContentTokens, getTokenizer } from './tokenizer.js';
+import { parseEmbeddingModel } from '../config/models.js';
 
 /**
  * Multi-provider client that can use any supported AI provider
@@ -152,6 +154,10 @@ export class MultiProviderClient {
       case ProviderType.OPENROUTER:
         apiKey = process.env.OPENROUTER_API_KEY;
         break;
+      case ProviderType.OPENAI_COMPATIBLE:
+        // Optional - only needed when the server was started with a key
+        apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+        break;
       case ProviderType.OLLAMA:
         return undefined; // Local providers, no API key needed
       default:
@@ -162,10 +168,15 @@ export class MultiProviderClient {
   }
 
   /**
-   * Initialize the appropriate provider for the given model
+   * Initialize the appropriate provider for the given model. `overrides` can
+   * pin the provider type and supply endpoint settings that cannot be derived
+   * from the model name (e.g. for OpenAI-compatible servers).
    */
-  async initialize(model: string): Promise<void> {
-    const providerType = this.getProviderTypeFromModel(model);
+  async initialize(
+    model: string,
+    overrides: Partial<ProviderConfig> = {},
+  ): Promise<void> {
+    const providerType = overrides.type ?? this.getProviderTypeFromModel(model);
 
     // If we already have the right provider, don't reinitialize
     if (this.provider && this.currentProviderType === providerType) {
@@ -174,9 +185,13 @@ export class MultiProviderClient {
 
     try {
       // Create provider config
-      const apiKey = this.getApiKeyForProvider(providerType);
+      const apiKey =
+        overrides.apiKey ?? this.getApiKeyForProvider(providerType);
 
-      if (providerType !== ProviderType.OLLAMA && !apiKey) {
+      if (
+        !ProviderFactory.getLocalProviderTypes().includes(providerType) &&
+        !apiKey
+      ) {
         throw new Error('Please check your API key configuration');
       }
 
@@ -184,10 +199,8 @@ export class MultiProviderClient {
         type: providerType,
         model,
         apiKey,
-        baseUrl:
-          providerType === ProviderType.OLLAMA
-            ? 'http://localhost:11434'
-            : undefined,
+        baseUrl: overrides.baseUrl ?? this.getBaseUrlForProvider(providerType),
+        headers: overrides.headers,
         temperature: 0.7,
         maxTokens: 4096,
       };
@@ -337,6 +350,20 @@ export class MultiProviderClient {
     return this.provider;
   }
 
+  /**
+   * Get the endpoint for local providers
+   */
+  getBaseUrlForProvider(providerType: ProviderType): string | undefined {
+    switch (providerType) {
+      case ProviderType.OLLAMA:
+        return 'http://localhost:11434';
+      case ProviderType.OPENAI_COMPATIBLE:
+        return process.env.OPENAI_COMPATIBLE_BASE_URL;
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Get environment variable name for provider
    */
@@ -354,6 +381,8 @@ export class MultiProviderClient {
         return 'OPENROUTER_API_KEY';
       case ProviderType.OLLAMA:
         return 'OLLAMA_BASE_URL';
+      case ProviderType.OPENAI_COMPATIBLE:
+        return 'OPENAI_COMPATIBLE_BASE_URL';
       default:
         return 'API_KEY';
     }
@@ -382,6 +411,7 @@ export class MultiProviderClient {
 export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
   private client: MultiProviderClient;
   private config: ContentGeneratorConfig;
+  private embeddingClient?: MultiProviderClient;
 
   constructor(config: ContentGeneratorConfig) {
     this.config = config;
@@ -394,11 +424,32 @@ export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
       if (envVar && !process.env[envVar]) {
         process.env[envVar] = config.apiKey;
       }
-      this.client.initialize(config.model).catch(console.error);
+      this.client
+        .initialize(config.model, this.getProviderOverrides())
+        .catch(console.error);
+    }
+  }
+
+  /**
+   * Settings that cannot be inferred from the model name. Only the
+   * OpenAI-compatible provider needs them today.
+   */
+  private getProviderOverrides(): Partial<ProviderConfig> {
+    if (this.config.selectedProvider !== ProviderType.OPENAI_COMPATIBLE) {
+      return {};
     }
+    return {
+      type: ProviderType.OPENAI_COMPATIBLE,
+      baseUrl: this.config.baseUrl,
+      headers: this.config.headers,
+    };
   }
 
   private getProviderTypeFromModel(model: string): ProviderType {
+    if (this.config.selectedProvider === ProviderType.OPENAI_COMPATIBLE) {
+      return ProviderType.OPENAI_COMPATIBLE;
+    }
+
     const modelLower = model.toLowerCase();
 
     // OpenAI models
@@ -451,6 +502,7 @@ export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
       [ProviderType.MISTRAL]: 'MISTRAL_API_KEY',
       [ProviderType.ANTHROPIC]: 'ANTHROPIC_API_KEY',
       [ProviderType.OPENROUTER]: 'OPENROUTER_API_KEY',
+      [ProviderType.OPENAI_COMPATIBLE]: 'OPENAI_COMPATIBLE_API_KEY',
     };
     return envVarMap[providerType];
   }
@@ -467,7 +519,10 @@ export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
       }
     }
 
-    await this.client.initialize(this.config.model);
+    await this.client.initialize(
+      this.config.model,
+      this.getProviderOverrides(),
+    );
 
     // Convert contents to proper Content[] format
     const contents: Content[] = Array.isArray(request.contents)
@@ -493,7 +548,10 @@ export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
       }
     }
 
-    await this.client.initialize(this.config.model);
+    await this.client.initialize(
+      this.config.model,
+      this.getProviderOverrides(),
+    );
 
     // Convert contents to proper Content[] format
     const contents: Content[] = Array.isArray(request.contents)
@@ -544,43 +602,74 @@ export class MultiProviderContentGeneratorWrapper implements ContentGenerator {
   async countTokens(
     request: CountTokensParameters,
   ): Promise<CountTokensResponse> {
-    // For non-Gemini providers, provide approximate token counts
     const contents: Content[] = Array.isArray(request.contents)
       ? request.contents.map(this.ensureContentFormat)
       : [this.ensureContentFormat(request.contents)];
 
-    const text = contents
-      .map(
-        (content: Content) =>
-          content.parts
-            ?.map((part: unknown) =>
-              typeof part === 'string'
-                ? part
-                : (part as { text?: string }).text || '',
-            )
-            .join(' ') || '',
-      )
-      .join(' ');
-
-    // Rough approximation: 1 token = 4 characters for most models
-    const approximateTokens = Math.ceil(text.length / 4);
+    const providerType = this.getProviderTypeFromModel(this.config.model);
+    const tokenizer = getTokenizer({
+      providerType,
+      model: this.config.model,
+      baseUrl:
+        this.config.baseUrl ?? this.client.getBaseUrlForProvider(providerType),
+    });
 
     return {
-      totalTokens: approximateTokens,
+      totalTokens: await countContentTokens(tokenizer, contents),
     };
   }
 
   async embedContent(
-    _request: EmbedContentParameters,
+    request: EmbedContentParameters,
   ): Promise<EmbedContentResponse> {
-    // Most providers don't support embeddings through their chat APIs
-    // Return empty embeddings for compatibility
+    const { provider, model } = parseEmbeddingModel(request.model);
+    if (provider === ProviderType.GEMINI) {
+      throw new Error(
+        `Embedding model ${request.model} is served by Gemini. Set embeddingModel to an Ollama, OpenAI or Mistral embedding model to use embeddings with ${this.config.model}.`,
+      );
+    }
+
+    // Embeddings may come from a different provider than chat (e.g. a local
+    // Ollama model next to a hosted chat model), so they get their own client.
+    if (!this.embeddingClient) {
+      this.embeddingClient = new MultiProviderClient({} as Config);
+    }
+    await this.embeddingClient.initialize(model, {
+      type: provider as ProviderType,
+      ...(provider === ProviderType.OPENAI_COMPATIBLE
+        ? { baseUrl: this.config.baseUrl, headers: this.config.headers }
+        : {}),
+    });
+
+    const embeddingProvider = this.embeddingClient.getCurrentProvider();
+    if (!embeddingProvider?.embedTexts) {
+      throw new Error(`Provider ${provider} does not support embeddings`);
+    }
+
+    const vectors = await embeddingProvider.embedTexts({
+      model,
+      texts: this.getEmbeddingTexts(request),
+    });
     return {
-      embeddings: [
-        {
-          values: [],
-        },
-      ],
+      embeddings: vectors.map((values) => ({ values })),
     };
   }
+
+  private getEmbeddingTexts(request: EmbedContentParameters): string[] {
+    const items = Array.isArray(request.contents)
+      ? request.contents
+      : [request.contents];
+    return items.map((item) => {
+      if (typeof item === 'string') {
+        return item;
+      }
+      if ('text' in item && typeof item.text === 'string') {
+        return item.text;
+      }
+      if ('parts' in item) {
+        return (item.parts ?? []).map((part) => part.text ?? '').join('');
+      }
+      return '';
+    });
+  }
 }
@@ -13,6 +13,8 @@ import {
   Tool,
   ToolCallConfirmationDetails,
   Config,
+  ApprovalMode,
+  PermissionPolicy,
 } from '../index.js';
 import { Part, Type } from '@google/genai';
 
@@ -20,6 +22,8 @@ const mockConfig = {
   getSessionId: () => 'test-session-id',
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getPermissionPolicy: vi.fn(() => new PermissionPolicy([], '/project')),
+  getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
 } as unknown as Config;
 
 describe('executeToolCall', () => {
@@ -50,7 +54,9 @@ describe('executeToolCall', () => {
       ),
       isOutputMarkdown: false,
       canUpdateOutput: false,
+      isReadOnly: false,
       getDescription: vi.fn(),
+      getModifiedPaths: vi.fn(() => []),
     };
 
     mockToolRegistry = {
@@ -254,4 +260,116 @@ describe('executeToolCall', () => {
       imageDataPart,
     ]);
   });
+  describe('approval', () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call6',
+      name: 'testTool',
+      args: { param1: 'value1' },
+      isClientInitiated: false,
+    };
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'info',
+      title: 'Confirm',
+      prompt: 'Run the test tool?',
+      onConfirm: async () => {},
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+      vi.mocked(mockTool.execute).mockResolvedValue({
+        llmContent: 'done',
+        returnDisplay: 'done',
+      });
+    });
+
+    it('should reject calls that need confirmation in the default mode', async () => {
+      vi.mocked(mockTool.shouldConfirmExecute).mockResolvedValue(
+        confirmationDetails,
+      );
+
+      const response = await executeToolCall(
+        mockConfig,
+        request,
+        mockToolRegistry,
+        abortController.signal,
+      );
+
+      expect(mockTool.execute).not.toHaveBeenCalled();
+      expect(response.error?.message).toBe(
+        'Tool "testTool" requires approval, which is not available in non-interactive mode.',
+      );
+      expect(response.responseParts).toEqual([
+        {
+          functionResponse: {
+            id: 'call6',
+            name: 'testTool',
+            response: { error: response.error?.message },
+          },
+        },
+      ]);
+    });
+
+    it('should run calls allowed by a rule or the auto approval mode', async () => {
+      vi.mocked(mockTool.shouldConfirmExecute).mockResolvedValue(
+        confirmationDetails,
+      );
+      vi.mocked(mockConfig.getPermissionPolicy).mockReturnValueOnce(
+        new PermissionPolicy(
+          [{ decision: 'allow', tool: 'testTool' }],
+          '/project',
+        ),
+      );
+      await executeToolCall(mockConfig, request, mockToolRegistry);
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValueOnce(
+        ApprovalMode.AUTO,
+      );
+      await executeToolCall(mockConfig, request, mockToolRegistry);
+
+      expect(mockTool.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject calls covered by an ask rule even in the auto approval mode', async () => {
+      vi.mocked(mockTool.shouldConfirmExecute).mockResolvedValue(false);
+      vi.mocked(mockConfig.getPermissionPolicy).mockReturnValueOnce(
+        new PermissionPolicy(
+          [{ decision: 'ask', tool: 'testTool' }],
+          '/project',
+        ),
+      );
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValueOnce(
+        ApprovalMode.AUTO,
+      );
+
+      const response = await executeToolCall(
+        mockConfig,
+        request,
+        mockToolRegistry,
+      );
+
+      expect(mockTool.execute).not.toHaveBeenCalled();
+      expect(response.error?.message).toBe(
+        'Tool "testTool" requires approval, which is not available in non-interactive mode.',
+      );
+    });
+
+    it('should reject calls denied by a rule even in the auto approval mode', async () => {
+      vi.mocked(mockConfig.getPermissionPolicy).mockReturnValueOnce(
+        new PermissionPolicy([{ decision: 'deny', tool: 'test*' }], '/project'),
+      );
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValueOnce(
+        ApprovalMode.AUTO,
+      );
+
+      const response = await executeToolCall(
+        mockConfig,
+        request,
+        mockToolRegistry,
+      );
+
+      expect(mockTool.execute).not.toHaveBeenCalled();
+      expect(response.error?.message).toBe(
+        'Tool call denied by permission rule: deny test*',
+      );
+    });
+  });
 });
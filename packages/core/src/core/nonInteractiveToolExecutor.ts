@@ -10,17 +10,54 @@
 
 import {
   logToolCall,
+  Tool,
   ToolCallRequestInfo,
   ToolCallResponseInfo,
   ToolRegistry,
   ToolResult,
 } from '../index.js';
-import { Config } from '../config/config.js';
+import { ApprovalMode, Config } from '../config/config.js';
 import { convertToFunctionResponse } from './coreToolScheduler.js';
+import { describePermissionRule } from './permissionPolicy.js';
+
+/**
+ * Applies permission rules and the approval mode like the interactive
+ * scheduler does. Nobody can confirm a call here, so calls that would ask
+ * for confirmation are rejected.
+ */
+async function checkApproval(
+  config: Config,
+  tool: Tool,
+  args: Record<string, unknown>,
+  signal: AbortSignal,
+): Promise<void> {
+  const verdict = config.getPermissionPolicy().evaluate(tool, args);
+  if (verdict?.decision === 'deny') {
+    throw new Error(
+      `Tool call denied by permission rule: ${describePermissionRule(verdict.rule)}`,
+    );
+  }
+  // Ask rules still apply in the auto approval mode.
+  if (
+    verdict?.decision === 'allow' ||
+    (!verdict && config.getApprovalMode() === ApprovalMode.AUTO)
+  ) {
+    return;
+  }
+  if (
+    verdict?.decision === 'ask' ||
+    (await tool.shouldConfirmExecute(args, signal))
+  ) {
+    throw new Error(
+      `Tool "${tool.name}" requires approval, which is not available in non-interactive mode.`,
+    );
+  }
+}
 
 /**
  * Executes a single tool call non-interactively.
- * It does not handle confirmations, multiple calls, or live updates.
+ * Calls that need confirmation are rejected rather than confirmed, and
+ * multiple calls or live updates are not handled.
  */
 export async function executeToolCall(
   config: Config,
@@ -63,8 +100,15 @@ export async function executeToolCall(
   }
 
   try {
-    // Directly execute without confirmation or live output handling
     const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
+    await checkApproval(
+      config,
+      tool,
+      toolCallRequest.args,
+      effectiveAbortSignal,
+    );
+
+    // Execute without live output handling
     const toolResult: ToolResult = await tool.execute(
       toolCallRequest.args,
       effectiveAbortSignal,
@@ -0,0 +1,388 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { Tool } from '../tools/tools.js';
+import { ShellTool } from '../tools/shell.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { analyzeShellCommand, ShellParseError } from '../utils/shellParser.js';
+
+export type PermissionDecision = 'allow' | 'ask' | 'deny';
+
+/**
+ * Where a rule came from. Session rules are created by "always allow"
+ * approvals and are lost on exit unless persisted to settings. CLI rules
+ * come from `--allowed-tools` and `--disallowed-tools`.
+ */
+export type PermissionRuleSource = 'user' | 'workspace' | 'session' | 'cli';
+
+/**
+ * A rule matches a tool call when every field it sets matches. Fields that
+ * are not set match anything.
+ */
+export interface PermissionRule {
+  decision: PermissionDecision;
+  /** Tool name as registered, e.g. `run_shell_command`; `*` is a wildcard. */
+  tool?: string;
+  /**
+   * Pattern for shell commands, e.g. `git status` or `npm run *`. A trailing
+   * ` *` also matches the bare command.
+   */
+  command?: string;
+  /** Glob for file paths, relative to the project root, e.g. `src/**`. */
+  path?: string;
+  /** MCP server whose tools the rule applies to. */
+  mcpServer?: string;
+  source?: PermissionRuleSource;
+}
+
+export interface PermissionSettings {
+  rules?: PermissionRule[];
+  /** Save "always allow" approvals to workspace settings. */
+  persistApprovals?: boolean;
+}
+
+export interface PermissionVerdict {
+  decision: PermissionDecision;
+  rule: PermissionRule;
+}
+
+export type PermissionRuleListener = (rule: PermissionRule) => void;
+
+// Most restrictive decision wins when several rules match.
+const DECISION_PRIORITY: Record<PermissionDecision, number> = {
+  deny: 2,
+  ask: 1,
+  allow: 0,
+};
+
+const PATH_ARGUMENTS = ['absolute_path', 'file_path', 'path', 'directory'];
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  // "git *" also matches a bare "git".
+  return new RegExp(`^${escaped.replace(/ \.\*$/, '(?: .*)?')}$`, 's');
+}
+
+interface ShellCommandChain {
+  /**
+   * The programs the command runs as `root args...`, one per command of the
+   * chain including substitutions, so that allowing `git *` does not allow
+   * `git status && rm -rf ~`.
+   */
+  parts: string[];
+  /** Files written through redirections, other than e.g. `/dev/null`. */
+  writes: string[];
+}
+
+/**
+ * Splits a shell command into its programs and the files it redirects
+ * output to. Returns undefined if the command cannot be parsed.
+ */
+function getShellCommandChain(command: string): ShellCommandChain | undefined {
+  try {
+    const analysis = analyzeShellCommand(command);
+    return {
+      parts: analysis.commands.map((part) =>
+        [part.root, ...part.args].join(' '),
+      ),
+      writes: analysis.writes,
+    };
+  } catch (error) {
+    if (error instanceof ShellParseError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rule-based allow/ask/deny decisions for tool calls, consulted by the
+ * tool scheduler before a tool is asked whether it needs confirmation.
+ */
+export class PermissionPolicy {
+  private rules: PermissionRule[];
+  private readonly listeners = new Set<PermissionRuleListener>();
+
+  constructor(
+    rules: PermissionRule[],
+    private readonly rootDir: string,
+  ) {
+    this.rules = [...rules];
+  }
+
+  getRules(): readonly PermissionRule[] {
+    return this.rules;
+  }
+
+  addRule(rule: PermissionRule): void {
+    if (this.rules.some((existing) => isSameRule(existing, rule))) {
+      return;
+    }
+    this.rules.push(rule);
+    for (const listener of this.listeners) {
+      listener(rule);
+    }
+  }
+
+  /**
+   * Removes the rule, returning false if it was not part of the policy.
+   */
+  removeRule(rule: PermissionRule): boolean {
+    const index = this.rules.indexOf(rule);
+    if (index === -1) {
+      return false;
+    }
+    this.rules.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Registers a listener for rules added at runtime, e.g. to persist them.
+   * Returns a function that unregisters it.
+   */
+  onRuleAdded(listener: PermissionRuleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns the decision of the most restrictive matching rule, or
+   * `undefined` when no rule applies and the tool decides for itself.
+   */
+  evaluate(
+    tool: Tool,
+    args: Record<string, unknown>,
+  ): PermissionVerdict | undefined {
+    let verdict: PermissionVerdict | undefined;
+    for (const rule of this.rules) {
+      if (
+        this.matches(rule, tool, args) &&
+        (!verdict ||
+          DECISION_PRIORITY[rule.decision] >
+            DECISION_PRIORITY[verdict.decision])
+      ) {
+        verdict = { decision: rule.decision, rule };
+      }
+    }
+    return verdict ?? this.evaluateCommandChain(tool, args);
+  }
+
+  /**
+   * Allows a chain of shell commands when each of its programs is allowed
+   * by a command rule of its own, e.g. `git status && npm test` by approvals
+   * of `git *` and `npm *`. Chains that write files are never allowed.
+   */
+  private evaluateCommandChain(
+    tool: Tool,
+    args: Record<string, unknown>,
+  ): PermissionVerdict | undefined {
+    const command = getShellCommand(tool, args);
+    const chain =
+      command === undefined ? undefined : getShellCommandChain(command);
+    if (!chain || chain.parts.length < 2 || chain.writes.length > 0) {
+      return undefined;
+    }
+    const rules = this.rules.filter(
+      (rule) =>
+        rule.decision === 'allow' &&
+        rule.command &&
+        !rule.path &&
+        this.matches({ ...rule, command: undefined }, tool, args),
+    );
+    let first: PermissionRule | undefined;
+    for (const part of chain.parts) {
+      const rule = rules.find((candidate) =>
+        wildcardToRegExp(candidate.command!).test(part),
+      );
+      if (!rule) {
+        return undefined;
+      }
+      first ??= rule;
+    }
+    return first && { decision: 'allow', rule: first };
+  }
+
+  /**
+   * Builds the rules recorded when the user chooses "always allow" for a
+   * tool call. A shell command yields one rule per executable it runs.
+   */
+  createApprovalRules(
+    tool: Tool,
+    args: Record<string, unknown>,
+    scope: 'tool' | 'server' = 'tool',
+  ): PermissionRule[] {
+    if (tool instanceof DiscoveredMCPTool && scope === 'server') {
+      return [{ decision: 'allow', mcpServer: tool.serverName }];
+    }
+    const command = getShellCommand(tool, args);
+    if (command !== undefined) {
+      let roots: string[];
+      try {
+        roots = analyzeShellCommand(command)
+          .commands.filter((part) => !part.dynamic)
+          .map((part) => part.root);
+      } catch (error) {
+        if (!(error instanceof ShellParseError)) {
+          throw error;
+        }
+        roots = [command.trim().split(/\s+/)[0]];
+      }
+      return [...new Set(roots)].map((root) => ({
+        decision: 'allow',
+        tool: tool.name,
+        command: `${root} *`,
+      }));
+    }
+    return [{ decision: 'allow', tool: tool.name }];
+  }
+
+  private matches(
+    rule: PermissionRule,
+    tool: Tool,
+    args: Record<string, unknown>,
+  ): boolean {
+    if (rule.tool && !wildcardToRegExp(rule.tool).test(tool.name)) {
+      return false;
+    }
+    if (
+      rule.mcpServer &&
+      !(tool instanceof DiscoveredMCPTool && tool.serverName === rule.mcpServer)
+    ) {
+      return false;
+    }
+    // Allow rules must cover every command or path of the call; ask and
+    // deny rules apply as soon as one of them matches.
+    const requireAll = rule.decision === 'allow';
+    if (rule.command) {
+      const command = getShellCommand(tool, args);
+      if (command === undefined) {
+        return false;
+      }
+      const pattern = wildcardToRegExp(rule.command);
+      const chain = getShellCommandChain(command);
+      // Unparsable commands are never allowed by a command rule, but ask and
+      // deny rules still see the whole command. Nor are commands that
+      // redirect output to files, e.g. `echo x > ~/.bashrc` by `echo *`, as
+      // the pattern only describes the programs.
+      if (requireAll && (!chain || chain.writes.length > 0)) {
+        return false;
+      }
+      const parts = chain?.parts ?? [command.trim()];
+      if (
+        parts.length === 0 ||
+        !(requireAll
+          ? parts.every((part) => pattern.test(part))
+          : parts.some((part) => pattern.test(part)))
+      ) {
+        return false;
+      }
+    }
+    if (rule.path) {
+      const paths = this.getPaths(args);
+      const matchesPath = (filePath: string) =>
+        minimatch(filePath, rule.path!, { dot: true });
+      if (
+        paths.length === 0 ||
+        !(requireAll ? paths.every(matchesPath) : paths.some(matchesPath))
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Collects the paths a call operates on, relative to the project root
+   * with forward slashes. Paths outside the root stay absolute.
+   */
+  private getPaths(args: Record<string, unknown>): string[] {
+    const values: string[] = [];
+    for (const key of PATH_ARGUMENTS) {
+      if (typeof args[key] === 'string') {
+        values.push(args[key] as string);
+      }
+    }
+    if (Array.isArray(args.paths)) {
+      values.push(
+        ...args.paths.filter((p): p is string => typeof p === 'string'),
+      );
+    }
+    return values.map((value) => {
+      const absolute = path.resolve(this.rootDir, value);
+      const relative = path.relative(this.rootDir, absolute);
+      return relative.startsWith('..') || path.isAbsolute(relative)
+        ? absolute.split(path.sep).join('/')
+        : relative.split(path.sep).join('/') || '.';
+    });
+  }
+}
+
+function getShellCommand(
+  tool: Tool,
+  args: Record<string, unknown>,
+): string | undefined {
+  return tool.name === ShellTool.Name && typeof args.command === 'string'
+    ? args.command
+    : undefined;
+}
+
+function isSameRule(a: PermissionRule, b: PermissionRule): boolean {
+  return (
+    a.decision === b.decision &&
+    a.tool === b.tool &&
+    a.command === b.command &&
+    a.path === b.path &&
+    a.mcpServer === b.mcpServer
+  );
+}
+
+/**
+ * Formats a rule for display, e.g. `allow run_shell_command command="git *"`.
+ */
+export function describePermissionRule(rule: PermissionRule): string {
+  const parts: string[] = [rule.decision, rule.tool ?? '*'];
+  if (rule.command) parts.push(`command="${rule.command}"`);
+  if (rule.path) parts.push(`path="${rule.path}"`);
+  if (rule.mcpServer) parts.push(`mcpServer="${rule.mcpServer}"`);
+  return parts.join(' ');
+}
+
+/**
+ * Parses a rule written as `tool` or `tool(pattern)`, e.g. `read_file` or
+ * `run_shell_command(git *)`. The pattern is a command pattern for the
+ * shell tool and a path glob for other tools.
+ */
+export function parsePermissionRuleSpec(
+  spec: string,
+  decision: PermissionDecision,
+): PermissionRule {
+  const match = /^([^()\s]+)\s*(?:\((.*)\))?$/s.exec(spec.trim());
+  if (!match) {
+    throw new Error(`Invalid tool rule: ${spec}`);
+  }
+  const [, tool, pattern] = match;
+  const rule: PermissionRule = { decision, tool };
+  if (pattern?.trim()) {
+    if (tool === ShellTool.Name) {
+      rule.command = pattern.trim();
+    } else {
+      rule.path = pattern.trim();
+    }
+  }
+  return rule;
+}
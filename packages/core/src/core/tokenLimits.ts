@@ -7,6 +7,8 @@
  * Based on original work by Google LLC (2025)
  * Modified and extended by Hayate Esaki (2025)
  */
+import { findModelByPrefix } from '../providers/model-registry.js';
+
 type Model = string;
 type TokenCount = number;
 
@@ -29,6 +31,6 @@ export function tokenLimit(model: Model): TokenCount {
     case 'gemini-2.0-flash-preview-image-generation':
       return 32_000;
     default:
-      return DEFAULT_TOKEN_LIMIT;
+      return findModelByPrefix(model)?.contextLength ?? DEFAULT_TOKEN_LIMIT;
   }
 }
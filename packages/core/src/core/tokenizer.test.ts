@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  BpeTokenizer,
+  countContentTokens,
+  getOpenAIEncodingName,
+  getTokenizer,
+  registerTokenizer,
+  RemoteTokenizer,
+  Tokenizer,
+} from './tokenizer.js';
+import { tokenLimit, DEFAULT_TOKEN_LIMIT } from './tokenLimits.js';
+import { ProviderType } from '../providers/types.js';
+
+describe('tokenizer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getOpenAIEncodingName', () => {
+    it('should pick the encoding by model generation', () => {
+      expect(getOpenAIEncodingName('gpt-4o-mini')).toBe('o200k_base');
+      expect(getOpenAIEncodingName('gpt-4.1')).toBe('o200k_base');
+      expect(getOpenAIEncodingName('o3-mini')).toBe('o200k_base');
+      expect(getOpenAIEncodingName('gpt-4-turbo')).toBe('cl100k_base');
+      expect(getOpenAIEncodingName('gpt-3.5-turbo')).toBe('cl100k_base');
+    });
+  });
+
+  describe('BpeTokenizer', () => {
+    it('should count BPE tokens', async () => {
+      const tokenizer = new BpeTokenizer('cl100k_base');
+      await expect(tokenizer.countTokens('hello world')).resolves.toBe(2);
+      await expect(tokenizer.countTokens('')).resolves.toBe(0);
+    });
+
+    it('should treat special tokens as plain text', async () => {
+      const tokenizer = new BpeTokenizer('o200k_base');
+      const count = await tokenizer.countTokens('<|endoftext|>');
+      expect(count).toBeGreaterThan(1);
+    });
+
+    it('should apply the calibration scale', async () => {
+      const tokenizer = new BpeTokenizer('cl100k_base', 1.5);
+      await expect(tokenizer.countTokens('hello world')).resolves.toBe(3);
+    });
+  });
+
+  describe('RemoteTokenizer', () => {
+    const fallback: Tokenizer = { countTokens: async () => 42 };
+
+    it('should use the token count reported by the server', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify({ tokens: [1, 2, 3] }), { status: 200 }),
+        );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const tokenizer = new RemoteTokenizer(
+        'http://localhost:8080/tokenize',
+        'qwen',
+        fallback,
+      );
+      await expect(tokenizer.countTokens('abc')).resolves.toBe(3);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        model: 'qwen',
+        content: 'abc',
+        prompt: 'abc',
+      });
+    });
+
+    it('should stop calling a server without a tokenize endpoint', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(new Response('not found', { status: 404 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const tokenizer = new RemoteTokenizer(
+        'http://localhost:11434/api/tokenize',
+        'llama3.2',
+        fallback,
+      );
+      await expect(tokenizer.countTokens('abc')).resolves.toBe(42);
+      await expect(tokenizer.countTokens('abc')).resolves.toBe(42);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getTokenizer', () => {
+    it('should use a registered tokenizer factory', async () => {
+      registerTokenizer(ProviderType.MISTRAL, () => ({
+        countTokens: async (text) => text.length,
+      }));
+      const tokenizer = getTokenizer({
+        providerType: ProviderType.MISTRAL,
+        model: 'mistral-large-latest',
+      });
+      await expect(tokenizer.countTokens('abcd')).resolves.toBe(4);
+    });
+  });
+
+  describe('countContentTokens', () => {
+    it('should count text, tool traffic, media and message overhead', async () => {
+      const tokenizer: Tokenizer = {
+        countTokens: async (text) => text.split(/\s+/).length,
+      };
+      const total = await countContentTokens(tokenizer, [
+        { role: 'user', parts: [{ text: 'read it' }] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'read_file', args: {} } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: { name: 'read_file', response: { ok: 1 } },
+            },
+            { inlineData: { mimeType: 'image/png', data: 'abc' } },
+          ],
+        },
+      ]);
+      // 6 whitespace-separated words, 3 x 4 overhead, 1000 for the image
+      expect(total).toBe(6 + 12 + 1000);
+    });
+  });
+
+  describe('tokenLimit', () => {
+    it('should use the registry context length for non-Gemini models', () => {
+      expect(tokenLimit('gpt-4o')).toBe(128000);
+      expect(tokenLimit('gpt-4o-2024-08-06')).toBe(128000);
+      expect(tokenLimit('gemini-1.5-pro')).toBe(2_097_152);
+      expect(tokenLimit('some-unknown-model')).toBe(DEFAULT_TOKEN_LIMIT);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import { Content } from '@google/genai';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { ProviderType } from '../providers/types.js';
+
+/**
+ * Counts tokens for a single model. Implementations may be exact (BPE tables,
+ * a server-side tokenize endpoint) or calibrated approximations.
+ */
+export interface Tokenizer {
+  countTokens(text: string): Promise<number>;
+}
+
+export interface TokenizerOptions {
+  providerType: ProviderType;
+  model: string;
+  baseUrl?: string;
+}
+
+export type TokenizerFactory = (options: TokenizerOptions) => Tokenizer;
+
+export type BpeEncodingName = 'o200k_base' | 'cl100k_base';
+
+// Chat formats wrap every message in a few role/separator tokens.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Rough cost of an image or PDF page; vendors bill media by size, which is
+// not known here.
+const MEDIA_TOKEN_ESTIMATE = 1000;
+
+const encoders = new Map<BpeEncodingName, Promise<Tiktoken>>();
+
+async function loadEncoder(name: BpeEncodingName): Promise<Tiktoken> {
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    // The rank tables are large, so only load them on first use.
+    encoder = (async () => {
+      const { Tiktoken } = await import('js-tiktoken/lite');
+      const ranks =
+        name === 'o200k_base'
+          ? (await import('js-tiktoken/ranks/o200k_base')).default
+          : (await import('js-tiktoken/ranks/cl100k_base')).default;
+      return new Tiktoken(ranks);
+    })();
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Returns the BPE encoding used by an OpenAI model.
+ */
+export function getOpenAIEncodingName(model: string): BpeEncodingName {
+  const modelName = model.replace(/^(models|openai)\//, '');
+  // GPT-4o and later (gpt-4.1, o1, o3, ...) use o200k_base.
+  return /^(gpt-3\.5|gpt-4($|-))/.test(modelName)
+    ? 'cl100k_base'
+    : 'o200k_base';
+}
+
+/**
+ * Tokenizer backed by OpenAI's BPE tables. `scale` calibrates the count for
+ * vendors whose own tokenizer is not public.
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    private readonly encoding: BpeEncodingName,
+    private readonly scale = 1,
+  ) {}
+
+  async countTokens(text: string): Promise<number> {
+    if (!text) {
+      return 0;
+    }
+    const encoder = await loadEncoder(this.encoding);
+    // Special tokens such as <|endoftext|> are counted as plain text.
+    const count = encoder.encode(text, [], []).length;
+    return Math.ceil(count * this.scale);
+  }
+}
+
+/**
+ * Tokenizer that asks the model server to tokenize the text, falling back to
+ * another tokenizer when the server has no tokenize endpoint.
+ */
+export class RemoteTokenizer implements Tokenizer {
+  private unsupported = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly model: string,
+    private readonly fallback: Tokenizer,
+  ) {}
+
+  async countTokens(text: string): Promise<number> {
+    if (!text) {
+      return 0;
+    }
+    if (this.unsupported) {
+      return this.fallback.countTokens(text);
+    }
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // `content` is read by Ollama and llama.cpp, `prompt` by vLLM.
+        body: JSON.stringify({
+          model: this.model,
+          content: text,
+          prompt: text,
+        }),
+        signal: AbortSignal.timeout(10000),
+      });
+      if (response.ok) {
+        const data = (await response.json()) as {
+          count?: number;
+          tokens?: unknown[];
+        };
+        if (typeof data.count === 'number') {
+          return data.count;
+        }
+        if (Array.isArray(data.tokens)) {
+          return data.tokens.length;
+        }
+      }
+      if (response.status === 404 || response.status === 405) {
+        this.unsupported = true;
+      }
+    } catch {
+      // Server unreachable; use the approximation for this call only.
+    }
+    return this.fallback.countTokens(text);
+  }
+}
+
+function getServerRoot(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+const defaultTokenizerFactories: Record<ProviderType, TokenizerFactory> = {
+  [ProviderType.OPENAI]: ({ model }) =>
+    new BpeTokenizer(getOpenAIEncodingName(model)),
+  // Claude's tokenizer is not public; it yields roughly 15% more tokens than
+  // cl100k_base on code and English prose.
+  [ProviderType.ANTHROPIC]: () => new BpeTokenizer('cl100k_base', 1.15),
+  // Mistral's Tekken tokenizer lands close to cl100k_base, slightly higher.
+  [ProviderType.MISTRAL]: () => new BpeTokenizer('cl100k_base', 1.05),
+  [ProviderType.OPENROUTER]: ({ model }) => {
+    if (model.startsWith('openai/')) {
+      return new BpeTokenizer(getOpenAIEncodingName(model));
+    }
+    if (model.startsWith('anthropic/')) {
+      return new BpeTokenizer('cl100k_base', 1.15);
+    }
+    return new BpeTokenizer('cl100k_base');
+  },
+  [ProviderType.OLLAMA]: ({ model, baseUrl }) =>
+    new RemoteTokenizer(
+      `${getServerRoot(baseUrl ?? 'http://localhost:11434')}/api/tokenize`,
+      model,
+      new BpeTokenizer('cl100k_base'),
+    ),
+  // vLLM and llama.cpp both serve /tokenize next to the /v1 routes.
+  [ProviderType.OPENAI_COMPATIBLE]: ({ model, baseUrl }) =>
+    baseUrl
+      ? new RemoteTokenizer(
+          `${getServerRoot(baseUrl)}/tokenize`,
+          model,
+          new BpeTokenizer('cl100k_base'),
+        )
+      : new BpeTokenizer('cl100k_base'),
+  // Gemini counts tokens server-side through its own countTokens API.
+  [ProviderType.GEMINI]: () => new BpeTokenizer('cl100k_base'),
+};
+
+const tokenizerFactories = new Map<ProviderType, TokenizerFactory>();
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Overrides the tokenizer used for a provider, e.g. to plug in a vendor
+ * tokenizer library.
+ */
+export function registerTokenizer(
+  providerType: ProviderType,
+  factory: TokenizerFactory,
+): void {
+  tokenizerFactories.set(providerType, factory);
+  for (const key of [...tokenizers.keys()]) {
+    if (key.startsWith(`${providerType}|`)) {
+      tokenizers.delete(key);
+    }
+  }
+}
+
+export function getTokenizer(options: TokenizerOptions): Tokenizer {
+  const key = `${options.providerType}|${options.model}|${options.baseUrl ?? ''}`;
+  let tokenizer = tokenizers.get(key);
+  if (!tokenizer) {
+    const factory =
+      tokenizerFactories.get(options.providerType) ??
+      defaultTokenizerFactories[options.providerType] ??
+      (() => new BpeTokenizer('cl100k_base'));
+    tokenizer = factory(options);
+    tokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Counts the prompt tokens of a conversation, including tool calls, tool
+ * results and an estimate for attached media.
+ */
+export async function countContentTokens(
+  tokenizer: Tokenizer,
+  contents: Content[],
+): Promise<number> {
+  const texts: string[] = [];
+  let extraTokens = 0;
+
+  for (const content of contents) {
+    extraTokens += MESSAGE_OVERHEAD_TOKENS;
+    for (const part of content.parts ?? []) {
+      if (typeof part.text === 'string') {
+        texts.push(part.text);
+      } else if (part.functionCall) {
+        texts.push(
+          part.functionCall.name ?? '',
+          JSON.stringify(part.functionCall.args ?? {}),
+        );
+      } else if (part.functionResponse) {
+        texts.push(
+          part.functionResponse.name ?? '',
+          JSON.stringify(part.functionResponse.response ?? {}),
+        );
+      } else if (part.inlineData || part.fileData) {
+        extraTokens += MEDIA_TOKEN_ESTIMATE;
+      }
+    }
+  }
+
+  // One call for the whole conversation keeps remote tokenizers cheap.
+  return (await tokenizer.countTokens(texts.join('\n'))) + extraTokens;
+}
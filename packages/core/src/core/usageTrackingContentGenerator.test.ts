@@ -0,0 +1,326 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import Anthropic from '@anthropic-ai/sdk';
+import { UsageTrackingContentGenerator } from './usageTrackingContentGenerator.js';
+import { ContentGenerator } from './contentGenerator.js';
+import { Config, UsageBudgetSettings } from '../config/config.js';
+import { UsageBudgetExceededError } from '../services/usageLedgerService.js';
+import { AnthropicProvider } from '../providers/anthropic-provider.js';
+import { MistralProvider } from '../providers/mistral-provider.js';
+import { OpenAIProvider } from '../providers/openai-provider.js';
+import { OpenRouterProvider } from '../providers/openrouter-provider.js';
+import { Provider, ProviderType } from '../providers/types.js';
+
+function chunk(promptTokenCount: number, candidatesTokenCount: number) {
+  return {
+    candidates: [],
+    usageMetadata: { promptTokenCount, candidatesTokenCount },
+  } as unknown as GenerateContentResponse;
+}
+
+const sseResponse = (events: unknown[]) =>
+  new Response(
+    events
+      .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+      .join('')
+      .concat('data: [DONE]\n\n'),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } },
+  );
+
+const textChunk = (content: string, finishReason: string | null = null) => ({
+  choices: [{ index: 0, delta: { content }, finish_reason: finishReason }],
+});
+
+function providerContentGenerator(provider: Provider): ContentGenerator {
+  return {
+    generateContent: (request) =>
+      provider.generateContent({ model: request.model, contents: [] }),
+    generateContentStream: (request) =>
+      provider.generateContentStream({ model: request.model, contents: [] }),
+    countTokens: vi.fn(),
+    embedContent: vi.fn(),
+  };
+}
+
+describe('UsageTrackingContentGenerator', () => {
+  let ledger: {
+    record: ReturnType<typeof vi.fn>;
+    checkBudget: ReturnType<typeof vi.fn>;
+  };
+  let wrapped: ContentGenerator;
+  let budget: UsageBudgetSettings;
+  let generator: UsageTrackingContentGenerator;
+
+  beforeEach(() => {
+    budget = {};
+    ledger = {
+      record: vi.fn().mockResolvedValue(undefined),
+      checkBudget: vi.fn().mockResolvedValue({ state: 'ok' }),
+    };
+    wrapped = {
+      generateContent: vi.fn().mockResolvedValue(chunk(10, 5)),
+      generateContentStream: vi.fn().mockImplementation(async () =>
+        (async function* () {
+          yield chunk(10, 1);
+          yield chunk(10, 7);
+        })(),
+      ),
+      countTokens: vi.fn(),
+      embedContent: vi.fn(),
+    };
+    const config = {
+      getUsageBudget: () => budget,
+      getUsageLedgerService: () => ledger,
+      getSelectedProvider: () => 'openai',
+      getModel: () => 'gpt-4o',
+    } as unknown as Config;
+    generator = new UsageTrackingContentGenerator(wrapped, config);
+  });
+
+  it('should record the final usage of a stream once', async () => {
+    const stream = await generator.generateContentStream({
+      model: 'gpt-4o',
+      contents: [],
+    });
+    for await (const _ of stream) {
+      // drain
+    }
+
+    expect(ledger.record).toHaveBeenCalledTimes(1);
+    expect(ledger.record).toHaveBeenCalledWith({
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage: { promptTokenCount: 10, candidatesTokenCount: 7 },
+    });
+  });
+
+  it('should block paid models once the hard budget is spent', async () => {
+    budget = { hardLimitUsd: 5 };
+    ledger.checkBudget.mockResolvedValue({
+      state: 'hard',
+      spentUsd: 5.2,
+      hardLimitUsd: 5,
+      month: '2025-06',
+    });
+
+    await expect(
+      generator.generateContent({ model: 'gpt-4o', contents: [] }),
+    ).rejects.toBeInstanceOf(UsageBudgetExceededError);
+    expect(wrapped.generateContent).not.toHaveBeenCalled();
+
+    // Unpriced models are still allowed.
+    await generator.generateContent({ model: 'my-finetune', contents: [] });
+    expect(wrapped.generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with streamed provider responses', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let config: Config;
+    let selectedProvider = 'openai';
+
+    beforeEach(() => {
+      fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      config = {
+        getUsageBudget: () => budget,
+        getUsageLedgerService: () => ledger,
+        getSelectedProvider: () => selectedProvider,
+      } as unknown as Config;
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    async function drain(
+      generator: ContentGenerator,
+      model: string,
+    ): Promise<GenerateContentResponse[]> {
+      const chunks: GenerateContentResponse[] = [];
+      const stream = await new UsageTrackingContentGenerator(
+        generator,
+        config,
+      ).generateContentStream({ model, contents: [] });
+      for await (const streamed of stream) {
+        chunks.push(streamed);
+      }
+      return chunks;
+    }
+
+    it('should record the usage OpenAI reports at the end of the stream', async () => {
+      selectedProvider = 'openai';
+      fetchMock.mockResolvedValueOnce(
+        sseResponse([
+          textChunk('Hel'),
+          textChunk('lo', 'stop'),
+          {
+            choices: [],
+            usage: {
+              prompt_tokens: 12,
+              completion_tokens: 2,
+              total_tokens: 14,
+            },
+          },
+        ]),
+      );
+      const openai = new OpenAIProvider();
+      await openai.initialize({
+        type: ProviderType.OPENAI,
+        model: 'gpt-4o',
+        apiKey: 'sk-test',
+      });
+
+      const chunks = await drain(providerContentGenerator(openai), 'gpt-4o');
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.stream_options).toEqual({ include_usage: true });
+      expect(chunks.slice(0, -1).map((c) => c.usageMetadata)).toEqual([
+        undefined,
+        undefined,
+      ]);
+      expect(ledger.record).toHaveBeenCalledTimes(1);
+      expect(ledger.record).toHaveBeenCalledWith({
+        model: 'gpt-4o',
+        provider: 'openai',
+        usage: {
+          promptTokenCount: 12,
+          candidatesTokenCount: 2,
+          totalTokenCount: 14,
+        },
+      });
+    });
+
+    it('should record the usage OpenRouter reports at the end of the stream', async () => {
+      selectedProvider = 'openrouter';
+      fetchMock.mockResolvedValueOnce(
+        sseResponse([
+          textChunk('Hi', 'stop'),
+          {
+            choices: [],
+            usage: {
+              prompt_tokens: 30,
+              completion_tokens: 1,
+              total_tokens: 31,
+            },
+          },
+        ]),
+      );
+      const openrouter = new OpenRouterProvider();
+      await openrouter.initialize({
+        type: ProviderType.OPENROUTER,
+        model: 'anthropic/claude-3.5-sonnet',
+        apiKey: 'sk-or-test',
+      });
+
+      await drain(
+        providerContentGenerator(openrouter),
+        'anthropic/claude-3.5-sonnet',
+      );
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.stream_options).toEqual({ include_usage: true });
+      expect(ledger.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usage: {
+            promptTokenCount: 30,
+            candidatesTokenCount: 1,
+            totalTokenCount: 31,
+          },
+        }),
+      );
+    });
+
+    it('should record the usage of the final Mistral chunk', async () => {
+      selectedProvider = 'mistral';
+      fetchMock.mockResolvedValueOnce(
+        sseResponse([
+          textChunk('Bon'),
+          {
+            ...textChunk('jour', 'stop'),
+            usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 },
+          },
+        ]),
+      );
+      const mistral = new MistralProvider();
+      await mistral.initialize({
+        type: ProviderType.MISTRAL,
+        model: 'mistral-large-latest',
+        apiKey: 'test-key',
+      });
+
+      const chunks = await drain(
+        providerContentGenerator(mistral),
+        'mistral-large-latest',
+      );
+
+      expect(chunks.map((c) => c.text).join('')).toBe('Bonjour');
+      expect(ledger.record).toHaveBeenCalledTimes(1);
+      expect(ledger.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usage: {
+            promptTokenCount: 8,
+            candidatesTokenCount: 3,
+            totalTokenCount: 11,
+          },
+        }),
+      );
+    });
+
+    it('should record the usage of Anthropic message events', async () => {
+      selectedProvider = 'anthropic';
+      vi.spyOn(Anthropic.Messages.prototype, 'create').mockResolvedValue(
+        (async function* () {
+          yield {
+            type: 'message_start',
+            message: { usage: { input_tokens: 40, output_tokens: 1 } },
+          };
+          yield {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Hi' },
+          };
+          yield {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn' },
+            usage: { output_tokens: 6 },
+          };
+          yield { type: 'message_stop' };
+        })() as never,
+      );
+      const anthropic = new AnthropicProvider();
+      await anthropic.initialize({
+        type: ProviderType.ANTHROPIC,
+        model: 'claude-3-5-sonnet-20241022',
+        apiKey: 'sk-ant-REDACTED',
+      });
+
+      await drain(
+        providerContentGenerator(anthropic),
+        'claude-3-5-sonnet-20241022',
+      );
+
+      expect(ledger.record).toHaveBeenCalledTimes(1);
+      expect(ledger.record).toHaveBeenCalledWith({
+        model: 'claude-3-5-sonnet-20241022',
+        provider: 'anthropic',
+        usage: {
+          promptTokenCount: 40,
+          candidatesTokenCount: 6,
+          totalTokenCount: 46,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import { ContentGenerator } from './contentGenerator.js';
+import { Config } from '../config/config.js';
+import {
+  isPaidModel,
+  UsageBudgetExceededError,
+} from '../services/usageLedgerService.js';
+import { getActiveProviderType } from '../utils/mediaSupport.js';
+
+/**
+ * Wraps a content generator to record the usage of every response in the
+ * usage ledger, and to refuse requests to paid models once the monthly hard
+ * budget is spent.
+ */
+export class UsageTrackingContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly wrapped: ContentGenerator,
+    private readonly config: Config,
+  ) {}
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    await this.checkBudget(request.model);
+    const response = await this.wrapped.generateContent(request);
+    this.record(request.model, response.usageMetadata);
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    await this.checkBudget(request.model);
+    const stream = await this.wrapped.generateContentStream(request);
+    return this.trackStream(request.model, stream);
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.wrapped.countTokens(request);
+  }
+
+  embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    return this.wrapped.embedContent(request);
+  }
+
+  private async *trackStream(
+    model: string,
+    stream: AsyncGenerator<GenerateContentResponse>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    // Chunks carry running totals, so the last usage seen covers the
+    // whole response.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    try {
+      for await (const chunk of stream) {
+        usage = chunk.usageMetadata ?? usage;
+        yield chunk;
+      }
+    } finally {
+      this.record(model, usage);
+    }
+  }
+
+  private async checkBudget(model: string): Promise<void> {
+    const budget = this.config.getUsageBudget();
+    if (
+      budget.hardLimitUsd === undefined ||
+      !isPaidModel(model, this.getProvider())
+    ) {
+      return;
+    }
+    const status = await this.config
+      .getUsageLedgerService()
+      .checkBudget(budget);
+    if (status.state === 'hard') {
+      throw new UsageBudgetExceededError(status);
+    }
+  }
+
+  private record(
+    model: string,
+    usage: GenerateContentResponseUsageMetadata | undefined,
+  ): void {
+    if (!usage) {
+      return;
+    }
+    // Accounting must never fail a request.
+    this.config
+      .getUsageLedgerService()
+      .record({ model, provider: this.getProvider(), usage })
+      .catch((error) => {
+        console.warn('Failed to record usage:', error);
+      });
+  }
+
+  private getProvider(): string | undefined {
+    return getActiveProviderType(this.config);
+  }
+}
@@ -18,9 +18,11 @@ export * from './core/enfiyChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
 export * from './core/tokenLimits.js';
+export * from './core/tokenizer.js';
 export * from './core/turn.js';
 export * from './core/enfiyRequest.js';
 export * from './core/coreToolScheduler.js';
+export * from './core/permissionPolicy.js';
 export * from './core/nonInteractiveToolExecutor.js';
 
 // Export providers
@@ -32,6 +34,7 @@ export * from './providers/openai-provider.js';
 export * from './providers/mistral-provider.js';
 export * from './providers/anthropic-provider.js';
 export * from './providers/openrouter-provider.js';
+export * from './providers/openai-compatible-provider.js';
 export * from './providers/model-registry.js';
 export * from './providers/provider-detector.js';
 
@@ -43,10 +46,14 @@ export * from './utils/getFolderStructure.js';
 export * from './utils/memoryDiscovery.js';
 export * from './utils/gitIgnoreParser.js';
 export * from './utils/editor.js';
+export * from './utils/shellParser.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/editHistoryService.js';
+export * from './services/semanticIndexService.js';
+export * from './services/usageLedgerService.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -64,8 +71,10 @@ export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
+export * from './tools/semantic-search.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './tools/mcp-oauth-provider.js';
 
 // Export telemetry functions
 export * from './telemetry/index.js';
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { Content } from '@google/genai';
+import { AnthropicProvider } from './anthropic-provider.js';
+import { ProviderType } from './types.js';
+import { AuthType, createContentGenerator } from '../core/contentGenerator.js';
+
+const MODEL = 'claude-sonnet-4-20250514';
+
+async function* thinkingToolUseEvents() {
+  yield {
+    type: 'message_start',
+    message: { usage: { input_tokens: 10, output_tokens: 1 } },
+  };
+  yield {
+    type: 'content_block_start',
+    index: 0,
+    content_block: { type: 'thinking', thinking: '' },
+  };
+  yield {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'thinking_delta', thinking: 'Need to list files.' },
+  };
+  yield {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'signature_delta', signature: 'sig-1' },
+  };
+  yield { type: 'content_block_stop', index: 0 };
+  yield {
+    type: 'content_block_start',
+    index: 1,
+    content_block: { type: 'tool_use', id: 'toolu_1', name: 'ls', input: {} },
+  };
+  yield {
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '{"path":"."}' },
+  };
+  yield { type: 'content_block_stop', index: 1 };
+  yield {
+    type: 'message_delta',
+    delta: { stop_reason: 'tool_use' },
+    usage: { output_tokens: 20 },
+  };
+  yield { type: 'message_stop' };
+}
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+  let create: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    create = vi.spyOn(Anthropic.Messages.prototype, 'create');
+    provider = new AnthropicProvider();
+    await provider.initialize({
+      type: ProviderType.ANTHROPIC,
+      model: MODEL,
+      apiKey: 'sk-ant-REDACTED',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Runs a thinking, tool-using turn and returns the history it leaves.
+   */
+  async function recordToolUseTurn(): Promise<Content[]> {
+    create.mockResolvedValueOnce(thinkingToolUseEvents() as never);
+    const stream = await provider.generateContentStream({
+      model: MODEL,
+      contents: [{ role: 'user', parts: [{ text: 'List the files' }] }],
+      config: { thinkingConfig: { includeThoughts: true } },
+    });
+    const modelParts = [];
+    for await (const chunk of stream) {
+      modelParts.push(
+        ...(chunk.candidates?.[0]?.content?.parts ?? []).filter(
+          (part) => part.functionCall,
+        ),
+      );
+    }
+    return [
+      { role: 'user', parts: [{ text: 'List the files' }] },
+      { role: 'model', parts: modelParts },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'toolu_1',
+              name: 'ls',
+              response: { output: 'a.ts' },
+            },
+          },
+        ],
+      },
+    ];
+  }
+
+  it('should send the thinking blocks of a tool-using turn back to Claude', async () => {
+    const history = await recordToolUseTurn();
+    create.mockResolvedValueOnce((async function* () {})() as never);
+
+    const stream = await provider.generateContentStream({
+      model: MODEL,
+      contents: history,
+      config: { thinkingConfig: { includeThoughts: true } },
+    });
+    for await (const _chunk of stream) {
+      // Drain the stream.
+    }
+
+    const { messages } = create.mock.lastCall![0] as {
+      messages: Anthropic.MessageParam[];
+    };
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        {
+          type: 'thinking',
+          thinking: 'Need to list files.',
+          signature: 'sig-1',
+        },
+        { type: 'tool_use', id: 'toolu_1', name: 'ls', input: { path: '.' } },
+      ],
+    });
+  });
+
+  it('should drop empty turns and merge the turns around them', async () => {
+    create.mockResolvedValueOnce((async function* () {})() as never);
+
+    const stream = await provider.generateContentStream({
+      model: MODEL,
+      contents: [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: ' ' }] },
+        { role: 'user', parts: [{ text: 'Are you there?' }] },
+      ],
+    });
+    for await (const _chunk of stream) {
+      // Drain the stream.
+    }
+
+    const { messages } = create.mock.lastCall![0] as {
+      messages: Anthropic.MessageParam[];
+    };
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Hello' },
+          { type: 'text', text: 'Are you there?' },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep its thinking blocks out of requests to Gemini', async () => {
+    const history = await recordToolUseTurn();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ candidates: [] }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const gemini = await createContentGenerator({
+      model: 'gemini-2.5-pro',
+      apiKey: 'test-api-key',
+      authType: AuthType.USE_GEMINI,
+    });
+    await gemini.generateContent({
+      model: 'gemini-2.5-pro',
+      contents: history,
+    });
+
+    const [, init] = fetchMock.mock.lastCall as unknown as [
+      string,
+      RequestInit,
+    ];
+    const body = JSON.parse(init.body as string);
+    expect(body.contents[1]).toEqual({
+      role: 'model',
+      parts: [
+        { functionCall: { id: 'toolu_1', name: 'ls', args: { path: '.' } } },
+      ],
+    });
+    expect(init.body).not.toContain('anthropic-thinking');
+    expect(history[1].parts?.[0].thoughtSignature).toMatch(
+      /^anthropic-thinking:/,
+    );
+  });
+});
@@ -15,7 +15,95 @@ import {
   GenerateContentResponse,
   GenerateContentConfig,
   FinishReason,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
+import {
+  createResponseParts,
+  createToolCallId,
+  getFunctionDeclarations,
+  getParametersJsonSchema,
+  parseFunctionArgs,
+  serializeFunctionResponse,
+  ToolCallIdResolver,
+} from './function-calling.js';
+import {
+  describeOmittedMedia,
+  MediaPart,
+  PDF_MIME_TYPE,
+  toMediaPart,
+} from './multimodal.js';
+import {
+  ANTHROPIC_THINKING_SIGNATURE_PREFIX,
+  createThoughtResponse,
+  getReasoningOptions,
+  ReasoningStream,
+} from './reasoning.js';
+
+/**
+ * PDF input block. Not yet part of the SDK's type definitions.
+ */
+interface AnthropicDocumentBlockParam {
+  type: 'document';
+  source: { type: 'base64'; media_type: 'application/pdf'; data: string };
+}
+
+/**
+ * Extended thinking blocks. Not yet part of the SDK's type definitions.
+ */
+type AnthropicThinkingBlockParam =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+
+/**
+ * The parts of thinking stream events the SDK types do not cover.
+ */
+interface AnthropicThinkingStreamEvent {
+  type: string;
+  index: number;
+  content_block?: { type: string; data?: string };
+  delta?: { type: string; thinking?: string; signature?: string };
+}
+
+const DEFAULT_THINKING_BUDGET = 8192;
+const MIN_THINKING_BUDGET = 1024;
+
+function encodeThinkingBlocks(blocks: AnthropicThinkingBlockParam[]): string {
+  return ANTHROPIC_THINKING_SIGNATURE_PREFIX + JSON.stringify(blocks);
+}
+
+function decodeThinkingBlocks(
+  signature: string | undefined,
+): AnthropicThinkingBlockParam[] {
+  if (!signature?.startsWith(ANTHROPIC_THINKING_SIGNATURE_PREFIX)) {
+    return [];
+  }
+  try {
+    return JSON.parse(
+      signature.slice(ANTHROPIC_THINKING_SIGNATURE_PREFIX.length),
+    );
+  } catch {
+    return [];
+  }
+}
+
+function toUsageMetadata(
+  usage: Anthropic.Usage,
+): GenerateContentResponseUsageMetadata {
+  return {
+    promptTokenCount: usage.input_tokens,
+    candidatesTokenCount: usage.output_tokens,
+    totalTokenCount: usage.input_tokens + usage.output_tokens,
+  };
+}
+
+type AnthropicContentBlock =
+  | AnthropicThinkingBlockParam
+  | Anthropic.TextBlockParam
+  | Anthropic.ImageBlockParam
+  | AnthropicDocumentBlockParam
+  | Anthropic.ToolUseBlockParam
+  | Anthropic.ToolResultBlockParam;
 
 export class AnthropicProvider extends BaseProvider {
   readonly type = ProviderType.ANTHROPIC;
@@ -82,22 +170,126 @@ export class AnthropicProvider extends BaseProvider {
 
   private convertToAnthropicMessages(
     contents: Content[],
+    model: string,
+    includeThinking = false,
   ): Anthropic.MessageParam[] {
     // Extract system message if present
     const _systemMessages = contents.filter((c) => c.role === 'system');
     const nonSystemMessages = contents.filter((c) => c.role !== 'system');
+    const idResolver = new ToolCallIdResolver();
+    const messages: Anthropic.MessageParam[] = [];
+
+    for (const content of nonSystemMessages) {
+      const role = content.role === 'model' ? 'assistant' : 'user';
+      const blocks: AnthropicContentBlock[] = [];
+      const thinkingBlocks: AnthropicThinkingBlockParam[] = [];
+
+      for (const part of content.parts ?? []) {
+        if (part.functionCall) {
+          if (includeThinking) {
+            thinkingBlocks.push(...decodeThinkingBlocks(part.thoughtSignature));
+          }
+          blocks.push({
+            type: 'tool_use',
+            id: idResolver.idForCall(part.functionCall),
+            name: part.functionCall.name ?? '',
+            input: part.functionCall.args ?? {},
+          });
+        } else if (part.functionResponse) {
+          const response = part.functionResponse.response;
+          blocks.push({
+            type: 'tool_result',
+            tool_use_id: idResolver.idForResponse(part.functionResponse),
+            content: serializeFunctionResponse(response),
+            is_error: typeof response?.error === 'string' ? true : undefined,
+          });
+        } else if (part.text?.trim() && !part.thought) {
+          blocks.push({ type: 'text', text: part.text });
+        } else {
+          const media = toMediaPart(part);
+          if (media) {
+            blocks.push(this.convertMediaPart(media, model));
+          }
+        }
+      }
 
-    return nonSystemMessages.map((content) => {
-      const textParts = content.parts?.filter((part) => 'text' in part) || [];
-      const text = textParts
-        .map((part) => (part as { text: string }).text)
-        .join('\n');
+      // Tool results have to come first in a user turn, thinking blocks
+      // first in an assistant turn.
+      blocks.sort(
+        (a, b) =>
+          Number(b.type === 'tool_result') - Number(a.type === 'tool_result'),
+      );
+      blocks.unshift(...thinkingBlocks);
+
+      // Empty turns are rejected by the API, and so are whitespace-only text
+      // blocks, so drop them and let the turns around them merge.
+      if (blocks.length === 0) {
+        continue;
+      }
+
+      // Anthropic requires strictly alternating roles, so merge consecutive
+      // turns from the same side (e.g. a tool result followed by user text).
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === role) {
+        (previous.content as AnthropicContentBlock[]).push(...blocks);
+      } else {
+        messages.push({
+          role,
+          content: blocks as Anthropic.MessageParam['content'],
+        });
+      }
+    }
+
+    return messages;
+  }
 
+  /**
+   * Maps an image or PDF to a content block, or to a text note when the
+   * model cannot read it.
+   */
+  private convertMediaPart(
+    media: MediaPart,
+    model: string,
+  ): AnthropicContentBlock {
+    if (media.data && this.supportsMediaType(media.mimeType, model)) {
+      if (media.mimeType === PDF_MIME_TYPE) {
+        return {
+          type: 'document',
+          source: {
+            type: 'base64',
+            media_type: PDF_MIME_TYPE,
+            data: media.data,
+          },
+        };
+      }
       return {
-        role: content.role === 'model' ? 'assistant' : 'user',
-        content: text,
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type:
+            media.mimeType as Anthropic.ImageBlockParam.Source['media_type'],
+          data: media.data,
+        },
       };
-    });
+    }
+    return { type: 'text', text: describeOmittedMedia(media) };
+  }
+
+  private getTools(config?: GenerateContentConfig): Anthropic.Tool[] {
+    return getFunctionDeclarations(config).map((declaration) => ({
+      name: declaration.name!,
+      description: declaration.description,
+      input_schema: getParametersJsonSchema(
+        declaration,
+      ) as Anthropic.Tool.InputSchema,
+    }));
+  }
+
+  /**
+   * Claude 3.7 and the Claude 4 family support extended thinking.
+   */
+  private supportsExtendedThinking(model: string): boolean {
+    return /^claude-(3-7-|(opus|sonnet|haiku)-4)/.test(model);
   }
 
   private getSystemPrompt(contents: Content[]): string | undefined {
@@ -119,6 +311,16 @@ export class AnthropicProvider extends BaseProvider {
       .filter((block) => block.type === 'text')
       .map((block) => (block as Anthropic.TextBlock).text)
       .join('\n');
+    const functionCalls: FunctionCall[] = response.content
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => {
+        const toolUse = block as Anthropic.ToolUseBlock;
+        return {
+          id: toolUse.id,
+          name: toolUse.name,
+          args: (toolUse.input ?? {}) as Record<string, unknown>,
+        };
+      });
 
     const finishReason = this.mapStopReason(response.stop_reason);
 
@@ -127,15 +329,16 @@ export class AnthropicProvider extends BaseProvider {
       candidates: [
         {
           content: {
-            parts: [{ text }],
+            parts: createResponseParts(text, functionCalls),
             role: 'model',
           },
           finishReason,
           index: 0,
         },
       ],
+      usageMetadata: toUsageMetadata(response.usage),
       data: undefined,
-      functionCalls: [],
+      functionCalls,
       executableCode: undefined,
       codeExecutionResult: undefined,
     };
@@ -148,6 +351,7 @@ export class AnthropicProvider extends BaseProvider {
       case 'max_tokens':
         return FinishReason.MAX_TOKENS;
       case 'stop_sequence':
+      case 'tool_use':
         return FinishReason.STOP;
       default:
         return FinishReason.OTHER;
@@ -163,8 +367,12 @@ export class AnthropicProvider extends BaseProvider {
       throw new Error('Anthropic client not initialized');
     }
 
-    const messages = this.convertToAnthropicMessages(params.contents);
+    const messages = this.convertToAnthropicMessages(
+      params.contents,
+      params.model,
+    );
     const systemPrompt = this.getSystemPrompt(params.contents);
+    const tools = this.getTools(params.config);
 
     let response;
     try {
@@ -175,6 +383,7 @@ export class AnthropicProvider extends BaseProvider {
         max_tokens: params.config?.maxOutputTokens || 4096,
         temperature: params.config?.temperature,
         top_p: params.config?.topP,
+        tools: tools.length > 0 ? tools : undefined,
       });
     } catch (error) {
       // Handle Anthropic-specific errors
@@ -223,8 +432,22 @@ export class AnthropicProvider extends BaseProvider {
       throw new Error('Anthropic client not initialized');
     }
 
-    const messages = this.convertToAnthropicMessages(params.contents);
+    const reasoning = getReasoningOptions(params.config);
+    const thinkingBudget =
+      reasoning.enabled && this.supportsExtendedThinking(params.model)
+        ? Math.max(
+            MIN_THINKING_BUDGET,
+            reasoning.budgetTokens ?? DEFAULT_THINKING_BUDGET,
+          )
+        : undefined;
+    const messages = this.convertToAnthropicMessages(
+      params.contents,
+      params.model,
+      thinkingBudget !== undefined,
+    );
     const systemPrompt = this.getSystemPrompt(params.contents);
+    const tools = this.getTools(params.config);
+    const maxTokens = params.config?.maxOutputTokens || 4096;
 
     let stream;
     try {
@@ -232,11 +455,21 @@ export class AnthropicProvider extends BaseProvider {
         model: params.model,
         messages,
         system: systemPrompt,
-        max_tokens: params.config?.maxOutputTokens || 4096,
-        temperature: params.config?.temperature,
-        top_p: params.config?.topP,
+        tools: tools.length > 0 ? tools : undefined,
         stream: true,
-      });
+        // Thinking tokens count towards max_tokens, and thinking does not
+        // allow custom sampling parameters.
+        ...(thinkingBudget
+          ? {
+              max_tokens: Math.max(maxTokens, thinkingBudget + 4096),
+              thinking: { type: 'enabled', budget_tokens: thinkingBudget },
+            }
+          : {
+              max_tokens: maxTokens,
+              temperature: params.config?.temperature,
+              top_p: params.config?.topP,
+            }),
+      } as Anthropic.MessageCreateParamsStreaming);
     } catch (error) {
       // Handle Anthropic-specific errors
       if (error instanceof Anthropic.APIError) {
@@ -265,9 +498,122 @@ export class AnthropicProvider extends BaseProvider {
     }
 
     let _accumulatedText = '';
+    // Tool use blocks stream their input as partial JSON, keyed by block index.
+    const pendingToolUses = new Map<
+      number,
+      { id: string; name: string; inputJson: string }
+    >();
+
+    const reasoningStream = new ReasoningStream();
+    const thinkingBlocks = new Map<number, AnthropicThinkingBlockParam>();
+    let thinkingAttached = false;
+    // Input tokens are reported when the message starts, and the running
+    // output token count with each message delta.
+    let usage: Anthropic.Usage | undefined;
 
     for await (const chunk of stream) {
+      const thinkingEvent = chunk as unknown as AnthropicThinkingStreamEvent;
       if (
+        thinkingEvent.type === 'content_block_start' &&
+        thinkingEvent.content_block?.type === 'thinking'
+      ) {
+        thinkingBlocks.set(thinkingEvent.index, {
+          type: 'thinking',
+          thinking: '',
+          signature: '',
+        });
+      } else if (
+        thinkingEvent.type === 'content_block_start' &&
+        thinkingEvent.content_block?.type === 'redacted_thinking'
+      ) {
+        thinkingBlocks.set(thinkingEvent.index, {
+          type: 'redacted_thinking',
+          data: thinkingEvent.content_block.data ?? '',
+        });
+      } else if (
+        thinkingEvent.type === 'content_block_delta' &&
+        thinkingEvent.delta?.type === 'thinking_delta'
+      ) {
+        const block = thinkingBlocks.get(thinkingEvent.index);
+        const delta = thinkingEvent.delta.thinking ?? '';
+        if (block?.type === 'thinking') {
+          block.thinking += delta;
+        }
+        const summary = reasoningStream.push(delta);
+        if (summary) {
+          yield createThoughtResponse(summary);
+        }
+      } else if (
+        thinkingEvent.type === 'content_block_delta' &&
+        thinkingEvent.delta?.type === 'signature_delta'
+      ) {
+        const block = thinkingBlocks.get(thinkingEvent.index);
+        if (block?.type === 'thinking') {
+          block.signature += thinkingEvent.delta.signature ?? '';
+        }
+      } else if (
+        thinkingEvent.type === 'content_block_stop' &&
+        thinkingBlocks.has(thinkingEvent.index)
+      ) {
+        const summary = reasoningStream.flush();
+        if (summary) {
+          yield createThoughtResponse(summary);
+        }
+      } else if (
+        chunk.type === 'content_block_start' &&
+        chunk.content_block.type === 'tool_use'
+      ) {
+        pendingToolUses.set(chunk.index, {
+          id: chunk.content_block.id || createToolCallId(),
+          name: chunk.content_block.name,
+          inputJson: '',
+        });
+      } else if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'input_json_delta'
+      ) {
+        const toolUse = pendingToolUses.get(chunk.index);
+        if (toolUse) {
+          toolUse.inputJson += chunk.delta.partial_json;
+        }
+      } else if (
+        chunk.type === 'content_block_stop' &&
+        pendingToolUses.has(chunk.index)
+      ) {
+        const toolUse = pendingToolUses.get(chunk.index)!;
+        pendingToolUses.delete(chunk.index);
+        const functionCalls: FunctionCall[] = [
+          {
+            id: toolUse.id,
+            name: toolUse.name,
+            args: parseFunctionArgs(toolUse.inputJson),
+          },
+        ];
+        const parts = createResponseParts('', functionCalls);
+        if (!thinkingAttached && thinkingBlocks.size > 0) {
+          parts[0].thoughtSignature = encodeThinkingBlocks([
+            ...thinkingBlocks.values(),
+          ]);
+          thinkingAttached = true;
+        }
+        yield {
+          text: '',
+          candidates: [
+            {
+              content: {
+                parts,
+                role: 'model',
+              },
+              finishReason: FinishReason.OTHER,
+              index: 0,
+            },
+          ],
+          data: undefined,
+          functionCalls,
+          executableCode: undefined,
+          codeExecutionResult: undefined,
+        };
+      } else if (
         chunk.type === 'content_block_delta' &&
         chunk.delta.type === 'text_delta'
       ) {
@@ -289,6 +635,13 @@ export class AnthropicProvider extends BaseProvider {
           executableCode: undefined,
           codeExecutionResult: undefined,
         };
+      } else if (chunk.type === 'message_start') {
+        usage = { ...chunk.message.usage };
+      } else if (chunk.type === 'message_delta') {
+        usage = {
+          input_tokens: usage?.input_tokens ?? 0,
+          output_tokens: chunk.usage.output_tokens,
+        };
       } else if (chunk.type === 'message_stop') {
         yield {
           text: '',
@@ -302,6 +655,7 @@ export class AnthropicProvider extends BaseProvider {
               index: 0,
             },
           ],
+          usageMetadata: usage && toUsageMetadata(usage),
           data: undefined,
           functionCalls: [],
           executableCode: undefined,
@@ -319,6 +673,7 @@ export class AnthropicProvider extends BaseProvider {
     return {
       supportsStreaming: true,
       supportsVision: true,
+      supportsPdf: true,
       supportsAudio: false,
       supportsFunctionCalling: true,
       supportsSystemPrompts: true,
@@ -326,6 +681,14 @@ export class AnthropicProvider extends BaseProvider {
     };
   }
 
+  supportsMediaType(mimeType: string, model?: string): boolean {
+    // Claude 2 models are text-only
+    if (model?.startsWith('claude-2')) {
+      return false;
+    }
+    return super.supportsMediaType(mimeType, model);
+  }
+
   getAuthInstructions(): string {
     return `To use Anthropic:
 
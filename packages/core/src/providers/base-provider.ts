@@ -14,6 +14,7 @@ import {
   GenerateContentConfig,
 } from '@google/genai';
 import { CodeBlockConverter } from '../utils/codeBlockConverter.js';
+import { PDF_MIME_TYPE, WEB_IMAGE_MIME_TYPES } from './multimodal.js';
 
 /**
  * Abstract base class for all AI providers
@@ -112,7 +113,10 @@ export abstract class BaseProvider implements Provider {
    * Check if this is a local provider
    */
   isLocalProvider(): boolean {
-    const localProviders = [ProviderType.OLLAMA];
+    const localProviders = [
+      ProviderType.OLLAMA,
+      ProviderType.OPENAI_COMPATIBLE,
+    ];
     return localProviders.includes(this.type);
   }
 
@@ -142,6 +146,7 @@ export abstract class BaseProvider implements Provider {
   protected getDefaultBaseUrl(): string {
     const defaultUrls: Record<string, string> = {
       [ProviderType.OLLAMA]: 'http://localhost:11434',
+      [ProviderType.OPENAI_COMPATIBLE]: 'http://localhost:8000/v1',
     };
 
     return defaultUrls[this.type] || 'http://localhost:8080';
@@ -268,6 +273,7 @@ export abstract class BaseProvider implements Provider {
   getCapabilities(): {
     supportsStreaming: boolean;
     supportsVision: boolean;
+    supportsPdf: boolean;
     supportsAudio: boolean;
     supportsFunctionCalling: boolean;
     supportsSystemPrompts: boolean;
@@ -277,6 +283,7 @@ export abstract class BaseProvider implements Provider {
     return {
       supportsStreaming: true,
       supportsVision: false,
+      supportsPdf: false,
       supportsAudio: false,
       supportsFunctionCalling: false,
       supportsSystemPrompts: true,
@@ -284,6 +291,21 @@ export abstract class BaseProvider implements Provider {
     };
   }
 
+  /**
+   * Check whether a model accepts inline media of the given MIME type.
+   * Defaults to the provider-wide capabilities; providers whose support
+   * differs per model override this.
+   */
+  supportsMediaType(mimeType: string, _model?: string): boolean {
+    const capabilities = this.getCapabilities();
+    if (mimeType === PDF_MIME_TYPE) {
+      return capabilities.supportsPdf;
+    }
+    return (
+      capabilities.supportsVision && WEB_IMAGE_MIME_TYPES.includes(mimeType)
+    );
+  }
+
   /**
    * Common utility: Convert raw text to markdown code blocks
    * Can be used by any provider to improve code block detection
@@ -0,0 +1,312 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Content, Type } from '@google/genai';
+import {
+  createResponseParts,
+  fromOpenAICompatibleToolCalls,
+  getFunctionDeclarations,
+  parseFunctionArgs,
+  toJsonSchema,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+  ToolCallDeltaAccumulator,
+} from './function-calling.js';
+
+describe('function-calling', () => {
+  describe('getFunctionDeclarations', () => {
+    it('should collect declarations from every tool', () => {
+      const declarations = getFunctionDeclarations({
+        tools: [
+          { functionDeclarations: [{ name: 'read_file' }] },
+          { functionDeclarations: [{ name: 'glob' }, { description: 'x' }] },
+        ],
+      });
+      expect(declarations.map((d) => d.name)).toEqual(['read_file', 'glob']);
+    });
+
+    it('should return an empty list when no tools are configured', () => {
+      expect(getFunctionDeclarations(undefined)).toEqual([]);
+      expect(getFunctionDeclarations({})).toEqual([]);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should lower-case Gemini types recursively', () => {
+      const schema = toJsonSchema({
+        type: Type.OBJECT,
+        properties: {
+          paths: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            minItems: '1',
+          },
+        },
+        required: ['paths'],
+        propertyOrdering: ['paths'],
+      });
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          paths: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        },
+        required: ['paths'],
+      });
+    });
+  });
+
+  describe('toOpenAICompatibleTools', () => {
+    it('should default to an empty object schema', () => {
+      expect(
+        toOpenAICompatibleTools([{ name: 'ls', description: 'List' }]),
+      ).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'ls',
+            description: 'List',
+            parameters: { type: 'object', properties: {} },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('toOpenAICompatibleMessages', () => {
+    it('should map function calls and responses to tool messages', () => {
+      const contents: Content[] = [
+        { role: 'user', parts: [{ text: 'List files' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Listing.' },
+            {
+              functionCall: { id: 'call_1', name: 'ls', args: { path: '/' } },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'ls',
+                response: { output: 'a.txt' },
+              },
+            },
+          ],
+        },
+      ];
+
+      expect(toOpenAICompatibleMessages(contents)).toEqual([
+        { role: 'user', content: 'List files' },
+        {
+          role: 'assistant',
+          content: 'Listing.',
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'ls', arguments: '{"path":"/"}' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          tool_call_id: 'call_1',
+          name: 'ls',
+          content: 'a.txt',
+        },
+      ]);
+    });
+
+    it('should pair calls and responses that have no ids', () => {
+      const messages = toOpenAICompatibleMessages([
+        { role: 'model', parts: [{ functionCall: { name: 'glob' } }] },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'glob',
+                response: { error: 'No matches' },
+              },
+            },
+          ],
+        },
+      ]);
+
+      expect(messages[0].content).toBeNull();
+      expect(messages[1].tool_call_id).toBe(messages[0].tool_calls![0].id);
+      expect(messages[1].content).toBe('Error: No matches');
+    });
+
+    it('should pair calls without ids with responses that have one', () => {
+      const messages = toOpenAICompatibleMessages([
+        {
+          role: 'model',
+          parts: [
+            { functionCall: { name: 'read_file', args: { path: 'a.ts' } } },
+            { functionCall: { name: 'read_file', args: { path: 'b.ts' } } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'read_file-1700000000000-abc123',
+                name: 'read_file',
+                response: { output: 'a' },
+              },
+            },
+            {
+              functionResponse: {
+                id: 'read_file-1700000000000-def456',
+                name: 'read_file',
+                response: { output: 'b' },
+              },
+            },
+          ],
+        },
+      ]);
+
+      const [first, second] = messages[0].tool_calls!;
+      expect(messages[1].tool_call_id).toBe(first.id);
+      expect(messages[1].content).toBe('a');
+      expect(messages[2].tool_call_id).toBe(second.id);
+      expect(messages[2].content).toBe('b');
+    });
+
+    const toolImageContents: Content[] = [
+      {
+        role: 'model',
+        parts: [{ functionCall: { id: 'call_1', name: 'read_file' } }],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'call_1',
+              name: 'read_file',
+              response: { output: 'Binary content of type image/png' },
+            },
+          },
+          { inlineData: { mimeType: 'image/png', data: 'iVBOR' } },
+          { inlineData: { mimeType: 'application/pdf', data: 'JVBER' } },
+        ],
+      },
+    ];
+
+    it('should attach accepted media to a user message after the tool result', () => {
+      const messages = toOpenAICompatibleMessages(
+        toolImageContents,
+        () => true,
+      );
+
+      expect(messages.map((m) => m.role)).toEqual([
+        'assistant',
+        'tool',
+        'user',
+      ]);
+      expect(messages[2].content).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'data:image/png;base64,iVBOR' },
+        },
+        {
+          type: 'file',
+          file: {
+            filename: 'document.pdf',
+            file_data: 'data:application/pdf;base64,JVBER',
+          },
+        },
+      ]);
+    });
+
+    it('should replace unsupported media with a text note', () => {
+      const messages = toOpenAICompatibleMessages(
+        toolImageContents,
+        (mimeType) => mimeType === 'image/png',
+      );
+      expect(messages[2].content).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'data:image/png;base64,iVBOR' },
+        },
+        {
+          type: 'text',
+          text: '[application/pdf content omitted: the current model cannot read this file type]',
+        },
+      ]);
+
+      // Text-only models keep plain string content.
+      expect(toOpenAICompatibleMessages(toolImageContents)[2].content).toBe(
+        '[image/png content omitted: the current model cannot read this file type]\n' +
+          '[application/pdf content omitted: the current model cannot read this file type]',
+      );
+    });
+  });
+
+  describe('ToolCallDeltaAccumulator', () => {
+    it('should reassemble fragmented tool calls', () => {
+      const accumulator = new ToolCallDeltaAccumulator();
+      accumulator.add([
+        { index: 0, id: 'call_a', function: { name: 'read_file' } },
+      ]);
+      accumulator.add([{ index: 0, function: { arguments: '{"abs' } }]);
+      accumulator.add([
+        { index: 0, function: { arguments: 'olute_path":"/a"}' } },
+        { index: 1, id: 'call_b', function: { name: 'ls', arguments: '{}' } },
+      ]);
+
+      expect(accumulator.hasCalls()).toBe(true);
+      expect(accumulator.flush()).toEqual([
+        { id: 'call_a', name: 'read_file', args: { absolute_path: '/a' } },
+        { id: 'call_b', name: 'ls', args: {} },
+      ]);
+      expect(accumulator.hasCalls()).toBe(false);
+    });
+  });
+
+  describe('fromOpenAICompatibleToolCalls', () => {
+    it('should parse tool call arguments', () => {
+      expect(
+        fromOpenAICompatibleToolCalls([
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'grep', arguments: '{"pattern":"foo"}' },
+          },
+        ]),
+      ).toEqual([{ id: 'call_1', name: 'grep', args: { pattern: 'foo' } }]);
+    });
+  });
+
+  describe('parseFunctionArgs', () => {
+    it('should keep malformed arguments for the tool to report', () => {
+      expect(parseFunctionArgs('{not json')).toEqual({
+        raw_arguments: '{not json',
+      });
+      expect(parseFunctionArgs('')).toEqual({});
+    });
+  });
+
+  describe('createResponseParts', () => {
+    it('should omit empty text when there are function calls', () => {
+      expect(createResponseParts('', [{ name: 'ls', args: {} }])).toEqual([
+        { functionCall: { name: 'ls', args: {} } },
+      ]);
+    });
+  });
+});
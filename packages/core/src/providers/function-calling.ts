@@ -0,0 +1,474 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import {
+  Content,
+  FunctionCall,
+  FunctionDeclaration,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Schema,
+} from '@google/genai';
+import {
+  describeOmittedMedia,
+  isImageMimeType,
+  MediaSupportPredicate,
+  PDF_MIME_TYPE,
+  toDataUrl,
+  toMediaPart,
+} from './multimodal.js';
+
+/**
+ * Tool definition in the OpenAI chat completions format. OpenAI, Mistral and
+ * OpenRouter all accept this shape.
+ */
+export interface OpenAICompatibleTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenAICompatibleToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A content block of a multimodal user message. Images use `image_url`;
+ * PDFs use the `file` block understood by OpenAI and OpenRouter.
+ */
+export type OpenAICompatibleContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename?: string; file_data: string } };
+
+export interface OpenAICompatibleMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAICompatibleContentPart[] | null;
+  tool_calls?: OpenAICompatibleToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/**
+ * A single streamed tool call fragment as sent in `choices[].delta.tool_calls`.
+ */
+export interface OpenAICompatibleToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * Collects every function declaration from the `tools` of a request config.
+ */
+export function getFunctionDeclarations(
+  config?: GenerateContentConfig,
+): FunctionDeclaration[] {
+  const declarations: FunctionDeclaration[] = [];
+  for (const tool of config?.tools ?? []) {
+    if ('functionDeclarations' in tool && tool.functionDeclarations) {
+      declarations.push(...tool.functionDeclarations);
+    }
+  }
+  return declarations.filter((declaration) => !!declaration.name);
+}
+
+/**
+ * Converts a Gemini `Schema` into a plain JSON schema. Gemini uses upper-case
+ * type names (`OBJECT`, `STRING`, ...) while every other vendor expects the
+ * lower-case JSON schema spelling.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    switch (key) {
+      case 'type':
+        result.type = String(value).toLowerCase();
+        break;
+      case 'properties':
+        result.properties = Object.fromEntries(
+          Object.entries(value as Record<string, Schema>).map(
+            ([name, property]) => [name, toJsonSchema(property)],
+          ),
+        );
+        break;
+      case 'items':
+        result.items = toJsonSchema(value as Schema);
+        break;
+      case 'anyOf':
+        result.anyOf = (value as Schema[]).map((item) => toJsonSchema(item));
+        break;
+      case 'propertyOrdering':
+        // Gemini-only hint, not part of JSON schema.
+        break;
+      case 'minItems':
+      case 'maxItems':
+      case 'minLength':
+      case 'maxLength':
+      case 'minProperties':
+      case 'maxProperties':
+        // Gemini encodes these as strings (int64).
+        result[key] = Number(value);
+        break;
+      default:
+        result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the JSON schema for a declaration's parameters, defaulting to an
+ * empty object schema for tools that take no arguments.
+ */
+export function getParametersJsonSchema(
+  declaration: FunctionDeclaration,
+): Record<string, unknown> {
+  if (declaration.parametersJsonSchema) {
+    return declaration.parametersJsonSchema as Record<string, unknown>;
+  }
+  if (declaration.parameters) {
+    return toJsonSchema(declaration.parameters);
+  }
+  return { type: 'object', properties: {} };
+}
+
+export function toOpenAICompatibleTools(
+  declarations: FunctionDeclaration[],
+): OpenAICompatibleTool[] {
+  return declarations.map((declaration) => ({
+    type: 'function',
+    function: {
+      name: declaration.name!,
+      description: declaration.description,
+      parameters: getParametersJsonSchema(declaration),
+    },
+  }));
+}
+
+export function createToolCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Parses the JSON-encoded arguments of a tool call. Models occasionally emit
+ * malformed JSON; in that case the raw string is passed through so the tool's
+ * parameter validation can report a useful error back to the model.
+ */
+export function parseFunctionArgs(
+  rawArgs: string | undefined,
+): Record<string, unknown> {
+  if (!rawArgs || !rawArgs.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(rawArgs);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : { value: parsed };
+  } catch {
+    return { raw_arguments: rawArgs };
+  }
+}
+
+/**
+ * Flattens a `functionResponse.response` object into the string payload
+ * expected by vendor tool-result messages.
+ */
+export function serializeFunctionResponse(
+  response: Record<string, unknown> | undefined,
+): string {
+  if (!response) {
+    return '';
+  }
+  if (typeof response.output === 'string') {
+    return response.output;
+  }
+  if (typeof response.error === 'string') {
+    return `Error: ${response.error}`;
+  }
+  return JSON.stringify(response);
+}
+
+/**
+ * Assigns stable ids to function calls that lack one (e.g. history produced
+ * by Gemini) so that the matching function responses can reference them.
+ */
+export class ToolCallIdResolver {
+  private readonly pendingIdsByName = new Map<string, string[]>();
+
+  idForCall(call: FunctionCall): string {
+    const id = call.id || createToolCallId();
+    const name = call.name ?? '';
+    const pending = this.pendingIdsByName.get(name) ?? [];
+    pending.push(id);
+    this.pendingIdsByName.set(name, pending);
+    return id;
+  }
+
+  idForResponse(response: { id?: string; name?: string }): string {
+    const name = response.name ?? '';
+    const pending = this.pendingIdsByName.get(name) ?? [];
+    const index = response.id ? pending.indexOf(response.id) : -1;
+    if (index !== -1) {
+      pending.splice(index, 1);
+      return response.id!;
+    }
+    // Gemini's calls have no id while their responses carry the scheduler's
+    // call id, so an unknown id belongs to the oldest call still waiting.
+    return pending.shift() ?? response.id ?? createToolCallId();
+  }
+}
+
+function getTextFromParts(parts: Part[]): string {
+  return parts
+    .filter((part) => typeof part.text === 'string' && !part.thought)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Converts `inlineData` / `fileData` parts into content blocks. Media the
+ * model cannot accept is replaced by a short text note.
+ */
+function toOpenAICompatibleMediaParts(
+  parts: Part[],
+  supportsMedia: MediaSupportPredicate,
+): OpenAICompatibleContentPart[] {
+  const result: OpenAICompatibleContentPart[] = [];
+  for (const part of parts) {
+    const media = toMediaPart(part);
+    if (!media) {
+      continue;
+    }
+    if (!supportsMedia(media.mimeType)) {
+      result.push({ type: 'text', text: describeOmittedMedia(media) });
+    } else if (isImageMimeType(media.mimeType)) {
+      result.push({ type: 'image_url', image_url: { url: toDataUrl(media) } });
+    } else if (media.mimeType === PDF_MIME_TYPE && media.data) {
+      result.push({
+        type: 'file',
+        file: {
+          filename: media.displayName ?? 'document.pdf',
+          file_data: toDataUrl(media),
+        },
+      });
+    } else {
+      result.push({ type: 'text', text: describeOmittedMedia(media) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts Gemini `Content[]` into OpenAI-style chat messages, turning
+ * `functionCall` parts into assistant `tool_calls` and `functionResponse`
+ * parts into `tool` messages. Images and PDFs become content blocks of the
+ * user message when `supportsMedia` accepts them.
+ */
+export function toOpenAICompatibleMessages(
+  contents: Content[],
+  supportsMedia: MediaSupportPredicate = () => false,
+): OpenAICompatibleMessage[] {
+  const messages: OpenAICompatibleMessage[] = [];
+  const idResolver = new ToolCallIdResolver();
+
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+
+    if (content.role === 'model') {
+      const text = getTextFromParts(parts);
+      const toolCalls: OpenAICompatibleToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map((part) => ({
+          id: idResolver.idForCall(part.functionCall!),
+          type: 'function',
+          function: {
+            name: part.functionCall!.name ?? '',
+            arguments: JSON.stringify(part.functionCall!.args ?? {}),
+          },
+        }));
+
+      const message: OpenAICompatibleMessage = {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+      };
+      if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls;
+      }
+      messages.push(message);
+      continue;
+    }
+
+    // Tool results must directly follow the assistant message that requested
+    // them, so they are emitted before any accompanying user text.
+    for (const part of parts) {
+      if (part.functionResponse) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: idResolver.idForResponse(part.functionResponse),
+          name: part.functionResponse.name,
+          content: serializeFunctionResponse(part.functionResponse.response),
+        });
+      }
+    }
+
+    const text = getTextFromParts(parts);
+    const hasFunctionResponse = parts.some((part) => part.functionResponse);
+    const mediaParts =
+      content.role === 'system'
+        ? []
+        : toOpenAICompatibleMediaParts(parts, supportsMedia);
+
+    if (mediaParts.some((part) => part.type !== 'text')) {
+      // Media can only be attached to user messages, so a tool's image ends
+      // up in the user turn that follows its tool result.
+      messages.push({
+        role: 'user',
+        content: text ? [{ type: 'text', text }, ...mediaParts] : mediaParts,
+      });
+    } else if (text || mediaParts.length > 0 || !hasFunctionResponse) {
+      // Keep plain string content when nothing but text is left; several
+      // local servers reject content arrays.
+      const notes = mediaParts.map((part) =>
+        part.type === 'text' ? part.text : '',
+      );
+      messages.push({
+        role: content.role === 'system' ? 'system' : 'user',
+        content: [text, ...notes].filter(Boolean).join('\n'),
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Reassembles tool calls from streamed `delta.tool_calls` fragments. The
+ * arguments of a single call usually arrive spread over many chunks.
+ */
+export class ToolCallDeltaAccumulator {
+  private readonly calls = new Map<
+    number,
+    { id?: string; name: string; arguments: string }
+  >();
+
+  add(deltas: OpenAICompatibleToolCallDelta[] | undefined): void {
+    for (const delta of deltas ?? []) {
+      // Some servers (e.g. Mistral) send complete calls without an index.
+      const index = delta.index ?? this.calls.size;
+      const existing = this.calls.get(index) ?? { name: '', arguments: '' };
+      if (delta.id) {
+        existing.id = delta.id;
+      }
+      if (delta.function?.name) {
+        existing.name += delta.function.name;
+      }
+      if (delta.function?.arguments) {
+        existing.arguments += delta.function.arguments;
+      }
+      this.calls.set(index, existing);
+    }
+  }
+
+  hasCalls(): boolean {
+    return this.calls.size > 0;
+  }
+
+  /**
+   * Returns the completed calls and resets the accumulator.
+   */
+  flush(): FunctionCall[] {
+    const result = [...this.calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({
+        id: call.id || createToolCallId(),
+        name: call.name,
+        args: parseFunctionArgs(call.arguments),
+      }));
+    this.calls.clear();
+    return result;
+  }
+}
+
+/**
+ * Token usage in the OpenAI chat completions format. Streams only report it
+ * on their final chunk.
+ */
+export interface OpenAICompatibleUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export function fromOpenAICompatibleUsage(
+  usage: OpenAICompatibleUsage | null | undefined,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    promptTokenCount: usage.prompt_tokens ?? 0,
+    candidatesTokenCount: usage.completion_tokens ?? 0,
+    totalTokenCount: usage.total_tokens ?? 0,
+  };
+}
+
+export function fromOpenAICompatibleToolCalls(
+  toolCalls: OpenAICompatibleToolCall[] | undefined,
+): FunctionCall[] {
+  return (toolCalls ?? [])
+    .filter((toolCall) => toolCall.function?.name)
+    .map((toolCall) => ({
+      id: toolCall.id || createToolCallId(),
+      name: toolCall.function.name,
+      args: parseFunctionArgs(toolCall.function.arguments),
+    }));
+}
+
+/**
+ * Builds the model parts for a response. Empty text parts are omitted because
+ * `EnfiyChat` treats them as invalid content and would drop the tool calls
+ * from the curated history.
+ */
+export function createResponseParts(
+  text: string,
+  functionCalls: FunctionCall[],
+): Part[] {
+  const parts: Part[] = [];
+  if (text) {
+    parts.push({ text });
+  }
+  for (const functionCall of functionCalls) {
+    parts.push({ functionCall });
+  }
+  if (parts.length === 0) {
+    parts.push({ text: '' });
+  }
+  return parts;
+}
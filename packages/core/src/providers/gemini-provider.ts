@@ -89,6 +89,7 @@ export class GeminiProvider implements Provider {
     return {
       supportsStreaming: true,
       supportsVision: true,
+      supportsPdf: true,
       supportsAudio: true,
       supportsFunctionCalling: true,
       supportsSystemPrompts: true,
@@ -96,6 +97,11 @@ export class GeminiProvider implements Provider {
     };
   }
 
+  supportsMediaType(_mimeType: string, _model?: string): boolean {
+    // Gemini takes inlineData parts natively
+    return true;
+  }
+
   getAuthInstructions(): string {
     return 'Get your API key from https://makersuite.google.com/app/apikey';
   }
@@ -14,12 +14,23 @@ import {
   GenerateContentResponse,
   GenerateContentConfig,
   FinishReason,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
-
-interface MistralMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+import {
+  createResponseParts,
+  fromOpenAICompatibleToolCalls,
+  fromOpenAICompatibleUsage,
+  getFunctionDeclarations,
+  OpenAICompatibleMessage,
+  OpenAICompatibleToolCall,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+  ToolCallDeltaAccumulator,
+} from './function-calling.js';
+import { WEB_IMAGE_MIME_TYPES } from './multimodal.js';
+
+type MistralMessage = OpenAICompatibleMessage;
 
 interface MistralResponse {
   id: string;
@@ -30,9 +41,10 @@ interface MistralResponse {
     index: number;
     message: {
       role: 'assistant';
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAICompatibleToolCall[];
     };
-    finish_reason: 'stop' | 'length' | 'model_length';
+    finish_reason: 'stop' | 'length' | 'model_length' | 'tool_calls';
   }>;
   usage: {
     prompt_tokens: number;
@@ -105,21 +117,35 @@ export class MistralProvider extends BaseProvider {
     ];
   }
 
-  private convertToMistralMessages(contents: Content[]): MistralMessage[] {
-    return contents.map((content) => {
-      const textParts = content.parts?.filter((part) => 'text' in part) || [];
-      const text = textParts
-        .map((part) => (part as { text: string }).text)
-        .join('\n');
-
-      return {
-        role:
-          content.role === 'model'
-            ? 'assistant'
-            : (content.role as 'system' | 'user' | 'assistant'),
-        content: text,
-      };
-    });
+  private convertToMistralMessages(
+    contents: Content[],
+    model: string,
+  ): MistralMessage[] {
+    return toOpenAICompatibleMessages(contents, (mimeType) =>
+      this.supportsMediaType(mimeType, model),
+    );
+  }
+
+  private getTools(config?: GenerateContentConfig) {
+    const declarations = getFunctionDeclarations(config);
+    return declarations.length > 0
+      ? toOpenAICompatibleTools(declarations)
+      : undefined;
+  }
+
+  private mapFinishReason(
+    finishReason: string | null | undefined,
+  ): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+      case 'tool_calls':
+        return FinishReason.STOP;
+      case 'length':
+      case 'model_length':
+        return FinishReason.MAX_TOKENS;
+      default:
+        return FinishReason.OTHER;
+    }
   }
 
   protected convertToStandardResponse(
@@ -127,18 +153,18 @@ export class MistralProvider extends BaseProvider {
   ): GenerateContentResponse {
     const choice = response.choices[0];
     const content = choice?.message?.content || '';
+    const functionCalls = fromOpenAICompatibleToolCalls(
+      choice?.message?.tool_calls,
+    );
 
     const standardResponse = {
       candidates: [
         {
           content: {
             role: 'model',
-            parts: [{ text: content }],
+            parts: createResponseParts(content, functionCalls),
           },
-          finishReason:
-            choice?.finish_reason === 'stop'
-              ? FinishReason.STOP
-              : FinishReason.OTHER,
+          finishReason: this.mapFinishReason(choice?.finish_reason),
           index: 0,
           safetyRatings: [],
         },
@@ -151,7 +177,7 @@ export class MistralProvider extends BaseProvider {
       // Add required properties for compatibility
       text: content,
       data: null,
-      functionCalls: [],
+      functionCalls,
       executableCode: undefined,
       codeExecutionResult: null,
     };
@@ -159,6 +185,29 @@ export class MistralProvider extends BaseProvider {
     return standardResponse as unknown as GenerateContentResponse;
   }
 
+  async embedTexts(params: {
+    model: string;
+    texts: string[];
+  }): Promise<number[][]> {
+    const response = await this.makeApiRequest('/embeddings', {
+      method: 'POST',
+      body: JSON.stringify({ model: params.model, input: params.texts }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        `Mistral API Error: ${errorData.message || response.statusText}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      data?: Array<{ index: number; embedding: number[] }>;
+    };
+    return [...(data.data ?? [])]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
   private async makeApiRequest(
     endpoint: string,
     options?: RequestInit,
@@ -184,7 +233,10 @@ export class MistralProvider extends BaseProvider {
     contents: Content[];
     config?: GenerateContentConfig;
   }): Promise<GenerateContentResponse> {
-    const messages = this.convertToMistralMessages(params.contents);
+    const messages = this.convertToMistralMessages(
+      params.contents,
+      params.model,
+    );
 
     // Handle system instruction
     if (params.config?.systemInstruction) {
@@ -216,6 +268,7 @@ export class MistralProvider extends BaseProvider {
       temperature: params.config?.temperature || 0.7,
       max_tokens: params.config?.maxOutputTokens || 4096,
       top_p: params.config?.topP || 1,
+      tools: this.getTools(params.config),
       stream: false,
     };
 
@@ -244,7 +297,10 @@ export class MistralProvider extends BaseProvider {
     contents: Content[];
     config?: GenerateContentConfig;
   }): Promise<AsyncGenerator<GenerateContentResponse>> {
-    const messages = this.convertToMistralMessages(params.contents);
+    const messages = this.convertToMistralMessages(
+      params.contents,
+      params.model,
+    );
 
     // Handle system instruction
     if (params.config?.systemInstruction) {
@@ -276,6 +332,7 @@ export class MistralProvider extends BaseProvider {
       temperature: params.config?.temperature || 0.7,
       max_tokens: params.config?.maxOutputTokens || 4096,
       top_p: params.config?.topP || 1,
+      tools: this.getTools(params.config),
       stream: true,
     };
 
@@ -303,59 +360,67 @@ export class MistralProvider extends BaseProvider {
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
-    // let _accumulatedContent = '';
+    const toolCalls = new ToolCallDeltaAccumulator();
+    // The usage of the whole response arrives with the final chunk.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let buffer = '';
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep a trailing partial line for the next read; tool call payloads
+        // are often larger than a single network chunk.
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             const data = line.slice(6);
             if (data === '[DONE]') {
+              if (toolCalls.hasCalls()) {
+                yield this.createStreamResponse(
+                  '',
+                  toolCalls.flush(),
+                  FinishReason.STOP,
+                );
+              }
+              if (usage) {
+                yield this.createStreamResponse(
+                  '',
+                  [],
+                  FinishReason.STOP,
+                  usage,
+                );
+              }
               return;
             }
 
             try {
               const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
+              usage = fromOpenAICompatibleUsage(parsed.usage) ?? usage;
+              const choice = parsed.choices?.[0];
+              const delta = choice?.delta?.content;
+              toolCalls.add(choice?.delta?.tool_calls);
 
               if (delta) {
-                // accumulatedContent += delta;
-
-                const streamResponse = {
-                  candidates: [
-                    {
-                      content: {
-                        role: 'model',
-                        parts: [{ text: delta }], // Only yield the new delta, not accumulated content
-                      },
-                      finishReason:
-                        parsed.choices?.[0]?.finish_reason === 'stop'
-                          ? FinishReason.STOP
-                          : FinishReason.OTHER,
-                      index: 0,
-                      safetyRatings: [],
-                    },
-                  ],
-                  usageMetadata: {
-                    promptTokenCount: 0,
-                    candidatesTokenCount: 0,
-                    totalTokenCount: 0,
-                  },
-                  // Add required properties
-                  text: delta, // Only yield the new delta, not accumulated content
-                  data: null,
-                  functionCalls: [],
-                  executableCode: undefined,
-                  codeExecutionResult: null,
-                };
-
-                yield streamResponse as unknown as GenerateContentResponse;
+                yield this.createStreamResponse(
+                  delta,
+                  [],
+                  choice?.finish_reason === 'stop'
+                    ? FinishReason.STOP
+                    : FinishReason.OTHER,
+                );
+              }
+
+              if (choice?.finish_reason && toolCalls.hasCalls()) {
+                yield this.createStreamResponse(
+                  '',
+                  toolCalls.flush(),
+                  this.mapFinishReason(choice.finish_reason),
+                );
               }
             } catch {
               // Ignore malformed JSON
@@ -363,19 +428,70 @@ export class MistralProvider extends BaseProvider {
           }
         }
       }
+
+      if (toolCalls.hasCalls()) {
+        yield this.createStreamResponse(
+          '',
+          toolCalls.flush(),
+          FinishReason.STOP,
+        );
+      }
+      if (usage) {
+        yield this.createStreamResponse('', [], FinishReason.STOP, usage);
+      }
     } finally {
       reader.releaseLock();
     }
   }
 
+  private createStreamResponse(
+    text: string,
+    functionCalls: FunctionCall[],
+    finishReason: FinishReason,
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+  ): GenerateContentResponse {
+    const streamResponse = {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: createResponseParts(text, functionCalls),
+          },
+          finishReason,
+          index: 0,
+          safetyRatings: [],
+        },
+      ],
+      usageMetadata,
+      // Add required properties
+      text, // Only yield the new delta, not accumulated content
+      data: null,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: null,
+    };
+
+    return streamResponse as unknown as GenerateContentResponse;
+  }
+
   getCapabilities() {
     return {
       supportsStreaming: true,
       supportsVision: false,
+      supportsPdf: false,
       supportsAudio: false,
       supportsFunctionCalling: true,
       supportsSystemPrompts: true,
       maxContextLength: 32768, // Mistral context length
     };
   }
+
+  supportsMediaType(mimeType: string, model?: string): boolean {
+    // Only Pixtral and the newer Small/Medium releases accept images
+    const modelName = model?.replace(/^models\//, '') ?? '';
+    return (
+      WEB_IMAGE_MIME_TYPES.includes(mimeType) &&
+      /^(pixtral|mistral-small-(latest|25)|mistral-medium)/.test(modelName)
+    );
+  }
 }
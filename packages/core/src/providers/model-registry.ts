@@ -966,6 +966,32 @@ export function findModel(modelId: string): ModelInfo | undefined {
   return getAllModels().find((model) => model.id === modelId);
 }
 
+/**
+ * Resolves a model id as reported by a provider to its registry entry.
+ * Dated snapshots such as `gpt-4o-2024-08-06` resolve to the longest
+ * registered id they start with, and a `models/` prefix is ignored. When a
+ * provider is given, its own entries take precedence.
+ */
+export function findModelByPrefix(
+  modelId: string,
+  provider?: ProviderType,
+): ModelInfo | undefined {
+  const id = modelId.replace(/^models\//, '');
+  const candidates = provider
+    ? [...getModelsForProvider(provider), ...getAllModels()]
+    : getAllModels();
+  let best: ModelInfo | undefined;
+  for (const info of candidates) {
+    if (info.id === id) {
+      return info;
+    }
+    if (id.startsWith(info.id) && (!best || info.id.length > best.id.length)) {
+      best = info;
+    }
+  }
+  return best;
+}
+
 export function findModelByPartialMatch(partialId: string): ModelInfo[] {
   const searchTerm = partialId.toLowerCase();
   return getAllModels().filter(
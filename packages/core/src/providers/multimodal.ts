@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import { Part } from '@google/genai';
+
+/**
+ * Image formats accepted by the OpenAI, Anthropic and Mistral vision APIs.
+ * Other formats (SVG, BMP, ...) have to be converted before they can be sent.
+ */
+export const WEB_IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+/**
+ * Decides whether the target model can accept inline media of a MIME type.
+ */
+export type MediaSupportPredicate = (mimeType: string) => boolean;
+
+/**
+ * A media part normalized from Gemini `inlineData` or `fileData`. Exactly one
+ * of `data` (base64) and `uri` is set.
+ */
+export interface MediaPart {
+  mimeType: string;
+  data?: string;
+  uri?: string;
+  displayName?: string;
+}
+
+export function toMediaPart(part: Part): MediaPart | undefined {
+  if (part.inlineData?.data) {
+    return {
+      mimeType: part.inlineData.mimeType || 'application/octet-stream',
+      data: part.inlineData.data,
+      displayName: part.inlineData.displayName,
+    };
+  }
+  if (part.fileData?.fileUri) {
+    return {
+      mimeType: part.fileData.mimeType || 'application/octet-stream',
+      uri: part.fileData.fileUri,
+      displayName: part.fileData.displayName,
+    };
+  }
+  return undefined;
+}
+
+export function isImageMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+/**
+ * Returns the media as a URL: remote `fileData` URIs are passed through and
+ * inline data becomes a base64 data URL.
+ */
+export function toDataUrl(media: MediaPart): string {
+  return media.uri ?? `data:${media.mimeType};base64,${media.data}`;
+}
+
+/**
+ * Text sent in place of media the target model cannot read, so the model
+ * still knows that a file was attached.
+ */
+export function describeOmittedMedia(media: MediaPart): string {
+  const name = media.displayName ? ` (${media.displayName})` : '';
+  return `[${media.mimeType} content${name} omitted: the current model cannot read this file type]`;
+}
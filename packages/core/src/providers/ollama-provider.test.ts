@@ -0,0 +1,304 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateContentConfig } from '@google/genai';
+import { OllamaProvider } from './ollama-provider.js';
+import { ProviderType } from './types.js';
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const toolConfig: GenerateContentConfig = {
+  tools: [
+    {
+      functionDeclarations: [
+        {
+          name: 'read_file',
+          description: 'Reads a file',
+          parameters: {
+            type: 'object',
+            properties: { absolute_path: { type: 'string' } },
+          } as never,
+        },
+      ],
+    },
+  ],
+};
+
+describe('OllamaProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: OllamaProvider;
+
+  beforeEach(async () => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ version: '0.9.0' }));
+    provider = new OllamaProvider();
+    await provider.initialize({
+      type: ProviderType.OLLAMA,
+      model: 'qwen3:8b',
+      baseUrl: 'http://localhost:11434',
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('supportsToolCalling', () => {
+    it('should read the tools capability from /api/show', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ capabilities: ['completion', 'tools'] }),
+      );
+
+      await expect(provider.supportsToolCalling('qwen3:8b')).resolves.toBe(
+        true,
+      );
+      // Cached for subsequent requests.
+      await expect(provider.supportsToolCalling('qwen3:8b')).resolves.toBe(
+        true,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the template for older servers', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ template: '{{- if .Tools }}...{{ end }}' }),
+      );
+      await expect(provider.supportsToolCalling('llama3.1:8b')).resolves.toBe(
+        true,
+      );
+
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ template: '{{ .Prompt }}' }),
+      );
+      await expect(provider.supportsToolCalling('codellama:7b')).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should use /api/chat with tools when the model supports them', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ capabilities: ['tools'] }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            model: 'qwen3:8b',
+            created_at: '',
+            done: true,
+            message: {
+              role: 'assistant',
+              content: '',
+              tool_calls: [
+                {
+                  function: {
+                    name: 'read_file',
+                    arguments: { absolute_path: '/tmp/a.txt' },
+                  },
+                },
+              ],
+            },
+            prompt_eval_count: 10,
+            eval_count: 5,
+          }),
+        );
+
+      const response = await provider.generateContent({
+        model: 'qwen3:8b',
+        contents: [{ role: 'user', parts: [{ text: 'Read /tmp/a.txt' }] }],
+        config: { ...toolConfig, systemInstruction: 'Be helpful' },
+      });
+
+      const [url, init] = fetchMock.mock.calls[2];
+      expect(url).toBe('http://localhost:11434/api/chat');
+      const body = JSON.parse(init.body);
+      expect(body.tools[0].function.name).toBe('read_file');
+      expect(body.messages[0]).toEqual({
+        role: 'system',
+        content: 'Be helpful',
+      });
+
+      expect(response.functionCalls).toEqual([
+        expect.objectContaining({
+          name: 'read_file',
+          args: { absolute_path: '/tmp/a.txt' },
+        }),
+      ]);
+      expect(response.usageMetadata?.totalTokenCount).toBe(15);
+    });
+
+    it('should send tool results back as tool messages', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ capabilities: ['tools'] }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            model: 'qwen3:8b',
+            created_at: '',
+            done: true,
+            message: { role: 'assistant', content: 'Done' },
+          }),
+        );
+
+      await provider.generateContent({
+        model: 'qwen3:8b',
+        contents: [
+          { role: 'user', parts: [{ text: 'Read it' }] },
+          {
+            role: 'model',
+            parts: [
+              {
+                functionCall: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  args: { absolute_path: '/a' },
+                },
+              },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  response: { output: 'hello' },
+                },
+              },
+            ],
+          },
+        ],
+        config: toolConfig,
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[2][1].body);
+      expect(body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              function: {
+                name: 'read_file',
+                arguments: { absolute_path: '/a' },
+              },
+            },
+          ],
+        },
+        { role: 'tool', content: 'hello', tool_name: 'read_file' },
+      ]);
+    });
+
+    it('should use /api/generate when the model lacks tool support', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ capabilities: ['completion'] }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            model: 'codellama:7b',
+            created_at: '',
+            response: 'Hello',
+            done: true,
+          }),
+        );
+
+      const response = await provider.generateContent({
+        model: 'codellama:7b',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        config: toolConfig,
+      });
+
+      expect(fetchMock.mock.calls[2][0]).toBe(
+        'http://localhost:11434/api/generate',
+      );
+      expect(response.text).toBe('Hello');
+    });
+  });
+
+  describe('generateContentStream', () => {
+    it('should stream thinking as thought parts ahead of the answer', async () => {
+      const lines = [
+        { message: { role: 'assistant', content: '', thinking: 'Hmm, ' } },
+        {
+          message: {
+            role: 'assistant',
+            content: '',
+            thinking: 'a greeting.',
+          },
+        },
+        { message: { role: 'assistant', content: 'Hello!' } },
+        { message: { role: 'assistant', content: '' }, done: true },
+      ];
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse({ capabilities: ['completion', 'tools', 'thinking'] }),
+        )
+        .mockResolvedValueOnce(
+          new Response(lines.map((line) => JSON.stringify(line)).join('\n')),
+        );
+
+      const stream = await provider.generateContentStream({
+        model: 'qwen3:8b',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        config: {
+          ...toolConfig,
+          thinkingConfig: { includeThoughts: true },
+        },
+      });
+      const parts = [];
+      for await (const chunk of stream) {
+        parts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+      }
+
+      expect(JSON.parse(fetchMock.mock.calls[2][1].body).think).toBe(true);
+      expect(parts.filter((part) => part.text)).toEqual([
+        {
+          text: '**Hmm, a greeting.** Hmm, a greeting.',
+          thought: true,
+        },
+        { text: 'Hello!' },
+      ]);
+    });
+  });
+
+  describe('embedTexts', () => {
+    it('should embed a batch through /api/embed', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({
+          model: 'nomic-embed-text',
+          embeddings: [
+            [0.1, 0.2],
+            [0.3, 0.4],
+          ],
+        }),
+      );
+
+      const vectors = await provider.embedTexts({
+        model: 'nomic-embed-text',
+        texts: ['a', 'b'],
+      });
+
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe('http://localhost:11434/api/embed');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'nomic-embed-text',
+        input: ['a', 'b'],
+      });
+      expect(vectors).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+    });
+  });
+});
@@ -13,6 +13,7 @@ import {
   GenerateContentConfig,
   Part,
   FinishReason,
+  FunctionCall,
 } from '@google/genai';
 import { ProviderType, ProviderConfig } from './types.js';
 import { BaseProvider } from './base-provider.js';
@@ -21,11 +22,28 @@ import {
   FileDetectionService,
   FileDetectionConfig,
 } from '../utils/file-detection.js';
+import {
+  createResponseParts,
+  createToolCallId,
+  getFunctionDeclarations,
+  OpenAICompatibleTool,
+  parseFunctionArgs,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+} from './function-calling.js';
+import {
+  createThoughtResponse,
+  getReasoningOptions,
+  ReasoningStream,
+  stripThinkTags,
+  ThinkTagParser,
+} from './reasoning.js';
 
 interface OllamaResponse {
   model: string;
   created_at: string;
   response: string;
+  thinking?: string;
   done: boolean;
   context?: number[];
   total_duration?: number;
@@ -52,15 +70,38 @@ interface OllamaModel {
   };
 }
 
-interface ToolCall {
-  id: string;
-  name: 'write_file';
-  args: {
-    file_path: string;
-    content: string;
+interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    // Ollama returns an object; some OpenAI-style gateways send a JSON string.
+    arguments: Record<string, unknown> | string;
   };
 }
 
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: OllamaChatMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaShowResponse {
+  capabilities?: string[];
+  template?: string;
+}
+
 export class OllamaProvider extends BaseProvider {
   readonly type = ProviderType.OLLAMA;
   readonly name = 'Ollama';
@@ -69,6 +110,10 @@ export class OllamaProvider extends BaseProvider {
   private model: string = 'llama3.2:3b';
   private timeout: number = 120000; // Increased timeout to 2 minutes
   private fileDetectionService: FileDetectionService | null = null;
+  private capabilityCache = new Map<
+    string,
+    { tools: boolean; thinking: boolean }
+  >();
 
   protected async performInitialization(config: ProviderConfig): Promise<void> {
     this.baseUrl = config.baseUrl || 'http://localhost:11434';
@@ -139,7 +184,7 @@ export class OllamaProvider extends BaseProvider {
       .join('\n\n');
   }
 
-  private parseTextBasedToolCalls(text: string): ToolCall[] {
+  private parseTextBasedToolCalls(text: string): FunctionCall[] {
     if (!this.fileDetectionService) {
       return [];
     }
@@ -156,7 +201,7 @@ export class OllamaProvider extends BaseProvider {
 
     // Convert detection results to tool calls
     return detectionResults.map((result) => ({
-      id: `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: createToolCallId(),
       name: 'write_file',
       args: {
         file_path: this.fileDetectionService!.createAbsolutePath(
@@ -170,7 +215,7 @@ export class OllamaProvider extends BaseProvider {
   private convertOllamaToGeminiResponse(
     ollamaResponse: OllamaResponse,
     isDone: boolean = true,
-    functionCalls: ToolCall[] = [],
+    functionCalls: FunctionCall[] = [],
   ): GenerateContentResponse {
     const responseText = ollamaResponse.response;
     const parts: Part[] = [{ text: responseText }];
@@ -206,11 +251,331 @@ export class OllamaProvider extends BaseProvider {
     return response;
   }
 
+  /**
+   * Reads a model's capabilities from `/api/show`. Newer Ollama versions
+   * list `tools` and `thinking` capabilities; older versions only expose the
+   * prompt template, which references `.Tools` when the model was trained
+   * for tool use.
+   */
+  private async getModelCapabilities(
+    model: string,
+  ): Promise<{ tools: boolean; thinking: boolean }> {
+    const cached = this.capabilityCache.get(model);
+    if (cached) {
+      return cached;
+    }
+
+    const capabilities = { tools: false, thinking: false };
+    try {
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, name: model }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (response.ok) {
+        const data = (await response.json()) as OllamaShowResponse;
+        if (Array.isArray(data.capabilities)) {
+          capabilities.tools = data.capabilities.includes('tools');
+          capabilities.thinking = data.capabilities.includes('thinking');
+        } else {
+          capabilities.tools = (data.template ?? '').includes('.Tools');
+        }
+      }
+    } catch {
+      // Treat unreachable metadata as "no tool support" and use the
+      // text-based fallback.
+    }
+
+    this.capabilityCache.set(model, capabilities);
+    return capabilities;
+  }
+
+  /**
+   * Checks whether a model can use native tool calling through `/api/chat`.
+   */
+  async supportsToolCalling(model: string): Promise<boolean> {
+    return (await this.getModelCapabilities(model)).tools;
+  }
+
+  private async shouldUseChatApi(
+    model: string,
+    config?: GenerateContentConfig,
+  ): Promise<boolean> {
+    if (getFunctionDeclarations(config).length === 0) {
+      return false;
+    }
+    return this.supportsToolCalling(model);
+  }
+
+  private getSystemText(config?: GenerateContentConfig): string {
+    if (!config?.systemInstruction) {
+      return '';
+    }
+    return typeof config.systemInstruction === 'string'
+      ? config.systemInstruction
+      : (
+          config.systemInstruction as {
+            parts?: Array<{ text: string }>;
+          }
+        ).parts
+          ?.map((p) => p.text)
+          .join('\n') || '';
+  }
+
+  private convertToOllamaChatMessages(
+    contents: Content[],
+    config?: GenerateContentConfig,
+  ): OllamaChatMessage[] {
+    const messages: OllamaChatMessage[] = toOpenAICompatibleMessages(
+      contents,
+    ).map((message) => {
+      const converted: OllamaChatMessage = {
+        role: message.role,
+        // Media is never attached for Ollama, so content is always text.
+        content: typeof message.content === 'string' ? message.content : '',
+      };
+      if (message.tool_calls) {
+        converted.tool_calls = message.tool_calls.map((toolCall) => ({
+          function: {
+            name: toolCall.function.name,
+            arguments: parseFunctionArgs(toolCall.function.arguments),
+          },
+        }));
+      }
+      if (message.role === 'tool' && message.name) {
+        converted.tool_name = message.name;
+      }
+      return converted;
+    });
+
+    const systemText = this.getSystemText(config);
+    if (systemText) {
+      messages.unshift({ role: 'system', content: systemText });
+    }
+
+    return messages;
+  }
+
+  private async buildChatRequest(
+    params: {
+      model: string;
+      contents: Content[];
+      config?: GenerateContentConfig;
+    },
+    stream: boolean,
+  ): Promise<{
+    model: string;
+    messages: OllamaChatMessage[];
+    tools: OpenAICompatibleTool[];
+    stream: boolean;
+    think?: boolean;
+    options: Record<string, number>;
+  }> {
+    const model = params.model || this.model;
+    // Thinking models reason by default; `think` turns the separate
+    // `thinking` field on or off. Other models reject the parameter.
+    const { thinking } = await this.getModelCapabilities(model);
+    return {
+      model,
+      ...(thinking
+        ? { think: getReasoningOptions(params.config).enabled }
+        : {}),
+      messages: this.convertToOllamaChatMessages(
+        params.contents,
+        params.config,
+      ),
+      tools: toOpenAICompatibleTools(getFunctionDeclarations(params.config)),
+      stream,
+      options: {
+        temperature: params.config?.temperature || 0.7,
+        top_p: params.config?.topP || 0.9,
+        top_k: params.config?.topK || 40,
+        // Tool calls carry whole file contents, so allow longer outputs than
+        // the text-only path.
+        num_predict: params.config?.maxOutputTokens || 4096,
+      },
+    };
+  }
+
+  private convertOllamaToolCalls(
+    toolCalls: OllamaToolCall[] | undefined,
+  ): FunctionCall[] {
+    return (toolCalls ?? [])
+      .filter((toolCall) => toolCall.function?.name)
+      .map((toolCall) => ({
+        id: toolCall.id || createToolCallId(),
+        name: toolCall.function.name,
+        args:
+          typeof toolCall.function.arguments === 'string'
+            ? parseFunctionArgs(toolCall.function.arguments)
+            : (toolCall.function.arguments ?? {}),
+      }));
+  }
+
+  private convertChatResponse(
+    data: OllamaChatResponse,
+  ): GenerateContentResponse {
+    const text = data.message?.content ?? '';
+    const functionCalls = this.convertOllamaToolCalls(data.message?.tool_calls);
+
+    return {
+      candidates: [
+        {
+          content: {
+            parts: createResponseParts(text, functionCalls),
+            role: 'model',
+          },
+          finishReason: data.done
+            ? data.done_reason === 'length'
+              ? FinishReason.MAX_TOKENS
+              : FinishReason.STOP
+            : undefined,
+          index: 0,
+        },
+      ],
+      usageMetadata: data.done
+        ? {
+            promptTokenCount: data.prompt_eval_count || 0,
+            candidatesTokenCount: data.eval_count || 0,
+            totalTokenCount:
+              (data.prompt_eval_count || 0) + (data.eval_count || 0),
+          }
+        : undefined,
+      text,
+      data: undefined,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: undefined,
+    };
+  }
+
+  async embedTexts(params: {
+    model: string;
+    texts: string[];
+  }): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: params.model, input: params.texts }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      await this.handleApiError(response);
+    }
+
+    const data = (await response.json()) as { embeddings?: number[][] };
+    return data.embeddings ?? [];
+  }
+
+  private async postChat(body: object): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      await this.handleApiError(response);
+    }
+
+    return response;
+  }
+
+  private async *createChatStreamGenerator(
+    response: Response,
+    showThoughts: boolean,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    // Models without Ollama's thinking support (e.g. older DeepSeek-R1
+    // builds) inline their reasoning in <think> tags.
+    const thinkTags = new ThinkTagParser();
+    const reasoning = new ReasoningStream();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+
+          let data: OllamaChatResponse;
+          try {
+            data = JSON.parse(line) as OllamaChatResponse;
+          } catch (_e) {
+            console.warn('Failed to parse Ollama response line:', line);
+            continue;
+          }
+
+          const split = data.done
+            ? joinSplits(
+                thinkTags.push(data.message?.content ?? ''),
+                thinkTags.flush(),
+              )
+            : thinkTags.push(data.message?.content ?? '');
+          if (showThoughts) {
+            let summary = reasoning.push(
+              (data.message?.thinking ?? '') + split.thought,
+            );
+            // Reasoning is over once the answer starts; show the remainder.
+            if (data.done || split.text) {
+              summary = reasoning.flush() ?? summary;
+            }
+            if (summary) {
+              yield createThoughtResponse(summary);
+            }
+          }
+          if (data.message) {
+            data.message.content = split.text;
+          }
+
+          yield this.convertChatResponse(data);
+          if (data.done) {
+            return;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   async generateContent(params: {
     model: string;
     contents: Content[];
     config?: GenerateContentConfig;
   }): Promise<GenerateContentResponse> {
+    if (
+      await this.shouldUseChatApi(params.model || this.model, params.config)
+    ) {
+      const response = await this.postChat(
+        await this.buildChatRequest(params, false),
+      );
+      const data = (await response.json()) as OllamaChatResponse;
+      if (data.message) {
+        data.message.content = stripThinkTags(data.message.content);
+      }
+      return this.convertChatResponse(data);
+    }
+
+    // Models without native tool support: fall back to detecting files in
+    // the generated text.
     let prompt = this.convertContentToPrompt(params.contents);
 
     // Add system instruction if provided
@@ -265,6 +630,7 @@ export class OllamaProvider extends BaseProvider {
     }
 
     const data = (await response.json()) as OllamaResponse;
+    data.response = stripThinkTags(data.response);
 
     // For non-streaming responses, parse tool calls from the complete response
     const toolCalls = this.parseTextBasedToolCalls(data.response);
@@ -288,6 +654,18 @@ export class OllamaProvider extends BaseProvider {
     contents: Content[];
     config?: GenerateContentConfig;
   }): Promise<AsyncGenerator<GenerateContentResponse>> {
+    if (
+      await this.shouldUseChatApi(params.model || this.model, params.config)
+    ) {
+      const response = await this.postChat(
+        await this.buildChatRequest(params, true),
+      );
+      return this.createChatStreamGenerator(
+        response,
+        getReasoningOptions(params.config).enabled,
+      );
+    }
+
     let prompt = this.convertContentToPrompt(params.contents);
 
     // Add system instruction if provided (same as generateContent)
@@ -341,11 +719,15 @@ export class OllamaProvider extends BaseProvider {
       await this.handleApiError(response);
     }
 
-    return this.createStreamGenerator(response);
+    return this.createStreamGenerator(
+      response,
+      getReasoningOptions(params.config).enabled,
+    );
   }
 
   private async *createStreamGenerator(
     response: Response,
+    showThoughts: boolean,
   ): AsyncGenerator<GenerateContentResponse> {
     const reader = response.body?.getReader();
     if (!reader) {
@@ -355,6 +737,8 @@ export class OllamaProvider extends BaseProvider {
     const decoder = new TextDecoder();
     let buffer = '';
     let accumulatedResponseText = ''; // Accumulate the full response text for tool calls only
+    const thinkTags = new ThinkTagParser();
+    const reasoning = new ReasoningStream();
 
     try {
       while (true) {
@@ -371,6 +755,22 @@ export class OllamaProvider extends BaseProvider {
             try {
               const data = JSON.parse(line) as OllamaResponse;
 
+              const split = data.done
+                ? joinSplits(thinkTags.push(data.response), thinkTags.flush())
+                : thinkTags.push(data.response);
+              if (showThoughts) {
+                let summary = reasoning.push(
+                  (data.thinking ?? '') + split.thought,
+                );
+                if (data.done || split.text) {
+                  summary = reasoning.flush() ?? summary;
+                }
+                if (summary) {
+                  yield createThoughtResponse(summary);
+                }
+              }
+              data.response = split.text;
+
               // Accumulate the response text for tool parsing
               accumulatedResponseText += data.response;
 
@@ -453,8 +853,9 @@ export class OllamaProvider extends BaseProvider {
     return {
       supportsStreaming: true,
       supportsVision: false,
+      supportsPdf: false,
       supportsAudio: false,
-      supportsFunctionCalling: true, // Enable text-based tool execution for Ollama
+      supportsFunctionCalling: true, // Native via /api/chat, text-based fallback otherwise
       supportsSystemPrompts: true,
       maxContextLength: 8192, // Varies by model
     };
@@ -590,3 +991,10 @@ export class OllamaProvider extends BaseProvider {
     return matrix[str2.length][str1.length];
   }
 }
+
+function joinSplits(
+  a: { thought: string; text: string },
+  b: { thought: string; text: string },
+): { thought: string; text: string } {
+  return { thought: a.thought + b.thought, text: a.text + b.text };
+}
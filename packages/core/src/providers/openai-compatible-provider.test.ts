@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  normalizeOpenAICompatibleBaseUrl,
+  OpenAICompatibleProvider,
+} from './openai-compatible-provider.js';
+import { ProviderType } from './types.js';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const sseResponse = (events: unknown[]) =>
+  new Response(
+    events
+      .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+      .join('')
+      .concat('data: [DONE]\n\n'),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } },
+  );
+
+describe('OpenAICompatibleProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(async () => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new OpenAICompatibleProvider();
+    await provider.initialize({
+      type: ProviderType.OPENAI_COMPATIBLE,
+      model: 'Qwen/Qwen2.5-Coder-7B-Instruct',
+      baseUrl: 'http://localhost:8000/',
+      headers: { 'X-Team': 'platform' },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('normalizeOpenAICompatibleBaseUrl', () => {
+    it('should accept URLs with or without the /v1 suffix', () => {
+      expect(normalizeOpenAICompatibleBaseUrl('http://localhost:1234')).toBe(
+        'http://localhost:1234/v1',
+      );
+      expect(normalizeOpenAICompatibleBaseUrl('http://gpu:8000/v1/')).toBe(
+        'http://gpu:8000/v1',
+      );
+    });
+  });
+
+  describe('listModels', () => {
+    it('should discover models from /v1/models', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({
+          object: 'list',
+          data: [
+            { id: 'Qwen/Qwen2.5-Coder-7B-Instruct', object: 'model' },
+            { id: 'meta-llama/Llama-3.1-8B-Instruct', object: 'model' },
+          ],
+        }),
+      );
+
+      await expect(provider.listModels()).resolves.toEqual([
+        'Qwen/Qwen2.5-Coder-7B-Instruct',
+        'meta-llama/Llama-3.1-8B-Instruct',
+      ]);
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'http://localhost:8000/v1/models',
+      );
+    });
+
+    it('should return an empty list when the server is unreachable', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      await expect(provider.listModels()).resolves.toEqual([]);
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should send custom headers and omit auth without an API key', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hello' },
+              finish_reason: 'stop',
+            },
+          ],
+        }),
+      );
+
+      const response = await provider.generateContent({
+        model: 'Qwen/Qwen2.5-Coder-7B-Instruct',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/chat/completions');
+      expect(init.headers).toEqual({
+        'Content-Type': 'application/json',
+        'X-Team': 'platform',
+      });
+      expect(JSON.parse(init.body).model).toBe(
+        'Qwen/Qwen2.5-Coder-7B-Instruct',
+      );
+      expect(JSON.parse(init.body).stream_options).toBeUndefined();
+      expect(response.text).toBe('Hello');
+      // Servers such as llama.cpp may omit usage entirely.
+      expect(response.usageMetadata?.totalTokenCount).toBe(0);
+    });
+
+    it('should surface the server error message', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(
+          { error: { message: 'The model `foo` does not exist.' } },
+          404,
+        ),
+      );
+
+      await expect(
+        provider.generateContent({
+          model: 'foo',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        }),
+      ).rejects.toThrow('The model `foo` does not exist.');
+    });
+  });
+
+  describe('generateContentStream', () => {
+    it('should stream text and assemble tool calls', async () => {
+      await provider.initialize({
+        type: ProviderType.OPENAI_COMPATIBLE,
+        model: 'local-model',
+        baseUrl: 'http://localhost:1234/v1',
+        apiKey: 'lm-studio',
+      });
+      fetchMock.mockResolvedValueOnce(
+        sseResponse([
+          { choices: [{ index: 0, delta: { content: 'Let me look.' } }] },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'call_1',
+                      function: { name: 'read_file', arguments: '{"absolute' },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: '_path":"/a"}' } },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          },
+          {
+            choices: [],
+            usage: {
+              prompt_tokens: 20,
+              completion_tokens: 8,
+              total_tokens: 28,
+            },
+          },
+        ]),
+      );
+
+      const stream = await provider.generateContentStream({
+        model: 'local-model',
+        contents: [{ role: 'user', parts: [{ text: 'Read /a' }] }],
+      });
+      const chunks = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+        'Bearer lm-studio',
+      );
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'Let me look.',
+        '',
+        '',
+      ]);
+      expect(chunks[1].functionCalls).toEqual([
+        { id: 'call_1', name: 'read_file', args: { absolute_path: '/a' } },
+      ]);
+      expect(chunks[2].usageMetadata).toEqual({
+        promptTokenCount: 20,
+        candidatesTokenCount: 8,
+        totalTokenCount: 28,
+      });
+    });
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import { BaseProvider } from './base-provider.js';
+import { ProviderConfig, ProviderType } from './types.js';
+import {
+  Content,
+  GenerateContentResponse,
+  GenerateContentConfig,
+  FinishReason,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import {
+  createResponseParts,
+  fromOpenAICompatibleToolCalls,
+  fromOpenAICompatibleUsage,
+  getFunctionDeclarations,
+  OpenAICompatibleMessage,
+  OpenAICompatibleToolCall,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+  ToolCallDeltaAccumulator,
+} from './function-calling.js';
+import {
+  createThoughtResponse,
+  getReasoningOptions,
+  ReasoningStream,
+  stripThinkTags,
+  ThinkTagParser,
+} from './reasoning.js';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8000/v1';
+
+interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAICompatibleToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+/**
+ * Normalizes a server URL to the `/v1` API root. Users paste both
+ * `http://host:8000` and `http://host:8000/v1`, so accept either.
+ */
+export function normalizeOpenAICompatibleBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Provider for self-hosted servers exposing the OpenAI chat completions API,
+ * such as vLLM, Text Generation Inference, LM Studio and llama.cpp server.
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+  readonly type = ProviderType.OPENAI_COMPATIBLE;
+  readonly name = 'OpenAI-Compatible';
+
+  private apiKey?: string;
+  private baseUrl = DEFAULT_OPENAI_COMPATIBLE_BASE_URL;
+  private headers: Record<string, string> = {};
+  private timeout: number = 120000;
+
+  protected async performInitialization(config: ProviderConfig): Promise<void> {
+    this.baseUrl = normalizeOpenAICompatibleBaseUrl(
+      config.baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    );
+    this.apiKey = config.apiKey || undefined;
+    this.headers = config.headers ?? {};
+    this.timeout = config.timeout || 120000;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await this.makeApiRequest('/models', {
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Discovers the models served by the endpoint via `GET /v1/models`.
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await this.makeApiRequest('/models', {
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        return [];
+      }
+
+      const data: ModelListResponse = await response.json();
+      return (data.data ?? []).map((model) => model.id).filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  getRecommendedModels(): string[] {
+    // Served models depend entirely on the server; see listModels().
+    return [];
+  }
+
+  private convertToChatMessages(
+    contents: Content[],
+    config?: GenerateContentConfig,
+  ): OpenAICompatibleMessage[] {
+    const messages = toOpenAICompatibleMessages(contents);
+
+    if (config?.systemInstruction) {
+      const systemText =
+        typeof config.systemInstruction === 'string'
+          ? config.systemInstruction
+          : (
+              config.systemInstruction as {
+                parts?: Array<{ text: string }>;
+              }
+            ).parts
+              ?.map((p) => p.text)
+              .join('\n') || '';
+
+      messages.unshift({
+        role: 'system',
+        content: systemText,
+      });
+    }
+
+    return messages;
+  }
+
+  private getTools(config?: GenerateContentConfig) {
+    const declarations = getFunctionDeclarations(config);
+    return declarations.length > 0
+      ? toOpenAICompatibleTools(declarations)
+      : undefined;
+  }
+
+  private buildRequestBody(
+    params: {
+      model: string;
+      contents: Content[];
+      config?: GenerateContentConfig;
+    },
+    stream: boolean,
+  ) {
+    return {
+      model: params.model.replace(/^models\//, ''),
+      messages: this.convertToChatMessages(params.contents, params.config),
+      temperature: params.config?.temperature ?? 0.7,
+      max_tokens: params.config?.maxOutputTokens || 4096,
+      top_p: params.config?.topP ?? 1,
+      tools: this.getTools(params.config),
+      stream,
+      // vLLM, LM Studio and llama.cpp only report usage in streams when asked.
+      ...(stream && { stream_options: { include_usage: true } }),
+    };
+  }
+
+  private mapFinishReason(
+    finishReason: string | null | undefined,
+  ): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+      case 'eos_token':
+      case 'tool_calls':
+        return FinishReason.STOP;
+      case 'length':
+        return FinishReason.MAX_TOKENS;
+      default:
+        return FinishReason.OTHER;
+    }
+  }
+
+  protected convertToStandardResponse(
+    response: ChatCompletionResponse,
+  ): GenerateContentResponse {
+    const choice = response.choices?.[0];
+    const content = choice?.message?.content || '';
+    const functionCalls = fromOpenAICompatibleToolCalls(
+      choice?.message?.tool_calls,
+    );
+
+    const standardResponse = {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: createResponseParts(content, functionCalls),
+          },
+          finishReason: this.mapFinishReason(choice?.finish_reason),
+          index: 0,
+          safetyRatings: [],
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: response.usage?.prompt_tokens ?? 0,
+        candidatesTokenCount: response.usage?.completion_tokens ?? 0,
+        totalTokenCount: response.usage?.total_tokens ?? 0,
+      },
+      // Add required properties for compatibility
+      text: content,
+      data: null,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: null,
+    };
+
+    return standardResponse as unknown as GenerateContentResponse;
+  }
+
+  async embedTexts(params: {
+    model: string;
+    texts: string[];
+  }): Promise<number[][]> {
+    const response = await this.makeApiRequest('/embeddings', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: params.model.replace(/^models\//, ''),
+        input: params.texts,
+      }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `${this.name} API Error (${this.baseUrl}): ${await this.getErrorMessage(response)}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      data?: Array<{ index: number; embedding: number[] }>;
+    };
+    return [...(data.data ?? [])]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
+  private async makeApiRequest(
+    endpoint: string,
+    options?: RequestInit,
+  ): Promise<Response> {
+    return fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        // Most local servers ignore the key, but some are started with one.
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        ...this.headers,
+        ...options?.headers,
+      },
+    });
+  }
+
+  private async getErrorMessage(response: Response): Promise<string> {
+    try {
+      const errorData = await response.json();
+      // vLLM and llama.cpp nest the message, TGI returns a plain string.
+      if (typeof errorData.error === 'string') {
+        return errorData.error;
+      }
+      return (
+        errorData.error?.message || errorData.message || response.statusText
+      );
+    } catch {
+      return response.statusText;
+    }
+  }
+
+  async generateContent(params: {
+    model: string;
+    contents: Content[];
+    config?: GenerateContentConfig;
+  }): Promise<GenerateContentResponse> {
+    try {
+      const response = await this.makeApiRequest('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify(this.buildRequestBody(params, false)),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `${this.name} API Error (${this.baseUrl}): ${await this.getErrorMessage(response)}`,
+        );
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const message = data.choices?.[0]?.message;
+      if (message?.content) {
+        message.content = stripThinkTags(message.content);
+      }
+      return this.convertToStandardResponse(data);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  async generateContentStream(params: {
+    model: string;
+    contents: Content[];
+    config?: GenerateContentConfig;
+  }): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const response = await this.makeApiRequest('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify(this.buildRequestBody(params, true)),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `${this.name} API Error (${this.baseUrl}): ${await this.getErrorMessage(response)}`,
+      );
+    }
+
+    return this.createStreamGenerator(
+      response,
+      getReasoningOptions(params.config).enabled,
+    );
+  }
+
+  private async *createStreamGenerator(
+    response: Response,
+    showThoughts: boolean,
+  ): AsyncGenerator<GenerateContentResponse> {
+    if (!response.body) {
+      throw new Error('No response body for streaming');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls = new ToolCallDeltaAccumulator();
+    // vLLM and llama.cpp send reasoning in `reasoning_content` when a
+    // reasoning parser is configured; otherwise it arrives inline in
+    // <think> tags.
+    const thinkTags = new ThinkTagParser();
+    const reasoning = new ReasoningStream();
+    // The usage of the whole response arrives with the final chunk.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) {
+            continue;
+          }
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') {
+            const rest = thinkTags.flush().text;
+            if (rest) {
+              yield this.createStreamResponse(rest, [], FinishReason.STOP);
+            }
+            if (toolCalls.hasCalls()) {
+              yield this.createStreamResponse(
+                '',
+                toolCalls.flush(),
+                FinishReason.STOP,
+              );
+            }
+            if (usage) {
+              yield this.createStreamResponse('', [], FinishReason.STOP, usage);
+            }
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            usage = fromOpenAICompatibleUsage(parsed.usage) ?? usage;
+            const choice = parsed.choices?.[0];
+            const split = thinkTags.push(choice?.delta?.content ?? '');
+            const delta = split.text;
+            toolCalls.add(choice?.delta?.tool_calls);
+
+            if (showThoughts) {
+              let summary = reasoning.push(
+                (choice?.delta?.reasoning_content ??
+                  choice?.delta?.reasoning ??
+                  '') + split.thought,
+              );
+              if (delta || choice?.finish_reason) {
+                summary = reasoning.flush() ?? summary;
+              }
+              if (summary) {
+                yield createThoughtResponse(summary);
+              }
+            }
+
+            if (delta) {
+              yield this.createStreamResponse(
+                delta,
+                [],
+                this.mapFinishReason(choice?.finish_reason),
+              );
+            }
+
+            if (choice?.finish_reason && toolCalls.hasCalls()) {
+              yield this.createStreamResponse(
+                '',
+                toolCalls.flush(),
+                this.mapFinishReason(choice.finish_reason),
+              );
+            }
+          } catch {
+            // Ignore malformed JSON
+          }
+        }
+      }
+
+      if (toolCalls.hasCalls()) {
+        yield this.createStreamResponse(
+          '',
+          toolCalls.flush(),
+          FinishReason.STOP,
+        );
+      }
+      if (usage) {
+        yield this.createStreamResponse('', [], FinishReason.STOP, usage);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private createStreamResponse(
+    text: string,
+    functionCalls: FunctionCall[],
+    finishReason: FinishReason,
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+  ): GenerateContentResponse {
+    const streamResponse = {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: createResponseParts(text, functionCalls),
+          },
+          finishReason,
+          index: 0,
+          safetyRatings: [],
+        },
+      ],
+      usageMetadata,
+      text,
+      data: null,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: null,
+    };
+
+    return streamResponse as unknown as GenerateContentResponse;
+  }
+
+  getCapabilities() {
+    return {
+      supportsStreaming: true,
+      supportsVision: false,
+      supportsPdf: false,
+      supportsAudio: false,
+      // Requires the server to enable tool parsing (e.g. vLLM
+      // --enable-auto-tool-choice, llama.cpp --jinja).
+      supportsFunctionCalling: true,
+      supportsSystemPrompts: true,
+      maxContextLength: 32768,
+    };
+  }
+}
@@ -15,7 +15,40 @@ import {
   GenerateContentResponse,
   GenerateContentConfig,
   FinishReason,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
+import {
+  createResponseParts,
+  fromOpenAICompatibleToolCalls,
+  fromOpenAICompatibleUsage,
+  getFunctionDeclarations,
+  OpenAICompatibleMessage,
+  OpenAICompatibleToolCall,
+  parseFunctionArgs,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+  ToolCallDeltaAccumulator,
+} from './function-calling.js';
+import {
+  createThoughtResponse,
+  getReasoningOptions,
+  ReasoningStream,
+  toReasoningEffort,
+} from './reasoning.js';
+
+/**
+ * o-series and GPT-5 models reason before answering. They reject sampling
+ * parameters and only expose reasoning summaries through the Responses API.
+ */
+export function isOpenAIReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(model.replace(/^models\//, ''));
+}
+
+function resolveOpenAIModel(model: string): string {
+  const modelName = model.replace(/^models\//, '');
+  return /^(gpt-|o\d|chatgpt-)/.test(modelName) ? modelName : 'gpt-4o';
+}
 
 export class OpenAIProvider extends BaseProvider {
   readonly type = ProviderType.OPENAI;
@@ -62,7 +95,7 @@ export class OpenAIProvider extends BaseProvider {
     try {
       const response = await this.client.models.list();
       return response.data
-        .filter((model) => model.id.startsWith('gpt-'))
+        .filter((model) => /^(gpt-|o\d)/.test(model.id))
         .map((model) => model.id)
         .sort();
     } catch (_error) {
@@ -77,21 +110,49 @@ export class OpenAIProvider extends BaseProvider {
 
   private convertToOpenAIMessages(
     contents: Content[],
+    model: string,
   ): OpenAI.Chat.ChatCompletionMessageParam[] {
-    return contents.map((content) => {
-      const textParts = content.parts?.filter((part) => 'text' in part) || [];
-      const text = textParts
-        .map((part) => (part as { text: string }).text)
-        .join('\n');
+    return toOpenAICompatibleMessages(contents, (mimeType) =>
+      this.supportsMediaType(mimeType, model),
+    ) as OpenAI.Chat.ChatCompletionMessageParam[];
+  }
+
+  private getTools(
+    config?: GenerateContentConfig,
+  ): OpenAI.Chat.ChatCompletionTool[] | undefined {
+    const declarations = getFunctionDeclarations(config);
+    return declarations.length > 0
+      ? toOpenAICompatibleTools(declarations)
+      : undefined;
+  }
 
+  private getSamplingParams(model: string, config?: GenerateContentConfig) {
+    if (isOpenAIReasoningModel(model)) {
       return {
-        role:
-          content.role === 'model'
-            ? 'assistant'
-            : (content.role as 'system' | 'user' | 'assistant'),
-        content: text,
+        max_completion_tokens: config?.maxOutputTokens || 16384,
       };
-    });
+    }
+    return {
+      temperature: config?.temperature || 0.7,
+      max_tokens: config?.maxOutputTokens || 4096,
+      top_p: config?.topP || 1,
+      frequency_penalty: 0,
+      presence_penalty: 0,
+    };
+  }
+
+  private mapFinishReason(
+    finishReason: string | null | undefined,
+  ): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+      case 'tool_calls':
+        return FinishReason.STOP;
+      case 'length':
+        return FinishReason.MAX_TOKENS;
+      default:
+        return FinishReason.OTHER;
+    }
   }
 
   protected convertToStandardResponse(
@@ -99,6 +160,9 @@ export class OpenAIProvider extends BaseProvider {
   ): GenerateContentResponse {
     const choice = response.choices[0];
     const content = choice?.message?.content || '';
+    const functionCalls = fromOpenAICompatibleToolCalls(
+      choice?.message?.tool_calls as OpenAICompatibleToolCall[] | undefined,
+    );
 
     // Create a response that matches the expected interface structure
     const standardResponse = {
@@ -106,12 +170,9 @@ export class OpenAIProvider extends BaseProvider {
         {
           content: {
             role: 'model',
-            parts: [{ text: content }],
+            parts: createResponseParts(content, functionCalls),
           },
-          finishReason:
-            choice?.finish_reason === 'stop'
-              ? FinishReason.STOP
-              : FinishReason.OTHER,
+          finishReason: this.mapFinishReason(choice?.finish_reason),
           index: 0,
           safetyRatings: [],
         },
@@ -124,7 +185,7 @@ export class OpenAIProvider extends BaseProvider {
       // Add required properties for compatibility
       text: content,
       data: null,
-      functionCalls: [],
+      functionCalls,
       executableCode: undefined,
       codeExecutionResult: null,
     };
@@ -141,7 +202,10 @@ export class OpenAIProvider extends BaseProvider {
       throw new Error('OpenAI client not initialized');
     }
 
-    const messages = this.convertToOpenAIMessages(params.contents);
+    const messages = this.convertToOpenAIMessages(
+      params.contents,
+      params.model,
+    );
 
     // Handle system instruction
     if (params.config?.systemInstruction) {
@@ -162,19 +226,14 @@ export class OpenAIProvider extends BaseProvider {
       });
     }
 
-    // Normalize model name
-    const modelName = params.model.replace(/^models\//, '');
-    const finalModel = modelName.startsWith('gpt-') ? modelName : 'gpt-4o';
+    const finalModel = resolveOpenAIModel(params.model);
 
     try {
       const response = await this.client.chat.completions.create({
         model: finalModel,
         messages,
-        temperature: params.config?.temperature || 0.7,
-        max_tokens: params.config?.maxOutputTokens || 4096,
-        top_p: params.config?.topP || 1,
-        frequency_penalty: 0,
-        presence_penalty: 0,
+        ...this.getSamplingParams(finalModel, params.config),
+        tools: this.getTools(params.config),
       });
 
       return this.convertToStandardResponse(response);
@@ -193,7 +252,10 @@ export class OpenAIProvider extends BaseProvider {
       throw new Error('OpenAI client not initialized');
     }
 
-    const messages = this.convertToOpenAIMessages(params.contents);
+    const messages = this.convertToOpenAIMessages(
+      params.contents,
+      params.model,
+    );
 
     // Handle system instruction
     if (params.config?.systemInstruction) {
@@ -214,18 +276,39 @@ export class OpenAIProvider extends BaseProvider {
       });
     }
 
-    const modelName = params.model.replace(/^models\//, '');
-    const finalModel = modelName.startsWith('gpt-') ? modelName : 'gpt-4o';
+    const finalModel = resolveOpenAIModel(params.model);
+    const reasoning = getReasoningOptions(params.config);
+
+    if (isOpenAIReasoningModel(finalModel) && reasoning.enabled) {
+      const stream = await this.client.responses.create({
+        model: finalModel,
+        input: toResponsesInput(messages),
+        max_output_tokens: params.config?.maxOutputTokens || 16384,
+        reasoning: {
+          effort: toReasoningEffort(reasoning.budgetTokens),
+          summary: 'auto',
+        },
+        tools: toOpenAICompatibleTools(
+          getFunctionDeclarations(params.config),
+        ).map((tool) => ({
+          type: 'function' as const,
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters ?? null,
+          strict: false,
+        })),
+        stream: true,
+      });
+      return this.createResponsesStreamGenerator(stream);
+    }
 
     const stream = await this.client.chat.completions.create({
       model: finalModel,
       messages,
-      temperature: params.config?.temperature || 0.7,
-      max_tokens: params.config?.maxOutputTokens || 4096,
-      top_p: params.config?.topP || 1,
-      frequency_penalty: 0,
-      presence_penalty: 0,
+      ...this.getSamplingParams(finalModel, params.config),
+      tools: this.getTools(params.config),
       stream: true,
+      stream_options: { include_usage: true },
     });
 
     return this.createStreamGenerator(stream);
@@ -234,52 +317,177 @@ export class OpenAIProvider extends BaseProvider {
   private async *createStreamGenerator(
     stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
   ): AsyncGenerator<GenerateContentResponse> {
-    let _accumulatedContent = '';
+    const toolCalls = new ToolCallDeltaAccumulator();
+    // With include_usage the usage arrives in a last chunk without choices.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
 
     for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta?.content;
-      if (delta) {
-        _accumulatedContent += delta;
+      usage = fromOpenAICompatibleUsage(chunk.usage) ?? usage;
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      toolCalls.add(choice?.delta?.tool_calls);
 
+      if (delta) {
         // Create streaming response with only the new delta content
         // This prevents character-by-character repetition in the UI
-        const streamResponse = {
-          candidates: [
+        yield this.createStreamResponse(
+          delta,
+          [],
+          choice?.finish_reason === 'stop'
+            ? FinishReason.STOP
+            : FinishReason.OTHER,
+        );
+      }
+
+      // Tool call arguments arrive in fragments, so calls are only emitted
+      // once the model has finished the choice.
+      if (choice?.finish_reason && toolCalls.hasCalls()) {
+        yield this.createStreamResponse(
+          '',
+          toolCalls.flush(),
+          this.mapFinishReason(choice.finish_reason),
+        );
+      }
+    }
+
+    if (toolCalls.hasCalls()) {
+      yield this.createStreamResponse('', toolCalls.flush(), FinishReason.STOP);
+    }
+    if (usage) {
+      yield this.createStreamResponse('', [], FinishReason.STOP, usage);
+    }
+  }
+
+  private async *createResponsesStreamGenerator(
+    stream: AsyncIterable<OpenAI.Responses.ResponseStreamEvent>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const reasoning = new ReasoningStream();
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'response.reasoning_summary_text.delta': {
+          const summary = reasoning.push(event.delta);
+          if (summary) {
+            yield createThoughtResponse(summary);
+          }
+          break;
+        }
+        case 'response.reasoning_summary_part.done': {
+          const summary = reasoning.flush();
+          if (summary) {
+            yield createThoughtResponse(summary);
+          }
+          break;
+        }
+        case 'response.output_text.delta':
+          yield this.createStreamResponse(event.delta, [], FinishReason.OTHER);
+          break;
+        case 'response.output_item.done':
+          // Unlike chat completions, each finished call arrives as a whole.
+          if (event.item.type === 'function_call') {
+            yield this.createStreamResponse(
+              '',
+              [
+                {
+                  id: event.item.call_id,
+                  name: event.item.name,
+                  args: parseFunctionArgs(event.item.arguments),
+                },
+              ],
+              FinishReason.OTHER,
+            );
+          }
+          break;
+        case 'response.completed':
+        case 'response.incomplete': {
+          const usage = event.response.usage;
+          // Output tokens include reasoning; Gemini counts them apart.
+          const reasoningTokens =
+            usage?.output_tokens_details?.reasoning_tokens ?? 0;
+          yield this.createStreamResponse(
+            '',
+            [],
+            event.type === 'response.completed'
+              ? FinishReason.STOP
+              : FinishReason.MAX_TOKENS,
             {
-              content: {
-                role: 'model',
-                parts: [{ text: delta }], // Only yield the new delta, not accumulated content
-              },
-              finishReason:
-                chunk.choices[0]?.finish_reason === 'stop'
-                  ? FinishReason.STOP
-                  : FinishReason.OTHER,
-              index: 0,
-              safetyRatings: [],
+              promptTokenCount: usage?.input_tokens ?? 0,
+              candidatesTokenCount:
+                (usage?.output_tokens ?? 0) - reasoningTokens,
+              thoughtsTokenCount: reasoningTokens,
+              totalTokenCount: usage?.total_tokens ?? 0,
             },
-          ],
-          usageMetadata: {
-            promptTokenCount: 0, // Not available in streaming
-            candidatesTokenCount: 0,
-            totalTokenCount: 0,
-          },
-          // Add required properties for compatibility
-          text: delta, // Only the new delta content
-          data: null,
-          functionCalls: [],
-          executableCode: undefined,
-          codeExecutionResult: null,
-        };
-
-        yield streamResponse as unknown as GenerateContentResponse;
+          );
+          break;
+        }
+        case 'response.failed':
+          throw this.handleError(
+            new Error(
+              event.response.error?.message ?? 'OpenAI response failed',
+            ),
+          );
+        default:
+          break;
       }
     }
   }
 
+  private createStreamResponse(
+    text: string,
+    functionCalls: FunctionCall[],
+    finishReason: FinishReason,
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+  ): GenerateContentResponse {
+    const streamResponse = {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: createResponseParts(text, functionCalls),
+          },
+          finishReason,
+          index: 0,
+          safetyRatings: [],
+        },
+      ],
+      usageMetadata,
+      // Add required properties for compatibility
+      text, // Only the new delta content
+      data: null,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: null,
+    };
+
+    return streamResponse as unknown as GenerateContentResponse;
+  }
+
+  async embedTexts(params: {
+    model: string;
+    texts: string[];
+  }): Promise<number[][]> {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized');
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model: params.model.replace(/^models\//, ''),
+        input: params.texts,
+      });
+      return [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   getCapabilities() {
     return {
       supportsStreaming: true,
       supportsVision: true, // GPT-4 models support vision
+      supportsPdf: true,
       supportsAudio: false,
       supportsFunctionCalling: true,
       supportsSystemPrompts: true,
@@ -287,6 +495,15 @@ export class OpenAIProvider extends BaseProvider {
     };
   }
 
+  supportsMediaType(mimeType: string, model?: string): boolean {
+    // GPT-3.5 and the original GPT-4 snapshots are text-only
+    const modelName = model?.replace(/^models\//, '') ?? '';
+    if (/^(gpt-3\.5|gpt-4$|gpt-4-0)/.test(modelName)) {
+      return false;
+    }
+    return super.supportsMediaType(mimeType, model);
+  }
+
   protected handleError(error: unknown): Error {
     // Safely check for error properties
     const errorObj =
@@ -359,3 +576,67 @@ export class OpenAIProvider extends BaseProvider {
     return super.handleError(error);
   }
 }
+
+/**
+ * Converts chat messages into Responses API input items. Tool calls and
+ * their results become standalone `function_call` and `function_call_output`
+ * items instead of message fields.
+ */
+function toResponsesInput(
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+): OpenAI.Responses.ResponseInputItem[] {
+  const items: OpenAI.Responses.ResponseInputItem[] = [];
+
+  for (const message of messages as OpenAICompatibleMessage[]) {
+    if (message.role === 'tool') {
+      items.push({
+        type: 'function_call_output',
+        call_id: message.tool_call_id ?? '',
+        output: typeof message.content === 'string' ? message.content : '',
+      });
+      continue;
+    }
+
+    if (typeof message.content === 'string' && message.content) {
+      items.push({
+        role: message.role === 'system' ? 'developer' : message.role,
+        content: message.content,
+      });
+    } else if (Array.isArray(message.content)) {
+      items.push({
+        role: 'user',
+        content: message.content.map(
+          (part): OpenAI.Responses.ResponseInputContent => {
+            switch (part.type) {
+              case 'image_url':
+                return {
+                  type: 'input_image',
+                  image_url: part.image_url.url,
+                  detail: 'auto',
+                };
+              case 'file':
+                return {
+                  type: 'input_file',
+                  filename: part.file.filename,
+                  file_data: part.file.file_data,
+                };
+              default:
+                return { type: 'input_text', text: part.text };
+            }
+          },
+        ),
+      });
+    }
+
+    for (const toolCall of message.tool_calls ?? []) {
+      items.push({
+        type: 'function_call',
+        call_id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+      });
+    }
+  }
+
+  return items;
+}
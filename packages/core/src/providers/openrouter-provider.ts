@@ -14,12 +14,29 @@ import {
   GenerateContentResponse,
   GenerateContentConfig,
   FinishReason,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
+import {
+  createResponseParts,
+  fromOpenAICompatibleToolCalls,
+  fromOpenAICompatibleUsage,
+  getFunctionDeclarations,
+  OpenAICompatibleMessage,
+  OpenAICompatibleToolCall,
+  OpenAICompatibleToolCallDelta,
+  OpenAICompatibleUsage,
+  toOpenAICompatibleMessages,
+  toOpenAICompatibleTools,
+  ToolCallDeltaAccumulator,
+} from './function-calling.js';
+import {
+  createThoughtResponse,
+  getReasoningOptions,
+  ReasoningStream,
+} from './reasoning.js';
 
-interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+type OpenRouterMessage = OpenAICompatibleMessage;
 
 interface OpenRouterResponse {
   id: string;
@@ -27,11 +44,12 @@ interface OpenRouterResponse {
   object: 'chat.completion';
   created: number;
   choices: Array<{
-    finish_reason: 'stop' | 'length' | 'function_call';
+    finish_reason: 'stop' | 'length' | 'function_call' | 'tool_calls';
     index: number;
     message: {
-      content: string;
+      content: string | null;
       role: 'assistant';
+      tool_calls?: OpenAICompatibleToolCall[];
     };
   }>;
   usage?: {
@@ -49,11 +67,14 @@ interface OpenRouterStreamChunk {
   choices: Array<{
     delta: {
       content?: string;
+      reasoning?: string | null;
       role?: 'assistant';
+      tool_calls?: OpenAICompatibleToolCallDelta[];
     };
-    finish_reason: 'stop' | 'length' | null;
+    finish_reason: 'stop' | 'length' | 'tool_calls' | null;
     index: number;
   }>;
+  usage?: OpenAICompatibleUsage;
 }
 
 export class OpenRouterProvider extends BaseProvider {
@@ -157,31 +178,26 @@ export class OpenRouterProvider extends BaseProvider {
     ];
   }
 
-  private convertToOpenRouterMessages(contents: Content[]): {
+  private convertToOpenRouterMessages(
+    contents: Content[],
+    model: string,
+  ): {
     messages: OpenRouterMessage[];
     system?: string;
   } {
-    const messages: OpenRouterMessage[] = [];
-    let system: string | undefined;
-
-    for (const content of contents) {
-      if (content.role === 'system') {
-        const textParts = content.parts?.filter((part) => 'text' in part) || [];
-        system = textParts
-          .map((part) => (part as { text: string }).text)
-          .join('\n');
-      } else {
-        const textParts = content.parts?.filter((part) => 'text' in part) || [];
-        const text = textParts
-          .map((part) => (part as { text: string }).text)
-          .join('\n');
-
-        messages.push({
-          role: content.role === 'model' ? 'assistant' : 'user',
-          content: text,
-        });
-      }
-    }
+    const systemContents = contents.filter((c) => c.role === 'system');
+    const messages = toOpenAICompatibleMessages(
+      contents.filter((c) => c.role !== 'system'),
+      (mimeType) => this.supportsMediaType(mimeType, model),
+    );
+
+    const system =
+      systemContents.length > 0
+        ? systemContents[systemContents.length - 1].parts
+            ?.filter((part) => 'text' in part)
+            .map((part) => (part as { text: string }).text)
+            .join('\n')
+        : undefined;
 
     // Add system message if present
     if (system) {
@@ -194,22 +210,61 @@ export class OpenRouterProvider extends BaseProvider {
     return { messages, system };
   }
 
+  private getTools(config?: GenerateContentConfig) {
+    const declarations = getFunctionDeclarations(config);
+    return declarations.length > 0
+      ? toOpenAICompatibleTools(declarations)
+      : undefined;
+  }
+
+  /**
+   * OpenRouter normalizes reasoning across upstream models. Reasoning models
+   * return their reasoning by default, so the parameter is only needed to cap
+   * the budget or to hide it.
+   */
+  private getReasoningParam(config?: GenerateContentConfig) {
+    const reasoning = getReasoningOptions(config);
+    if (!reasoning.enabled) {
+      return { reasoning: { exclude: true } };
+    }
+    return reasoning.budgetTokens
+      ? { reasoning: { max_tokens: reasoning.budgetTokens } }
+      : {};
+  }
+
+  private mapFinishReason(
+    finishReason: string | null | undefined,
+  ): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+      case 'tool_calls':
+      case 'function_call':
+        return FinishReason.STOP;
+      case 'length':
+        return FinishReason.MAX_TOKENS;
+      default:
+        return FinishReason.OTHER;
+    }
+  }
+
   protected convertToStandardResponse(
     response: OpenRouterResponse,
   ): GenerateContentResponse {
     const content = response.choices[0]?.message?.content || '';
+    const functionCalls = fromOpenAICompatibleToolCalls(
+      response.choices[0]?.message?.tool_calls,
+    );
 
     const standardResponse = {
       candidates: [
         {
           content: {
             role: 'model',
-            parts: [{ text: content }],
+            parts: createResponseParts(content, functionCalls),
           },
-          finishReason:
-            response.choices[0]?.finish_reason === 'stop'
-              ? FinishReason.STOP
-              : FinishReason.OTHER,
+          finishReason: this.mapFinishReason(
+            response.choices[0]?.finish_reason,
+          ),
           index: 0,
           safetyRatings: [],
         },
@@ -222,7 +277,7 @@ export class OpenRouterProvider extends BaseProvider {
       // Add required properties for compatibility
       text: content,
       data: undefined,
-      functionCalls: [],
+      functionCalls,
       executableCode: undefined,
       codeExecutionResult: undefined,
     };
@@ -269,6 +324,7 @@ export class OpenRouterProvider extends BaseProvider {
   }): Promise<GenerateContentResponse> {
     const { messages, system } = this.convertToOpenRouterMessages(
       params.contents,
+      params.model,
     );
 
     // Handle system instruction from config
@@ -300,6 +356,8 @@ export class OpenRouterProvider extends BaseProvider {
       max_tokens: params.config?.maxOutputTokens || 4096,
       temperature: params.config?.temperature || 0.7,
       top_p: params.config?.topP || 1,
+      tools: this.getTools(params.config),
+      ...this.getReasoningParam(params.config),
       stream: false,
     };
 
@@ -330,6 +388,7 @@ export class OpenRouterProvider extends BaseProvider {
   }): Promise<AsyncGenerator<GenerateContentResponse>> {
     const { messages, system } = this.convertToOpenRouterMessages(
       params.contents,
+      params.model,
     );
 
     // Handle system instruction from config
@@ -361,7 +420,10 @@ export class OpenRouterProvider extends BaseProvider {
       max_tokens: params.config?.maxOutputTokens || 4096,
       temperature: params.config?.temperature || 0.7,
       top_p: params.config?.topP || 1,
+      tools: this.getTools(params.config),
+      ...this.getReasoningParam(params.config),
       stream: true,
+      stream_options: { include_usage: true },
     };
 
     const response = await this.makeApiRequest('/chat/completions', {
@@ -374,11 +436,15 @@ export class OpenRouterProvider extends BaseProvider {
       throw new Error(`OpenRouter API Error: ${response.status} ${errorData}`);
     }
 
-    return this.createStreamGenerator(response);
+    return this.createStreamGenerator(
+      response,
+      getReasoningOptions(params.config).enabled,
+    );
   }
 
   private async *createStreamGenerator(
     response: Response,
+    showThoughts: boolean,
   ): AsyncGenerator<GenerateContentResponse> {
     if (!response.body) {
       throw new Error('No response body for streaming');
@@ -386,59 +452,80 @@ export class OpenRouterProvider extends BaseProvider {
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
-    let accumulatedContent = '';
+    const toolCalls = new ToolCallDeltaAccumulator();
+    const reasoning = new ReasoningStream();
+    // The usage of the whole response arrives with the final chunk.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let buffer = '';
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep a trailing partial line for the next read; tool call payloads
+        // are often larger than a single network chunk.
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             const data = line.slice(6);
             if (data === '[DONE]') {
+              if (toolCalls.hasCalls()) {
+                yield this.createStreamResponse(
+                  '',
+                  toolCalls.flush(),
+                  FinishReason.STOP,
+                );
+              }
+              if (usage) {
+                yield this.createStreamResponse(
+                  '',
+                  [],
+                  FinishReason.STOP,
+                  usage,
+                );
+              }
               return;
             }
 
             try {
               const parsed: OpenRouterStreamChunk = JSON.parse(data);
-              const delta = parsed.choices[0]?.delta?.content;
+              usage = fromOpenAICompatibleUsage(parsed.usage) ?? usage;
+              const choice = parsed.choices[0];
+              const delta = choice?.delta?.content;
+              toolCalls.add(choice?.delta?.tool_calls);
+
+              if (showThoughts) {
+                let summary = reasoning.push(choice?.delta?.reasoning ?? '');
+                if (delta || choice?.finish_reason) {
+                  summary = reasoning.flush() ?? summary;
+                }
+                if (summary) {
+                  yield createThoughtResponse(summary);
+                }
+              }
 
               if (delta) {
-                accumulatedContent += delta;
-
-                const streamResponse = {
-                  candidates: [
-                    {
-                      content: {
-                        role: 'model',
-                        parts: [{ text: accumulatedContent }],
-                      },
-                      finishReason:
-                        parsed.choices[0]?.finish_reason === 'stop'
-                          ? FinishReason.STOP
-                          : FinishReason.OTHER,
-                      index: 0,
-                      safetyRatings: [],
-                    },
-                  ],
-                  usageMetadata: {
-                    promptTokenCount: 0,
-                    candidatesTokenCount: 0,
-                    totalTokenCount: 0,
-                  },
-                  // Add required properties
-                  text: accumulatedContent,
-                  data: undefined,
-                  functionCalls: [],
-                  executableCode: undefined,
-                  codeExecutionResult: undefined,
-                };
-
-                yield streamResponse as unknown as GenerateContentResponse;
+                // Yield only the new delta; EnfiyChat concatenates chunks
+                // when recording history.
+                yield this.createStreamResponse(
+                  delta,
+                  [],
+                  choice?.finish_reason === 'stop'
+                    ? FinishReason.STOP
+                    : FinishReason.OTHER,
+                );
+              }
+
+              if (choice?.finish_reason && toolCalls.hasCalls()) {
+                yield this.createStreamResponse(
+                  '',
+                  toolCalls.flush(),
+                  this.mapFinishReason(choice.finish_reason),
+                );
               }
             } catch (e) {
               // Ignore malformed JSON
@@ -447,15 +534,57 @@ export class OpenRouterProvider extends BaseProvider {
           }
         }
       }
+
+      if (toolCalls.hasCalls()) {
+        yield this.createStreamResponse(
+          '',
+          toolCalls.flush(),
+          FinishReason.STOP,
+        );
+      }
+      if (usage) {
+        yield this.createStreamResponse('', [], FinishReason.STOP, usage);
+      }
     } finally {
       reader.releaseLock();
     }
   }
 
+  private createStreamResponse(
+    text: string,
+    functionCalls: FunctionCall[],
+    finishReason: FinishReason,
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+  ): GenerateContentResponse {
+    const streamResponse = {
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: createResponseParts(text, functionCalls),
+          },
+          finishReason,
+          index: 0,
+          safetyRatings: [],
+        },
+      ],
+      usageMetadata,
+      // Add required properties
+      text,
+      data: undefined,
+      functionCalls,
+      executableCode: undefined,
+      codeExecutionResult: undefined,
+    };
+
+    return streamResponse as unknown as GenerateContentResponse;
+  }
+
   getCapabilities() {
     return {
       supportsStreaming: true,
       supportsVision: true, // Many models support vision
+      supportsPdf: true,
       supportsAudio: false,
       supportsFunctionCalling: true,
       supportsSystemPrompts: true,
@@ -8,6 +8,7 @@
  * Modified and extended by Hayate Esaki (2025)
  */
 import { ProviderType } from './types.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
 
 export interface DetectedProvider {
   type: ProviderType;
@@ -51,6 +52,29 @@ export async function detectLocalProviders(): Promise<DetectedProvider[]> {
     });
   }
 
+  // Detect an OpenAI-compatible server (vLLM, TGI, LM Studio, llama.cpp).
+  // There is no well-known port, so only probe an explicitly configured one.
+  const compatibleBaseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (compatibleBaseUrl) {
+    const provider = new OpenAICompatibleProvider();
+    await provider.initialize({
+      type: ProviderType.OPENAI_COMPATIBLE,
+      model: '',
+      baseUrl: compatibleBaseUrl,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    });
+    const models = await provider.listModels();
+    providers.push({
+      type: ProviderType.OPENAI_COMPATIBLE,
+      available: models.length > 0,
+      defaultModel: models[0],
+      reason:
+        models.length > 0
+          ? `Serving ${models.length} model(s) at ${compatibleBaseUrl}`
+          : `No models served at ${compatibleBaseUrl}`,
+    });
+  }
+
   return providers;
 }
 
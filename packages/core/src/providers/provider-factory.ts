@@ -14,6 +14,7 @@ import { OpenAIProvider } from './openai-provider.js';
 import { MistralProvider } from './mistral-provider.js';
 import { AnthropicProvider } from './anthropic-provider.js';
 import { OpenRouterProvider } from './openrouter-provider.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
 
 export class ProviderFactory {
   static createProvider(type: ProviderType): Provider {
@@ -21,6 +22,8 @@ export class ProviderFactory {
       // Local Providers
       case ProviderType.OLLAMA:
         return new OllamaProvider();
+      case ProviderType.OPENAI_COMPATIBLE:
+        return new OpenAICompatibleProvider();
 
       // Cloud Providers
       case ProviderType.GEMINI:
@@ -45,6 +48,10 @@ export class ProviderFactory {
     const providers = [
       // Local Providers
       { type: ProviderType.OLLAMA, name: 'Ollama (Local)' },
+      {
+        type: ProviderType.OPENAI_COMPATIBLE,
+        name: 'OpenAI-Compatible (Local)',
+      },
 
       // Cloud Providers
       { type: ProviderType.GEMINI, name: 'Google Gemini' },
@@ -122,6 +129,7 @@ export class ProviderFactory {
   static getImplementedProviderTypes(): ProviderType[] {
     return [
       ProviderType.OLLAMA,
+      ProviderType.OPENAI_COMPATIBLE,
       ProviderType.GEMINI,
       ProviderType.OPENAI,
       ProviderType.MISTRAL,
@@ -134,7 +142,7 @@ export class ProviderFactory {
    * Get local provider types
    */
   static getLocalProviderTypes(): ProviderType[] {
-    return [ProviderType.OLLAMA];
+    return [ProviderType.OLLAMA, ProviderType.OPENAI_COMPATIBLE];
   }
 
   /**
@@ -168,6 +176,7 @@ export class ProviderFactory {
     capabilities?: {
       supportsStreaming: boolean;
       supportsVision: boolean;
+      supportsPdf: boolean;
       supportsAudio: boolean;
       supportsFunctionCalling: boolean;
       supportsSystemPrompts: boolean;
@@ -208,4 +217,21 @@ export class ProviderFactory {
       };
     }
   }
+
+  /**
+   * Check whether a model of the given provider accepts inline media of a
+   * MIME type. Unknown providers are assumed to accept it and are left to
+   * report errors themselves.
+   */
+  static supportsMediaType(
+    type: ProviderType,
+    model: string,
+    mimeType: string,
+  ): boolean {
+    try {
+      return this.createProvider(type).supportsMediaType(mimeType, model);
+    } catch {
+      return true;
+    }
+  }
 }
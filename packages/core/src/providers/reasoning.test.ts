@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getReasoningOptions,
+  ReasoningStream,
+  stripThinkTags,
+  summarizeReasoning,
+  ThinkTagParser,
+  toReasoningEffort,
+} from './reasoning.js';
+
+describe('getReasoningOptions', () => {
+  it('should read the Gemini-style thinkingConfig', () => {
+    expect(getReasoningOptions(undefined)).toEqual({
+      enabled: false,
+      budgetTokens: undefined,
+    });
+    expect(
+      getReasoningOptions({
+        thinkingConfig: { includeThoughts: true, thinkingBudget: 4096 },
+      }),
+    ).toEqual({ enabled: true, budgetTokens: 4096 });
+  });
+
+  it('should map budgets to effort levels', () => {
+    expect(toReasoningEffort(undefined)).toBe('medium');
+    expect(toReasoningEffort(1024)).toBe('low');
+    expect(toReasoningEffort(32000)).toBe('high');
+  });
+});
+
+describe('summarizeReasoning', () => {
+  it('should use the latest bold heading as the subject', () => {
+    expect(
+      summarizeReasoning(
+        '**Reading the file**\nLooking at it.\n\n**Planning the fix**\nThe bug is in the parser.',
+      ),
+    ).toBe('**Planning the fix** The bug is in the parser.');
+  });
+
+  it('should fall back to the first sentence of the latest paragraph', () => {
+    expect(
+      summarizeReasoning(
+        'First idea.\n\nThe user wants a test. I should check the config.',
+      ),
+    ).toBe(
+      '**The user wants a test.** The user wants a test. I should check the config.',
+    );
+  });
+});
+
+describe('ReasoningStream', () => {
+  it('should hold back short deltas until a line ends or it is flushed', () => {
+    const stream = new ReasoningStream();
+    expect(stream.push('Checking the')).toBeUndefined();
+    expect(stream.push(' imports.\n')).toBe(
+      '**Checking the imports.** Checking the imports.',
+    );
+    expect(stream.push('Now the tests')).toBeUndefined();
+    expect(stream.flush()).toBe(
+      '**Checking the imports.** Checking the imports.\nNow the tests',
+    );
+    expect(stream.flush()).toBeUndefined();
+  });
+});
+
+describe('ThinkTagParser', () => {
+  it('should separate think sections split across chunks', () => {
+    const parser = new ThinkTagParser();
+    const chunks = [
+      '<thi',
+      'nk>Let me ',
+      'think.</th',
+      'ink>The answer',
+      ' is 4<',
+    ];
+    const results = chunks.map((chunk) => parser.push(chunk));
+    results.push(parser.flush());
+
+    expect(results.map((r) => r.thought).join('')).toBe('Let me think.');
+    expect(results.map((r) => r.text).join('')).toBe('The answer is 4<');
+    // The partial tag is held back rather than shown as text.
+    expect(results[0]).toEqual({ thought: '', text: '' });
+  });
+
+  it('should strip think sections from complete responses', () => {
+    expect(stripThinkTags('<think>hmm</think>\nHello')).toBe('\nHello');
+    expect(stripThinkTags('No reasoning here')).toBe('No reasoning here');
+  });
+});
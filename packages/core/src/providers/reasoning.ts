@@ -0,0 +1,286 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import {
+  Content,
+  ContentListUnion,
+  FinishReason,
+  GenerateContentConfig,
+  GenerateContentResponse,
+} from '@google/genai';
+
+/**
+ * Reasoning settings for one request, taken from the Gemini-style
+ * `thinkingConfig` that the chat passes to every provider.
+ */
+export interface ReasoningOptions {
+  /** Whether reasoning should be requested and streamed as thoughts. */
+  enabled: boolean;
+  /** Token budget for reasoning; providers fall back to their own default. */
+  budgetTokens?: number;
+}
+
+export function getReasoningOptions(
+  config?: GenerateContentConfig,
+): ReasoningOptions {
+  const thinkingConfig = config?.thinkingConfig;
+  const budget = thinkingConfig?.thinkingBudget;
+  return {
+    enabled: thinkingConfig?.includeThoughts === true,
+    budgetTokens: budget !== undefined && budget > 0 ? budget : undefined,
+  };
+}
+
+// Claude needs the signed thinking blocks of a tool-using turn sent back with
+// the tool results. They travel in the `thoughtSignature` of the turn's first
+// function call part, where Gemini keeps its own thought signatures.
+export const ANTHROPIC_THINKING_SIGNATURE_PREFIX = 'anthropic-thinking:';
+
+function isContent(value: unknown): value is Content {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as Content).parts)
+  );
+}
+
+function withoutAnthropicThinkingParts(content: Content): Content {
+  if (
+    !content.parts?.some((part) =>
+      part.thoughtSignature?.startsWith(ANTHROPIC_THINKING_SIGNATURE_PREFIX),
+    )
+  ) {
+    return content;
+  }
+  return {
+    ...content,
+    parts: content.parts.map((part) => {
+      if (
+        !part.thoughtSignature?.startsWith(ANTHROPIC_THINKING_SIGNATURE_PREFIX)
+      ) {
+        return part;
+      }
+      const { thoughtSignature: _thoughtSignature, ...rest } = part;
+      return rest;
+    }),
+  };
+}
+
+/**
+ * Removes the Anthropic thinking blocks from history that is sent to
+ * Gemini, which rejects thought signatures it did not issue itself.
+ */
+export function withoutAnthropicThinking(
+  contents: ContentListUnion,
+): ContentListUnion {
+  if (Array.isArray(contents)) {
+    // Content and part lists are never mixed.
+    return contents.map((item) =>
+      isContent(item) ? withoutAnthropicThinkingParts(item) : item,
+    ) as ContentListUnion;
+  }
+  return isContent(contents)
+    ? withoutAnthropicThinkingParts(contents)
+    : contents;
+}
+
+/**
+ * Maps a token budget to the effort levels used by OpenAI-style APIs.
+ */
+export function toReasoningEffort(
+  budgetTokens?: number,
+): 'low' | 'medium' | 'high' {
+  if (budgetTokens === undefined) {
+    return 'medium';
+  }
+  if (budgetTokens <= 2048) {
+    return 'low';
+  }
+  return budgetTokens <= 16384 ? 'medium' : 'high';
+}
+
+/**
+ * A stream chunk carrying reasoning text. Thoughts are sent in chunks of
+ * their own because `Turn` and `EnfiyChat` only look at the first part to
+ * recognize them.
+ */
+export function createThoughtResponse(text: string): GenerateContentResponse {
+  return {
+    candidates: [
+      {
+        content: {
+          role: 'model',
+          parts: [{ text, thought: true }],
+        },
+        finishReason: FinishReason.OTHER,
+        index: 0,
+      },
+    ],
+    text: undefined,
+    data: undefined,
+    functionCalls: [],
+    executableCode: undefined,
+    codeExecutionResult: undefined,
+  } as unknown as GenerateContentResponse;
+}
+
+const MAX_SUBJECT_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 600;
+// Reasoning arrives a few tokens at a time; updating the loading indicator
+// on every token would only produce flicker.
+const MIN_EMIT_INTERVAL_CHARS = 80;
+
+/**
+ * Formats raw reasoning as the `**Subject** description` text that Gemini
+ * thought summaries use, so `Turn` can extract a subject for the loading
+ * indicator. The subject is the latest bold heading, or otherwise the first
+ * sentence of the latest paragraph.
+ */
+export function summarizeReasoning(reasoning: string): string {
+  const text = reasoning.trim();
+  const headings = [...text.matchAll(/\*\*(.+?)\*\*/g)];
+  let subject: string;
+  let description: string;
+
+  if (headings.length > 0) {
+    const last = headings[headings.length - 1];
+    subject = last[1].trim();
+    description = text.slice(last.index! + last[0].length).trim();
+  } else {
+    const paragraphs = text.split(/\n\s*\n/);
+    description = paragraphs[paragraphs.length - 1].trim();
+    subject = description.split(/(?<=[.!?])\s|\n/)[0].trim();
+  }
+
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    subject = `${subject.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd()}...`;
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    description = `...${description.slice(-MAX_DESCRIPTION_LENGTH)}`;
+  }
+  return subject ? `**${subject}** ${description}` : description;
+}
+
+/**
+ * Accumulates streamed reasoning deltas and decides when a new thought
+ * summary is worth emitting.
+ */
+export class ReasoningStream {
+  private text = '';
+  private emittedLength = 0;
+
+  /**
+   * Adds a delta. Returns a summary to emit, or `undefined` while too little
+   * new reasoning has arrived.
+   */
+  push(delta: string): string | undefined {
+    if (!delta) {
+      return undefined;
+    }
+    this.text += delta;
+    if (
+      this.text.length - this.emittedLength < MIN_EMIT_INTERVAL_CHARS &&
+      !delta.includes('\n')
+    ) {
+      return undefined;
+    }
+    return this.emit();
+  }
+
+  /**
+   * Returns a summary of reasoning not yet emitted, if any.
+   */
+  flush(): string | undefined {
+    return this.text.length > this.emittedLength ? this.emit() : undefined;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  private emit(): string | undefined {
+    this.emittedLength = this.text.length;
+    return this.text.trim() ? summarizeReasoning(this.text) : undefined;
+  }
+}
+
+const THINK_OPEN_TAG = '<think>';
+const THINK_CLOSE_TAG = '</think>';
+
+/**
+ * Separates `<think>...</think>` sections, as produced by DeepSeek-R1, Qwen3
+ * and similar models, from streamed content. Tags may be split across
+ * chunks, so a possible partial tag at the end of a chunk is held back until
+ * the next one arrives.
+ */
+export class ThinkTagParser {
+  private buffer = '';
+  private inThink = false;
+
+  push(chunk: string): { thought: string; text: string } {
+    this.buffer += chunk;
+    let thought = '';
+    let text = '';
+
+    for (;;) {
+      const tag = this.inThink ? THINK_CLOSE_TAG : THINK_OPEN_TAG;
+      const tagIndex = this.buffer.indexOf(tag);
+      if (tagIndex !== -1) {
+        const segment = this.buffer.slice(0, tagIndex);
+        if (this.inThink) {
+          thought += segment;
+        } else {
+          text += segment;
+        }
+        this.buffer = this.buffer.slice(tagIndex + tag.length);
+        this.inThink = !this.inThink;
+        continue;
+      }
+
+      const keep = partialTagLength(this.buffer, tag);
+      const segment = this.buffer.slice(0, this.buffer.length - keep);
+      if (this.inThink) {
+        thought += segment;
+      } else {
+        text += segment;
+      }
+      this.buffer = this.buffer.slice(this.buffer.length - keep);
+      return { thought, text };
+    }
+  }
+
+  flush(): { thought: string; text: string } {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.inThink
+      ? { thought: rest, text: '' }
+      : { thought: '', text: rest };
+  }
+}
+
+/**
+ * Removes `<think>` sections from a complete, non-streamed response.
+ */
+export function stripThinkTags(content: string): string {
+  const parser = new ThinkTagParser();
+  return parser.push(content).text + parser.flush().text;
+}
+
+function partialTagLength(buffer: string, tag: string): number {
+  for (
+    let length = Math.min(tag.length - 1, buffer.length);
+    length > 0;
+    length--
+  ) {
+    if (buffer.endsWith(tag.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
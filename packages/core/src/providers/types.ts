@@ -16,6 +16,7 @@ import {
 export enum ProviderType {
   // Local AI Providers
   OLLAMA = 'ollama',
+  OPENAI_COMPATIBLE = 'openai-compatible',
 
   // Cloud AI Providers
   OPENAI = 'openai',
@@ -60,15 +61,25 @@ export interface Provider {
 
   listModels?(): Promise<string[]>;
 
+  /**
+   * Returns one embedding vector per input text, in input order.
+   */
+  embedTexts?(params: { model: string; texts: string[] }): Promise<number[][]>;
+
   isLocalProvider(): boolean;
   getCapabilities(): {
     supportsStreaming: boolean;
     supportsVision: boolean;
+    supportsPdf: boolean;
     supportsAudio: boolean;
     supportsFunctionCalling: boolean;
     supportsSystemPrompts: boolean;
     maxContextLength: number;
   };
+  /**
+   * Whether `model` accepts inline media (images, PDFs) of the given MIME type.
+   */
+  supportsMediaType(mimeType: string, model?: string): boolean;
   getAuthInstructions(): string;
   getRecommendedModels(): string[];
 }
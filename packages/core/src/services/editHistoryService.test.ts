@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EditHistoryService } from './editHistoryService.js';
+import { GitService } from './gitService.js';
+
+describe('EditHistoryService', () => {
+  // Project files by relative path; a file's version hash is its content.
+  let files: Map<string, string>;
+  let git: {
+    storeFileVersions: ReturnType<typeof vi.fn>;
+    restoreFileVersion: ReturnType<typeof vi.fn>;
+    mergeFileVersion: ReturnType<typeof vi.fn>;
+    createFileSnapshot: ReturnType<typeof vi.fn>;
+    getCurrentCommitHash: ReturnType<typeof vi.fn>;
+    getChangedFilesBetween: ReturnType<typeof vi.fn>;
+    getSnapshotFileVersions: ReturnType<typeof vi.fn>;
+  };
+  let history: EditHistoryService;
+
+  const edit = async (file: string, content: string | undefined) => {
+    const pending = await history.beginEdit('call', 'replace', 'edit', [
+      `/project/${file}`,
+    ]);
+    if (content === undefined) {
+      files.delete(file);
+    } else {
+      files.set(file, content);
+    }
+    await pending?.end();
+  };
+
+  beforeEach(() => {
+    files = new Map([['a.ts', 'one']]);
+    git = {
+      storeFileVersions: vi.fn(
+        async (paths: string[]) =>
+          new Map(paths.map((file) => [file, files.get(file) ?? null])),
+      ),
+      restoreFileVersion: vi.fn(async (file: string, hash: string | null) => {
+        if (hash === null) {
+          files.delete(file);
+        } else {
+          files.set(file, hash);
+        }
+      }),
+      mergeFileVersion: vi.fn(async () => true),
+      createFileSnapshot: vi.fn(),
+      getCurrentCommitHash: vi.fn(),
+      getChangedFilesBetween: vi.fn(),
+      getSnapshotFileVersions: vi.fn(),
+    };
+    history = new EditHistoryService(
+      async () => git as unknown as GitService,
+      '/project',
+    );
+  });
+
+  it('should undo and redo edits in order', async () => {
+    await edit('a.ts', 'two');
+    await edit('b.ts', 'new');
+
+    expect((await history.undo())?.entry.files).toEqual([
+      { path: 'b.ts', before: null, after: 'new' },
+    ]);
+    expect(files.has('b.ts')).toBe(false);
+    await history.undo();
+    expect(files.get('a.ts')).toBe('one');
+    expect(history.canUndo()).toBe(false);
+    expect(await history.undo()).toBeUndefined();
+
+    await history.redo();
+    expect(files.get('a.ts')).toBe('two');
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('should not record calls that change nothing or edit outside the project', async () => {
+    await edit('a.ts', 'one');
+    expect(
+      await history.beginEdit('call', 'write_file', 'write', ['/etc/hosts']),
+    ).toBeUndefined();
+
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should clear the redo stack when a new edit is recorded', async () => {
+    await edit('a.ts', 'two');
+    await history.undo();
+    await edit('a.ts', 'three');
+
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should stop on files changed by hand unless asked to merge or overwrite', async () => {
+    await edit('a.ts', 'two');
+    files.set('a.ts', 'two, edited by hand');
+
+    const checked = await history.undo();
+    expect(checked).toMatchObject({ applied: false, modifiedFiles: ['a.ts'] });
+    expect(files.get('a.ts')).toBe('two, edited by hand');
+
+    git.mergeFileVersion.mockResolvedValue(false);
+    const merged = await history.undo('merge');
+    expect(git.mergeFileVersion).toHaveBeenCalledWith('a.ts', 'two', 'one');
+    expect(merged).toMatchObject({ applied: true, conflictedFiles: ['a.ts'] });
+
+    files.set('a.ts', 'edited again');
+    await history.redo('force');
+    expect(files.get('a.ts')).toBe('two');
+  });
+
+  it('should snapshot the whole project for calls without declared paths', async () => {
+    git.createFileSnapshot.mockResolvedValueOnce('before');
+    git.createFileSnapshot.mockResolvedValueOnce('after');
+    git.getChangedFilesBetween.mockResolvedValue(['a.ts', 'c.ts']);
+    git.getSnapshotFileVersions.mockImplementation(
+      async (commit: string) =>
+        new Map(
+          commit === 'before'
+            ? [
+                ['a.ts', 'one'],
+                ['c.ts', null],
+              ]
+            : [
+                ['a.ts', 'two'],
+                ['c.ts', 'created'],
+              ],
+        ),
+    );
+
+    const pending = await history.beginEdit(
+      'call',
+      'run_shell_command',
+      'sed -i ...',
+      [],
+    );
+    await pending?.end();
+
+    expect(git.getChangedFilesBetween).toHaveBeenCalledWith('before', 'after');
+    files.set('a.ts', 'two');
+    files.set('c.ts', 'created');
+    await history.undo();
+    expect(files.get('a.ts')).toBe('one');
+    expect(files.has('c.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import * as path from 'path';
+import { GitService } from './gitService.js';
+
+/**
+ * One file touched by a recorded change. Versions are the mode and blob hash
+ * of the file in the shadow repository; null means the file did not exist.
+ */
+export interface EditHistoryFile {
+  /** Path relative to the project root. */
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * The file changes made by one tool call.
+ */
+export interface EditHistoryEntry {
+  callId: string;
+  toolName: string;
+  description: string;
+  timestamp: Date;
+  files: EditHistoryFile[];
+}
+
+/**
+ * How to handle files that were changed by hand since the recorded change:
+ * `check` stops and reports them, `merge` keeps the manual changes with a
+ * 3-way merge and `force` overwrites them.
+ */
+export type EditHistoryMode = 'check' | 'merge' | 'force';
+
+export interface EditHistoryResult {
+  entry: EditHistoryEntry;
+  /** False when `check` found files changed by hand and nothing was done. */
+  applied: boolean;
+  /** Files changed since the recorded change. */
+  modifiedFiles: string[];
+  /** Files left with conflict markers by a merge. */
+  conflictedFiles: string[];
+}
+
+/**
+ * A change being recorded while its tool call runs.
+ */
+export interface PendingEdit {
+  /** Records the state after the tool call and adds it to the history. */
+  end(): Promise<void>;
+}
+
+/**
+ * Undo and redo stacks for the file changes made by tool calls in the
+ * current session, stored in the shadow repository of {@link GitService}.
+ *
+ * Calls that declare the files they modify only snapshot those files, so
+ * they can run alongside other calls. Calls that don't, such as shell
+ * commands, snapshot the whole project and run on their own.
+ */
+export class EditHistoryService {
+  private readonly undoStack: EditHistoryEntry[] = [];
+  private readonly redoStack: EditHistoryEntry[] = [];
+
+  constructor(
+    private readonly getGitService: () => Promise<GitService>,
+    private readonly projectRoot: string,
+  ) {}
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Snapshots the files a tool call is about to modify. `files` are absolute
+   * paths; an empty list snapshots the whole project. Returns undefined if
+   * there is nothing to record.
+   */
+  async beginEdit(
+    callId: string,
+    toolName: string,
+    description: string,
+    files: string[],
+  ): Promise<PendingEdit | undefined> {
+    const git = await this.getGitService();
+    const timestamp = new Date();
+    const record = (changes: EditHistoryFile[]) => {
+      const changed = changes.filter((file) => file.before !== file.after);
+      if (changed.length > 0) {
+        this.undoStack.push({
+          callId,
+          toolName,
+          description,
+          timestamp,
+          files: changed,
+        });
+        this.redoStack.length = 0;
+      }
+    };
+
+    if (files.length === 0) {
+      const before = await this.createSnapshot(git, `Before ${toolName}`);
+      return {
+        end: async () => {
+          const after = await this.createSnapshot(git, `After ${toolName}`);
+          const changed = await git.getChangedFilesBetween(before, after);
+          if (changed.length === 0) {
+            return;
+          }
+          const beforeVersions = await git.getSnapshotFileVersions(
+            before,
+            changed,
+          );
+          const afterVersions = await git.getSnapshotFileVersions(
+            after,
+            changed,
+          );
+          record(
+            changed.map((file) => ({
+              path: file,
+              before: beforeVersions.get(file) ?? null,
+              after: afterVersions.get(file) ?? null,
+            })),
+          );
+        },
+      };
+    }
+
+    const relativeFiles = files
+      .map((file) => path.relative(this.projectRoot, file))
+      .filter(
+        (file) => file && !file.startsWith('..') && !path.isAbsolute(file),
+      )
+      .map((file) => file.split(path.sep).join('/'));
+    if (relativeFiles.length === 0) {
+      return undefined;
+    }
+    const beforeVersions = await git.storeFileVersions(relativeFiles);
+    return {
+      end: async () => {
+        const afterVersions = await git.storeFileVersions(relativeFiles);
+        record(
+          relativeFiles.map((file) => ({
+            path: file,
+            before: beforeVersions.get(file) ?? null,
+            after: afterVersions.get(file) ?? null,
+          })),
+        );
+      },
+    };
+  }
+
+  /**
+   * Reverts the most recent change. Returns undefined if there is none.
+   */
+  async undo(
+    mode: EditHistoryMode = 'check',
+  ): Promise<EditHistoryResult | undefined> {
+    const entry = this.undoStack.at(-1);
+    if (!entry) {
+      return undefined;
+    }
+    const result = await this.apply(entry, 'after', 'before', mode);
+    if (result.applied) {
+      this.undoStack.pop();
+      this.redoStack.push(entry);
+    }
+    return result;
+  }
+
+  /**
+   * Reapplies the most recently undone change. Returns undefined if there
+   * is none.
+   */
+  async redo(
+    mode: EditHistoryMode = 'check',
+  ): Promise<EditHistoryResult | undefined> {
+    const entry = this.redoStack.at(-1);
+    if (!entry) {
+      return undefined;
+    }
+    const result = await this.apply(entry, 'before', 'after', mode);
+    if (result.applied) {
+      this.redoStack.pop();
+      this.undoStack.push(entry);
+    }
+    return result;
+  }
+
+  /**
+   * Moves the files of an entry from the `from` version to the `to`
+   * version, treating files whose current content is not `from` as changed
+   * by hand.
+   */
+  private async apply(
+    entry: EditHistoryEntry,
+    from: 'before' | 'after',
+    to: 'before' | 'after',
+    mode: EditHistoryMode,
+  ): Promise<EditHistoryResult> {
+    const git = await this.getGitService();
+    const current = await git.storeFileVersions(
+      entry.files.map((file) => file.path),
+    );
+    const modifiedFiles = entry.files
+      .filter((file) => (current.get(file.path) ?? null) !== file[from])
+      .map((file) => file.path);
+
+    if (modifiedFiles.length > 0 && mode === 'check') {
+      return { entry, applied: false, modifiedFiles, conflictedFiles: [] };
+    }
+
+    const conflictedFiles: string[] = [];
+    for (const file of entry.files) {
+      if (mode === 'merge' && modifiedFiles.includes(file.path)) {
+        if (!(await git.mergeFileVersion(file.path, file[from], file[to]))) {
+          conflictedFiles.push(file.path);
+        }
+      } else {
+        await git.restoreFileVersion(file.path, file[to]);
+      }
+    }
+    return { entry, applied: true, modifiedFiles, conflictedFiles };
+  }
+
+  private async createSnapshot(
+    git: GitService,
+    message: string,
+  ): Promise<string> {
+    // Nothing is committed when the project did not change.
+    return (
+      (await git.createFileSnapshot(message)) ||
+      (await git.getCurrentCommitHash())
+    );
+  }
+}
@@ -18,6 +18,8 @@ vi.mock('node:child_process', () => ({
 const hoistedMockMkdir = vi.hoisted(() => vi.fn());
 const hoistedMockReadFile = vi.hoisted(() => vi.fn());
 const hoistedMockWriteFile = vi.hoisted(() => vi.fn());
+const hoistedMockRm = vi.hoisted(() => vi.fn());
+const hoistedMockStat = vi.hoisted(() => vi.fn());
 
 vi.mock('fs/promises', async (importOriginal) => {
   const actual = (await importOriginal()) as typeof FsPromisesModule;
@@ -26,6 +28,8 @@ vi.mock('fs/promises', async (importOriginal) => {
     mkdir: hoistedMockMkdir,
     readFile: hoistedMockReadFile,
     writeFile: hoistedMockWriteFile,
+    rm: hoistedMockRm,
+    stat: hoistedMockStat,
   };
 });
 
@@ -98,6 +102,9 @@ describe('GitService', () => {
     hoistedMockMkdir.mockResolvedValue(undefined);
     hoistedMockReadFile.mockResolvedValue('');
     hoistedMockWriteFile.mockResolvedValue(undefined);
+    hoistedMockStat.mockRejectedValue(
+      Object.assign(new Error('ENOENT'), { code: 'ENOENT' }),
+    );
     hoistedMockIsNodeError.mockImplementation((e) => e instanceof Error);
     hoistedMockHomedir.mockReturnValue(mockHomedir);
     hoistedMockCreateHash.mockUpdate.mockReturnThis();
@@ -278,4 +285,178 @@ describe('GitService', () => {
       expect(hoistedMockCommit).not.toHaveBeenCalled();
     });
   });
+  describe('snapshots', () => {
+    it('should describe changed files as what a restore would do', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        'M\tsrc/a.ts\nA\tdeleted.ts\nD\tnew.ts\n',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      await expect(service.getSnapshotChanges('abc')).resolves.toEqual([
+        { path: 'src/a.ts', status: 'modified' },
+        { path: 'deleted.ts', status: 'added' },
+        { path: 'new.ts', status: 'deleted' },
+      ]);
+      expect(hoistedMockAdd).toHaveBeenCalledWith('.');
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'diff',
+        '--cached',
+        '-R',
+        '--no-renames',
+        '--name-status',
+        'abc',
+        '--',
+      ]);
+    });
+
+    it('should split the diff per file', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        'diff --git a/a.ts b/a.ts\n-x\n+y\ndiff --git a/b.ts b/b.ts\n+z\n',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      const diffs = await service.getSnapshotDiffs('abc', ['a.ts', 'b.ts']);
+      expect(diffs.map((diff) => diff.fileName)).toEqual(['a.ts', 'b.ts']);
+      expect(diffs[0].fileDiff).toBe('diff --git a/a.ts b/a.ts\n-x\n+y\n');
+    });
+
+    it('should restore selected files and delete files missing from the snapshot', async () => {
+      hoistedMockRaw.mockImplementation(async (args: string[]) =>
+        args[0] === 'ls-tree' ? 'src/a.ts\n' : '',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      await service.restoreFilesFromSnapshot('abc', ['src/a.ts', 'new.ts']);
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'restore',
+        '--source',
+        'abc',
+        '--',
+        'src/a.ts',
+      ]);
+      expect(hoistedMockRm).toHaveBeenCalledWith(
+        path.join(mockProjectRoot, 'new.ts'),
+        { force: true },
+      );
+      await expect(
+        service.restoreFilesFromSnapshot('abc', ['../outside.ts']),
+      ).rejects.toThrow('outside the project');
+    });
+
+    it('should treat ./ and absolute paths like project-relative paths', async () => {
+      hoistedMockRaw.mockImplementation(async (args: string[]) =>
+        args[0] === 'ls-tree' ? 'src/a.ts\n' : '',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      await service.restoreFilesFromSnapshot('abc', [
+        './src/a.ts',
+        path.join(mockProjectRoot, 'src', 'b.ts'),
+      ]);
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'ls-tree',
+        '-r',
+        '--name-only',
+        'abc',
+        '--',
+        'src/a.ts',
+        'src/b.ts',
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'restore',
+        '--source',
+        'abc',
+        '--',
+        'src/a.ts',
+      ]);
+      expect(hoistedMockRm).toHaveBeenCalledTimes(1);
+      expect(hoistedMockRm).toHaveBeenCalledWith(
+        path.join(mockProjectRoot, 'src/b.ts'),
+        { force: true },
+      );
+    });
+
+    it('should refuse to restore directories', async () => {
+      hoistedMockRaw.mockImplementation(async (args: string[]) =>
+        args[0] === 'ls-tree' ? 'src/a.ts\n' : '',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      await expect(
+        service.restoreFilesFromSnapshot('abc', ['./src']),
+      ).rejects.toThrow('Cannot restore a directory: src');
+      await expect(
+        service.restoreFilesFromSnapshot('abc', ['.']),
+      ).rejects.toThrow('Cannot restore a directory: .');
+      expect(hoistedMockRaw).not.toHaveBeenCalledWith(
+        expect.arrayContaining(['restore']),
+      );
+      expect(hoistedMockRm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('file versions', () => {
+    it('should store the mode of each file with its content', async () => {
+      hoistedMockStat.mockImplementation(async (file: string) => ({
+        isFile: () => true,
+        mode: file.endsWith('.sh') ? 0o100755 : 0o100644,
+      }));
+      hoistedMockRaw.mockResolvedValue('hash1\nhash2\n');
+      const service = new GitService(mockProjectRoot);
+
+      const versions = await service.storeFileVersions(['run.sh', 'a.ts']);
+
+      expect(versions).toEqual(
+        new Map([
+          ['run.sh', '100755 hash1'],
+          ['a.ts', '100644 hash2'],
+        ]),
+      );
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'hash-object',
+        '-w',
+        '--',
+        'run.sh',
+        'a.ts',
+      ]);
+    });
+
+    it('should read the mode of each file in a snapshot', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        '100755 blob hash1\trun.sh\n100644 blob hash2\ta.ts\n',
+      );
+      const service = new GitService(mockProjectRoot);
+
+      await expect(
+        service.getSnapshotFileVersions('abc', ['run.sh', 'a.ts', 'new.ts']),
+      ).resolves.toEqual(
+        new Map([
+          ['run.sh', '100755 hash1'],
+          ['a.ts', '100644 hash2'],
+          ['new.ts', null],
+        ]),
+      );
+    });
+
+    it('should restore a file with its mode', async () => {
+      const service = new GitService(mockProjectRoot);
+
+      await service.restoreFileVersion('run.sh', '100755 hash1');
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'update-index',
+        '--add',
+        '--cacheinfo',
+        '100755,hash1,run.sh',
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'checkout-index',
+        '-f',
+        '--',
+        'run.sh',
+      ]);
+    });
+  });
 });
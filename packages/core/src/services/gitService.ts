@@ -12,6 +12,19 @@ import { isGitRepository } from '../utils/gitUtils.js';
 import { exec } from 'node:child_process';
 import { simpleGit, SimpleGit, CheckRepoActions } from 'simple-git';
 import { getProjectHash, GEMINI_DIR } from '../utils/paths.js';
+import { FileDiff } from '../tools/tools.js';
+
+export interface SnapshotFileChange {
+  /** Path relative to the project root. */
+  path: string;
+  /** What restoring the snapshot would do to the file. */
+  status: 'added' | 'modified' | 'deleted';
+}
+
+const CHANGE_STATUS: Record<string, SnapshotFileChange['status']> = {
+  A: 'added',
+  D: 'deleted',
+};
 
 export class GitService {
   private projectRoot: string;
@@ -119,4 +132,267 @@ export class GitService {
     // Removes any untracked files that were introduced post snapshot.
     await repo.clean('f', ['-d']);
   }
+
+  /**
+   * Lists the files that differ between a snapshot and the working tree.
+   * The working tree is staged in the shadow repository so that new files
+   * are included.
+   */
+  async getSnapshotChanges(commitHash: string): Promise<SnapshotFileChange[]> {
+    const output = await this.diffAgainstSnapshot(commitHash, [
+      '--name-status',
+    ]);
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [code, ...filePath] = line.split('\t');
+        return {
+          path: filePath.join('\t'),
+          status: CHANGE_STATUS[code] ?? 'modified',
+        };
+      });
+  }
+
+  /**
+   * Returns one unified diff per file showing what restoring the snapshot
+   * would change, optionally limited to the given files.
+   */
+  async getSnapshotDiffs(
+    commitHash: string,
+    files: string[] = [],
+  ): Promise<FileDiff[]> {
+    const output = await this.diffAgainstSnapshot(commitHash, [], files);
+    return output
+      .split(/^(?=diff --git )/m)
+      .filter((fileDiff) => fileDiff.startsWith('diff --git '))
+      .map((fileDiff) => ({
+        fileName: /^diff --git a\/.* b\/(.*)$/m.exec(fileDiff)?.[1] ?? '',
+        fileDiff,
+      }));
+  }
+
+  /**
+   * Restores only the given files, relative to the project root, to their
+   * state in the snapshot. Files that did not exist then are deleted.
+   */
+  async restoreFilesFromSnapshot(
+    commitHash: string,
+    files: string[],
+  ): Promise<void> {
+    // ls-tree prints paths relative to the project root with forward
+    // slashes, so compare and act on paths in the same form.
+    const relativeFiles: string[] = [];
+    for (const file of files) {
+      const absolute = path.resolve(this.projectRoot, file);
+      const relative = path.relative(this.projectRoot, absolute);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new Error(`File is outside the project: ${file}`);
+      }
+      const stats = await fs.stat(absolute).catch(() => undefined);
+      if (!relative || stats?.isDirectory()) {
+        throw new Error(`Cannot restore a directory: ${file}`);
+      }
+      relativeFiles.push(relative.split(path.sep).join('/'));
+    }
+    const repo = this.shadowGitRepository;
+    const listed = (
+      await repo.raw([
+        'ls-tree',
+        '-r',
+        '--name-only',
+        commitHash,
+        '--',
+        ...relativeFiles,
+      ])
+    )
+      .split('\n')
+      .filter(Boolean);
+    const directory = relativeFiles.find((file) =>
+      listed.some((entry) => entry.startsWith(`${file}/`)),
+    );
+    if (directory) {
+      throw new Error(`Cannot restore a directory: ${directory}`);
+    }
+    const inSnapshot = new Set(listed);
+    const toRestore = relativeFiles.filter((file) => inSnapshot.has(file));
+    if (toRestore.length > 0) {
+      await repo.raw(['restore', '--source', commitHash, '--', ...toRestore]);
+    }
+    for (const file of relativeFiles) {
+      if (!inSnapshot.has(file)) {
+        await fs.rm(path.join(this.projectRoot, file), { force: true });
+      }
+    }
+  }
+
+  private async diffAgainstSnapshot(
+    commitHash: string,
+    options: string[],
+    files: string[] = [],
+  ): Promise<string> {
+    const repo = this.shadowGitRepository;
+    await repo.add('.');
+    // -R turns "snapshot -> now" into "now -> snapshot", i.e. the restore.
+    return repo.raw([
+      'diff',
+      '--cached',
+      '-R',
+      '--no-renames',
+      ...options,
+      commitHash,
+      '--',
+      ...files,
+    ]);
+  }
+  /**
+   * Stores the current content of the given files, relative to the project
+   * root, in the shadow repository. Returns the version of each file as its
+   * mode and blob hash, or null for files that do not exist.
+   */
+  async storeFileVersions(
+    files: string[],
+  ): Promise<Map<string, string | null>> {
+    const existing: string[] = [];
+    const modes: string[] = [];
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(path.join(this.projectRoot, file));
+        if (stats.isFile()) {
+          existing.push(file);
+          modes.push(stats.mode & 0o111 ? '100755' : '100644');
+        }
+      } catch (error) {
+        if (!isNodeError(error) || error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+    const hashes =
+      existing.length > 0
+        ? (
+            await this.shadowGitRepository.raw([
+              'hash-object',
+              '-w',
+              '--',
+              ...existing,
+            ])
+          )
+            .split('\n')
+            .filter(Boolean)
+        : [];
+    return new Map(
+      files.map((file) => {
+        const index = existing.indexOf(file);
+        return [file, index === -1 ? null : `${modes[index]} ${hashes[index]}`];
+      }),
+    );
+  }
+
+  /**
+   * Returns the version of each file in a snapshot, in the form returned by
+   * {@link storeFileVersions}, or null for files that are not part of it.
+   */
+  async getSnapshotFileVersions(
+    commitHash: string,
+    files: string[],
+  ): Promise<Map<string, string | null>> {
+    const output = await this.shadowGitRepository.raw([
+      'ls-tree',
+      '-r',
+      commitHash,
+      '--',
+      ...files,
+    ]);
+    const versions = new Map<string, string>();
+    for (const line of output.split('\n').filter(Boolean)) {
+      // <mode> blob <hash>\t<path>
+      const [info, file] = line.split('\t');
+      const [mode, , hash] = info.split(' ');
+      versions.set(file, `${mode} ${hash}`);
+    }
+    return new Map(files.map((file) => [file, versions.get(file) ?? null]));
+  }
+
+  /**
+   * Lists the files that differ between two snapshots.
+   */
+  async getChangedFilesBetween(
+    fromCommit: string,
+    toCommit: string,
+  ): Promise<string[]> {
+    const output = await this.shadowGitRepository.raw([
+      'diff',
+      '--name-only',
+      '--no-renames',
+      fromCommit,
+      toCommit,
+    ]);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Writes a version stored by {@link storeFileVersions} back to the project,
+   * with its mode, or deletes the file if the version is null.
+   */
+  async restoreFileVersion(
+    file: string,
+    version: string | null,
+  ): Promise<void> {
+    if (version === null) {
+      await fs.rm(path.join(this.projectRoot, file), { force: true });
+      return;
+    }
+    const [mode, hash] = version.split(' ');
+    const repo = this.shadowGitRepository;
+    await repo.raw([
+      'update-index',
+      '--add',
+      '--cacheinfo',
+      `${mode},${hash},${file}`,
+    ]);
+    await repo.raw(['checkout-index', '-f', '--', file]);
+  }
+
+  /**
+   * Applies the change from `baseVersion` to `otherVersion` on top of the
+   * file in the project with a 3-way merge, keeping changes made to it
+   * since. Returns false if the merge left conflict markers in the file.
+   */
+  async mergeFileVersion(
+    file: string,
+    baseVersion: string | null,
+    otherVersion: string | null,
+  ): Promise<boolean> {
+    const repo = this.shadowGitRepository;
+    const readVersion = async (version: string | null) =>
+      version === null
+        ? ''
+        : repo.raw(['cat-file', 'blob', version.split(' ')[1]]);
+    const filePath = path.join(this.projectRoot, file);
+    const basePath = path.join(this.getHistoryDir(), 'MERGE_BASE');
+    const otherPath = path.join(this.getHistoryDir(), 'MERGE_OTHER');
+    await fs.writeFile(basePath, await readVersion(baseVersion));
+    await fs.writeFile(otherPath, await readVersion(otherVersion));
+    try {
+      await fs.writeFile(filePath, '', { flag: 'a' });
+      await repo.raw([
+        'merge-file',
+        '-L',
+        'yours',
+        '-L',
+        'base',
+        '-L',
+        'agent',
+        filePath,
+        basePath,
+        otherPath,
+      ]);
+    } finally {
+      await fs.rm(basePath, { force: true });
+      await fs.rm(otherPath, { force: true });
+    }
+    const merged = await fs.readFile(filePath, 'utf-8');
+    return !/^<<<<<<< yours$/m.test(merged);
+  }
 }
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { chunkBySymbol, SemanticIndexService } from './semanticIndexService.js';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+
+const VOCABULARY = ['token', 'refresh', 'auth', 'render', 'button', 'color'];
+
+// Bag-of-words vectors are enough to tell the test files apart.
+function fakeEmbed(texts: string[]): Promise<number[][]> {
+  return Promise.resolve(
+    texts.map((text) =>
+      VOCABULARY.map(
+        (word) => text.toLowerCase().split(word).length - 1 + 0.01,
+      ),
+    ),
+  );
+}
+
+describe('chunkBySymbol', () => {
+  it('should start a chunk at each top-level declaration', () => {
+    const body = Array.from({ length: 10 }, (_, i) => `  line${i}();`);
+    const content = [
+      "import x from 'x';",
+      '',
+      '/**',
+      ' * Refreshes the token.',
+      ' */',
+      'export async function refreshToken() {',
+      ...body,
+      '}',
+      '',
+      'export class Button {',
+      ...body,
+      '}',
+    ].join('\n');
+
+    const chunks = chunkBySymbol(content);
+    expect(chunks.map((c) => c.symbol)).toEqual(['refreshToken', 'Button']);
+    // The import preamble is too small to stand alone, and the doc comment
+    // stays with the function it documents.
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[0].text).toContain('Refreshes the token.');
+    expect(chunks[1].startLine).toBe(19);
+  });
+
+  it('should split long files without declarations into windows', () => {
+    const content = Array.from({ length: 300 }, (_, i) => `row ${i}`).join(
+      '\n',
+    );
+    const chunks = chunkBySymbol(content);
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [1, 120],
+      [121, 240],
+      [241, 300],
+    ]);
+  });
+});
+
+describe('SemanticIndexService', () => {
+  let rootDir: string;
+  let indexDir: string;
+  let embed: ReturnType<typeof vi.fn>;
+
+  const createService = () =>
+    new SemanticIndexService({
+      rootDir,
+      indexDir,
+      fileService: new FileDiscoveryService(rootDir),
+      embeddingModel: 'nomic-embed-text',
+      embed: embed as (texts: string[]) => Promise<number[][]>,
+    });
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-index-root-'));
+    indexDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-index-'));
+    embed = vi.fn(fakeEmbed);
+
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'auth.ts'),
+      'export function refreshAuthToken() {\n  // refresh the auth token\n}\n',
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'button.tsx'),
+      'export function renderButton() {\n  // render button color\n}\n',
+    );
+    await fs.writeFile(path.join(rootDir, '.geminiignore'), 'secret.ts\n');
+    await fs.writeFile(
+      path.join(rootDir, 'secret.ts'),
+      'export const token = 1;\n',
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    await fs.rm(indexDir, { recursive: true, force: true });
+  });
+
+  it('should index files and rank chunks by similarity', async () => {
+    const service = createService();
+    const result = await service.update();
+
+    expect(result.updatedFiles).toBe(3);
+    const results = await service.search('auth token refresh');
+    expect(results[0]).toMatchObject({
+      filePath: path.join('src', 'auth.ts'),
+      startLine: 1,
+      symbol: 'refreshAuthToken',
+    });
+    // Ignored files are never embedded.
+    expect(results.map((r) => r.filePath)).not.toContain('secret.ts');
+  });
+
+  it('should only re-embed changed files on refresh', async () => {
+    await createService().update();
+    embed.mockClear();
+
+    // A new instance reads the persisted index.
+    const service = createService();
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'button.tsx'),
+      'export function renderButton() {\n  // render a big red button\n}\n',
+    );
+    await fs.rm(path.join(rootDir, 'src', 'auth.ts'));
+
+    const result = await service.update();
+    expect(result).toMatchObject({ updatedFiles: 1, removedFiles: 1 });
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed.mock.calls[0][0][0]).toContain('render a big red button');
+  });
+
+  it('should restrict results to a path prefix', async () => {
+    await fs.writeFile(
+      path.join(rootDir, 'auth-notes.md'),
+      'auth token refresh notes\n',
+    );
+    const service = createService();
+    await service.update();
+
+    const results = await service.search('auth token refresh', {
+      pathPrefix: 'src',
+    });
+    expect(results.every((r) => r.filePath.startsWith('src'))).toBe(true);
+  });
+
+  it('should report status and clear the index', async () => {
+    const service = createService();
+    await expect(service.getStatus()).resolves.toMatchObject({
+      exists: false,
+      files: 0,
+    });
+
+    await service.update();
+    await expect(service.getStatus()).resolves.toMatchObject({
+      exists: true,
+      embeddingModel: 'nomic-embed-text',
+      // src/auth.ts, src/button.tsx and .geminiignore
+      files: 3,
+    });
+
+    await service.clear();
+    await expect(service.getStatus()).resolves.toMatchObject({
+      exists: false,
+    });
+  });
+});
@@ -0,0 +1,514 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { glob } from 'glob';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+import { detectFileType } from '../utils/fileUtils.js';
+import { isNodeError } from '../utils/errors.js';
+
+const INDEX_FILE_NAME = 'semantic-index.json';
+const INDEX_VERSION = 1;
+
+// Files above this size are almost always generated or vendored.
+const MAX_FILE_SIZE_BYTES = 512 * 1024;
+const MAX_CHUNK_LINES = 120;
+const MIN_CHUNK_LINES = 8;
+// Keeps each embedding request well inside the input limit of common
+// embedding models (8k tokens for OpenAI, 2k for nomic-embed-text).
+const MAX_EMBEDDING_CHARS = 6000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+/**
+ * Declarations that start a new chunk when they appear at the start of a
+ * line. The first capture group is the symbol name.
+ */
+const SYMBOL_PATTERNS: RegExp[] = [
+  // JavaScript / TypeScript
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/,
+  // Python
+  /^(?:async\s+)?def\s+(\w+)/,
+  /^class\s+(\w+)/,
+  // Go
+  /^func\s+(?:\([^)]*\)\s*)?(\w+)/,
+  /^type\s+(\w+)\s+(?:struct|interface)/,
+  // Rust
+  /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait|mod)\s+(\w+)/,
+  /^impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([\w:]+)/,
+  // Java / C# / Kotlin
+  /^(?:(?:public|private|protected|internal|static|final|abstract|sealed|data|open)\s+)*(?:class|interface|enum|record|object)\s+(\w+)/,
+];
+
+/**
+ * A span of a file that is embedded as one unit.
+ */
+export interface CodeChunk {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  text: string;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  // Float32 vector, base64 encoded to keep the index file small.
+  vector: string;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  chunks: IndexedChunk[];
+}
+
+interface SemanticIndexData {
+  version: number;
+  embeddingModel: string;
+  updatedAt: string;
+  files: Record<string, IndexedFile>;
+}
+
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface SemanticIndexOptions {
+  rootDir: string;
+  /** Directory the index file is stored in, e.g. the project temp dir. */
+  indexDir: string;
+  fileService: FileDiscoveryService;
+  embeddingModel: string;
+  embed: EmbedFunction;
+  respectGitIgnore?: boolean;
+}
+
+export interface SemanticIndexUpdateResult {
+  indexedFiles: number;
+  updatedFiles: number;
+  removedFiles: number;
+  totalChunks: number;
+  durationMs: number;
+}
+
+export interface SemanticIndexStatus {
+  exists: boolean;
+  indexPath: string;
+  embeddingModel?: string;
+  updatedAt?: string;
+  files: number;
+  chunks: number;
+}
+
+export interface SemanticSearchResult {
+  /** Path relative to the project root. */
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  /** Only return chunks from files under this path (relative to the root). */
+  pathPrefix?: string;
+}
+
+function symbolAt(line: string): string | undefined {
+  for (const pattern of SYMBOL_PATTERNS) {
+    const match = pattern.exec(line);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function isLeadingCommentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.startsWith('/*') ||
+    trimmed.startsWith('*') ||
+    trimmed.startsWith('//') ||
+    trimmed.startsWith('#') ||
+    trimmed.startsWith('@')
+  );
+}
+
+/**
+ * Splits a file into chunks at top-level declarations, keeping doc comments
+ * and decorators with the symbol they describe. Small declarations are merged
+ * and long ones are split so chunks stay a useful size for embedding. Files
+ * without recognizable declarations are split into fixed windows.
+ */
+export function chunkBySymbol(content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const boundaries: Array<{ line: number; symbol?: string }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const symbol = symbolAt(lines[i]);
+    if (!symbol) {
+      continue;
+    }
+    let start = i;
+    while (start > 0 && isLeadingCommentLine(lines[start - 1])) {
+      start--;
+    }
+    const previous = boundaries[boundaries.length - 1];
+    if (!previous || start > previous.line) {
+      boundaries.push({ line: start, symbol });
+    }
+  }
+
+  const segments: Array<{ start: number; end: number; symbols: string[] }> = [];
+  if (boundaries.length === 0 || boundaries[0].line > 0) {
+    segments.push({
+      start: 0,
+      end: (boundaries[0]?.line ?? lines.length) - 1,
+      symbols: [],
+    });
+  }
+  boundaries.forEach((boundary, index) => {
+    segments.push({
+      start: boundary.line,
+      end: (boundaries[index + 1]?.line ?? lines.length) - 1,
+      symbols: boundary.symbol ? [boundary.symbol] : [],
+    });
+  });
+
+  const merged: typeof segments = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      (previous.end - previous.start + 1 < MIN_CHUNK_LINES ||
+        segment.end - segment.start + 1 < MIN_CHUNK_LINES) &&
+      segment.end - previous.start + 1 <= MAX_CHUNK_LINES
+    ) {
+      previous.end = segment.end;
+      previous.symbols.push(...segment.symbols);
+    } else {
+      merged.push({ ...segment, symbols: [...segment.symbols] });
+    }
+  }
+
+  const chunks: CodeChunk[] = [];
+  for (const segment of merged) {
+    for (
+      let start = segment.start;
+      start <= segment.end;
+      start += MAX_CHUNK_LINES
+    ) {
+      const end = Math.min(segment.end, start + MAX_CHUNK_LINES - 1);
+      const text = lines.slice(start, end + 1).join('\n');
+      if (text.trim() === '') {
+        continue;
+      }
+      chunks.push({
+        startLine: start + 1,
+        endLine: end + 1,
+        symbol:
+          segment.symbols.length > 0 ? segment.symbols.join(', ') : undefined,
+        text,
+      });
+    }
+  }
+  return chunks;
+}
+
+function encodeVector(values: number[]): string {
+  return Buffer.from(new Float32Array(values).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  return new Float32Array(
+    buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length),
+  );
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Persistent embedding index of the workspace used by the `semantic_search`
+ * tool. Files are re-embedded only when their content changes.
+ */
+export class SemanticIndexService {
+  private data: SemanticIndexData | null = null;
+  private loaded = false;
+  private pendingUpdate: Promise<SemanticIndexUpdateResult> | null = null;
+
+  constructor(private readonly options: SemanticIndexOptions) {}
+
+  getIndexPath(): string {
+    return path.join(this.options.indexDir, INDEX_FILE_NAME);
+  }
+
+  private async load(): Promise<SemanticIndexData | null> {
+    if (this.loaded) {
+      return this.data;
+    }
+    try {
+      const raw = await fs.readFile(this.getIndexPath(), 'utf-8');
+      const parsed = JSON.parse(raw) as SemanticIndexData;
+      // A different embedding model produces incomparable vectors.
+      this.data =
+        parsed.version === INDEX_VERSION &&
+        parsed.embeddingModel === this.options.embeddingModel
+          ? parsed
+          : null;
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        console.warn(
+          `Ignoring unreadable semantic index at ${this.getIndexPath()}:`,
+          error,
+        );
+      }
+      this.data = null;
+    }
+    this.loaded = true;
+    return this.data;
+  }
+
+  private async save(data: SemanticIndexData): Promise<void> {
+    await fs.mkdir(this.options.indexDir, { recursive: true });
+    const tempPath = `${this.getIndexPath()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.getIndexPath());
+  }
+
+  private async listFiles(signal?: AbortSignal): Promise<string[]> {
+    const files = await glob('**/*', {
+      cwd: this.options.rootDir,
+      nodir: true,
+      dot: true,
+      ignore: ['**/node_modules/**', '**/.git/**'],
+      follow: false,
+      signal,
+    });
+    return this.options.fileService
+      .filterFiles(files, {
+        respectGitIgnore: this.options.respectGitIgnore ?? true,
+        respectGeminiIgnore: true,
+      })
+      .sort();
+  }
+
+  /**
+   * Brings the index up to date with the workspace. Unchanged files keep
+   * their vectors; `force` re-embeds everything.
+   */
+  update(
+    options: { force?: boolean; signal?: AbortSignal } = {},
+  ): Promise<SemanticIndexUpdateResult> {
+    if (!this.pendingUpdate) {
+      this.pendingUpdate = this.runUpdate(options).finally(() => {
+        this.pendingUpdate = null;
+      });
+    }
+    return this.pendingUpdate;
+  }
+
+  private async runUpdate({
+    force = false,
+    signal,
+  }: {
+    force?: boolean;
+    signal?: AbortSignal;
+  }): Promise<SemanticIndexUpdateResult> {
+    const startTime = Date.now();
+    const previous = force ? null : await this.load();
+    const files: Record<string, IndexedFile> = {};
+    const pending: Array<{ filePath: string; chunk: CodeChunk }> = [];
+    let updatedFiles = 0;
+
+    for (const filePath of await this.listFiles(signal)) {
+      signal?.throwIfAborted();
+      const absolutePath = path.join(this.options.rootDir, filePath);
+      let stats;
+      try {
+        stats = await fs.stat(absolutePath);
+      } catch {
+        continue;
+      }
+      if (stats.size === 0 || stats.size > MAX_FILE_SIZE_BYTES) {
+        continue;
+      }
+
+      const existing = previous?.files[filePath];
+      if (
+        existing &&
+        existing.mtimeMs === stats.mtimeMs &&
+        existing.size === stats.size
+      ) {
+        files[filePath] = existing;
+        continue;
+      }
+      if (detectFileType(absolutePath) !== 'text') {
+        continue;
+      }
+
+      const content = await fs.readFile(absolutePath, 'utf-8');
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      if (existing && existing.hash === hash) {
+        files[filePath] = {
+          ...existing,
+          mtimeMs: stats.mtimeMs,
+          size: stats.size,
+        };
+        continue;
+      }
+
+      files[filePath] = {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        hash,
+        chunks: [],
+      };
+      for (const chunk of chunkBySymbol(content)) {
+        pending.push({ filePath, chunk });
+      }
+      updatedFiles++;
+    }
+
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      // The path and symbol give the model context the code alone lacks.
+      const vectors = await this.options.embed(
+        batch.map(({ filePath, chunk }) =>
+          `${filePath}${chunk.symbol ? ` (${chunk.symbol})` : ''}\n${chunk.text}`.slice(
+            0,
+            MAX_EMBEDDING_CHARS,
+          ),
+        ),
+      );
+      batch.forEach(({ filePath, chunk }, index) => {
+        files[filePath].chunks.push({
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+          vector: encodeVector(vectors[index]),
+        });
+      });
+    }
+
+    const removedFiles = previous
+      ? Object.keys(previous.files).filter((filePath) => !files[filePath])
+          .length
+      : 0;
+
+    const data: SemanticIndexData = {
+      version: INDEX_VERSION,
+      embeddingModel: this.options.embeddingModel,
+      updatedAt: new Date().toISOString(),
+      files,
+    };
+    if (updatedFiles > 0 || removedFiles > 0 || !previous) {
+      await this.save(data);
+    }
+    this.data = data;
+    this.loaded = true;
+
+    return {
+      indexedFiles: Object.keys(files).length,
+      updatedFiles,
+      removedFiles,
+      totalChunks: Object.values(files).reduce(
+        (total, file) => total + file.chunks.length,
+        0,
+      ),
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Returns the chunks most similar to `query`, best match first.
+   */
+  async search(
+    query: string,
+    options: SemanticSearchOptions = {},
+  ): Promise<SemanticSearchResult[]> {
+    const data = await this.load();
+    if (!data) {
+      return [];
+    }
+    const [queryVector] = await this.options.embed([query]);
+    const prefix = options.pathPrefix
+      ? path.normalize(options.pathPrefix).replace(/[\\/]+$/, '')
+      : undefined;
+
+    const results: SemanticSearchResult[] = [];
+    for (const [filePath, file] of Object.entries(data.files)) {
+      if (
+        prefix &&
+        prefix !== '.' &&
+        filePath !== prefix &&
+        !filePath.startsWith(`${prefix}${path.sep}`)
+      ) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        results.push({
+          filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+          score: cosineSimilarity(queryVector, decodeVector(chunk.vector)),
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10);
+  }
+
+  async getStatus(): Promise<SemanticIndexStatus> {
+    const data = await this.load();
+    return {
+      exists: data !== null,
+      indexPath: this.getIndexPath(),
+      embeddingModel: data?.embeddingModel,
+      updatedAt: data?.updatedAt,
+      files: data ? Object.keys(data.files).length : 0,
+      chunks: data
+        ? Object.values(data.files).reduce(
+            (total, file) => total + file.chunks.length,
+            0,
+          )
+        : 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.getIndexPath(), { force: true });
+    this.data = null;
+    this.loaded = true;
+  }
+}
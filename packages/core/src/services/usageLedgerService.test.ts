@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  estimateCost,
+  isPaidModel,
+  UsageLedgerService,
+} from './usageLedgerService.js';
+
+const usage = {
+  promptTokenCount: 1_000_000,
+  candidatesTokenCount: 100_000,
+  thoughtsTokenCount: 100_000,
+};
+
+describe('estimateCost', () => {
+  it('should price input and output, including reasoning, from the registry', () => {
+    // claude-sonnet: $3 input, $15 output per 1M tokens.
+    expect(
+      estimateCost('claude-3-5-sonnet-20241022', 'anthropic', usage),
+    ).toBeCloseTo(6);
+    // Dated snapshots resolve to the registered model.
+    expect(estimateCost('gpt-4o-2024-08-06', 'openai', usage)).toBeCloseTo(4.5);
+  });
+
+  it('should treat unknown and local models as free', () => {
+    expect(estimateCost('my-finetune', 'openai', usage)).toBe(0);
+    expect(isPaidModel('llama3.2:3b', 'ollama')).toBe(false);
+    expect(isPaidModel('gpt-4o', 'openai')).toBe(true);
+  });
+});
+
+describe('UsageLedgerService', () => {
+  let tempDir: string;
+  let ledgerDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-'));
+    ledgerDir = path.join(tempDir, 'usage');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  function createLedger(projectRoot: string) {
+    return new UsageLedgerService({ ledgerDir, projectRoot });
+  }
+
+  it('should persist usage per day, project and model', async () => {
+    const ledger = createLedger('/work/a');
+    const now = new Date(2025, 5, 18, 12);
+    await ledger.record({
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage,
+      timestamp: now,
+    });
+    await ledger.record({
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage,
+      timestamp: now,
+    });
+    await createLedger('/work/b').record({
+      model: 'llama3.2:3b',
+      provider: 'ollama',
+      usage: { promptTokenCount: 10, candidatesTokenCount: 5 },
+      timestamp: now,
+    });
+
+    // A fresh instance reads what the others wrote.
+    const totals = await createLedger('/work/a').getMonthlyTotals({ now });
+    expect(totals['openai:gpt-4o']).toMatchObject({
+      requests: 2,
+      inputTokens: 2_000_000,
+      outputTokens: 200_000,
+      thoughtsTokens: 200_000,
+    });
+    expect(totals['openai:gpt-4o'].costUsd).toBeCloseTo(9);
+    expect(totals['ollama:llama3.2:3b'].requests).toBe(1);
+
+    const projectTotals = await ledger.getMonthlyTotals({
+      now,
+      projectOnly: true,
+    });
+    expect(Object.keys(projectTotals)).toEqual(['openai:gpt-4o']);
+  });
+
+  it('should break usage down by day and by week starting on Monday', async () => {
+    const ledger = createLedger('/work/a');
+    // Wednesday 2025-07-02; the previous week spans a month boundary.
+    const now = new Date(2025, 6, 2, 18);
+    for (const day of [new Date(2025, 5, 29), new Date(2025, 5, 30), now]) {
+      await ledger.record({
+        model: 'gpt-4o-mini',
+        provider: 'openai',
+        usage: { promptTokenCount: 100, candidatesTokenCount: 10 },
+        timestamp: day,
+      });
+    }
+
+    const daily = await ledger.getReport('daily', 3, { now });
+    expect(daily.map((p) => [p.start, p.total.requests])).toEqual([
+      ['2025-06-30', 1],
+      ['2025-07-01', 0],
+      ['2025-07-02', 1],
+    ]);
+
+    const weekly = await ledger.getReport('weekly', 2, { now });
+    expect(weekly.map((p) => [p.start, p.end, p.total.requests])).toEqual([
+      ['2025-06-23', '2025-06-29', 1],
+      ['2025-06-30', '2025-07-06', 2],
+    ]);
+    expect(weekly[1].models['openai:gpt-4o-mini'].inputTokens).toBe(200);
+  });
+
+  it('should report soft and hard budget states for the current month', async () => {
+    const ledger = createLedger('/work/a');
+    const now = new Date(2025, 5, 18);
+    await ledger.record({
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage,
+      timestamp: now,
+    });
+    // Last month's spend does not count.
+    await ledger.record({
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage,
+      timestamp: new Date(2025, 4, 31),
+    });
+
+    await expect(
+      ledger.checkBudget({ softLimitUsd: 10, hardLimitUsd: 20 }, now),
+    ).resolves.toMatchObject({ state: 'ok', month: '2025-06' });
+    await expect(
+      ledger.checkBudget({ softLimitUsd: 4, hardLimitUsd: 20 }, now),
+    ).resolves.toMatchObject({ state: 'soft' });
+    const status = await ledger.checkBudget(
+      { softLimitUsd: 1, hardLimitUsd: 4 },
+      now,
+    );
+    expect(status.state).toBe('hard');
+    expect(status.spentUsd).toBeCloseTo(4.5);
+
+    await expect(
+      createLedger('/work/b').checkBudget(
+        { hardLimitUsd: 4, scope: 'project' },
+        now,
+      ),
+    ).resolves.toMatchObject({ state: 'ok', spentUsd: 0 });
+  });
+
+  it('should not overwrite a damaged ledger file', async () => {
+    const ledger = createLedger('/work/a');
+    const now = new Date(2025, 5, 18);
+    await fs.mkdir(ledgerDir, { recursive: true });
+    await fs.writeFile(ledger.getLedgerPath('2025-06'), '{not json');
+
+    await expect(
+      ledger.record({ model: 'gpt-4o', usage, timestamp: now }),
+    ).rejects.toThrow();
+    await expect(
+      fs.readFile(ledger.getLedgerPath('2025-06'), 'utf-8'),
+    ).resolves.toBe('{not json');
+  });
+});
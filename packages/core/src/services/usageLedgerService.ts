@@ -0,0 +1,422 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { UsageBudgetSettings } from '../config/config.js';
+import { findModelByPrefix } from '../providers/model-registry.js';
+import { ProviderType } from '../providers/types.js';
+import { getProjectHash } from '../utils/paths.js';
+import { isNodeError } from '../utils/errors.js';
+
+const LEDGER_VERSION = 1;
+// Registry prices are quoted in $/1M tokens.
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Token and cost totals for one bucket of the ledger.
+ */
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  thoughtsTokens: number;
+  costUsd: number;
+}
+
+interface UsageLedgerData {
+  version: number;
+  /** Project roots by project hash, so reports can name projects. */
+  projects: Record<string, string>;
+  /** Totals by local date, project hash and `provider:model`. */
+  days: Record<string, Record<string, Record<string, UsageTotals>>>;
+}
+
+export interface UsageLedgerOptions {
+  /** Directory holding one ledger file per month. */
+  ledgerDir: string;
+  projectRoot: string;
+}
+
+export interface UsageRecord {
+  model: string;
+  provider?: string;
+  usage: GenerateContentResponseUsageMetadata;
+  timestamp?: Date;
+}
+
+export interface UsageQueryOptions {
+  /** Only count usage of the current project. */
+  projectOnly?: boolean;
+  /** Reference time; defaults to now. */
+  now?: Date;
+}
+
+/**
+ * Usage over one day or week, broken down by `provider:model`.
+ */
+export interface UsagePeriod {
+  /** Local date the period starts on, as `YYYY-MM-DD`. */
+  start: string;
+  /** Local date the period ends on, inclusive. */
+  end: string;
+  models: Record<string, UsageTotals>;
+  total: UsageTotals;
+}
+
+export type BudgetState = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  /** Spend in the current calendar month, within the budget's scope. */
+  spentUsd: number;
+  softLimitUsd?: number;
+  hardLimitUsd?: number;
+  /** Month the spend is counted for, as `YYYY-MM`. */
+  month: string;
+}
+
+/**
+ * Thrown instead of sending a request to a paid model once the monthly hard
+ * budget is spent. Carries HTTP 402 so it is classified like a provider's
+ * billing limit, which lets fallback chains move to a free model.
+ */
+export class UsageBudgetExceededError extends Error {
+  readonly status = 402;
+
+  constructor(readonly budget: BudgetStatus) {
+    super(
+      `Monthly usage budget exceeded: ${formatUsd(budget.spentUsd)} spent of the ${formatUsd(budget.hardLimitUsd ?? 0)} hard limit for ${budget.month}. ` +
+        'Raise "usageBudget.hardLimitUsd" in settings.json or switch to a local model.',
+    );
+    this.name = 'UsageBudgetExceededError';
+  }
+}
+
+export function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? '<$0.01' : `$${amount.toFixed(2)}`;
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    thoughtsTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cachedTokens += source.cachedTokens;
+  target.thoughtsTokens += source.thoughtsTokens;
+  target.costUsd += source.costUsd;
+}
+
+function findPricing(model: string, provider?: string) {
+  const providerType = (Object.values(ProviderType) as string[]).includes(
+    provider ?? '',
+  )
+    ? (provider as ProviderType)
+    : undefined;
+  return findModelByPrefix(model, providerType)?.pricing;
+}
+
+/**
+ * Whether the registry lists a non-zero price for the model. Local and
+ * unknown models are free as far as budgets are concerned.
+ */
+export function isPaidModel(model: string, provider?: string): boolean {
+  const pricing = findPricing(model, provider);
+  return !!pricing && (pricing.input > 0 || pricing.output > 0);
+}
+
+/**
+ * Computes the cost of one response from the registry pricing. Cached input
+ * is charged at the full input price since the registry has no cache rates,
+ * and reasoning tokens are billed as output.
+ */
+export function estimateCost(
+  model: string,
+  provider: string | undefined,
+  usage: GenerateContentResponseUsageMetadata,
+): number {
+  const pricing = findPricing(model, provider);
+  if (!pricing) {
+    return 0;
+  }
+  const outputTokens =
+    (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  return (
+    ((usage.promptTokenCount ?? 0) * pricing.input +
+      outputTokens * pricing.output) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function toLocalDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toLocalMonth(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Persists token usage and cost per day, project and model. Usage from all
+ * projects goes to one file per month in a shared directory, so budgets can
+ * cover total spend and several sessions can write to the same ledger.
+ */
+export class UsageLedgerService {
+  private readonly projectHash: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: UsageLedgerOptions) {
+    this.projectHash = getProjectHash(options.projectRoot);
+  }
+
+  getLedgerPath(month: string): string {
+    return path.join(this.options.ledgerDir, `usage-${month}.json`);
+  }
+
+  /**
+   * Adds the usage of one response to the ledger and returns its totals.
+   */
+  record(entry: UsageRecord): Promise<UsageTotals> {
+    const result = this.pending.then(() => this.write(entry));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(entry: UsageRecord): Promise<UsageTotals> {
+    const timestamp = entry.timestamp ?? new Date();
+    const { usage } = entry;
+    const totals: UsageTotals = {
+      requests: 1,
+      inputTokens: usage.promptTokenCount ?? 0,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+      cachedTokens: usage.cachedContentTokenCount ?? 0,
+      thoughtsTokens: usage.thoughtsTokenCount ?? 0,
+      costUsd: estimateCost(entry.model, entry.provider, usage),
+    };
+
+    // Re-read before every write so concurrent sessions do not drop each
+    // other's entries.
+    const month = toLocalMonth(timestamp);
+    const data = await this.load(month, true);
+    const day = toLocalDay(timestamp);
+    const projects = (data.days[day] ??= {});
+    const models = (projects[this.projectHash] ??= {});
+    const key = `${entry.provider ?? 'unknown'}:${entry.model}`;
+    addTotals((models[key] ??= emptyUsageTotals()), totals);
+    data.projects[this.projectHash] = this.options.projectRoot;
+    await this.save(month, data);
+    return totals;
+  }
+
+  /**
+   * Returns usage per day or per week (starting on Monday), oldest first,
+   * for the `count` periods up to and including the current one.
+   */
+  async getReport(
+    period: 'daily' | 'weekly',
+    count: number,
+    options: UsageQueryOptions = {},
+  ): Promise<UsagePeriod[]> {
+    const today = startOfDay(options.now ?? new Date());
+    const periodDays = period === 'daily' ? 1 : 7;
+    // getDay() is 0 for Sunday; weeks start on Monday.
+    const lastStart =
+      period === 'daily' ? today : addDays(today, -((today.getDay() + 6) % 7));
+
+    const periods: UsagePeriod[] = [];
+    for (let i = count - 1; i >= 0; i--) {
+      const start = addDays(lastStart, -i * periodDays);
+      const end = addDays(start, periodDays - 1);
+      periods.push({
+        start: toLocalDay(start),
+        end: toLocalDay(end),
+        models: {},
+        total: emptyUsageTotals(),
+      });
+    }
+    if (periods.length === 0) {
+      return periods;
+    }
+
+    const days = await this.getDays(
+      new Date(`${periods[0].start}T00:00:00`),
+      today,
+      options.projectOnly,
+    );
+    for (const [day, models] of days) {
+      const target = periods.find((p) => p.start <= day && day <= p.end);
+      if (!target) {
+        continue;
+      }
+      for (const [key, totals] of Object.entries(models)) {
+        addTotals((target.models[key] ??= emptyUsageTotals()), totals);
+        addTotals(target.total, totals);
+      }
+    }
+    return periods;
+  }
+
+  /**
+   * Returns this month's totals per `provider:model`.
+   */
+  async getMonthlyTotals(
+    options: UsageQueryOptions = {},
+  ): Promise<Record<string, UsageTotals>> {
+    const now = options.now ?? new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const result: Record<string, UsageTotals> = {};
+    for (const [, models] of await this.getDays(
+      monthStart,
+      now,
+      options.projectOnly,
+    )) {
+      for (const [key, totals] of Object.entries(models)) {
+        addTotals((result[key] ??= emptyUsageTotals()), totals);
+      }
+    }
+    return result;
+  }
+
+  async getMonthlySpend(options: UsageQueryOptions = {}): Promise<number> {
+    const totals = await this.getMonthlyTotals(options);
+    return Object.values(totals).reduce((sum, t) => sum + t.costUsd, 0);
+  }
+
+  async checkBudget(
+    budget: UsageBudgetSettings,
+    now: Date = new Date(),
+  ): Promise<BudgetStatus> {
+    const { softLimitUsd, hardLimitUsd } = budget;
+    const spentUsd =
+      softLimitUsd === undefined && hardLimitUsd === undefined
+        ? 0
+        : await this.getMonthlySpend({
+            projectOnly: budget.scope === 'project',
+            now,
+          });
+    let state: BudgetState = 'ok';
+    if (hardLimitUsd !== undefined && spentUsd >= hardLimitUsd) {
+      state = 'hard';
+    } else if (softLimitUsd !== undefined && spentUsd >= softLimitUsd) {
+      state = 'soft';
+    }
+    return {
+      state,
+      spentUsd,
+      softLimitUsd,
+      hardLimitUsd,
+      month: toLocalMonth(now),
+    };
+  }
+
+  /**
+   * Collects the per-model totals of each day between `from` and `to`,
+   * summed over projects unless `projectOnly` is set.
+   */
+  private async getDays(
+    from: Date,
+    to: Date,
+    projectOnly?: boolean,
+  ): Promise<Map<string, Record<string, UsageTotals>>> {
+    // Include responses recorded by this process that are still being
+    // written.
+    await this.pending;
+    const fromDay = toLocalDay(from);
+    const toDay = toLocalDay(to);
+    const result = new Map<string, Record<string, UsageTotals>>();
+
+    for (
+      let month = new Date(from.getFullYear(), from.getMonth(), 1);
+      month <= to;
+      month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+    ) {
+      const data = await this.load(toLocalMonth(month));
+      for (const [day, projects] of Object.entries(data.days)) {
+        if (day < fromDay || day > toDay) {
+          continue;
+        }
+        const models: Record<string, UsageTotals> = {};
+        for (const [hash, projectModels] of Object.entries(projects)) {
+          if (projectOnly && hash !== this.projectHash) {
+            continue;
+          }
+          for (const [key, totals] of Object.entries(projectModels)) {
+            addTotals((models[key] ??= emptyUsageTotals()), totals);
+          }
+        }
+        result.set(day, models);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Reads a month's ledger. A damaged file reads as empty for reports, but
+   * `forWrite` makes it an error so the file is not overwritten.
+   */
+  private async load(
+    month: string,
+    forWrite = false,
+  ): Promise<UsageLedgerData> {
+    const ledgerPath = this.getLedgerPath(month);
+    try {
+      const parsed = JSON.parse(
+        await fs.readFile(ledgerPath, 'utf-8'),
+      ) as UsageLedgerData;
+      if (parsed.version !== LEDGER_VERSION) {
+        throw new Error(`Unsupported ledger version ${parsed.version}`);
+      }
+      return parsed;
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        return { version: LEDGER_VERSION, projects: {}, days: {} };
+      }
+      if (forWrite) {
+        throw error;
+      }
+      console.warn(`Ignoring unreadable usage ledger at ${ledgerPath}:`, error);
+      return { version: LEDGER_VERSION, projects: {}, days: {} };
+    }
+  }
+
+  private async save(month: string, data: UsageLedgerData): Promise<void> {
+    await fs.mkdir(this.options.ledgerDir, { recursive: true });
+    const ledgerPath = this.getLedgerPath(month);
+    // A per-process temp name keeps concurrent sessions from clobbering
+    // each other's half-written files.
+    const tempPath = `${ledgerPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, ledgerPath);
+  }
+}
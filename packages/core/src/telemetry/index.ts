@@ -28,6 +28,7 @@ export {
   logApiRequest,
   logApiError,
   logApiResponse,
+  logModelSwitch,
 } from './loggers.js';
 export {
   StartSessionEvent,
@@ -37,6 +38,7 @@ export {
   ApiRequestEvent,
   ApiErrorEvent,
   ApiResponseEvent,
+  ModelSwitchEvent,
   TelemetryEvent,
 } from './types.js';
 export { SpanStatusCode, ValueType } from '@opentelemetry/api';
@@ -15,6 +15,7 @@ import {
   EVENT_API_REQUEST,
   EVENT_API_RESPONSE,
   EVENT_CLI_CONFIG,
+  EVENT_MODEL_SWITCH,
   EVENT_TOOL_CALL,
   EVENT_USER_PROMPT,
   SERVICE_NAME,
@@ -23,6 +24,7 @@ import {
   ApiErrorEvent,
   ApiRequestEvent,
   ApiResponseEvent,
+  ModelSwitchEvent,
   StartSessionEvent,
   ToolCallEvent,
   UserPromptEvent,
@@ -247,3 +249,24 @@ export function logApiResponse(config: Config, event: ApiResponseEvent): void {
   );
   recordTokenUsageMetrics(config, event.model, event.tool_token_count, 'tool');
 }
+
+export function logModelSwitch(config: Config, event: ModelSwitchEvent): void {
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_MODEL_SWITCH,
+    'event.timestamp': new Date().toISOString(),
+  };
+  if (event.error) {
+    attributes['error.message'] = event.error;
+  }
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `Model switched from ${event.from_model} to ${event.to_model}. Condition: ${event.condition}.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
@@ -210,6 +210,32 @@ export class ApiResponseEvent {
   }
 }
 
+export class ModelSwitchEvent {
+  'event.name': 'model_switch';
+  'event.timestamp': string; // ISO 8601
+  from_model: string;
+  to_model: string;
+  to_provider?: string;
+  condition: string;
+  error?: string;
+
+  constructor(
+    from_model: string,
+    to_model: string,
+    condition: string,
+    to_provider?: string,
+    error?: string,
+  ) {
+    this['event.name'] = 'model_switch';
+    this['event.timestamp'] = new Date().toISOString();
+    this.from_model = from_model;
+    this.to_model = to_model;
+    this.to_provider = to_provider;
+    this.condition = condition;
+    this.error = error;
+  }
+}
+
 export type TelemetryEvent =
   | StartSessionEvent
   | EndSessionEvent
@@ -217,4 +243,5 @@ export type TelemetryEvent =
   | ToolCallEvent
   | ApiRequestEvent
   | ApiErrorEvent
-  | ApiResponseEvent;
+  | ApiResponseEvent
+  | ModelSwitchEvent;
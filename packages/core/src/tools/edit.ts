@@ -141,6 +141,10 @@ Expectation for required parameters:
     );
   }
 
+  getModifiedPaths(params: EditToolParams): string[] {
+    return [path.resolve(this.rootDirectory, params.file_path)];
+  }
+
   /**
    * Validates the parameters for the Edit tool
    * @param params Parameters to validate
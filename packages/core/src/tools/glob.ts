@@ -81,6 +81,7 @@ export interface GlobToolParams {
  */
 export class GlobTool extends BaseTool<GlobToolParams, ToolResult> {
   static readonly Name = 'glob';
+  readonly isReadOnly = true;
   /**
    * Creates a new instance of the GlobLogic
    * @param rootDirectory Root directory to ground this tool in.
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  Prompt,
+  Resource,
+  SubscribeRequestSchema,
+  Tool as MCPTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  disableMCPServer,
+  discoverMcpTools,
+  enableMCPServer,
+  getMCPServerLogs,
+  getMCPServerPrompts,
+  getMCPServerResources,
+  getMCPServerStatus,
+  isMCPServerDisabled,
+  MCPServerStatus,
+  reconnectMCPServer,
+} from './mcp-client.js';
+import { ToolRegistry } from './tool-registry.js';
+import { Config, MCPServerConfig } from '../config/config.js';
+
+const { createTransport } = vi.hoisted(() => ({
+  createTransport: vi.fn(),
+}));
+
+// Every server is started through a fake transport, whatever its command.
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: class {
+    constructor() {
+      return createTransport();
+    }
+  },
+}));
+
+const tool = (name: string): MCPTool => ({
+  name,
+  description: `The ${name} tool`,
+  inputSchema: { type: 'object', properties: {} },
+});
+
+const resource = (name: string): Resource => ({
+  uri: `file:///${name}`,
+  name,
+});
+
+/**
+ * An MCP server that runs in memory. Each transport it hands out is a new
+ * connection, as if the server process was started again. Features left
+ * undefined are not part of its capabilities.
+ */
+class FakeMCPServer {
+  tools: MCPTool[] | undefined = [tool('echo')];
+  resources: Resource[] | undefined;
+  prompts: Prompt[] | undefined;
+  /** Resources are listed this many at a time. */
+  pageSize = 2;
+  /** Connections fail to start while set, like a server that is down. */
+  down = false;
+  readonly connections: Server[] = [];
+  readonly subscribedUris: string[] = [];
+
+  createTransport(): Transport {
+    if (this.down) {
+      const transport: Transport = {
+        start: () => Promise.reject(new Error('spawn fake-server ENOENT')),
+        send: async () => {},
+        close: async () => transport.onclose?.(),
+      };
+      return transport;
+    }
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    const server = new Server(
+      { name: 'fake-server', version: '1.0.0' },
+      {
+        capabilities: {
+          ...(this.tools && { tools: { listChanged: true } }),
+          ...(this.resources && {
+            resources: { listChanged: true, subscribe: true },
+          }),
+          ...(this.prompts && { prompts: { listChanged: true } }),
+        },
+      },
+    );
+    if (this.tools) {
+      server.setRequestHandler(ListToolsRequestSchema, () => ({
+        tools: this.tools!,
+      }));
+    }
+    if (this.resources) {
+      server.setRequestHandler(ListResourcesRequestSchema, (request) => {
+        const start = Number(request.params?.cursor ?? 0);
+        const end = start + this.pageSize;
+        return {
+          resources: this.resources!.slice(start, end),
+          nextCursor: end < this.resources!.length ? String(end) : undefined,
+        };
+      });
+      server.setRequestHandler(SubscribeRequestSchema, (request) => {
+        this.subscribedUris.push(request.params.uri);
+        return {};
+      });
+    }
+    if (this.prompts) {
+      server.setRequestHandler(ListPromptsRequestSchema, () => ({
+        prompts: this.prompts!,
+      }));
+    }
+    void server.connect(serverTransport);
+    this.connections.push(server);
+    return clientTransport;
+  }
+
+  get current(): Server {
+    return this.connections[this.connections.length - 1];
+  }
+
+  /** Drops the current connection from the server side. */
+  drop(): Promise<void> {
+    return this.current.close();
+  }
+}
+
+let serverCount = 0;
+
+describe('MCP servers', () => {
+  let fakeServer: FakeMCPServer;
+  let serverName: string;
+  let mcpServers: Record<string, MCPServerConfig>;
+  let toolRegistry: ToolRegistry;
+  let config: Config;
+  let setTools: ReturnType<typeof vi.fn>;
+
+  const toolNames = () =>
+    toolRegistry.getToolsByServer(serverName).map((t) => t.name);
+  const discover = () =>
+    discoverMcpTools(mcpServers, undefined, toolRegistry, config);
+
+  beforeEach(() => {
+    fakeServer = new FakeMCPServer();
+    createTransport.mockImplementation(() => fakeServer.createTransport());
+    // Servers are tracked by name for the whole session, so every test
+    // starts a server of its own.
+    serverName = `fake-${++serverCount}`;
+    mcpServers = { [serverName]: { command: 'fake-server' } };
+    setTools = vi.fn();
+    config = {
+      getMcpServers: () => mcpServers,
+      getMcpOAuthStorage: () => undefined,
+      getDebugMode: () => false,
+      getEnfiyClient: () => ({ setTools }),
+    } as unknown as Config;
+    toolRegistry = new ToolRegistry(config);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await disableMCPServer(serverName, toolRegistry, config);
+  });
+
+  describe('lifecycle', () => {
+    beforeEach(async () => {
+      await discover();
+    });
+
+    it('should connect and register the tools of a server', () => {
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['echo']);
+    });
+
+    it('should reconnect with backoff when the connection drops', async () => {
+      vi.useFakeTimers();
+      fakeServer.down = true;
+
+      await fakeServer.drop();
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTING);
+      // Tools stay available while reconnecting.
+      expect(toolNames()).toEqual(['echo']);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(createTransport).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(createTransport).toHaveBeenCalledTimes(2);
+
+      fakeServer.down = false;
+      fakeServer.tools = [tool('echo'), tool('sum')];
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(createTransport).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(createTransport).toHaveBeenCalledTimes(3);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['echo', 'sum']);
+      expect(setTools).toHaveBeenCalled();
+      expect(getMCPServerLogs(serverName)).toEqual([
+        expect.stringMatching(/\] Connection closed, reconnecting\.$/),
+        expect.stringMatching(
+          /\] Failed to reconnect: Error: spawn fake-server ENOENT$/,
+        ),
+        expect.stringMatching(/\] Reconnected\.$/),
+      ]);
+    });
+
+    it('should remove the tools of a server once every reconnection failed', async () => {
+      vi.useFakeTimers();
+      fakeServer.down = true;
+
+      await fakeServer.drop();
+      await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTING);
+      expect(toolNames()).toEqual(['echo']);
+      await vi.advanceTimersByTimeAsync(16000);
+
+      expect(createTransport).toHaveBeenCalledTimes(6);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.DISCONNECTED);
+      expect(toolNames()).toEqual([]);
+      expect(setTools).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        `Failed to reconnect to MCP server '${serverName}' after 5 attempts: Error: spawn fake-server ENOENT`,
+      );
+    });
+
+    it('should update the tools when the server reports they changed', async () => {
+      fakeServer.tools = [tool('sum')];
+
+      await fakeServer.current.sendToolListChanged();
+
+      await vi.waitFor(() => expect(toolNames()).toEqual(['sum']));
+      await vi.waitFor(() => expect(setTools).toHaveBeenCalled());
+    });
+
+    it('should disable, enable and restart a server', async () => {
+      await disableMCPServer(serverName, toolRegistry, config);
+
+      expect(isMCPServerDisabled(serverName)).toBe(true);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.DISABLED);
+      expect(toolNames()).toEqual([]);
+      await expect(
+        reconnectMCPServer(serverName, toolRegistry, config),
+      ).rejects.toThrow(`MCP server '${serverName}' is disabled.`);
+
+      await enableMCPServer(serverName, toolRegistry, config);
+
+      expect(isMCPServerDisabled(serverName)).toBe(false);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['echo']);
+      expect(createTransport).toHaveBeenCalledTimes(2);
+
+      const previous = fakeServer.current;
+      const closed = vi.fn();
+      previous.onclose = closed;
+      fakeServer.tools = [tool('sum')];
+
+      await reconnectMCPServer(serverName, toolRegistry, config);
+
+      expect(closed).toHaveBeenCalled();
+      expect(fakeServer.current).not.toBe(previous);
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['sum']);
+    });
+  });
+
+  describe('resources and prompts', () => {
+    const resourceUris = () =>
+      getMCPServerResources(serverName).map((r) => r.uri);
+
+    it('should list resources across pages and subscribe to them', async () => {
+      fakeServer.resources = ['a', 'b', 'c'].map(resource);
+
+      await discover();
+
+      expect(resourceUris()).toEqual(['file:///a', 'file:///b', 'file:///c']);
+      expect(fakeServer.subscribedUris).toEqual([
+        'file:///a',
+        'file:///b',
+        'file:///c',
+      ]);
+    });
+
+    it('should subscribe to resources added later', async () => {
+      fakeServer.resources = [resource('a')];
+      await discover();
+
+      fakeServer.resources = ['a', 'b'].map(resource);
+      await fakeServer.current.sendResourceListChanged();
+
+      await vi.waitFor(() =>
+        expect(resourceUris()).toEqual(['file:///a', 'file:///b']),
+      );
+      await vi.waitFor(() =>
+        expect(fakeServer.subscribedUris).toEqual(['file:///a', 'file:///b']),
+      );
+    });
+
+    it('should keep the connection to servers with only resources or prompts', async () => {
+      fakeServer.tools = undefined;
+      fakeServer.prompts = [{ name: 'review', description: 'Review code' }];
+
+      await discover();
+
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual([]);
+      expect(getMCPServerPrompts(serverName)).toEqual([
+        {
+          serverName,
+          name: 'review',
+          description: 'Review code',
+          arguments: [],
+        },
+      ]);
+    });
+
+    it('should close the connection to servers without any features', async () => {
+      fakeServer.tools = [];
+      fakeServer.resources = [];
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await discover();
+
+      expect(getMCPServerStatus(serverName)).toBe(MCPServerStatus.DISCONNECTED);
+      expect(console.log).toHaveBeenCalledWith(
+        `No tools, resources or prompts registered from MCP server '${serverName}'. Closing connection.`,
+      );
+    });
+  });
+});
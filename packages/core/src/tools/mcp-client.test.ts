@@ -113,6 +113,7 @@ describe('discoverMcpTools', () => {
     mockConfig = {
       getMcpServers: vi.fn().mockReturnValue({}),
       getMcpServerCommand: vi.fn().mockReturnValue(undefined),
+      getMcpOAuthStorage: vi.fn().mockReturnValue(undefined),
       // getToolRegistry should now return the same shared mock instance
       getToolRegistry: vi.fn(() => mockToolRegistry),
     } as any;
@@ -278,7 +279,10 @@ describe('discoverMcpTools', () => {
       mockConfig as any,
     );
 
-    expect(SSEClientTransport).toHaveBeenCalledWith(new URL(serverConfig.url!));
+    expect(SSEClientTransport).toHaveBeenCalledWith(
+      new URL(serverConfig.url!),
+      { requestInit: { headers: undefined }, authProvider: undefined },
+    );
     expect(mockToolRegistry.registerTool).toHaveBeenCalledWith(
       expect.any(DiscoveredMCPTool),
     );
@@ -8,17 +8,41 @@
  * Modified and extended by Hayate Esaki (2025)
  */
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  PromptListChangedNotificationSchema,
+  ReadResourceResult,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
 import { MCPServerConfig, Config } from '../config/config.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { CallableTool, mcpToTool, Schema } from '@google/genai';
 import { ToolRegistry } from './tool-registry.js';
+import { WebSocketClientTransport } from './mcp-websocket-transport.js';
+import { MCPOAuthProvider } from './mcp-oauth-provider.js';
 
 export const MCP_DEFAULT_TIMEOUT_MSEC = 10 * 60 * 1000; // default to 10 minutes
 
+/**
+ * Reconnection to servers whose connection dropped: the number of attempts,
+ * and the delay before the first one, doubled for each one after it
+ */
+const MCP_RECONNECT_ATTEMPTS = 5;
+const MCP_RECONNECT_DELAY_MSEC = 1000;
+
+/** Time a server has to answer a ping after an error before reconnecting */
+const MCP_HEALTH_CHECK_TIMEOUT_MSEC = 10 * 1000;
+
+/** Number of lines of each server's log to keep */
+const MCP_SERVER_LOG_LINES = 200;
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -29,6 +53,8 @@ export enum MCPServerStatus {
   CONNECTING = 'connecting',
   /** Server is connected and ready to use */
   CONNECTED = 'connected',
+  /** Server was disabled with `/mcp disable` */
+  DISABLED = 'disabled',
 }
 
 /**
@@ -43,11 +69,63 @@ export enum MCPDiscoveryState {
   COMPLETED = 'completed',
 }
 
+/**
+ * A resource published by an MCP server, which can be attached to a prompt
+ * with `@server:resource`.
+ */
+export interface DiscoveredMCPResource {
+  serverName: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * A prompt template published by an MCP server, which is run as a slash
+ * command.
+ */
+export interface DiscoveredMCPPrompt {
+  serverName: string;
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
 /**
  * Map to track the status of each MCP server within the core package
  */
 const mcpServerStatusesInternal: Map<string, MCPServerStatus> = new Map();
 
+interface MCPConnection {
+  client: Client;
+  /** Request timeout from the server config. */
+  timeout: number;
+  /** Whether the connection dropped and is being reconnected. */
+  reconnecting: boolean;
+}
+
+/**
+ * Connected clients, kept for reading resources and getting prompts
+ */
+const mcpClients: Map<string, MCPConnection> = new Map();
+
+/**
+ * Resources and prompts published by each MCP server
+ */
+const mcpServerResources: Map<string, DiscoveredMCPResource[]> = new Map();
+const mcpServerPrompts: Map<string, DiscoveredMCPPrompt[]> = new Map();
+
+/**
+ * Stderr output and connection events of each MCP server, for `/mcp logs`
+ */
+const mcpServerLogs: Map<string, string[]> = new Map();
+
+/**
+ * Servers disabled for the rest of the session
+ */
+const disabledMcpServers: Set<string> = new Set();
+
 /**
  * Track the overall MCP discovery state
  */
@@ -83,6 +161,39 @@ export function removeMCPStatusChangeListener(
   }
 }
 
+/**
+ * Event listeners for changes to the resources or prompts of MCP servers
+ */
+type FeaturesChangeListener = (serverName: string) => void;
+const featuresChangeListeners: FeaturesChangeListener[] = [];
+
+/**
+ * Add a listener for changes to the resources or prompts of MCP servers
+ */
+export function addMCPFeaturesChangeListener(
+  listener: FeaturesChangeListener,
+): void {
+  featuresChangeListeners.push(listener);
+}
+
+/**
+ * Remove a listener for changes to the resources or prompts of MCP servers
+ */
+export function removeMCPFeaturesChangeListener(
+  listener: FeaturesChangeListener,
+): void {
+  const index = featuresChangeListeners.indexOf(listener);
+  if (index !== -1) {
+    featuresChangeListeners.splice(index, 1);
+  }
+}
+
+function notifyFeaturesChanged(serverName: string): void {
+  for (const listener of featuresChangeListeners) {
+    listener(serverName);
+  }
+}
+
 /**
  * Update the status of an MCP server
  */
@@ -120,6 +231,145 @@ export function getMCPDiscoveryState(): MCPDiscoveryState {
   return mcpDiscoveryState;
 }
 
+/**
+ * Get the resources published by an MCP server
+ */
+export function getMCPServerResources(
+  serverName: string,
+): DiscoveredMCPResource[] {
+  return mcpServerResources.get(serverName) ?? [];
+}
+
+/**
+ * Get the prompts published by an MCP server
+ */
+export function getMCPServerPrompts(serverName: string): DiscoveredMCPPrompt[] {
+  return mcpServerPrompts.get(serverName) ?? [];
+}
+
+/**
+ * Get the prompts published by all MCP servers
+ */
+export function getAllMCPPrompts(): DiscoveredMCPPrompt[] {
+  return Array.from(mcpServerPrompts.values()).flat();
+}
+
+/**
+ * Find the resource a `server:resource` reference points to, by URI or name
+ */
+export function findMCPResource(
+  reference: string,
+): DiscoveredMCPResource | undefined {
+  const separatorIndex = reference.indexOf(':');
+  if (separatorIndex <= 0) {
+    return undefined;
+  }
+  const serverName = reference.slice(0, separatorIndex);
+  const resourceReference = reference.slice(separatorIndex + 1);
+  return getMCPServerResources(serverName).find(
+    (resource) =>
+      resource.uri === resourceReference || resource.name === resourceReference,
+  );
+}
+
+function appendMCPServerLog(serverName: string, text: string): void {
+  const log = mcpServerLogs.get(serverName) ?? [];
+  const timestamp = new Date().toISOString();
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim()) {
+      log.push(`[${timestamp}] ${line}`);
+    }
+  }
+  mcpServerLogs.set(serverName, log.slice(-MCP_SERVER_LOG_LINES));
+}
+
+/**
+ * Get the recent stderr output and connection events of an MCP server
+ */
+export function getMCPServerLogs(serverName: string): string[] {
+  return mcpServerLogs.get(serverName) ?? [];
+}
+
+/**
+ * Check whether an MCP server was disabled with `/mcp disable`
+ */
+export function isMCPServerDisabled(serverName: string): boolean {
+  return disabledMcpServers.has(serverName);
+}
+
+function getConnectedClient(serverName: string): MCPConnection {
+  const connection = mcpClients.get(serverName);
+  if (
+    !connection ||
+    getMCPServerStatus(serverName) !== MCPServerStatus.CONNECTED
+  ) {
+    throw new Error(`MCP server '${serverName}' is not connected.`);
+  }
+  return connection;
+}
+
+/**
+ * Read the contents of a resource from its MCP server
+ */
+export async function readMCPResource(
+  resource: DiscoveredMCPResource,
+): Promise<ReadResourceResult['contents']> {
+  const { client, timeout } = getConnectedClient(resource.serverName);
+  const result = await client.readResource({ uri: resource.uri }, { timeout });
+  return result.contents;
+}
+
+/**
+ * Get a prompt from its MCP server, as the text of its messages. Images,
+ * audio and resources without text are left out.
+ */
+export async function getMCPPrompt(
+  prompt: DiscoveredMCPPrompt,
+  args: Record<string, string>,
+): Promise<string> {
+  const { client, timeout } = getConnectedClient(prompt.serverName);
+  const result = await client.getPrompt(
+    { name: prompt.name, arguments: args },
+    { timeout },
+  );
+  return result.messages
+    .map(({ content }) => {
+      if (content.type === 'text') {
+        return content.text;
+      }
+      if (content.type === 'resource' && 'text' in content.resource) {
+        return content.resource.text;
+      }
+      return undefined;
+    })
+    .filter((text): text is string => typeof text === 'string')
+    .join('\n\n');
+}
+
+/**
+ * Ask the MCP server of a prompt for values of one of its arguments that
+ * start with `value`. Returns nothing if the server does not offer
+ * completions.
+ */
+export async function completeMCPPromptArgument(
+  prompt: DiscoveredMCPPrompt,
+  argumentName: string,
+  value: string,
+): Promise<string[]> {
+  const { client, timeout } = getConnectedClient(prompt.serverName);
+  if (!client.getServerCapabilities()?.completions) {
+    return [];
+  }
+  const result = await client.complete(
+    {
+      ref: { type: 'ref/prompt', name: prompt.name },
+      argument: { name: argumentName, value },
+    },
+    { timeout },
+  );
+  return result.completion.values;
+}
+
 export async function discoverMcpTools(
   mcpServers: Record<string, MCPServerConfig>,
   mcpServerCommand: string | undefined,
@@ -143,15 +393,16 @@ export async function discoverMcpTools(
       };
     }
 
-    const discoveryPromises = Object.entries(mcpServers).map(
-      ([mcpServerName, mcpServerConfig]) =>
+    const discoveryPromises = Object.entries(mcpServers)
+      .filter(([mcpServerName]) => !disabledMcpServers.has(mcpServerName))
+      .map(([mcpServerName, mcpServerConfig]) =>
         connectAndDiscover(
           mcpServerName,
           mcpServerConfig,
           toolRegistry,
           config,
         ),
-    );
+      );
     await Promise.all(discoveryPromises);
 
     // Mark discovery as completed
@@ -163,24 +414,117 @@ export async function discoverMcpTools(
   }
 }
 
-async function connectAndDiscover(
+function getMCPServerConfig(
+  mcpServerName: string,
+  config: Config,
+): MCPServerConfig {
+  const mcpServerConfig = config.getMcpServers()?.[mcpServerName];
+  if (!mcpServerConfig) {
+    throw new Error(`MCP server '${mcpServerName}' is not configured.`);
+  }
+  return mcpServerConfig;
+}
+
+/**
+ * Connects to a configured MCP server again, for example after signing in
+ * to it or when it stopped responding, replacing the tools, resources and
+ * prompts discovered from it.
+ */
+export async function reconnectMCPServer(
   mcpServerName: string,
-  mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
   config: Config,
 ): Promise<void> {
-  // Initialize the server status as connecting
-  updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
+  const mcpServerConfig = getMCPServerConfig(mcpServerName, config);
+  if (disabledMcpServers.has(mcpServerName)) {
+    throw new Error(`MCP server '${mcpServerName}' is disabled.`);
+  }
+  await disconnectMCPServer(mcpServerName, toolRegistry);
+  await connectAndDiscover(
+    mcpServerName,
+    mcpServerConfig,
+    toolRegistry,
+    config,
+  );
+  await updateToolDeclarations(config);
+}
+
+/**
+ * Disconnects from a configured MCP server and removes its tools, resources
+ * and prompts for the rest of the session, or until it is enabled again.
+ */
+export async function disableMCPServer(
+  mcpServerName: string,
+  toolRegistry: ToolRegistry,
+  config: Config,
+): Promise<void> {
+  getMCPServerConfig(mcpServerName, config);
+  disabledMcpServers.add(mcpServerName);
+  await disconnectMCPServer(mcpServerName, toolRegistry);
+  appendMCPServerLog(mcpServerName, 'Disabled.');
+  updateMCPServerStatus(mcpServerName, MCPServerStatus.DISABLED);
+  await updateToolDeclarations(config);
+}
+
+/**
+ * Enables a server disabled with {@link disableMCPServer} and connects to it.
+ */
+export async function enableMCPServer(
+  mcpServerName: string,
+  toolRegistry: ToolRegistry,
+  config: Config,
+): Promise<void> {
+  getMCPServerConfig(mcpServerName, config);
+  disabledMcpServers.delete(mcpServerName);
+  appendMCPServerLog(mcpServerName, 'Enabled.');
+  await reconnectMCPServer(mcpServerName, toolRegistry, config);
+}
+
+/**
+ * Creates the transport for a server from its configuration, or returns
+ * undefined if the configuration has none.
+ */
+function createTransport(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  config: Config,
+): Transport | undefined {
+  const requestInit = { headers: mcpServerConfig.headers };
+  const oauthStorage = config.getMcpOAuthStorage();
+  const createAuthProvider = (serverUrl: string) =>
+    oauthStorage
+      ? new MCPOAuthProvider(
+          mcpServerName,
+          serverUrl,
+          oauthStorage,
+          mcpServerConfig.oauth,
+        )
+      : undefined;
 
-  let transport;
   if (mcpServerConfig.httpUrl) {
-    transport = new StreamableHTTPClientTransport(
-      new URL(mcpServerConfig.httpUrl),
-    );
-  } else if (mcpServerConfig.url) {
-    transport = new SSEClientTransport(new URL(mcpServerConfig.url));
-  } else if (mcpServerConfig.command) {
-    transport = new StdioClientTransport({
+    return new StreamableHTTPClientTransport(new URL(mcpServerConfig.httpUrl), {
+      requestInit,
+      authProvider: createAuthProvider(mcpServerConfig.httpUrl),
+    });
+  }
+  if (mcpServerConfig.url) {
+    return new SSEClientTransport(new URL(mcpServerConfig.url), {
+      requestInit,
+      authProvider: createAuthProvider(mcpServerConfig.url),
+    });
+  }
+  if (mcpServerConfig.tcp) {
+    // Accept host:port as well as ws:// and wss:// URLs.
+    const url = /^wss?:\/\//i.test(mcpServerConfig.tcp)
+      ? mcpServerConfig.tcp
+      : `ws://${mcpServerConfig.tcp}`;
+    return new WebSocketClientTransport(new URL(url), {
+      handshakeTimeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+      headers: mcpServerConfig.headers,
+    });
+  }
+  if (mcpServerConfig.command) {
+    const transport = new StdioClientTransport({
       command: mcpServerConfig.command,
       args: mcpServerConfig.args || [],
       env: {
@@ -190,9 +534,35 @@ async function connectAndDiscover(
       cwd: mcpServerConfig.cwd,
       stderr: 'pipe',
     });
-  } else {
+    transport.stderr?.on('data', (data) => {
+      const stderrStr = data.toString();
+      appendMCPServerLog(mcpServerName, stderrStr);
+      // Filter out verbose INFO logs from some MCP servers
+      if (!stderrStr.includes('] INFO')) {
+        // Only show MCP STDERR messages if debug mode is enabled
+        if (config.getDebugMode()) {
+          console.debug(`MCP STDERR (${mcpServerName}):`, stderrStr);
+        }
+      }
+    });
+    return transport;
+  }
+  return undefined;
+}
+
+async function connectAndDiscover(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  toolRegistry: ToolRegistry,
+  config: Config,
+): Promise<void> {
+  // Initialize the server status as connecting
+  updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
+
+  const transport = createTransport(mcpServerName, mcpServerConfig, config);
+  if (!transport) {
     console.error(
-      `MCP server '${mcpServerName}' has invalid configuration: missing httpUrl (for Streamable HTTP), url (for SSE), and command (for stdio). Skipping.`,
+      `MCP server '${mcpServerName}' has invalid configuration: missing httpUrl (for Streamable HTTP), url (for SSE), tcp (for WebSocket), and command (for stdio). Skipping.`,
     );
     // Update status to disconnected
     updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
@@ -216,21 +586,35 @@ async function connectAndDiscover(
     };
   }
 
+  const connection: MCPConnection = {
+    client: mcpClient,
+    timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+    reconnecting: false,
+  };
   try {
     await mcpClient.connect(transport, {
       timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
     });
     // Connection successful
+    mcpClients.set(mcpServerName, connection);
     updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTED);
   } catch (error) {
+    appendMCPServerLog(mcpServerName, `Failed to connect: ${error}`);
+    if (error instanceof UnauthorizedError) {
+      console.error(error.message);
+      updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+      return;
+    }
+
     // Create a safe config object that excludes sensitive information
     const safeConfig = {
       command: mcpServerConfig.command,
       url: mcpServerConfig.url,
+      tcp: mcpServerConfig.tcp,
       cwd: mcpServerConfig.cwd,
       timeout: mcpServerConfig.timeout,
       trust: mcpServerConfig.trust,
-      // Exclude args and env which may contain sensitive data
+      // Exclude args, env and headers which may contain sensitive data
     };
 
     let errorString =
@@ -247,127 +631,412 @@ async function connectAndDiscover(
 
   mcpClient.onerror = (error) => {
     console.error(`MCP ERROR (${mcpServerName}):`, error.toString());
-    // Update status to disconnected on error
-    updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+    appendMCPServerLog(mcpServerName, `Error: ${error}`);
+    void checkConnection(mcpServerName, connection);
   };
-
-  if (transport instanceof StdioClientTransport && transport.stderr) {
-    transport.stderr.on('data', (data) => {
-      const stderrStr = data.toString();
-      // Filter out verbose INFO logs from some MCP servers
-      if (!stderrStr.includes('] INFO')) {
-        // Only show MCP STDERR messages if debug mode is enabled
-        if (config.getDebugMode()) {
-          console.debug(`MCP STDERR (${mcpServerName}):`, stderrStr);
-        }
-      }
-    });
-  }
+  reconnectOnClose(
+    mcpServerName,
+    mcpServerConfig,
+    connection,
+    toolRegistry,
+    config,
+  );
+  mcpClient.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+    registerTools(mcpServerName, mcpServerConfig, mcpClient, toolRegistry)
+      .then(() => updateToolDeclarations(config))
+      .catch((error) => {
+        console.error(
+          `Failed to refresh tools of MCP server '${mcpServerName}': ${error}`,
+        );
+      }),
+  );
 
   try {
-    const mcpCallableTool: CallableTool = mcpToTool(mcpClient);
-    const discoveredToolFunctions = await mcpCallableTool.tool();
-
     if (
-      !discoveredToolFunctions ||
-      !Array.isArray(discoveredToolFunctions.functionDeclarations)
+      !(await registerTools(
+        mcpServerName,
+        mcpServerConfig,
+        mcpClient,
+        toolRegistry,
+      ))
     ) {
-      console.error(
-        `MCP server '${mcpServerName}' did not return valid tool function declarations. Skipping.`,
-      );
-      if (
-        transport instanceof StdioClientTransport ||
-        transport instanceof SSEClientTransport ||
-        transport instanceof StreamableHTTPClientTransport
-      ) {
-        await transport.close();
-      }
+      mcpClients.delete(mcpServerName);
+      await mcpClient.close();
       // Update status to disconnected
       updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
       return;
     }
+  } catch (error) {
+    console.error(
+      `Failed to list or register tools for MCP server '${mcpServerName}': ${error}`,
+    );
+    // Ensure transport is cleaned up on error too
+    mcpClients.delete(mcpServerName);
+    await mcpClient.close();
+    // Update status to disconnected
+    updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+  }
 
-    for (const funcDecl of discoveredToolFunctions.functionDeclarations) {
-      if (!funcDecl.name) {
-        console.warn(
-          `Discovered a function declaration without a name from MCP server '${mcpServerName}'. Skipping.`,
-        );
-        continue;
-      }
+  if (getMCPServerStatus(mcpServerName) === MCPServerStatus.CONNECTED) {
+    await discoverResourcesAndPrompts(mcpServerName, mcpClient);
+  }
 
-      let toolNameForModel = funcDecl.name;
+  // If no tools, resources or prompts were registered from this MCP server,
+  // the following 'if' block will close the connection. This is done to
+  // conserve resources and prevent an orphaned connection to a server that
+  // isn't providing any usable functionality. Connections to servers that did
+  // provide them are kept open, as they will require the connection to
+  // function.
+  if (
+    mcpClients.has(mcpServerName) &&
+    toolRegistry.getToolsByServer(mcpServerName).length === 0 &&
+    getMCPServerResources(mcpServerName).length === 0 &&
+    getMCPServerPrompts(mcpServerName).length === 0
+  ) {
+    console.log(
+      `No tools, resources or prompts registered from MCP server '${mcpServerName}'. Closing connection.`,
+    );
+    mcpClients.delete(mcpServerName);
+    await mcpClient.close();
+    // Update status to disconnected
+    updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+  }
+}
 
-      // Replace invalid characters (based on 400 error message from Gemini API) with underscores
-      toolNameForModel = toolNameForModel.replace(/[^a-zA-Z0-9_.-]/g, '_');
+/**
+ * Registers the tools of a server, replacing those registered from it
+ * before. Returns false if the server did not return valid declarations.
+ */
+async function registerTools(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  mcpClient: Client,
+  toolRegistry: ToolRegistry,
+): Promise<boolean> {
+  // Servers that only publish resources or prompts have no tools to list.
+  const capabilities = mcpClient.getServerCapabilities();
+  const hasTools = !capabilities || capabilities.tools !== undefined;
 
-      const existingTool = toolRegistry.getTool(toolNameForModel);
-      if (existingTool) {
-        toolNameForModel = mcpServerName + '__' + toolNameForModel;
-      }
+  const mcpCallableTool: CallableTool = mcpToTool(mcpClient);
+  const discoveredToolFunctions = hasTools
+    ? await mcpCallableTool.tool()
+    : { functionDeclarations: [] };
 
-      // If longer than 63 characters, replace middle with '___'
-      // (Gemini API says max length 64, but actual limit seems to be 63)
-      if (toolNameForModel.length > 63) {
-        toolNameForModel =
-          toolNameForModel.slice(0, 28) + '___' + toolNameForModel.slice(-32);
-      }
+  if (
+    !discoveredToolFunctions ||
+    !Array.isArray(discoveredToolFunctions.functionDeclarations)
+  ) {
+    console.error(
+      `MCP server '${mcpServerName}' did not return valid tool function declarations. Skipping.`,
+    );
+    return false;
+  }
 
-      // Ensure parameters is a valid JSON schema object, default to empty if not.
-      const parameterSchema: Record<string, unknown> =
-        funcDecl.parameters && typeof funcDecl.parameters === 'object'
-          ? (funcDecl.parameters as Record<string, unknown>)
-          : { type: 'object', properties: {} };
+  toolRegistry.removeToolsByServer(mcpServerName);
+  for (const funcDecl of discoveredToolFunctions.functionDeclarations) {
+    if (!funcDecl.name) {
+      console.warn(
+        `Discovered a function declaration without a name from MCP server '${mcpServerName}'. Skipping.`,
+      );
+      continue;
+    }
 
-      sanitizeParameters(parameterSchema);
+    let toolNameForModel = funcDecl.name;
 
-      toolRegistry.registerTool(
-        new DiscoveredMCPTool(
-          mcpCallableTool,
-          mcpServerName,
-          toolNameForModel,
-          funcDecl.description ?? '',
-          parameterSchema,
-          funcDecl.name,
-          mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
-          mcpServerConfig.trust,
-        ),
-      );
+    // Replace invalid characters (based on 400 error message from Gemini API) with underscores
+    toolNameForModel = toolNameForModel.replace(/[^a-zA-Z0-9_.-]/g, '_');
+
+    const existingTool = toolRegistry.getTool(toolNameForModel);
+    if (existingTool) {
+      toolNameForModel = mcpServerName + '__' + toolNameForModel;
+    }
+
+    // If longer than 63 characters, replace middle with '___'
+    // (Gemini API says max length 64, but actual limit seems to be 63)
+    if (toolNameForModel.length > 63) {
+      toolNameForModel =
+        toolNameForModel.slice(0, 28) + '___' + toolNameForModel.slice(-32);
     }
+
+    // Ensure parameters is a valid JSON schema object, default to empty if not.
+    const parameterSchema: Record<string, unknown> =
+      funcDecl.parameters && typeof funcDecl.parameters === 'object'
+        ? (funcDecl.parameters as Record<string, unknown>)
+        : { type: 'object', properties: {} };
+
+    sanitizeParameters(parameterSchema);
+
+    toolRegistry.registerTool(
+      new DiscoveredMCPTool(
+        mcpCallableTool,
+        mcpServerName,
+        toolNameForModel,
+        funcDecl.description ?? '',
+        parameterSchema,
+        funcDecl.name,
+        mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+        mcpServerConfig.trust,
+      ),
+    );
+  }
+  return true;
+}
+
+/**
+ * Declares the tools in the registry to the model again, after tools of a
+ * server changed once the chat had started.
+ */
+async function updateToolDeclarations(config: Config): Promise<void> {
+  let enfiyClient;
+  try {
+    enfiyClient = config.getEnfiyClient();
+  } catch {
+    // Tools are declared to the model once the client is created.
+    return;
+  }
+  try {
+    await enfiyClient.setTools();
   } catch (error) {
+    console.error(`Failed to update the tools declared to the model: ${error}`);
+  }
+}
+
+/**
+ * Checks that a server still responds after an error, and closes the
+ * connection if it does not, so that it is reconnected.
+ */
+async function checkConnection(
+  mcpServerName: string,
+  connection: MCPConnection,
+): Promise<void> {
+  if (connection.reconnecting || mcpClients.get(mcpServerName) !== connection) {
+    return;
+  }
+  try {
+    await connection.client.ping({ timeout: MCP_HEALTH_CHECK_TIMEOUT_MSEC });
+  } catch (error) {
+    appendMCPServerLog(mcpServerName, `Not responding: ${error}`);
+    await connection.client.close();
+  }
+}
+
+/**
+ * Reconnects to a server when its connection drops, retrying with
+ * exponential backoff. Its tools stay registered meanwhile, and are
+ * discovered again once reconnected, as are its resources and prompts,
+ * since subscriptions do not outlive the connection. If every attempt
+ * fails, they are removed.
+ */
+function reconnectOnClose(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  connection: MCPConnection,
+  toolRegistry: ToolRegistry,
+  config: Config,
+): void {
+  const mcpClient = connection.client;
+  // Connections closed on purpose are removed from mcpClients first.
+  const isCurrent = () => mcpClients.get(mcpServerName) === connection;
+
+  mcpClient.onclose = async () => {
+    if (connection.reconnecting || !isCurrent()) {
+      return;
+    }
+    connection.reconnecting = true;
+    appendMCPServerLog(mcpServerName, 'Connection closed, reconnecting.');
+    let lastError: unknown;
+    for (let attempt = 0; attempt < MCP_RECONNECT_ATTEMPTS; attempt++) {
+      updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
+      await new Promise((resolve) =>
+        setTimeout(resolve, MCP_RECONNECT_DELAY_MSEC * 2 ** attempt),
+      );
+      if (!isCurrent()) {
+        return;
+      }
+      try {
+        await mcpClient.connect(
+          createTransport(mcpServerName, mcpServerConfig, config)!,
+          { timeout: connection.timeout },
+        );
+      } catch (error) {
+        lastError = error;
+        appendMCPServerLog(mcpServerName, `Failed to reconnect: ${error}`);
+        // Let the next attempt connect to a new transport.
+        await mcpClient.close();
+        continue;
+      }
+      connection.reconnecting = false;
+      updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTED);
+      appendMCPServerLog(mcpServerName, 'Reconnected.');
+      try {
+        await registerTools(
+          mcpServerName,
+          mcpServerConfig,
+          mcpClient,
+          toolRegistry,
+        );
+      } catch (error) {
+        console.error(
+          `Failed to list or register tools for MCP server '${mcpServerName}': ${error}`,
+        );
+      }
+      await discoverResourcesAndPrompts(mcpServerName, mcpClient);
+      await updateToolDeclarations(config);
+      return;
+    }
     console.error(
-      `Failed to list or register tools for MCP server '${mcpServerName}': ${error}`,
+      `Failed to reconnect to MCP server '${mcpServerName}' after ${MCP_RECONNECT_ATTEMPTS} attempts: ${lastError}`,
     );
-    // Ensure transport is cleaned up on error too
-    if (
-      transport instanceof StdioClientTransport ||
-      transport instanceof SSEClientTransport ||
-      transport instanceof StreamableHTTPClientTransport
-    ) {
-      await transport.close();
-    }
-    // Update status to disconnected
+    await disconnectMCPServer(mcpServerName, toolRegistry);
     updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+    await updateToolDeclarations(config);
+  };
+}
+
+/**
+ * Closes the connection to a server, and removes its tools, resources and
+ * prompts.
+ */
+async function disconnectMCPServer(
+  mcpServerName: string,
+  toolRegistry: ToolRegistry,
+): Promise<void> {
+  const connection = mcpClients.get(mcpServerName);
+  mcpClients.delete(mcpServerName);
+  await connection?.client.close();
+  toolRegistry.removeToolsByServer(mcpServerName);
+  mcpServerResources.delete(mcpServerName);
+  mcpServerPrompts.delete(mcpServerName);
+  notifyFeaturesChanged(mcpServerName);
+}
+
+async function listResources(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<void> {
+  const resources: DiscoveredMCPResource[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await mcpClient.listResources(cursor ? { cursor } : {});
+    for (const resource of result.resources) {
+      resources.push({
+        serverName: mcpServerName,
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      });
+    }
+    cursor = result.nextCursor;
+  } while (cursor);
+  mcpServerResources.set(mcpServerName, resources);
+}
+
+async function listPrompts(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<void> {
+  const prompts: DiscoveredMCPPrompt[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await mcpClient.listPrompts(cursor ? { cursor } : {});
+    for (const prompt of result.prompts) {
+      prompts.push({
+        serverName: mcpServerName,
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments ?? [],
+      });
+    }
+    cursor = result.nextCursor;
+  } while (cursor);
+  mcpServerPrompts.set(mcpServerName, prompts);
+}
+
+/**
+ * Lists the resources and prompts of a server and keeps the lists up to date
+ * as the server reports changes. Resources are subscribed to if the server
+ * supports it, so that changes to them are reported too.
+ */
+async function discoverResourcesAndPrompts(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<void> {
+  const capabilities = mcpClient.getServerCapabilities();
+
+  if (capabilities?.resources) {
+    const canSubscribe = capabilities.resources.subscribe === true;
+    const subscribedUris = new Set<string>();
+    // Resources added since the last listing are subscribed to as well.
+    const subscribeToNewResources = () =>
+      Promise.all(
+        getMCPServerResources(mcpServerName)
+          .filter((resource) => !subscribedUris.has(resource.uri))
+          .map(async ({ uri }) => {
+            subscribedUris.add(uri);
+            try {
+              await mcpClient.subscribeResource({ uri });
+            } catch (error) {
+              subscribedUris.delete(uri);
+              throw error;
+            }
+          }),
+      );
+    const refreshResources = () =>
+      listResources(mcpServerName, mcpClient)
+        .then(async () => {
+          if (canSubscribe) {
+            await subscribeToNewResources();
+          }
+        })
+        .then(() => notifyFeaturesChanged(mcpServerName))
+        .catch((error) => {
+          console.error(
+            `Failed to refresh resources of MCP server '${mcpServerName}': ${error}`,
+          );
+        });
+    try {
+      await listResources(mcpServerName, mcpClient);
+      mcpClient.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        refreshResources,
+      );
+      if (canSubscribe) {
+        mcpClient.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          refreshResources,
+        );
+        await subscribeToNewResources();
+      }
+    } catch (error) {
+      console.error(
+        `Failed to list resources of MCP server '${mcpServerName}': ${error}`,
+      );
+    }
   }
 
-  // If no tools were registered from this MCP server, the following 'if' block
-  // will close the connection. This is done to conserve resources and prevent
-  // an orphaned connection to a server that isn't providing any usable
-  // functionality. Connections to servers that did provide tools are kept
-  // open, as those tools will require the connection to function.
-  if (toolRegistry.getToolsByServer(mcpServerName).length === 0) {
-    console.log(
-      `No tools registered from MCP server '${mcpServerName}'. Closing connection.`,
-    );
-    if (
-      transport instanceof StdioClientTransport ||
-      transport instanceof SSEClientTransport ||
-      transport instanceof StreamableHTTPClientTransport
-    ) {
-      await transport.close();
-      // Update status to disconnected
-      updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+  if (capabilities?.prompts) {
+    try {
+      await listPrompts(mcpServerName, mcpClient);
+      mcpClient.setNotificationHandler(
+        PromptListChangedNotificationSchema,
+        () =>
+          listPrompts(mcpServerName, mcpClient)
+            .then(() => notifyFeaturesChanged(mcpServerName))
+            .catch((error) => {
+              console.error(
+                `Failed to refresh prompts of MCP server '${mcpServerName}': ${error}`,
+              );
+            }),
+      );
+    } catch (error) {
+      console.error(
+        `Failed to list prompts of MCP server '${mcpServerName}': ${error}`,
+      );
     }
   }
+
+  notifyFeaturesChanged(mcpServerName);
 }
 
 export function sanitizeParameters(schema?: Schema | Record<string, unknown>) {
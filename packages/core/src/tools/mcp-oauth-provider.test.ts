@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fetch } from 'undici';
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import {
+  authenticateMCPServer,
+  MCPOAuthCredentials,
+  MCPOAuthProvider,
+  MCPOAuthTokenStorage,
+} from './mcp-oauth-provider.js';
+
+/**
+ * Stand-in for an MCP server with its own authorization server, which
+ * registers clients, redirects straight back with a code and checks PKCE.
+ */
+function startAuthorizationServer(): Promise<http.Server> {
+  const challenges = new Map<string, string>();
+  const server = http.createServer(async (req, res) => {
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const url = new URL(req.url!, origin);
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const json = (status: number, value: unknown) =>
+      res
+        .writeHead(status, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(value));
+
+    if (url.pathname.startsWith('/.well-known/oauth-protected-resource')) {
+      json(200, {
+        resource: `${origin}/mcp`,
+        authorization_servers: [origin],
+      });
+    } else if (url.pathname === '/.well-known/oauth-authorization-server') {
+      json(200, {
+        issuer: origin,
+        authorization_endpoint: `${origin}/authorize`,
+        token_endpoint: `${origin}/token`,
+        registration_endpoint: `${origin}/register`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    } else if (url.pathname === '/register') {
+      json(201, { ...JSON.parse(body), client_id: 'registered-client' });
+    } else if (url.pathname === '/authorize') {
+      const code = crypto.randomUUID();
+      challenges.set(code, url.searchParams.get('code_challenge')!);
+      const redirect = new URL(url.searchParams.get('redirect_uri')!);
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', url.searchParams.get('state')!);
+      res.writeHead(302, { Location: redirect.href }).end();
+    } else if (url.pathname === '/token') {
+      const params = new URLSearchParams(body);
+      if (params.get('grant_type') === 'refresh_token') {
+        json(200, {
+          access_token: 'refreshed-token',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          refresh_token: params.get('refresh_token'),
+        });
+        return;
+      }
+      const challenge = crypto
+        .createHash('sha256')
+        .update(params.get('code_verifier') ?? '')
+        .digest('base64url');
+      if (challenges.get(params.get('code')!) !== challenge) {
+        json(400, { error: 'invalid_grant' });
+        return;
+      }
+      json(200, {
+        access_token: 'access-token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        refresh_token: 'refresh-token',
+      });
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(server)),
+  );
+}
+
+describe('MCP OAuth', () => {
+  let server: http.Server;
+  let serverUrl: string;
+  let stored: Map<string, MCPOAuthCredentials>;
+  let storage: MCPOAuthTokenStorage;
+
+  beforeEach(async () => {
+    // The test setup mocks fetch; these tests talk to a real local server.
+    vi.stubGlobal('fetch', fetch);
+    server = await startAuthorizationServer();
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+    stored = new Map();
+    storage = {
+      getCredentials: (name) => stored.get(name),
+      saveCredentials: (name, credentials) => stored.set(name, credentials),
+    };
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Follows the authorization redirect as a browser would.
+  async function signIn(authorizationUrl: URL): Promise<void> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    await fetch(response.headers.get('location')!);
+  }
+
+  it('should sign in with the authorization code flow and save the tokens', async () => {
+    await authenticateMCPServer('docs', serverUrl, undefined, storage, signIn);
+
+    const credentials = stored.get('docs')!;
+    expect(credentials.serverUrl).toBe(serverUrl);
+    expect(credentials.clientInformation?.client_id).toBe('registered-client');
+    expect(credentials.tokens?.access_token).toBe('access-token');
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should refresh saved tokens', async () => {
+    await authenticateMCPServer('docs', serverUrl, undefined, storage, signIn);
+    const provider = new MCPOAuthProvider('docs', serverUrl, storage);
+
+    expect(await auth(provider, { serverUrl })).toBe('AUTHORIZED');
+    expect((await provider.tokens())?.access_token).toBe('refreshed-token');
+  });
+
+  it('should refresh tokens that are about to expire before using them', async () => {
+    await authenticateMCPServer('docs', serverUrl, undefined, storage, signIn);
+    stored.set('docs', { ...stored.get('docs')!, expiresAt: Date.now() });
+    const provider = new MCPOAuthProvider('docs', serverUrl, storage);
+
+    expect((await provider.tokens())?.access_token).toBe('refreshed-token');
+    expect(stored.get('docs')!.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should keep the saved tokens when signing in again fails', async () => {
+    await authenticateMCPServer('docs', serverUrl, undefined, storage, signIn);
+    const saved = stored.get('docs')!.tokens;
+
+    await expect(
+      authenticateMCPServer('docs', serverUrl, undefined, storage, () =>
+        Promise.reject(new Error('Could not open the browser')),
+      ),
+    ).rejects.toThrow('Could not open the browser');
+
+    expect(stored.get('docs')!.tokens).toEqual(saved);
+    expect(
+      (await new MCPOAuthProvider('docs', serverUrl, storage).tokens())
+        ?.access_token,
+    ).toBe('access-token');
+  });
+
+  it('should ask to run /mcp auth instead of redirecting when not signed in', async () => {
+    const provider = new MCPOAuthProvider('docs', serverUrl, storage);
+
+    await expect(auth(provider, { serverUrl })).rejects.toThrow(
+      'Run /mcp auth docs to sign in.',
+    );
+  });
+
+  it('should ignore credentials saved for another server URL', async () => {
+    stored.set('docs', {
+      serverUrl: 'https://old.example.com/mcp',
+      tokens: { access_token: 'old', token_type: 'Bearer' },
+    });
+
+    expect(
+      await new MCPOAuthProvider('docs', serverUrl, storage).tokens(),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import {
+  auth,
+  OAuthClientProvider,
+  UnauthorizedError,
+} from '@modelcontextprotocol/sdk/client/auth.js';
+import {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { MCPOAuthConfig } from '../config/config.js';
+
+/**
+ * The authorization server redirects to a local server on this port. The
+ * port is fixed, as dynamically registered clients are registered with
+ * their redirect URL.
+ */
+export const MCP_OAUTH_REDIRECT_PORT = 7777;
+const REDIRECT_PATH = '/oauth/callback';
+const REDIRECT_URL = `http://127.0.0.1:${MCP_OAUTH_REDIRECT_PORT}${REDIRECT_PATH}`;
+
+/** Time to wait for the user to sign in */
+const AUTHORIZATION_TIMEOUT_MSEC = 5 * 60 * 1000;
+
+/** Access tokens are refreshed this long before they expire */
+const TOKEN_REFRESH_MARGIN_MSEC = 60 * 1000;
+
+/**
+ * OAuth credentials for an MCP server
+ */
+export interface MCPOAuthCredentials {
+  /** URL of the MCP server the credentials are for */
+  serverUrl: string;
+  /** Client registered with the authorization server */
+  clientInformation?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  /** When the access token expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * Persistent storage for OAuth credentials, by MCP server name
+ */
+export interface MCPOAuthTokenStorage {
+  getCredentials(serverName: string): MCPOAuthCredentials | undefined;
+  saveCredentials(serverName: string, credentials: MCPOAuthCredentials): void;
+}
+
+/**
+ * OAuth client for an MCP server, used by the SSE and Streamable HTTP
+ * transports to authorize their requests and to refresh expired tokens.
+ * Without `onRedirect`, the user can't be sent to sign in, so requests that
+ * need it fail until they run `/mcp auth`.
+ */
+export class MCPOAuthProvider implements OAuthClientProvider {
+  private readonly expectedState = crypto.randomBytes(16).toString('hex');
+  private savedCodeVerifier?: string;
+  private signingIn = false;
+  private refreshing = false;
+
+  constructor(
+    private readonly serverName: string,
+    private readonly serverUrl: string,
+    private readonly storage: MCPOAuthTokenStorage,
+    private readonly oauthConfig: MCPOAuthConfig = {},
+    private readonly onRedirect?: (authorizationUrl: URL) => Promise<void>,
+  ) {}
+
+  get redirectUrl(): string {
+    return REDIRECT_URL;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'Enfiy Code',
+      redirect_uris: [REDIRECT_URL],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: this.oauthConfig.clientSecret
+        ? 'client_secret_post'
+        : 'none',
+      scope: this.oauthConfig.scopes?.join(' '),
+    };
+  }
+
+  state(): string {
+    return this.expectedState;
+  }
+
+  private credentials(): MCPOAuthCredentials {
+    const credentials = this.storage.getCredentials(this.serverName);
+    // Credentials for another URL are of no use if the server has moved.
+    return credentials?.serverUrl === this.serverUrl
+      ? credentials
+      : { serverUrl: this.serverUrl };
+  }
+
+  private saveCredentials(changes: Partial<MCPOAuthCredentials>): void {
+    this.storage.saveCredentials(this.serverName, {
+      ...this.credentials(),
+      ...changes,
+    });
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    if (this.oauthConfig.clientId) {
+      return {
+        client_id: this.oauthConfig.clientId,
+        client_secret: this.oauthConfig.clientSecret,
+      };
+    }
+    return this.credentials().clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    this.saveCredentials({ clientInformation });
+  }
+
+  /**
+   * Has the provider ignore the stored tokens until new ones are saved, so
+   * that signing in again doesn't just refresh them. The stored tokens are
+   * kept in case signing in fails.
+   */
+  startSignIn(): void {
+    this.signingIn = true;
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    if (this.signingIn) {
+      return undefined;
+    }
+    const { tokens, expiresAt } = this.credentials();
+    if (
+      this.refreshing ||
+      !tokens?.refresh_token ||
+      expiresAt === undefined ||
+      Date.now() < expiresAt - TOKEN_REFRESH_MARGIN_MSEC
+    ) {
+      return tokens;
+    }
+    // Refresh before the server refuses the token. auth() reads the tokens
+    // too, and gets the stored ones while this is set.
+    this.refreshing = true;
+    try {
+      await auth(this, {
+        serverUrl: this.serverUrl,
+        scope: this.oauthConfig.scopes?.join(' '),
+      });
+    } catch {
+      // The server refuses the expired token, and the transport authorizes
+      // again.
+    } finally {
+      this.refreshing = false;
+    }
+    return this.credentials().tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.signingIn = false;
+    this.saveCredentials({
+      tokens,
+      expiresAt:
+        tokens.expires_in !== undefined
+          ? Date.now() + tokens.expires_in * 1000
+          : undefined,
+    });
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (!this.onRedirect) {
+      throw new UnauthorizedError(
+        `MCP server '${this.serverName}' requires authentication. Run /mcp auth ${this.serverName} to sign in.`,
+      );
+    }
+    await this.onRedirect(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.savedCodeVerifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    if (!this.savedCodeVerifier) {
+      throw new Error('No code verifier saved for this authorization.');
+    }
+    return this.savedCodeVerifier;
+  }
+
+  invalidateCredentials(
+    scope: 'all' | 'client' | 'tokens' | 'verifier' | 'discovery',
+  ): void {
+    if (scope === 'verifier') {
+      this.savedCodeVerifier = undefined;
+    } else if (scope === 'all') {
+      this.storage.saveCredentials(this.serverName, {
+        serverUrl: this.serverUrl,
+      });
+    } else if (scope === 'client') {
+      this.saveCredentials({ clientInformation: undefined });
+    } else if (scope === 'tokens') {
+      this.saveCredentials({ tokens: undefined, expiresAt: undefined });
+    }
+  }
+}
+
+interface AuthorizationCallback {
+  code: Promise<string>;
+  close: () => void;
+}
+
+/**
+ * Starts the local server the authorization server redirects to, which
+ * resolves `code` with the authorization code it is given.
+ */
+function listenForAuthorizationCode(
+  expectedState: string,
+): Promise<AuthorizationCallback> {
+  let resolveCode!: (code: string) => void;
+  let rejectCode!: (error: Error) => void;
+  const code = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve;
+    rejectCode = reject;
+  });
+  // Failures are reported when the code is awaited.
+  code.catch(() => {});
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', REDIRECT_URL);
+    if (url.pathname !== REDIRECT_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    const error = url.searchParams.get('error');
+    const receivedCode = url.searchParams.get('code');
+    let message: string;
+    if (url.searchParams.get('state') !== expectedState) {
+      message = 'Authorization failed: the state does not match.';
+      rejectCode(new Error(message));
+    } else if (error || !receivedCode) {
+      message = `Authorization failed: ${url.searchParams.get('error_description') ?? error ?? 'no authorization code received'}.`;
+      rejectCode(new Error(message));
+    } else {
+      message = 'Signed in. You can close this window.';
+      resolveCode(receivedCode);
+    }
+    res
+      .writeHead(receivedCode && !error ? 200 : 400, {
+        'Content-Type': 'text/plain',
+      })
+      .end(message);
+  });
+
+  const timer = setTimeout(
+    () => rejectCode(new Error('Timed out waiting for authorization.')),
+    AUTHORIZATION_TIMEOUT_MSEC,
+  );
+
+  return new Promise((resolve, reject) => {
+    server.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    server.listen(MCP_OAUTH_REDIRECT_PORT, '127.0.0.1', () =>
+      resolve({
+        code,
+        close: () => {
+          clearTimeout(timer);
+          server.close();
+        },
+      }),
+    );
+  });
+}
+
+/**
+ * Signs in to an MCP server with the OAuth 2.1 authorization code flow with
+ * PKCE. The authorization server and client registration are discovered as
+ * the MCP specification describes; `openUrl` sends the user to sign in, and
+ * the tokens are saved to `storage`.
+ */
+export async function authenticateMCPServer(
+  serverName: string,
+  serverUrl: string,
+  oauthConfig: MCPOAuthConfig | undefined,
+  storage: MCPOAuthTokenStorage,
+  openUrl: (authorizationUrl: URL) => Promise<void>,
+): Promise<void> {
+  const provider = new MCPOAuthProvider(
+    serverName,
+    serverUrl,
+    storage,
+    oauthConfig,
+    openUrl,
+  );
+  // Sign in again rather than refreshing the tokens there are.
+  provider.startSignIn();
+
+  const callback = await listenForAuthorizationCode(provider.state());
+  try {
+    const scope = oauthConfig?.scopes?.join(' ');
+    const result = await auth(provider, { serverUrl, scope });
+    if (result === 'REDIRECT') {
+      await auth(provider, {
+        serverUrl,
+        scope,
+        authorizationCode: await callback.code,
+      });
+    }
+  } finally {
+    callback.close();
+  }
+}
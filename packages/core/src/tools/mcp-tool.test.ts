@@ -43,8 +43,6 @@ describe('DiscoveredMCPTool', () => {
   beforeEach(() => {
     mockCallTool.mockClear();
     mockToolMethod.mockClear();
-    // Clear allowlist before each relevant test, especially for shouldConfirmExecute
-    (DiscoveredMCPTool as any).allowlist.clear();
   });
 
   afterEach(() => {
@@ -173,8 +171,6 @@ describe('DiscoveredMCPTool', () => {
   });
 
   describe('shouldConfirmExecute', () => {
-    // beforeEach is already clearing allowlist
-
     it('should return false if trust is true', async () => {
       const tool = new DiscoveredMCPTool(
         mockCallableToolInstance,
@@ -191,38 +187,7 @@ describe('DiscoveredMCPTool', () => {
       ).toBe(false);
     });
 
-    it('should return false if server is allowlisted', async () => {
-      (DiscoveredMCPTool as any).allowlist.add(serverName);
-      const tool = new DiscoveredMCPTool(
-        mockCallableToolInstance,
-        serverName,
-        toolNameForModel,
-        baseDescription,
-        inputSchema,
-        serverToolName,
-      );
-      expect(
-        await tool.shouldConfirmExecute({}, new AbortController().signal),
-      ).toBe(false);
-    });
-
-    it('should return false if tool is allowlisted', async () => {
-      const toolAllowlistKey = `${serverName}.${serverToolName}`;
-      (DiscoveredMCPTool as any).allowlist.add(toolAllowlistKey);
-      const tool = new DiscoveredMCPTool(
-        mockCallableToolInstance,
-        serverName,
-        toolNameForModel,
-        baseDescription,
-        inputSchema,
-        serverToolName,
-      );
-      expect(
-        await tool.shouldConfirmExecute({}, new AbortController().signal),
-      ).toBe(false);
-    });
-
-    it('should return confirmation details if not trusted and not allowlisted', async () => {
+    it('should return confirmation details if not trusted', async () => {
       const tool = new DiscoveredMCPTool(
         mockCallableToolInstance,
         serverName,
@@ -253,7 +218,9 @@ describe('DiscoveredMCPTool', () => {
       }
     });
 
-    it('should add server to allowlist on ProceedAlwaysServer', async () => {
+    it('should keep asking after an always-allow choice', async () => {
+      // The scheduler records the choice as a permission policy rule, so
+      // that revoking the rule brings the prompt back.
       const tool = new DiscoveredMCPTool(
         mockCallableToolInstance,
         serverName,
@@ -266,54 +233,14 @@ describe('DiscoveredMCPTool', () => {
         {},
         new AbortController().signal,
       );
-      expect(confirmation).not.toBe(false);
-      if (
-        confirmation &&
-        typeof confirmation === 'object' &&
-        'onConfirm' in confirmation &&
-        typeof confirmation.onConfirm === 'function'
-      ) {
-        await confirmation.onConfirm(
-          ToolConfirmationOutcome.ProceedAlwaysServer,
-        );
-        expect((DiscoveredMCPTool as any).allowlist.has(serverName)).toBe(true);
-      } else {
-        throw new Error(
-          'Confirmation details or onConfirm not in expected format',
-        );
+      if (!confirmation) {
+        throw new Error('Expected confirmation details');
       }
-    });
+      await confirmation.onConfirm(ToolConfirmationOutcome.ProceedAlwaysServer);
 
-    it('should add tool to allowlist on ProceedAlwaysTool', async () => {
-      const tool = new DiscoveredMCPTool(
-        mockCallableToolInstance,
-        serverName,
-        toolNameForModel,
-        baseDescription,
-        inputSchema,
-        serverToolName,
-      );
-      const toolAllowlistKey = `${serverName}.${serverToolName}`;
-      const confirmation = await tool.shouldConfirmExecute(
-        {},
-        new AbortController().signal,
-      );
-      expect(confirmation).not.toBe(false);
-      if (
-        confirmation &&
-        typeof confirmation === 'object' &&
-        'onConfirm' in confirmation &&
-        typeof confirmation.onConfirm === 'function'
-      ) {
-        await confirmation.onConfirm(ToolConfirmationOutcome.ProceedAlwaysTool);
-        expect((DiscoveredMCPTool as any).allowlist.has(toolAllowlistKey)).toBe(
-          true,
-        );
-      } else {
-        throw new Error(
-          'Confirmation details or onConfirm not in expected format',
-        );
-      }
+      expect(
+        await tool.shouldConfirmExecute({}, new AbortController().signal),
+      ).not.toBe(false);
     });
   });
 });
@@ -11,7 +11,6 @@ import {
   BaseTool,
   ToolResult,
   ToolCallConfirmationDetails,
-  ToolConfirmationOutcome,
   ToolMcpConfirmationDetails,
 } from './tools.js';
 import { CallableTool, Part, FunctionCall } from '@google/genai';
@@ -19,8 +18,6 @@ import { CallableTool, Part, FunctionCall } from '@google/genai';
 type ToolParams = Record<string, unknown>;
 
 export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
-  private static readonly allowlist: Set<string> = new Set();
-
   constructor(
     private readonly mcpTool: CallableTool,
     readonly serverName: string,
@@ -45,33 +42,19 @@ export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
     _params: ToolParams,
     _abortSignal: AbortSignal,
   ): Promise<ToolCallConfirmationDetails | false> {
-    const serverAllowListKey = this.serverName;
-    const toolAllowListKey = `${this.serverName}.${this.serverToolName}`;
-
     if (this.trust) {
       return false; // server is trusted, no confirmation needed
     }
 
-    if (
-      DiscoveredMCPTool.allowlist.has(serverAllowListKey) ||
-      DiscoveredMCPTool.allowlist.has(toolAllowListKey)
-    ) {
-      return false; // server and/or tool already allow listed
-    }
-
+    // Servers and tools allowed for the session are rules of the permission
+    // policy, which the scheduler consults before asking.
     const confirmationDetails: ToolMcpConfirmationDetails = {
       type: 'mcp',
       title: 'Confirm MCP Tool Execution',
       serverName: this.serverName,
       toolName: this.serverToolName, // Display original tool name in confirmation
       toolDisplayName: this.name, // Display global registry name exposed to model and user
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlwaysServer) {
-          DiscoveredMCPTool.allowlist.add(serverAllowListKey);
-        } else if (outcome === ToolConfirmationOutcome.ProceedAlwaysTool) {
-          DiscoveredMCPTool.allowlist.add(toolAllowListKey);
-        }
-      },
+      onConfirm: async () => {},
     };
     return confirmationDetails;
   }
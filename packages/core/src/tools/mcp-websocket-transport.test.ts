@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocketClientTransport } from './mcp-websocket-transport.js';
+
+describe('WebSocketClientTransport', () => {
+  let server: WebSocketServer;
+  let url: URL;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = new URL(`ws://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function nextConnection(): Promise<WebSocket> {
+    return new Promise((resolve) => server.once('connection', resolve));
+  }
+
+  it('should exchange JSON-RPC messages using the mcp subprotocol', async () => {
+    const connection = nextConnection();
+    const transport = new WebSocketClientTransport(url);
+    const onmessage = vi.fn();
+    transport.onmessage = onmessage;
+    await transport.start();
+    const socket = await connection;
+    expect(socket.protocol).toBe('mcp');
+
+    const received = new Promise((resolve) =>
+      socket.once('message', (data) => resolve(JSON.parse(data.toString()))),
+    );
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    expect(await received).toEqual({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    const delivered = new Promise((resolve) =>
+      onmessage.mockImplementation(resolve),
+    );
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }));
+    expect(await delivered).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+
+    await transport.close();
+  });
+
+  it('should report invalid messages as errors', async () => {
+    const connection = nextConnection();
+    const transport = new WebSocketClientTransport(url);
+    const errored = new Promise((resolve) => (transport.onerror = resolve));
+    transport.onmessage = vi.fn();
+    await transport.start();
+    (await connection).send('not json');
+
+    expect(await errored).toBeInstanceOf(Error);
+    expect(transport.onmessage).not.toHaveBeenCalled();
+    await transport.close();
+  });
+
+  it('should be startable again after the connection closes', async () => {
+    const connection = nextConnection();
+    const transport = new WebSocketClientTransport(url);
+    const closed = new Promise<void>(
+      (resolve) => (transport.onclose = resolve),
+    );
+    await transport.start();
+    (await connection).close();
+    await closed;
+
+    await expect(
+      transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    ).rejects.toThrow('Not connected');
+
+    const reconnection = nextConnection();
+    await transport.start();
+    await reconnection;
+    await transport.close();
+  });
+
+  it('should reject start if the server cannot be reached', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    const transport = new WebSocketClientTransport(url);
+    transport.onerror = vi.fn();
+
+    await expect(transport.start()).rejects.toThrow();
+    server = new WebSocketServer({ noServer: true });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import WebSocket from 'ws';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const SUBPROTOCOL = 'mcp';
+
+export interface WebSocketClientTransportOptions {
+  /** Time to wait for the opening handshake, in milliseconds. */
+  handshakeTimeout?: number;
+  /** Headers to send with the opening handshake. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Client transport for MCP servers that speak WebSocket. Unlike the one in
+ * the MCP SDK, it does not rely on a global WebSocket, which Node.js 20 does
+ * not have.
+ */
+export class WebSocketClientTransport implements Transport {
+  private socket?: WebSocket;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private readonly url: URL,
+    private readonly options: WebSocketClientTransportOptions = {},
+  ) {}
+
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error(
+        'WebSocketClientTransport already started! If using Client class, note that connect() calls start() automatically.',
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, SUBPROTOCOL, {
+        handshakeTimeout: this.options.handshakeTimeout,
+        headers: this.options.headers,
+      });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        resolve();
+      });
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(error);
+        }
+        this.onerror?.(error);
+      });
+      socket.on('close', () => {
+        this.socket = undefined;
+        this.onclose?.();
+      });
+      socket.on('message', (data) => {
+        let message: JSONRPCMessage;
+        try {
+          message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return;
+        }
+        this.onmessage?.(message);
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket?.close();
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        reject(new Error('Not connected'));
+        return;
+      }
+      this.socket.send(JSON.stringify(message), (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+}
@@ -28,6 +28,8 @@ const mockProcessSingleFileContent = fileUtils.processSingleFileContent as Mock;
 describe('ReadFileTool', () => {
   let tempRootDir: string;
   let tool: ReadFileTool;
+  let selectedProvider: string | undefined;
+  let model: string;
   const abortSignal = new AbortController().signal;
 
   beforeEach(() => {
@@ -40,8 +42,12 @@ describe('ReadFileTool', () => {
       ['foo.*'].join('\n'),
     );
     const fileService = new FileDiscoveryService(tempRootDir);
+    selectedProvider = undefined;
+    model = 'gemini-2.5-pro';
     const mockConfigInstance = {
       getFileService: () => fileService,
+      getSelectedProvider: () => selectedProvider,
+      getModel: () => model,
     } as unknown as Config;
     tool = new ReadFileTool(tempRootDir, mockConfigInstance);
     mockProcessSingleFileContent.mockReset();
@@ -226,6 +232,26 @@ describe('ReadFileTool', () => {
       );
     });
 
+    it('should not pass an image to a model without vision support', async () => {
+      selectedProvider = 'openai';
+      model = 'gpt-3.5-turbo';
+      const filePath = path.join(tempRootDir, 'image.png');
+      mockProcessSingleFileContent.mockResolvedValue({
+        llmContent: { inlineData: { mimeType: 'image/png', data: 'abc' } },
+        returnDisplay: 'Read image file: image.png',
+      });
+
+      const result = await tool.execute(
+        { absolute_path: filePath },
+        abortSignal,
+      );
+      expect(typeof result.llmContent).toBe('string');
+      expect(result.llmContent).toContain(
+        'the current model (gpt-3.5-turbo) does not accept image/png',
+      );
+      expect(result.returnDisplay).toContain('Skipped image.png');
+    });
+
     it('should pass offset and limit to processSingleFileContent', async () => {
       const filePath = path.join(tempRootDir, 'paginated.txt');
       const params: ReadFileToolParams = {
@@ -14,6 +14,7 @@ import { BaseTool, ToolResult } from './tools.js';
 import { isWithinRoot, processSingleFileContent } from '../utils/fileUtils.js';
 import { Config } from '../config/config.js';
 import { getSpecificMimeType } from '../utils/fileUtils.js';
+import { getUnsupportedMediaReason } from '../utils/mediaSupport.js';
 import {
   recordFileOperationMetric,
   FileOperation,
@@ -44,6 +45,7 @@ export interface ReadFileToolParams {
  */
 export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
   static readonly Name: string = 'read_file';
+  readonly isReadOnly = true;
 
   constructor(
     private rootDirectory: string,
@@ -155,11 +157,29 @@ export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
       };
     }
 
+    const mimetype = getSpecificMimeType(params.absolute_path);
+    if (typeof result.llmContent !== 'string') {
+      // Images and PDFs: only send them if the active model can read them
+      const unsupportedReason = getUnsupportedMediaReason(
+        this.config,
+        mimetype ?? 'application/octet-stream',
+      );
+      if (unsupportedReason) {
+        const relativePath = makeRelative(
+          params.absolute_path,
+          this.rootDirectory,
+        );
+        return {
+          llmContent: `Cannot read ${relativePath}: ${unsupportedReason}. Tell the user to switch to a model that supports this file type if its contents are needed.`,
+          returnDisplay: `Skipped ${shortenPath(relativePath)}: ${unsupportedReason}`,
+        };
+      }
+    }
+
     const lines =
       typeof result.llmContent === 'string'
         ? result.llmContent.split('\n').length
         : undefined;
-    const mimetype = getSpecificMimeType(params.absolute_path);
     recordFileOperationMetric(
       this.config,
       FileOperation.READ,
@@ -20,6 +20,8 @@ describe('ReadManyFilesTool', () => {
   let tempRootDir: string;
   let tempDirOutsideRoot: string;
   let mockReadFileFn: Mock;
+  let selectedProvider: string | undefined;
+  let model: string;
 
   beforeEach(async () => {
     tempRootDir = fs.mkdtempSync(
@@ -30,9 +32,13 @@ describe('ReadManyFilesTool', () => {
     );
     fs.writeFileSync(path.join(tempRootDir, '.geminiignore'), 'foo.*');
     const fileService = new FileDiscoveryService(tempRootDir);
+    selectedProvider = undefined;
+    model = 'gemini-2.5-pro';
     const mockConfig = {
       getFileService: () => fileService,
       getFileFilteringRespectGitIgnore: () => true,
+      getSelectedProvider: () => selectedProvider,
+      getModel: () => model,
     } as Partial<Config> as Config;
 
     tool = new ReadManyFilesTool(tempRootDir, mockConfig);
@@ -363,6 +369,20 @@ describe('ReadManyFilesTool', () => {
       ]);
     });
 
+    it('should skip PDF files the current model cannot read', async () => {
+      selectedProvider = 'mistral';
+      model = 'mistral-large-latest';
+      createBinaryFile('report.pdf', Buffer.from('%PDF-1.4...'));
+      const params = { paths: ['*.pdf'] };
+      const result = await tool.execute(params, new AbortController().signal);
+      const content = result.llmContent as string[];
+      expect(content).toHaveLength(1);
+      expect(content[0]).toContain(
+        '[File not included: the current model (mistral-large-latest) does not accept PDF documents]',
+      );
+      expect(result.returnDisplay).toContain('Skipped 1 item(s)');
+    });
+
     it('should return error if path is ignored by a .geminiignore pattern', async () => {
       createFile('foo.bar', '');
       createFile('bar.ts', '');
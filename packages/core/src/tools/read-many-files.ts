@@ -21,6 +21,7 @@ import {
 } from '../utils/fileUtils.js';
 import { PartListUnion } from '@google/genai';
 import { Config } from '../config/config.js';
+import { getUnsupportedMediaReason } from '../utils/mediaSupport.js';
 import {
   recordFileOperationMetric,
   FileOperation,
@@ -127,6 +128,7 @@ export class ReadManyFilesTool extends BaseTool<
   ToolResult
 > {
   static readonly Name: string = 'read_many_files';
+  readonly isReadOnly = true;
   private readonly geminiIgnorePatterns: string[] = [];
 
   /**
@@ -404,6 +406,26 @@ Use this tool when the user's query implies needing the content of several files
           });
           continue;
         }
+
+        const unsupportedReason = getUnsupportedMediaReason(
+          this.config,
+          getSpecificMimeType(filePath) ?? 'application/octet-stream',
+        );
+        if (unsupportedReason) {
+          skippedFiles.push({
+            path: relativePathForDisplay,
+            reason: unsupportedReason,
+          });
+          // Tell the model as well, so it does not assume the file was empty.
+          const separator = DEFAULT_OUTPUT_SEPARATOR_FORMAT.replace(
+            '{filePath}',
+            relativePathForDisplay,
+          );
+          contentParts.push(
+            `${separator}\n\n[File not included: ${unsupportedReason}]\n\n`,
+          );
+          continue;
+        }
       }
 
       // Use processSingleFileContent for all file types now
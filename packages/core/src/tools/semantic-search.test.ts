@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SemanticSearchTool } from './semantic-search.js';
+import { Config } from '../config/config.js';
+import { SemanticIndexService } from '../services/semanticIndexService.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+
+const VOCABULARY = ['token', 'refresh', 'auth', 'render', 'button', 'color'];
+
+function fakeEmbed(texts: string[]): Promise<number[][]> {
+  return Promise.resolve(
+    texts.map((text) =>
+      VOCABULARY.map(
+        (word) => text.toLowerCase().split(word).length - 1 + 0.01,
+      ),
+    ),
+  );
+}
+
+describe('SemanticSearchTool', () => {
+  let rootDir: string;
+  let indexDir: string;
+  let embed: ReturnType<typeof vi.fn>;
+  let index: SemanticIndexService;
+  let tool: SemanticSearchTool;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-search-root-'));
+    indexDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-search-'));
+    embed = vi.fn(fakeEmbed);
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'auth.ts'),
+      'export function refreshAuthToken() {\n  // refresh the auth token\n}\n',
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'button.tsx'),
+      'export function renderButton() {\n  // render button color\n}\n',
+    );
+
+    index = new SemanticIndexService({
+      rootDir,
+      indexDir,
+      fileService: new FileDiscoveryService(rootDir),
+      embeddingModel: 'nomic-embed-text',
+      embed: embed as (texts: string[]) => Promise<number[][]>,
+    });
+    tool = new SemanticSearchTool({
+      getTargetDir: () => rootDir,
+      getSemanticIndexService: () => index,
+    } as unknown as Config);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    await fs.rm(indexDir, { recursive: true, force: true });
+  });
+
+  it('should not build the index itself', async () => {
+    const result = await tool.execute({ query: 'auth token' }, abortSignal);
+
+    expect(result.llmContent).toContain('/index build');
+    expect(embed).not.toHaveBeenCalled();
+    expect((await index.getStatus()).exists).toBe(false);
+  });
+
+  it('should search an index the user has built', async () => {
+    await index.update();
+
+    const result = await tool.execute(
+      { query: 'auth token refresh', limit: 1 },
+      abortSignal,
+    );
+
+    expect(result.llmContent).toContain(
+      `${path.join(rootDir, 'src', 'auth.ts')}:1-4 (refreshAuthToken)`,
+    );
+    expect(result.llmContent).toContain('// refresh the auth token');
+    expect(result.returnDisplay).toBe('Found 1 relevant code chunk(s)');
+  });
+
+  it('should embed only files changed since the index was built', async () => {
+    await index.update();
+    embed.mockClear();
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'button.tsx'),
+      'export function renderButton() {\n  // render a red button\n}\n',
+    );
+
+    await tool.execute({ query: 'button' }, abortSignal);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[0][0]).toEqual([
+      expect.stringContaining('render a red button'),
+    ]);
+  });
+
+  it('should reject paths outside the project', () => {
+    expect(
+      tool.validateToolParams({ query: 'auth', path: '/elsewhere' }),
+    ).toContain('resolves outside the project root');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { BaseTool, ToolResult } from './tools.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+
+const DEFAULT_RESULT_LIMIT = 8;
+const MAX_RESULT_LIMIT = 30;
+// Enough to show a function signature and its body without flooding context.
+const MAX_SNIPPET_LINES = 40;
+
+/**
+ * Parameters for the SemanticSearchTool
+ */
+export interface SemanticSearchToolParams {
+  /**
+   * Natural-language description of the code to find
+   */
+  query: string;
+
+  /**
+   * Maximum number of results (optional, defaults to 8)
+   */
+  limit?: number;
+
+  /**
+   * Directory to restrict the search to (optional)
+   */
+  path?: string;
+}
+
+/**
+ * Finds code by meaning using the workspace embedding index.
+ */
+export class SemanticSearchTool extends BaseTool<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  static readonly Name = 'semantic_search';
+  readonly isReadOnly = true;
+
+  constructor(private config: Config) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      'Searches the codebase by meaning rather than exact text, using an embedding index of the workspace. Use it for conceptual questions such as "where is auth token refresh handled" when the exact identifiers are unknown; use grep for exact strings. Returns the most relevant code chunks with file paths and line ranges.',
+      {
+        properties: {
+          query: {
+            description:
+              'A natural-language description of the code to find, e.g. "retry logic for failed HTTP requests".',
+            type: 'string',
+          },
+          limit: {
+            description: `Optional: Maximum number of results to return. Defaults to ${DEFAULT_RESULT_LIMIT}, at most ${MAX_RESULT_LIMIT}.`,
+            type: 'number',
+          },
+          path: {
+            description:
+              'Optional: The absolute path of a directory to restrict the search to. If omitted, searches the whole project.',
+            type: 'string',
+          },
+        },
+        required: ['query'],
+        type: 'object',
+      },
+    );
+  }
+
+  validateToolParams(params: SemanticSearchToolParams): string | null {
+    if (
+      this.schema.parameters &&
+      !SchemaValidator.validate(
+        this.schema.parameters as Record<string, unknown>,
+        params,
+      )
+    ) {
+      return "Parameters failed schema validation. Ensure 'query' is a string, 'limit' (if provided) is a number and 'path' (if provided) is a string.";
+    }
+    if (!params.query || params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (
+      params.limit !== undefined &&
+      (params.limit < 1 || params.limit > MAX_RESULT_LIMIT)
+    ) {
+      return `The 'limit' parameter must be between 1 and ${MAX_RESULT_LIMIT}.`;
+    }
+    if (params.path) {
+      const searchPath = path.resolve(this.config.getTargetDir(), params.path);
+      if (!isWithinRoot(searchPath, this.config.getTargetDir())) {
+        return `Search path ("${searchPath}") resolves outside the project root ("${this.config.getTargetDir()}").`;
+      }
+    }
+    return null;
+  }
+
+  getDescription(params: SemanticSearchToolParams): string {
+    return params.path
+      ? `"${params.query}" within ${params.path}`
+      : `"${params.query}"`;
+  }
+
+  async execute(
+    params: SemanticSearchToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: validationError,
+      };
+    }
+
+    const rootDir = this.config.getTargetDir();
+    const index = this.config.getSemanticIndexService();
+    try {
+      // Building the index sends the whole workspace to the embedding model,
+      // so only the user starts it.
+      if (!(await index.getStatus()).exists) {
+        return {
+          llmContent:
+            'There is no semantic index for this project yet. Ask the user to run /index build to create it, and use grep or glob in the meantime.',
+          returnDisplay: 'No semantic index; run /index build to create it',
+        };
+      }
+      // Picks up files edited since the last search; unchanged files are not
+      // re-embedded.
+      await index.update({ signal });
+      const results = await index.search(params.query, {
+        limit: params.limit ?? DEFAULT_RESULT_LIMIT,
+        pathPrefix: params.path
+          ? path.relative(rootDir, path.resolve(rootDir, params.path))
+          : undefined,
+      });
+
+      if (results.length === 0) {
+        return {
+          llmContent: `No indexed code matched "${params.query}".`,
+          returnDisplay: 'No matches found',
+        };
+      }
+
+      const sections: string[] = [];
+      for (const result of results) {
+        const absolutePath = path.join(rootDir, result.filePath);
+        const header = `${absolutePath}:${result.startLine}-${result.endLine}${result.symbol ? ` (${result.symbol})` : ''} [score ${result.score.toFixed(3)}]`;
+        sections.push(
+          `${header}\n${await readSnippet(absolutePath, result.startLine, result.endLine)}`,
+        );
+      }
+
+      return {
+        llmContent: `Found ${results.length} code chunk(s) relevant to "${params.query}", most relevant first:\n\n${sections.join('\n---\n')}`,
+        returnDisplay: `Found ${results.length} relevant code chunk(s)`,
+      };
+    } catch (error) {
+      if (signal.aborted) {
+        return {
+          llmContent: 'Semantic search was cancelled.',
+          returnDisplay: 'Cancelled',
+        };
+      }
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error during semantic search: ${errorMessage}. Semantic search needs a working embedding model (see the embeddingModel setting); use grep or glob instead.`,
+        returnDisplay: `Error: ${errorMessage}`,
+      };
+    }
+  }
+}
+
+async function readSnippet(
+  filePath: string,
+  startLine: number,
+  endLine: number,
+): Promise<string> {
+  try {
+    const lines = (await fs.readFile(filePath, 'utf-8'))
+      .split(/\r?\n/)
+      .slice(startLine - 1, endLine);
+    const snippet = lines.slice(0, MAX_SNIPPET_LINES).join('\n');
+    return lines.length > MAX_SNIPPET_LINES
+      ? `${snippet}\n... (${lines.length - MAX_SNIPPET_LINES} more lines)`
+      : snippet;
+  } catch {
+    return '(file no longer readable)';
+  }
+}
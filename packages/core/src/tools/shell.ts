@@ -17,10 +17,14 @@ import {
   ToolResult,
   ToolCallConfirmationDetails,
   ToolExecuteConfirmationDetails,
-  ToolConfirmationOutcome,
 } from './tools.js';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
+import {
+  analyzeShellCommand,
+  ShellCommandAnalysis,
+  ShellParseError,
+} from '../utils/shellParser.js';
 import stripAnsi from 'strip-ansi';
 
 export interface ShellToolParams {
@@ -34,7 +38,6 @@ const OUTPUT_UPDATE_INTERVAL_MS = 1000;
 
 export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
   static Name: string = 'run_shell_command';
-  private whitelist: Set<string> = new Set();
 
   constructor(private readonly config: Config) {
     const toolDisplayName = 'Shell';
@@ -94,6 +97,21 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
       .pop(); // take last part and return command root (or undefined if previous line was empty)
   }
 
+  /**
+   * Parses the command into the programs it runs, or returns undefined when
+   * it uses syntax the parser does not understand.
+   */
+  analyzeCommand(command: string): ShellCommandAnalysis | undefined {
+    try {
+      return analyzeShellCommand(command);
+    } catch (error) {
+      if (error instanceof ShellParseError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
   validateToolParams(params: ShellToolParams): string | null {
     if (
       !SchemaValidator.validate(
@@ -131,20 +149,20 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
     if (this.validateToolParams(params)) {
       return false; // skip confirmation, execute call will fail immediately
     }
-    const rootCommand = this.getCommandRoot(params.command)!; // must be non-empty string post-validation
-    if (this.whitelist.has(rootCommand)) {
-      return false; // already approved and whitelisted
-    }
+    const breakdown = this.analyzeCommand(params.command);
+    // Approvals are rules of the permission policy, which the scheduler
+    // consults before asking, so reaching this point always asks.
+    const rootCommands = breakdown?.roots.length
+      ? breakdown.roots
+      : [this.getCommandRoot(params.command)!]; // must be non-empty string post-validation
     const confirmationDetails: ToolExecuteConfirmationDetails = {
       type: 'exec',
       title: 'Confirm Shell Command',
       command: params.command,
-      rootCommand,
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          this.whitelist.add(rootCommand);
-        }
-      },
+      rootCommand: rootCommands.join(', '),
+      rootCommands,
+      breakdown,
+      onConfirm: async () => {},
     };
     return confirmationDetails;
   }
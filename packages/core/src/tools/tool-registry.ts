@@ -229,6 +229,15 @@ export class ToolRegistry {
     return serverTools;
   }
 
+  /**
+   * Removes the tools registered from a specific MCP server.
+   */
+  removeToolsByServer(serverName: string): void {
+    for (const tool of this.getToolsByServer(serverName)) {
+      this.tools.delete(tool.name);
+    }
+  }
+
   /**
    * Get the definition of a specific tool.
    */
@@ -8,6 +8,7 @@
  * Modified and extended by Hayate Esaki (2025)
  */
 import { FunctionDeclaration, PartListUnion, Schema } from '@google/genai';
+import { ShellCommandAnalysis } from '../utils/shellParser.js';
 
 /**
  * Interface representing the base Tool functionality
@@ -46,6 +47,12 @@ export interface Tool<
    */
   canUpdateOutput: boolean;
 
+  /**
+   * Whether the tool only reads files or the web and never changes the
+   * workspace. Calls to read-only tools may run concurrently.
+   */
+  isReadOnly: boolean;
+
   /**
    * Validates the parameters for the tool
    * Should be called from both `shouldConfirmExecute` and `execute`
@@ -63,6 +70,14 @@ export interface Tool<
    */
   getDescription(params: TParams): string;
 
+  /**
+   * Gets the absolute paths a call would modify. Mutating calls on the same
+   * path run one after another; an empty list means the call may modify
+   * anything and runs on its own.
+   * @param params Parameters for the tool execution
+   */
+  getModifiedPaths(params: TParams): string[];
+
   /**
    * Determines if the tool should prompt for confirmation before execution
    * @param params Parameters for the tool execution
@@ -111,6 +126,11 @@ export abstract class BaseTool<
     readonly canUpdateOutput: boolean = false,
   ) {}
 
+  /**
+   * Whether the tool only reads the workspace; mutating by default
+   */
+  readonly isReadOnly: boolean = false;
+
   /**
    * Function declaration schema computed from name, description, and parameterSchema
    */
@@ -147,6 +167,17 @@ export abstract class BaseTool<
     return JSON.stringify(params);
   }
 
+  /**
+   * Gets the absolute paths a call would modify
+   * Default implementation that should be overridden by tools editing files
+   * @param params Parameters for the tool execution
+   * @returns The modified paths, or an empty list if they are unknown
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getModifiedPaths(params: TParams): string[] {
+    return [];
+  }
+
   /**
    * Determines if the tool should prompt for confirmation before execution
    * @param params Parameters for the tool execution
@@ -215,6 +246,10 @@ export interface ToolExecuteConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
   command: string;
   rootCommand: string;
+  /** Every distinct executable the command runs. */
+  rootCommands: string[];
+  /** The parsed command, or undefined if it could not be parsed. */
+  breakdown?: ShellCommandAnalysis;
 }
 
 export interface ToolMcpConfirmationDetails {
@@ -65,6 +65,7 @@ export class WebSearchTool extends BaseTool<
   WebSearchToolResult
 > {
   static readonly Name: string = 'google_web_search';
+  readonly isReadOnly = true;
 
   constructor(private readonly config: Config) {
     super(
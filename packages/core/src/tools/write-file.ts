@@ -104,6 +104,10 @@ export class WriteFileTool
     );
   }
 
+  getModifiedPaths(params: WriteFileToolParams): string[] {
+    return [path.resolve(this.config.getTargetDir(), params.file_path)];
+  }
+
   validateToolParams(params: WriteFileToolParams): string | null {
     if (
       this.schema.parameters &&
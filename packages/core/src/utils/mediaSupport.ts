@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+import { Config } from '../config/config.js';
+import { getProviderFromModel } from '../config/models.js';
+import { ProviderFactory } from '../providers/provider-factory.js';
+import { ProviderType } from '../providers/types.js';
+import { PDF_MIME_TYPE } from '../providers/multimodal.js';
+
+/**
+ * Resolves the provider that will serve requests, mirroring the routing in
+ * `createContentGenerator`: an explicitly selected provider wins, otherwise
+ * the provider is inferred from the model name.
+ */
+export function getActiveProviderType(
+  config: Config,
+): ProviderType | undefined {
+  const providerTypes = Object.values(ProviderType) as string[];
+  const selectedProvider = config.getSelectedProvider();
+  if (selectedProvider && providerTypes.includes(selectedProvider)) {
+    return selectedProvider as ProviderType;
+  }
+  const inferred = getProviderFromModel(config.getModel());
+  return providerTypes.includes(inferred)
+    ? (inferred as ProviderType)
+    : undefined;
+}
+
+/**
+ * Checks whether the active model can read inline media of `mimeType`.
+ * Returns a user-facing reason when it cannot, `undefined` otherwise.
+ */
+export function getUnsupportedMediaReason(
+  config: Config,
+  mimeType: string,
+): string | undefined {
+  const providerType = getActiveProviderType(config);
+  const model = config.getModel();
+  if (
+    !providerType ||
+    ProviderFactory.supportsMediaType(providerType, model, mimeType)
+  ) {
+    return undefined;
+  }
+  const kind = mimeType === PDF_MIME_TYPE ? 'PDF documents' : mimeType;
+  return `the current model (${model}) does not accept ${kind}`;
+}
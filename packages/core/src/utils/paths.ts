@@ -13,6 +13,7 @@ import * as crypto from 'crypto';
 
 export const GEMINI_DIR = '.gemini';
 const TMP_DIR_NAME = 'tmp';
+const USAGE_DIR_NAME = 'usage';
 
 /**
  * Replaces the home directory with a tilde.
@@ -163,3 +164,11 @@ export function getProjectTempDir(projectRoot: string): string {
   const hash = getProjectHash(projectRoot);
   return path.join(os.homedir(), GEMINI_DIR, TMP_DIR_NAME, hash);
 }
+
+/**
+ * Returns the directory holding the usage ledger, which is shared by all
+ * projects so budgets can cover total spend.
+ */
+export function getUsageLedgerDir(): string {
+  return path.join(os.homedir(), GEMINI_DIR, USAGE_DIR_NAME);
+}
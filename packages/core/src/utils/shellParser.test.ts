@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeShellCommand,
+  parseShellCommand,
+  ShellParseError,
+  ShellSimpleCommand,
+} from './shellParser.js';
+
+function texts(command: string) {
+  return analyzeShellCommand(command).commands.map((part) => part.text);
+}
+
+describe('parseShellCommand', () => {
+  it('should build lists of pipelines with their operators', () => {
+    const list = parseShellCommand(
+      'FOO=1 git status && echo "a && b" | wc -l; (cd src && make) &',
+    );
+
+    expect(list.items.map((item) => item.operator)).toEqual(['&&', ';', '&']);
+    const [first, second, third] = list.items.map((item) => item.pipeline);
+    expect(first.commands[0]).toMatchObject({
+      type: 'command',
+      assignments: ['FOO=1'],
+      name: { value: 'git' },
+      text: 'FOO=1 git status',
+    });
+    expect(second.commands).toHaveLength(2);
+    expect((second.commands[0] as ShellSimpleCommand).args[0].value).toBe(
+      'a && b',
+    );
+    expect(third.commands[0].type).toBe('subshell');
+  });
+
+  it('should parse redirections with their file descriptors', () => {
+    const [command] = parseShellCommand('make 2>&1 >>build.log <input').items[0]
+      .pipeline.commands as ShellSimpleCommand[];
+
+    expect(command.args).toEqual([]);
+    expect(command.redirections).toEqual([
+      { operator: '>&', fd: 2, target: '1' },
+      { operator: '>>', fd: undefined, target: 'build.log' },
+      { operator: '<', fd: undefined, target: 'input' },
+    ]);
+  });
+
+  it('should reject malformed and unsupported commands', () => {
+    for (const command of [
+      'echo "unterminated',
+      'echo $(ls',
+      'ls &&',
+      'case $x in a) ls;; esac',
+      'f() { ls; }',
+    ]) {
+      expect(() => parseShellCommand(command), command).toThrow(
+        ShellParseError,
+      );
+    }
+  });
+});
+
+describe('analyzeShellCommand', () => {
+  it('should list every executable of a chain', () => {
+    const analysis = analyzeShellCommand(
+      'git status && /bin/rm -rf build || git log | head -5',
+    );
+
+    expect(analysis.roots).toEqual(['git', 'rm', 'head']);
+    expect(analysis.commands[1]).toMatchObject({
+      root: 'rm',
+      args: ['-rf', 'build'],
+      substitution: false,
+    });
+  });
+
+  it('should find commands in substitutions, quotes and here-documents', () => {
+    expect(texts('echo "today is $(date +%F)" `whoami`')).toEqual([
+      'date +%F',
+      'whoami',
+      'echo "today is $(date +%F)" `whoami`',
+    ]);
+    expect(texts('diff <(sort a) <(sort b)')).toEqual([
+      'sort a',
+      'sort b',
+      'diff <(sort a) <(sort b)',
+    ]);
+    expect(texts('cat <<EOF\n$(rm -rf ~)\nEOF\nls')).toEqual([
+      'rm -rf ~',
+      'cat <<EOF',
+      'ls',
+    ]);
+    expect(texts("cat <<'EOF'\n$(rm -rf ~)\nEOF")).toEqual(["cat <<'EOF'"]);
+    expect(analyzeShellCommand('echo ${X:-$(id)}').roots).toEqual([
+      'id',
+      'echo',
+    ]);
+  });
+
+  it('should skip reserved words of compound commands', () => {
+    expect(
+      texts(
+        'for f in $(ls *.ts); do rm "$f"; done\nif [[ -f a && -f b ]]; then { echo ok; }; fi',
+      ),
+    ).toEqual(['ls *.ts', 'rm "$f"', '[[ -f a && -f b ]]', 'echo ok']);
+  });
+
+  it('should flag dynamic executables and writes through redirections', () => {
+    const analysis = analyzeShellCommand(
+      '$EDITOR notes.md > out.txt 2>/dev/null; (ls) >> log.txt; echo hi >&2',
+    );
+
+    expect(analysis.commands[0]).toMatchObject({
+      root: '$EDITOR',
+      dynamic: true,
+      writes: ['out.txt'],
+    });
+    expect(analysis.writes).toEqual(['out.txt', 'log.txt']);
+  });
+});
@@ -0,0 +1,762 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * Copyright 2025 Hayate Esaki
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Based on original work by Google LLC (2025)
+ * Modified and extended by Hayate Esaki (2025)
+ */
+
+/**
+ * A small parser for the subset of bash syntax that matters when deciding
+ * which programs a command line runs: lists (`&&`, `||`, `;`, `&`),
+ * pipelines, subshells, command and process substitution, redirections and
+ * here-documents. `case` statements and function definitions are not
+ * supported and raise a {@link ShellParseError}.
+ */
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+export interface ShellWord {
+  /** The word with quotes and escapes removed; expansions are kept as written. */
+  value: string;
+  /** The word as written in the command. */
+  raw: string;
+  /** Whether the word contains a parameter, arithmetic or command expansion. */
+  dynamic: boolean;
+}
+
+export interface ShellRedirection {
+  operator: string;
+  fd?: number;
+  target: string;
+}
+
+export interface ShellSimpleCommand {
+  type: 'command';
+  /** Source text of the command, without leading reserved words. */
+  text: string;
+  assignments: string[];
+  /** Missing for commands that only assign variables or redirect. */
+  name?: ShellWord;
+  args: ShellWord[];
+  redirections: ShellRedirection[];
+  /** Command and process substitutions in the words and redirections. */
+  substitutions: ShellList[];
+}
+
+export interface ShellSubshell {
+  type: 'subshell';
+  body: ShellList;
+  redirections: ShellRedirection[];
+  substitutions: ShellList[];
+}
+
+export type ShellCommandNode = ShellSimpleCommand | ShellSubshell;
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  commands: ShellCommandNode[];
+}
+
+export type ShellListOperator = '&&' | '||' | ';' | '&';
+
+export interface ShellList {
+  type: 'list';
+  items: Array<{ pipeline: ShellPipeline; operator?: ShellListOperator }>;
+}
+
+/**
+ * Reserved words that open, continue or close a compound command and may
+ * stand where a command starts.
+ */
+const KEYWORD_PATTERN =
+  /^(?:!|time|if|then|else|elif|while|until|do|done|fi|\{|\})(?=[\s;&|()<>]|$)/;
+/** Loops whose header lists words rather than a command. */
+const LOOP_KEYWORDS = new Set(['for', 'select']);
+const UNSUPPORTED_KEYWORDS = new Set(['case', 'function', 'coproc']);
+
+const METACHARACTERS = new Set([
+  ' ',
+  '\t',
+  '\n',
+  ';',
+  '&',
+  '|',
+  '(',
+  ')',
+  '<',
+  '>',
+]);
+const REDIRECTION_PATTERN = /^(\d+)?(&>>|<<<|<<-|&>|>>|>\||>&|<&|<>|<<|>|<)/;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/;
+
+interface WordToken extends ShellWord {
+  substitutions: ShellList[];
+}
+
+interface PendingHeredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  expand: boolean;
+  substitutions: ShellList[];
+}
+
+class ShellParser {
+  private pos = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(private readonly src: string) {}
+
+  parse(): ShellList {
+    const list = this.parseList(false);
+    if (this.pos < this.src.length) {
+      throw new ShellParseError(`Unexpected "${this.src[this.pos]}"`);
+    }
+    return list;
+  }
+
+  private parseList(insideParens: boolean): ShellList {
+    const list: ShellList = { type: 'list', items: [] };
+    for (;;) {
+      this.skipBlank(true);
+      if (this.atEnd() || (insideParens && this.peek() === ')')) {
+        return list;
+      }
+      const start = this.pos;
+      const pipeline = this.parsePipeline();
+      if (this.pos === start) {
+        throw new ShellParseError(`Unexpected "${this.peek()}"`);
+      }
+      const operator = this.readListOperator();
+      if (!isEmptyPipeline(pipeline)) {
+        list.items.push({ pipeline, operator });
+      }
+      if (!operator) {
+        return list;
+      }
+    }
+  }
+
+  private readListOperator(): ShellListOperator | undefined {
+    this.skipBlank(false);
+    if (this.startsWith('&&') || this.startsWith('||')) {
+      const operator = this.src.slice(this.pos, this.pos + 2) as '&&' | '||';
+      this.pos += 2;
+      this.skipBlank(true);
+      if (this.atEnd()) {
+        throw new ShellParseError(`Expected a command after "${operator}"`);
+      }
+      return operator;
+    }
+    if (this.startsWith(';;')) {
+      throw new ShellParseError('case statements are not supported');
+    }
+    if (
+      this.peek() === ';' ||
+      (this.peek() === '&' && !this.startsWith('&>'))
+    ) {
+      return this.src[this.pos++] as ';' | '&';
+    }
+    if (this.peek() === '\n') {
+      this.consumeNewline();
+      return ';';
+    }
+    return undefined;
+  }
+
+  private parsePipeline(): ShellPipeline {
+    const commands = [this.parseCommand()];
+    for (;;) {
+      this.skipBlank(false);
+      if (this.startsWith('||') || this.peek() !== '|') {
+        break;
+      }
+      this.pos += this.startsWith('|&') ? 2 : 1;
+      this.skipBlank(true);
+      commands.push(this.parseCommand());
+    }
+    return { type: 'pipeline', commands };
+  }
+
+  private parseCommand(): ShellCommandNode {
+    this.skipKeywords();
+    if (this.peek() === '(' && !this.startsWith('((')) {
+      this.pos++;
+      const body = this.parseList(true);
+      this.expect(')', 'Unterminated subshell');
+      const subshell: ShellSubshell = {
+        type: 'subshell',
+        body,
+        redirections: [],
+        substitutions: [],
+      };
+      this.parseRedirections(subshell);
+      return subshell;
+    }
+    return this.parseSimpleCommand();
+  }
+
+  /**
+   * Skips reserved words such as `if`, `then`, `do` or `fi` that open or
+   * close compound commands, so that what follows is read as a command.
+   */
+  private skipKeywords(): void {
+    for (;;) {
+      this.skipBlank(false);
+      const keyword = KEYWORD_PATTERN.exec(this.src.slice(this.pos));
+      if (!keyword) {
+        return;
+      }
+      this.pos += keyword[0].length;
+      this.skipBlank(true);
+    }
+  }
+
+  private parseSimpleCommand(): ShellSimpleCommand {
+    const command: ShellSimpleCommand = {
+      type: 'command',
+      text: '',
+      assignments: [],
+      args: [],
+      redirections: [],
+      substitutions: [],
+    };
+    const textStart = this.pos;
+    let textEnd = this.pos;
+    let loopHeader = false;
+
+    for (;;) {
+      this.skipBlank(false);
+      if (this.atEnd()) {
+        break;
+      }
+      if (command.name?.value === '[[') {
+        const closed = this.readConditionalPart(command);
+        textEnd = this.pos;
+        if (closed) {
+          break;
+        }
+        continue;
+      }
+      if (this.tryParseRedirection(command)) {
+        textEnd = this.pos;
+        continue;
+      }
+      if (
+        this.startsWith('((') &&
+        (loopHeader || this.isAtCommandStart(command))
+      ) {
+        // Arithmetic, either as a command or as a C-style for header.
+        this.readBalanced('(', ')');
+        textEnd = this.pos;
+        continue;
+      }
+      if (this.peek() === '(') {
+        throw new ShellParseError('Function definitions are not supported');
+      }
+      if (METACHARACTERS.has(this.peek()) && !this.atProcessSubstitution()) {
+        break;
+      }
+
+      const word = this.readWord();
+      command.substitutions.push(...word.substitutions);
+      textEnd = this.pos;
+      if (loopHeader) {
+        continue;
+      }
+      if (this.isAtCommandStart(command) && word.raw === word.value) {
+        if (LOOP_KEYWORDS.has(word.value)) {
+          loopHeader = true;
+          continue;
+        }
+        if (UNSUPPORTED_KEYWORDS.has(word.value)) {
+          throw new ShellParseError(`${word.value} is not supported`);
+        }
+      }
+      if (!command.name && ASSIGNMENT_PATTERN.test(word.raw)) {
+        command.assignments.push(word.raw);
+        continue;
+      }
+      const { substitutions: _substitutions, ...shellWord } = word;
+      if (command.name) {
+        command.args.push(shellWord);
+      } else {
+        command.name = shellWord;
+      }
+    }
+    command.text = this.src.slice(textStart, textEnd).trim();
+    return command;
+  }
+
+  private isAtCommandStart(command: ShellSimpleCommand): boolean {
+    return !command.name && command.assignments.length === 0;
+  }
+
+  private atProcessSubstitution(): boolean {
+    return this.startsWith('<(') || this.startsWith('>(');
+  }
+
+  /**
+   * Reads one operand of a `[[ ... ]]` test, where operators such as `&&`
+   * and `<` are part of the expression. Returns true at the closing `]]`.
+   */
+  private readConditionalPart(command: ShellSimpleCommand): boolean {
+    const operator = /^(&&|\|\||[()<>!])/.exec(this.src.slice(this.pos));
+    if (operator) {
+      this.pos += operator[0].length;
+      command.args.push({
+        value: operator[0],
+        raw: operator[0],
+        dynamic: false,
+      });
+      return false;
+    }
+    const word = this.readWord();
+    command.substitutions.push(...word.substitutions);
+    const { substitutions: _substitutions, ...shellWord } = word;
+    command.args.push(shellWord);
+    return word.raw === ']]';
+  }
+
+  private parseRedirections(subshell: ShellSubshell): void {
+    for (;;) {
+      this.skipBlank(false);
+      if (!this.tryParseRedirection(subshell)) {
+        return;
+      }
+    }
+  }
+
+  private tryParseRedirection(
+    command: Pick<ShellSimpleCommand, 'redirections' | 'substitutions'>,
+  ): boolean {
+    const match = REDIRECTION_PATTERN.exec(this.src.slice(this.pos));
+    if (!match) {
+      return false;
+    }
+    const [text, fd, operator] = match;
+    if (
+      (operator === '<' || operator === '>') &&
+      this.src[this.pos + text.length] === '('
+    ) {
+      // Process substitution, read as a word.
+      return false;
+    }
+    this.pos += text.length;
+    this.skipBlank(false);
+    if (this.atEnd() || METACHARACTERS.has(this.peek())) {
+      throw new ShellParseError(`Missing target for "${operator}"`);
+    }
+    const target = this.readWord();
+    command.substitutions.push(...target.substitutions);
+    command.redirections.push({
+      operator,
+      fd: fd === undefined ? undefined : Number(fd),
+      target: target.value,
+    });
+    if (operator === '<<' || operator === '<<-') {
+      this.pendingHeredocs.push({
+        delimiter: target.value,
+        stripTabs: operator === '<<-',
+        // Quoting any part of the delimiter disables expansion in the body.
+        expand: target.raw === target.value,
+        substitutions: command.substitutions,
+      });
+    }
+    return true;
+  }
+
+  private readWord(): WordToken {
+    const start = this.pos;
+    const word: WordToken = {
+      value: '',
+      raw: '',
+      dynamic: false,
+      substitutions: [],
+    };
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (this.atProcessSubstitution()) {
+        const expansionStart = this.pos;
+        this.pos += 2;
+        word.substitutions.push(this.parseSubstitution());
+        word.value += this.src.slice(expansionStart, this.pos);
+        word.dynamic = true;
+        continue;
+      }
+      if (METACHARACTERS.has(char)) {
+        break;
+      }
+      if (char === '\\') {
+        if (this.src[this.pos + 1] !== '\n') {
+          word.value += this.src[this.pos + 1] ?? '';
+        }
+        this.pos += 2;
+      } else if (char === "'") {
+        const end = this.src.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new ShellParseError('Unterminated single quote');
+        }
+        word.value += this.src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (char === '"') {
+        this.pos++;
+        this.readDoubleQuoted(word);
+      } else if (char === '$' && this.src[this.pos + 1] === "'") {
+        this.readAnsiCString(word);
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        word.value += char;
+        this.pos++;
+      }
+    }
+    word.raw = this.src.slice(start, this.pos);
+    return word;
+  }
+
+  private readDoubleQuoted(word: WordToken): void {
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === '"') {
+        this.pos++;
+        return;
+      }
+      if (char === '\\' && '$`"\\\n'.includes(this.src[this.pos + 1] ?? '')) {
+        if (this.src[this.pos + 1] !== '\n') {
+          word.value += this.src[this.pos + 1];
+        }
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        word.value += char;
+        this.pos++;
+      }
+    }
+    throw new ShellParseError('Unterminated double quote');
+  }
+
+  private readAnsiCString(word: WordToken): void {
+    const start = this.pos;
+    this.pos += 2;
+    while (!this.atEnd() && this.peek() !== "'") {
+      this.pos += this.peek() === '\\' ? 2 : 1;
+    }
+    if (this.atEnd()) {
+      throw new ShellParseError('Unterminated single quote');
+    }
+    this.pos++;
+    word.value += this.src.slice(start, this.pos);
+  }
+
+  /**
+   * Reads a `$` or backtick expansion at the current position, appending it
+   * as written to the word and collecting any command substitutions.
+   */
+  private readExpansion(word: WordToken): void {
+    const start = this.pos;
+    const next = this.src[this.pos + 1] ?? '';
+    if (this.peek() === '`') {
+      word.substitutions.push(this.readBackticks());
+    } else if (this.startsWith('$((')) {
+      this.pos++;
+      this.readBalanced('(', ')');
+    } else if (next === '(') {
+      this.pos += 2;
+      word.substitutions.push(this.parseSubstitution());
+    } else if (next === '{') {
+      this.pos += 2;
+      this.readParameterExpansion(word);
+    } else if (/[A-Za-z_]/.test(next)) {
+      this.pos++;
+      while (/[A-Za-z0-9_]/.test(this.src[this.pos] ?? '')) {
+        this.pos++;
+      }
+    } else if (next !== '' && '@*#?$!-0123456789'.includes(next)) {
+      this.pos += 2;
+    } else {
+      // A lone `$` is literal.
+      word.value += '$';
+      this.pos++;
+      return;
+    }
+    word.value += this.src.slice(start, this.pos);
+    word.dynamic = true;
+  }
+
+  private readParameterExpansion(word: WordToken): void {
+    let depth = 1;
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === '\\') {
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        // Expansions nested in defaults such as ${x:-$(cmd)}.
+        const nested: WordToken = {
+          value: '',
+          raw: '',
+          dynamic: false,
+          substitutions: [],
+        };
+        this.readExpansion(nested);
+        word.substitutions.push(...nested.substitutions);
+      } else {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        this.pos++;
+        if (depth === 0) {
+          return;
+        }
+      }
+    }
+    throw new ShellParseError('Unterminated parameter expansion');
+  }
+
+  private parseSubstitution(): ShellList {
+    const body = this.parseList(true);
+    this.expect(')', 'Unterminated command substitution');
+    return body;
+  }
+
+  private readBackticks(): ShellList {
+    this.pos++;
+    let inner = '';
+    while (!this.atEnd() && this.peek() !== '`') {
+      if (
+        this.peek() === '\\' &&
+        '$`\\'.includes(this.src[this.pos + 1] ?? '')
+      ) {
+        inner += this.src[this.pos + 1];
+        this.pos += 2;
+      } else {
+        inner += this.src[this.pos++];
+      }
+    }
+    if (this.atEnd()) {
+      throw new ShellParseError('Unterminated backquote');
+    }
+    this.pos++;
+    return new ShellParser(inner).parse();
+  }
+
+  /**
+   * Skips a balanced `(...)` group such as an arithmetic expression, whose
+   * contents are not commands.
+   */
+  private readBalanced(open: string, close: string): void {
+    let depth = 0;
+    while (!this.atEnd()) {
+      const char = this.src[this.pos++];
+      if (char === open) depth++;
+      if (char === close && --depth === 0) {
+        return;
+      }
+    }
+    throw new ShellParseError(`Unterminated "${open}"`);
+  }
+
+  /**
+   * Skips spaces, tabs, line continuations and comments, and newlines too
+   * when `newlines` is set.
+   */
+  private skipBlank(newlines: boolean): void {
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === ' ' || char === '\t') {
+        this.pos++;
+      } else if (this.startsWith('\\\n')) {
+        this.pos += 2;
+      } else if (char === '#') {
+        while (!this.atEnd() && this.peek() !== '\n') {
+          this.pos++;
+        }
+      } else if (char === '\n' && newlines) {
+        this.consumeNewline();
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Consumes a newline, followed by the bodies of any here-documents
+   * started on the line that ends.
+   */
+  private consumeNewline(): void {
+    this.pos++;
+    const heredocs = this.pendingHeredocs;
+    this.pendingHeredocs = [];
+    for (const heredoc of heredocs) {
+      let body = '';
+      while (!this.atEnd()) {
+        let end = this.src.indexOf('\n', this.pos);
+        if (end === -1) end = this.src.length;
+        const line = this.src.slice(this.pos, end);
+        this.pos = Math.min(end + 1, this.src.length);
+        const compared = heredoc.stripTabs ? line.replace(/^\t+/, '') : line;
+        if (compared === heredoc.delimiter) {
+          break;
+        }
+        body += line + '\n';
+      }
+      if (heredoc.expand) {
+        heredoc.substitutions.push(...new ShellParser(body).readHeredocBody());
+      }
+    }
+  }
+
+  private readHeredocBody(): ShellList[] {
+    const word: WordToken = {
+      value: '',
+      raw: '',
+      dynamic: false,
+      substitutions: [],
+    };
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === '\\') {
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        this.readExpansion(word);
+      } else {
+        this.pos++;
+      }
+    }
+    return word.substitutions;
+  }
+
+  private expect(char: string, message: string): void {
+    this.skipBlank(true);
+    if (this.peek() !== char) {
+      throw new ShellParseError(message);
+    }
+    this.pos++;
+  }
+
+  private peek(): string {
+    return this.src[this.pos];
+  }
+
+  private startsWith(text: string): boolean {
+    return this.src.startsWith(text, this.pos);
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+}
+
+function isEmptyPipeline(pipeline: ShellPipeline): boolean {
+  return pipeline.commands.every(
+    (command) =>
+      command.type === 'command' &&
+      !command.name &&
+      command.assignments.length === 0 &&
+      command.redirections.length === 0 &&
+      command.substitutions.length === 0,
+  );
+}
+
+/**
+ * Parses a command line into its lists, pipelines and commands.
+ * @throws {ShellParseError} if the command is malformed or uses
+ * unsupported syntax.
+ */
+export function parseShellCommand(command: string): ShellList {
+  return new ShellParser(command).parse();
+}
+
+/** One program run by a command line. */
+export interface ShellCommandPart {
+  /** Name of the executable without its directory, e.g. `git`. */
+  root: string;
+  /** The arguments, with quotes removed. */
+  args: string[];
+  /** Source text of the command. */
+  text: string;
+  /** The executable comes from an expansion such as `$EDITOR`. */
+  dynamic: boolean;
+  /** Runs inside a command or process substitution. */
+  substitution: boolean;
+  /** Files the command writes through redirections. */
+  writes: string[];
+}
+
+export interface ShellCommandAnalysis {
+  /** Every program run, in the order the shell starts them. */
+  commands: ShellCommandPart[];
+  /** Distinct executables. */
+  roots: string[];
+  /** Every file written through a redirection. */
+  writes: string[];
+}
+
+const WRITE_OPERATORS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&']);
+const HARMLESS_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr']);
+
+function getWrittenFiles(redirections: ShellRedirection[]): string[] {
+  return redirections
+    .filter(
+      (redirection) =>
+        WRITE_OPERATORS.has(redirection.operator) &&
+        !HARMLESS_TARGETS.has(redirection.target) &&
+        // `>&2` and `>&-` duplicate or close descriptors.
+        !(
+          redirection.operator === '>&' && /^(\d+|-)$/.test(redirection.target)
+        ),
+    )
+    .map((redirection) => redirection.target);
+}
+
+/**
+ * Lists the programs a command line runs, including those in subshells and
+ * substitutions, and the files it writes through redirections.
+ * @throws {ShellParseError} if the command cannot be parsed.
+ */
+export function analyzeShellCommand(command: string): ShellCommandAnalysis {
+  const analysis: ShellCommandAnalysis = {
+    commands: [],
+    roots: [],
+    writes: [],
+  };
+
+  const visitList = (list: ShellList, substitution: boolean) => {
+    for (const { pipeline } of list.items) {
+      for (const node of pipeline.commands) {
+        for (const nested of node.substitutions) {
+          visitList(nested, true);
+        }
+        const writes = getWrittenFiles(node.redirections);
+        analysis.writes.push(...writes);
+        if (node.type === 'subshell') {
+          visitList(node.body, substitution);
+        } else if (node.name) {
+          const root = node.name.dynamic
+            ? node.name.raw
+            : node.name.value.split(/[/\\]/).pop() || node.name.raw;
+          analysis.commands.push({
+            root,
+            args: node.args.map((arg) => arg.value),
+            text: node.text,
+            dynamic: node.name.dynamic,
+            substitution,
+            writes,
+          });
+        }
+      }
+    }
+  };
+
+  visitList(parseShellCommand(command), false);
+  analysis.roots = [...new Set(analysis.commands.map((part) => part.root))];
+  analysis.writes = [...new Set(analysis.writes)];
+  return analysis;
+}